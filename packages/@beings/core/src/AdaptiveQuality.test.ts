@@ -0,0 +1,68 @@
+import { describe, test, expect } from 'vitest';
+import { AdaptiveQualityController, getQualityLevelSettings, QUALITY_LEVELS } from './AdaptiveQuality';
+
+/**
+ * Report one frame every 33ms for `durationMs` and collect level changes
+ */
+const run = (controller: AdaptiveQualityController, from: number, durationMs: number, pressure: 'high' | 'clear' | 'between') => {
+  const changes: Array<{ at: number; level: number }> = [];
+  for (let now = from; now < from + durationMs; now += 33) {
+    const level = controller.update(pressure === 'high', pressure === 'clear', now);
+    if (level !== null) {
+      changes.push({ at: now, level });
+    }
+  }
+  return changes;
+};
+
+describe('AdaptiveQuality', () => {
+  test('should ignore pressure spikes shorter than the step-down delay', () => {
+    const controller = new AdaptiveQualityController();
+
+    expect(run(controller, 0, 2000, 'high')).toEqual([]);
+    expect(run(controller, 2000, 500, 'between')).toEqual([]);
+    expect(run(controller, 2500, 2000, 'high')).toEqual([]);
+    expect(controller.level).toBe(0);
+  });
+
+  test('should step down through bitrate, then resolution, under sustained pressure', () => {
+    const controller = new AdaptiveQualityController();
+    const changes = run(controller, 0, 60_000, 'high');
+
+    expect(changes.map(change => change.level)).toEqual([1, 2, 3, 4]);
+    expect(changes[0].at).toBeGreaterThanOrEqual(3000);
+    // Each further step needs another full period of pressure
+    expect(changes[1].at - changes[0].at).toBeGreaterThanOrEqual(3000);
+    expect(QUALITY_LEVELS[2].resolutionScale).toBe(1);
+    expect(QUALITY_LEVELS[3].resolutionScale).toBeLessThan(1);
+  });
+
+  test('should step back up once pressure has cleared', () => {
+    const controller = new AdaptiveQualityController({ stepUpAfterMs: 10_000 });
+    run(controller, 0, 7000, 'high');
+    expect(controller.level).toBe(2);
+
+    const changes = run(controller, 7000, 25_000, 'clear');
+    expect(changes.map(change => change.level)).toEqual([1, 0]);
+    expect(changes[0].at - 7000).toBeGreaterThanOrEqual(10_000);
+  });
+
+  test('should only adapt bitrate when resolution changes are not allowed', () => {
+    const withoutResolution = new AdaptiveQualityController({}, false);
+    expect(run(withoutResolution, 0, 60_000, 'high').map(change => change.level)).toEqual([1, 2]);
+
+    const disabledByConfig = new AdaptiveQualityController({ resolution: false });
+    expect(run(disabledByConfig, 0, 60_000, 'high').map(change => change.level)).toEqual([1, 2]);
+  });
+
+  test('getQualityLevelSettings() should scale bitrate and keep dimensions even', () => {
+    const base = { width: 1920, height: 1080, bitrate: 4_000_000 };
+
+    expect(getQualityLevelSettings(0, base)).toEqual(base);
+    expect(getQualityLevelSettings(2, base)).toEqual({ width: 1920, height: 1080, bitrate: 2_000_000 });
+    expect(getQualityLevelSettings(3, base)).toEqual({ width: 1440, height: 810, bitrate: 1_600_000 });
+    expect(getQualityLevelSettings(4, { width: 854, height: 480, bitrate: 1_000_000 })).toEqual({ width: 428, height: 240, bitrate: 250_000 });
+    // Never below 320x180
+    expect(getQualityLevelSettings(4, { width: 640, height: 360, bitrate: 800_000 })).toMatchObject({ width: 320, height: 180 });
+  });
+});
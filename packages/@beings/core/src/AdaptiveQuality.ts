@@ -0,0 +1,126 @@
+/**
+ * Adaptive Quality
+ *
+ * Steps the video encoder down when the encode queue stays backed up, and
+ * back up once it has stayed clear. Short spikes are still absorbed by
+ * dropping frames in the video worker; the controller only reacts to pressure
+ * that lasts. Levels reduce bitrate first and resolution after that.
+ *
+ * The controller only decides. The video worker applies a level by
+ * reconfiguring its encoder and forcing a keyframe on the next frame.
+ */
+
+import type { AdaptiveQualityConfig } from './types';
+
+/**
+ * Encoder settings for one quality level, relative to the configured ones
+ */
+export interface QualityLevel {
+  bitrateScale: number;
+  resolutionScale: number;
+}
+
+/** Quality levels from as-configured down; bitrate goes first, then resolution */
+export const QUALITY_LEVELS: readonly QualityLevel[] = [
+  { bitrateScale: 1, resolutionScale: 1 },
+  { bitrateScale: 0.75, resolutionScale: 1 },
+  { bitrateScale: 0.5, resolutionScale: 1 },
+  { bitrateScale: 0.4, resolutionScale: 0.75 },
+  { bitrateScale: 0.25, resolutionScale: 0.5 }
+];
+
+const DEFAULT_STEP_DOWN_AFTER_MS = 3000;
+const DEFAULT_STEP_UP_AFTER_MS = 15000;
+
+/** Minimum time between two changes, so the encoder can settle */
+const CHANGE_COOLDOWN_MS = 2000;
+
+/** Smallest dimensions a resolution step may produce */
+const MIN_WIDTH = 320;
+const MIN_HEIGHT = 180;
+
+/**
+ * Encoder dimensions and bitrate for a quality level
+ *
+ * Dimensions are kept even, as the encoders require, and not reduced below 320x180.
+ */
+export function getQualityLevelSettings(
+  level: number,
+  base: { width: number; height: number; bitrate: number }
+): { width: number; height: number; bitrate: number } {
+  const { bitrateScale, resolutionScale } = QUALITY_LEVELS[level];
+  const scale = Math.max(resolutionScale, MIN_WIDTH / base.width, MIN_HEIGHT / base.height);
+  const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+  return {
+    width: scale >= 1 ? base.width : even(base.width * scale),
+    height: scale >= 1 ? base.height : even(base.height * scale),
+    bitrate: Math.round(base.bitrate * bitrateScale)
+  };
+}
+
+/**
+ * Decides quality level changes from sustained encoder pressure
+ */
+export class AdaptiveQualityController {
+  #stepDownAfterMs: number;
+  #stepUpAfterMs: number;
+  #maxLevel: number;
+  #level = 0;
+  #highSince: number | null = null;
+  #clearSince: number | null = null;
+  #lastChangeAt = -Infinity;
+
+  /**
+   * @param config - Thresholds from `SlowTrackRecorderConfig.adaptiveQuality`
+   * @param allowResolutionChange - Whether levels that reduce resolution may be used
+   */
+  constructor(config: AdaptiveQualityConfig = {}, allowResolutionChange = true) {
+    this.#stepDownAfterMs = config.stepDownAfterMs ?? DEFAULT_STEP_DOWN_AFTER_MS;
+    this.#stepUpAfterMs = config.stepUpAfterMs ?? DEFAULT_STEP_UP_AFTER_MS;
+
+    const levels = allowResolutionChange && config.resolution !== false
+      ? QUALITY_LEVELS
+      : QUALITY_LEVELS.filter(level => level.resolutionScale === 1);
+    this.#maxLevel = levels.length - 1;
+  }
+
+  /** Current quality level (0 = as configured) */
+  get level(): number {
+    return this.#level;
+  }
+
+  /**
+   * Report the pressure seen for one frame
+   *
+   * @param isHigh - The encode queue is over its high-water mark
+   * @param isClear - The encode queue is at or under its low-water mark
+   * @param now - Current time in ms
+   * @returns The new level when it changes, otherwise null
+   */
+  update(isHigh: boolean, isClear: boolean, now: number): number | null {
+    this.#highSince = isHigh ? this.#highSince ?? now : null;
+    this.#clearSince = isClear ? this.#clearSince ?? now : null;
+
+    if (now - this.#lastChangeAt < CHANGE_COOLDOWN_MS) {
+      return null;
+    }
+
+    if (this.#highSince !== null && now - this.#highSince >= this.#stepDownAfterMs && this.#level < this.#maxLevel) {
+      return this.#changeLevel(this.#level + 1, now);
+    }
+    if (this.#clearSince !== null && now - this.#clearSince >= this.#stepUpAfterMs && this.#level > 0) {
+      return this.#changeLevel(this.#level - 1, now);
+    }
+    return null;
+  }
+
+  #changeLevel(level: number, now: number): number {
+    this.#level = level;
+    this.#lastChangeAt = now;
+    // Pressure has to last through a whole new period before the next step
+    this.#highSince = null;
+    this.#clearSince = null;
+    return level;
+  }
+}
@@ -0,0 +1,139 @@
+// @vitest-environment node
+import { describe, test, expect } from 'vitest';
+import { muxOggOpus, muxFlac, OGG_MIME_TYPE, FLAC_MIME_TYPE } from './AudioFileMuxer';
+import { createMockChunk } from './test-utils';
+
+const text = (bytes: Uint8Array, offset: number, length: number) => String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+/** Bitwise reference of the Ogg CRC (polynomial 0x04C11DB7, unreflected) */
+const referenceCrc = (bytes: Uint8Array) => {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte << 24;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04C11DB7 : crc << 1;
+    }
+  }
+  return crc >>> 0;
+};
+
+interface OggPage {
+  flags: number;
+  granulePosition: number;
+  serial: number;
+  sequence: number;
+  lacing: number[];
+  body: Uint8Array;
+  isCrcValid: boolean;
+}
+
+const readOggPages = (bytes: Uint8Array): OggPage[] => {
+  const pages: OggPage[] = [];
+  for (let offset = 0; offset < bytes.length;) {
+    expect(text(bytes, offset, 4)).toBe('OggS');
+    const view = new DataView(bytes.buffer, bytes.byteOffset + offset);
+    const lacing = Array.from(bytes.subarray(offset + 27, offset + 27 + bytes[offset + 26]));
+    const headerSize = 27 + lacing.length;
+    const bodySize = lacing.reduce((total, value) => total + value, 0);
+    const page = bytes.slice(offset, offset + headerSize + bodySize);
+    const crc = view.getUint32(22, true);
+    page.fill(0, 22, 26);
+
+    pages.push({
+      flags: bytes[offset + 5],
+      granulePosition: view.getUint32(6, true) + view.getUint32(10, true) * 2 ** 32,
+      serial: view.getUint32(14, true),
+      sequence: view.getUint32(18, true),
+      lacing,
+      body: bytes.subarray(offset + headerSize, offset + headerSize + bodySize),
+      isCrcValid: referenceCrc(page) === crc
+    });
+    offset += headerSize + bodySize;
+  }
+  return pages;
+};
+
+describe('muxOggOpus()', () => {
+  test('should write the Opus headers and packets as Ogg pages', async () => {
+    const chunks = [
+      createMockChunk('key', 40_000, 20_000, { byteLength: 100 }),
+      createMockChunk('key', 60_000, 20_000, { byteLength: 600 }),
+      createMockChunk('key', 80_000, 20_000, { byteLength: 255 })
+    ].map(chunk => ({ chunk }));
+    const written: Array<[number, number]> = [];
+
+    const output = muxOggOpus({ sampleRate: 48000, numberOfChannels: 2 }, chunks, (data, position) => written.push([position, data.byteLength]));
+    expect(output.blob.type).toBe(OGG_MIME_TYPE);
+    expect(output.timelineStart).toBe(40_000);
+
+    const bytes = new Uint8Array(await output.blob.arrayBuffer());
+    const [head, tags, audio, ...rest] = readOggPages(bytes);
+    expect(rest).toEqual([]);
+
+    expect(text(head.body, 0, 8)).toBe('OpusHead');
+    expect(head.body[9]).toBe(2);
+    expect(head.flags).toBe(0x02);
+    expect(text(tags.body, 0, 8)).toBe('OpusTags');
+    expect(tags.flags).toBe(0);
+
+    // Packets of 255 bytes or more span several lacing values
+    expect(audio.lacing).toEqual([100, 255, 255, 90, 255, 0]);
+    expect(audio.granulePosition).toBe(3 * 960);
+    expect(audio.flags).toBe(0x04);
+
+    expect([head, tags, audio].map(page => page.sequence)).toEqual([0, 1, 2]);
+    expect(new Set([head, tags, audio].map(page => page.serial)).size).toBe(1);
+    expect([head, tags, audio].every(page => page.isCrcValid)).toBe(true);
+
+    // Observed output covers the file in order
+    let end = 0;
+    for (const [position, size] of written) {
+      expect(position).toBe(end);
+      end += size;
+    }
+    expect(end).toBe(bytes.length);
+  });
+
+  test('should keep pages within 255 lacing values and about a second of audio', async () => {
+    const chunks = Array.from({ length: 200 }, (_, i) => ({ chunk: createMockChunk('key', i * 20_000, 20_000, { byteLength: 20 }) }));
+    const output = muxOggOpus({ sampleRate: 48000, numberOfChannels: 1 }, chunks);
+
+    const audioPages = readOggPages(new Uint8Array(await output.blob.arrayBuffer())).slice(2);
+    expect(audioPages.map(page => page.lacing.length)).toEqual([50, 50, 50, 50]);
+    expect(audioPages.map(page => page.granulePosition)).toEqual([48000, 96000, 144000, 192000]);
+    expect(audioPages.map(page => page.flags)).toEqual([0, 0, 0, 0x04]);
+  });
+});
+
+describe('muxFlac()', () => {
+  // STREAMINFO metadata block (last block), as an encoder description without the marker
+  const createStreamInfo = () => {
+    const block = new Uint8Array(4 + 34);
+    block[0] = 0x80;
+    block[3] = 34;
+    return block;
+  };
+
+  test('should write the stream header and fill in the total sample count', async () => {
+    const chunks = [
+      { chunk: createMockChunk('key', 10_000, 500_000, { byteLength: 4, fill: 7 }), metadata: { decoderConfig: { codec: 'flac', sampleRate: 48000, numberOfChannels: 2, description: createStreamInfo() } } },
+      { chunk: createMockChunk('key', 510_000, 500_000, { byteLength: 4, fill: 8 }) }
+    ];
+
+    const output = muxFlac({ sampleRate: 48000, numberOfChannels: 2 }, chunks);
+    expect(output.blob.type).toBe(FLAC_MIME_TYPE);
+    expect(output.timelineStart).toBe(10_000);
+
+    const bytes = new Uint8Array(await output.blob.arrayBuffer());
+    expect(text(bytes, 0, 4)).toBe('fLaC');
+    expect(bytes.length).toBe(4 + 38 + 8);
+    const view = new DataView(bytes.buffer);
+    expect((bytes[8 + 13] & 0x0F) * 2 ** 32 + view.getUint32(8 + 14)).toBe(48000);
+    expect(Array.from(bytes.subarray(42))).toEqual([7, 7, 7, 7, 8, 8, 8, 8]);
+  });
+
+  test('should fail without a stream header from the encoder', () => {
+    expect(() => muxFlac({ sampleRate: 48000, numberOfChannels: 2 }, [{ chunk: createMockChunk('key', 0, 20_000, { byteLength: 4 }) }]))
+      .toThrow('FLAC encoder gave no stream header to write');
+  });
+});
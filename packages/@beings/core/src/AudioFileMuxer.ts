@@ -0,0 +1,250 @@
+/**
+ * Audio File Muxer
+ *
+ * Writes audio-only recordings in the two formats the container muxers cannot:
+ * Ogg Opus (RFC 7845) and native FLAC. Both take the audio worker's encoded
+ * chunks as they are. Audio-only .m4a and .webm go through ContainerMuxer.
+ */
+
+import { createOpusHead } from './MatroskaMuxer';
+
+/**
+ * An encoded audio chunk and the metadata it came with
+ */
+export interface AudioFileInputChunk {
+  chunk: EncodedAudioChunk;
+  metadata?: EncodedAudioChunkMetadata;
+}
+
+/**
+ * The audio track being written
+ */
+export interface AudioFileTrackOptions {
+  sampleRate: number;
+  numberOfChannels: number;
+}
+
+/**
+ * Output of `muxOggOpus()` and `muxFlac()`
+ */
+export interface AudioFileOutput {
+  blob: Blob;
+  /** Source timestamp (µs) of the first chunk, or null without chunks */
+  timelineStart: number | null;
+}
+
+export const OGG_MIME_TYPE = 'audio/ogg';
+export const FLAC_MIME_TYPE = 'audio/flac';
+
+/** Largest page body aimed for; a page also ends after a second of audio */
+const OGG_PAGE_TARGET_BYTES = 4096;
+const OGG_PAGE_MAX_SAMPLES = 48000;
+/** Opus granule positions count 48 kHz samples, whatever the input rate */
+const OPUS_GRANULE_RATE = 48000;
+/** Opus packets are 20ms unless the chunk says otherwise */
+const DEFAULT_OPUS_PACKET_SAMPLES = 960;
+
+const textEncoder = new TextEncoder();
+
+function toBytes(source: AllowSharedBufferSource): Uint8Array {
+  return ArrayBuffer.isView(source)
+    ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength)
+    : new Uint8Array(source);
+}
+
+function chunkBytes(chunk: EncodedAudioChunk): Uint8Array {
+  const data = new Uint8Array(chunk.byteLength);
+  chunk.copyTo(data);
+  return data;
+}
+
+/**
+ * Build the file from its parts, handing each part to an observer on the way
+ */
+function toOutput(parts: Uint8Array[], type: string, chunks: AudioFileInputChunk[], onData?: (data: Uint8Array, position: number) => void): AudioFileOutput {
+  if (onData) {
+    let position = 0;
+    for (const part of parts) {
+      onData(part, position);
+      position += part.byteLength;
+    }
+  }
+  return {
+    blob: new Blob(parts as BlobPart[], { type }),
+    timelineStart: chunks.length > 0 ? chunks[0].chunk.timestamp : null
+  };
+}
+
+/**
+ * First decoder description among the chunks
+ */
+function findDescription(chunks: AudioFileInputChunk[]): Uint8Array | null {
+  for (const { metadata } of chunks) {
+    const description = metadata?.decoderConfig?.description;
+    if (description) {
+      return toBytes(description);
+    }
+  }
+  return null;
+}
+
+let oggCrcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 as Ogg uses it: polynomial 0x04C11DB7, unreflected, no initial or final XOR
+ */
+function oggCrc(data: Uint8Array): number {
+  if (!oggCrcTable) {
+    oggCrcTable = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+      let crc = i << 24;
+      for (let bit = 0; bit < 8; bit++) {
+        crc = crc & 0x80000000 ? (crc << 1) ^ 0x04C11DB7 : crc << 1;
+      }
+      oggCrcTable[i] = crc >>> 0;
+    }
+  }
+  let crc = 0;
+  for (const byte of data) {
+    crc = ((crc << 8) ^ oggCrcTable[((crc >>> 24) ^ byte) & 0xFF]) >>> 0;
+  }
+  return crc;
+}
+
+/**
+ * One Ogg page holding whole packets
+ */
+function oggPage(packets: Uint8Array[], granulePosition: number, serial: number, sequence: number, flags: number): Uint8Array {
+  const lacing: number[] = [];
+  for (const packet of packets) {
+    for (let rest = packet.byteLength; ; rest -= 255) {
+      lacing.push(Math.min(rest, 255));
+      if (rest < 255) {
+        break;
+      }
+    }
+  }
+
+  const bodySize = packets.reduce((total, packet) => total + packet.byteLength, 0);
+  const page = new Uint8Array(27 + lacing.length + bodySize);
+  const view = new DataView(page.buffer);
+  page.set(textEncoder.encode('OggS'));
+  page[5] = flags;
+  view.setUint32(6, granulePosition % 0x100000000, true);
+  view.setUint32(10, Math.floor(granulePosition / 0x100000000), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  page[26] = lacing.length;
+  page.set(lacing, 27);
+  let offset = 27 + lacing.length;
+  for (const packet of packets) {
+    page.set(packet, offset);
+    offset += packet.byteLength;
+  }
+  view.setUint32(22, oggCrc(page), true);
+  return page;
+}
+
+/**
+ * Write Opus chunks as an Ogg Opus file
+ *
+ * @param track - Channel count and input sample rate, for a generated OpusHead
+ * @param chunks - Opus chunks in timestamp order
+ * @param onData - Called with each page of output, in order
+ */
+export function muxOggOpus(
+  track: AudioFileTrackOptions,
+  chunks: AudioFileInputChunk[],
+  onData?: (data: Uint8Array, position: number) => void
+): AudioFileOutput {
+  const head = findDescription(chunks) ?? createOpusHead(track.numberOfChannels, track.sampleRate);
+  const vendor = textEncoder.encode('beings');
+  const tags = new Uint8Array(8 + 4 + vendor.byteLength + 4);
+  tags.set(textEncoder.encode('OpusTags'));
+  new DataView(tags.buffer).setUint32(8, vendor.byteLength, true);
+  tags.set(vendor, 12);
+
+  // Any 32-bit value identifies the one logical stream
+  const serial = (Math.random() * 0x100000000) >>> 0;
+  const pages = [
+    oggPage([head], 0, serial, 0, 0x02),
+    oggPage([tags], 0, serial, 1, 0)
+  ];
+
+  let packets: Uint8Array[] = [];
+  let pageBytes = 0;
+  let pageSamples = 0;
+  let pageLacing = 0;
+  // 48 kHz samples in the packets up to the end of the page. The OpusHead's
+  // pre-skip is not added: it counts the first of these samples, which players drop
+  let granulePosition = 0;
+  const flushPage = (isLast: boolean) => {
+    if (packets.length > 0) {
+      pages.push(oggPage(packets, granulePosition, serial, pages.length, isLast ? 0x04 : 0));
+    }
+    packets = [];
+    pageBytes = 0;
+    pageSamples = 0;
+    pageLacing = 0;
+  };
+
+  chunks.forEach(({ chunk }, index) => {
+    const packet = chunkBytes(chunk);
+    const lacing = Math.floor(packet.byteLength / 255) + 1;
+    // A page holds at most 255 lacing values
+    if (pageLacing + lacing > 255) {
+      flushPage(false);
+    }
+
+    const samples = chunk.duration ? Math.round(chunk.duration * OPUS_GRANULE_RATE / 1_000_000) : DEFAULT_OPUS_PACKET_SAMPLES;
+    packets.push(packet);
+    pageBytes += packet.byteLength;
+    pageSamples += samples;
+    pageLacing += lacing;
+    granulePosition += samples;
+
+    const isLast = index === chunks.length - 1;
+    if (isLast || pageBytes >= OGG_PAGE_TARGET_BYTES || pageSamples >= OGG_PAGE_MAX_SAMPLES) {
+      flushPage(isLast);
+    }
+  });
+
+  return toOutput(pages, OGG_MIME_TYPE, chunks, onData);
+}
+
+/**
+ * Write FLAC chunks as a native .flac file
+ *
+ * The encoder's description is the stream header ('fLaC' and its metadata
+ * blocks); the total sample count is filled in when the encoder left it open.
+ *
+ * @param track - Sample rate, for the total sample count
+ * @param chunks - FLAC frames in timestamp order
+ * @param onData - Called with the header and each frame of output, in order
+ */
+export function muxFlac(
+  track: AudioFileTrackOptions,
+  chunks: AudioFileInputChunk[],
+  onData?: (data: Uint8Array, position: number) => void
+): AudioFileOutput {
+  const description = findDescription(chunks);
+  if (!description) {
+    throw new Error('FLAC encoder gave no stream header to write');
+  }
+
+  const hasMarker = String.fromCharCode(...description.subarray(0, 4)) === 'fLaC';
+  const header = new Uint8Array(hasMarker ? description.byteLength : description.byteLength + 4);
+  header.set(textEncoder.encode('fLaC'));
+  header.set(hasMarker ? description.subarray(4) : description, 4);
+
+  // STREAMINFO comes first: 36 bits of total samples at byte 13 of its body
+  const totalSamples = Math.round(chunks.reduce((total, { chunk }) => total + (chunk.duration ?? 0), 0) * track.sampleRate / 1_000_000);
+  const body = 8;
+  const recorded = (header[body + 13] & 0x0F) * 2 ** 32 + new DataView(header.buffer).getUint32(body + 14);
+  if (recorded === 0 && totalSamples > 0 && totalSamples < 2 ** 36) {
+    header[body + 13] = (header[body + 13] & 0xF0) | Math.floor(totalSamples / 2 ** 32);
+    new DataView(header.buffer).setUint32(body + 14, totalSamples % 2 ** 32);
+  }
+
+  return toOutput([header, ...chunks.map(({ chunk }) => chunkBytes(chunk))], FLAC_MIME_TYPE, chunks, onData);
+}
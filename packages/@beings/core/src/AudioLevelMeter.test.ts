@@ -0,0 +1,65 @@
+import { describe, test, expect } from 'vitest';
+import { AudioLevelMeter, toDecibels } from './AudioLevelMeter';
+import type { AudioLevelMeterEvent } from './AudioLevelMeter';
+
+const constant = (value: number, frames: number) => new Float32Array(frames).fill(value);
+
+// 1 kHz at 10 updates a second: one level per 100 frames = 100ms
+const createMeter = () => new AudioLevelMeter({ rate: 10, silenceDurationMs: 500, deadInputDurationMs: 200 });
+
+const types = (events: AudioLevelMeterEvent[]) => events.map(event => event.type);
+
+describe('AudioLevelMeter', () => {
+  test('should report RMS and peak per channel once per window', () => {
+    const meter = createMeter();
+    const left = Float32Array.from({ length: 150 }, (_, i) => (i % 2 ? 0.5 : -0.5));
+    const events = meter.process(40_000, 1000, [left, constant(0.25, 150)]);
+
+    expect(types(events)).toEqual(['audio-level']);
+    const [{ level }] = events as Array<Extract<AudioLevelMeterEvent, { type: 'audio-level' }>>;
+    expect(level.timestamp).toBe(40_000);
+    expect(level.rms[0]).toBeCloseTo(0.5);
+    expect(level.rms[1]).toBeCloseTo(0.25);
+    expect(level.peak).toEqual([0.5, 0.25]);
+
+    // The rest of the block starts the next window
+    const [next] = meter.process(190_000, 1000, [constant(0.1, 50), constant(0.1, 50)]) as Array<Extract<AudioLevelMeterEvent, { type: 'audio-level' }>>;
+    expect(next.level.timestamp).toBe(140_000);
+    expect(next.level.peak).toEqual([0.5, 0.25]);
+  });
+
+  test('should report a silence after the silence duration and its end on sound', () => {
+    const meter = createMeter();
+    expect(types(meter.process(0, 1000, [constant(0.5, 100)]))).toEqual(['audio-level']);
+
+    // -80 dBFS of noise: quiet, but not digital silence
+    const quiet = meter.process(100_000, 1000, [constant(0.0001, 500)]);
+    expect(types(quiet)).toEqual(['audio-level', 'audio-level', 'audio-level', 'audio-level', 'audio-level', 'silence-start']);
+    expect(quiet[5]).toEqual({ type: 'silence-start', silence: { timestamp: 100_000, isDigitalSilence: false } });
+
+    const sound = meter.process(600_000, 1000, [constant(0.5, 100)]);
+    expect(sound[1]).toEqual({ type: 'silence-end', silence: { timestamp: 600_000, duration: 500, isDigitalSilence: false } });
+  });
+
+  test('should report a dead-looking input early', () => {
+    // Silent since the start
+    const fromStart = createMeter().process(0, 1000, [constant(0.0001, 200)]);
+    expect(types(fromStart)).toContain('silence-start');
+
+    // Exact zeros after sound, as from a muted microphone
+    const meter = createMeter();
+    meter.process(0, 1000, [constant(0.5, 100)]);
+    const muted = meter.process(100_000, 1000, [constant(0, 200)]);
+    expect(muted[2]).toEqual({ type: 'silence-start', silence: { timestamp: 100_000, isDigitalSilence: true } });
+  });
+
+  test('should reject an invalid update rate', () => {
+    expect(() => new AudioLevelMeter({ rate: 0 })).toThrow('Invalid audio level rate: 0');
+  });
+
+  test('toDecibels() should convert linear levels to dBFS', () => {
+    expect(toDecibels(1)).toBe(0);
+    expect(toDecibels(0.001)).toBeCloseTo(-60);
+    expect(toDecibels(0)).toBe(-Infinity);
+  });
+});
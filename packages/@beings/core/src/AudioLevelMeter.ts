@@ -0,0 +1,200 @@
+/**
+ * Audio Level Meter
+ *
+ * Measures the audio being encoded for level meters and silence detection.
+ * Samples are gathered into fixed windows (1/20 s by default); each window
+ * gives the RMS and peak of every channel. A run of windows below the silence
+ * threshold starts a silence, and the first window above it ends one.
+ *
+ * Silence is timed by the samples measured, not by timestamps, so time spent
+ * paused never counts towards it. An input that delivers exact zeros (as a
+ * muted or disconnected microphone does), or that has been silent since the
+ * recording started, is reported sooner, so the user can be told before much
+ * of the recording is lost.
+ */
+
+import type { AudioLevel, SilenceEvent } from './types';
+
+/** Default level updates per second */
+export const DEFAULT_AUDIO_LEVEL_RATE = 20;
+
+/** Default level (dBFS) below which the input counts as silent */
+export const DEFAULT_SILENCE_THRESHOLD_DB = -60;
+
+/** Default silence (ms) before 'silence-start' */
+export const DEFAULT_SILENCE_DURATION_MS = 3000;
+
+/** Default silence (ms) before 'silence-start' for a dead-looking input */
+export const DEFAULT_DEAD_INPUT_DURATION_MS = 1000;
+
+/**
+ * Options for level metering and silence detection
+ */
+export interface AudioLevelMeterOptions {
+  /** Level updates per second (default 20) */
+  rate?: number;
+  /** Loudest channel RMS (dBFS) below which the input counts as silent (default -60) */
+  silenceThresholdDb?: number;
+  /** Silence (ms) before 'silence-start' is reported (default 3000) */
+  silenceDurationMs?: number;
+  /**
+   * Silence (ms) before 'silence-start' is reported when the input delivers
+   * exact zeros or has been silent since the start (default 1000)
+   */
+  deadInputDurationMs?: number;
+}
+
+/**
+ * Check level metering options
+ */
+export function validateAudioLevelMeterOptions(options: AudioLevelMeterOptions): void {
+  const rate = options.rate ?? DEFAULT_AUDIO_LEVEL_RATE;
+  if (!(Number.isFinite(rate) && rate > 0)) {
+    throw new Error(`Invalid audio level rate: ${rate}`);
+  }
+  for (const name of ['silenceDurationMs', 'deadInputDurationMs'] as const) {
+    const duration = options[name];
+    if (duration !== undefined && !(Number.isFinite(duration) && duration >= 0)) {
+      throw new Error(`Invalid audio level ${name}: ${duration}`);
+    }
+  }
+}
+
+/**
+ * Something the meter measured: a level update, or the start or end of a silence
+ */
+export type AudioLevelMeterEvent =
+  | { type: 'audio-level'; level: AudioLevel }
+  | { type: 'silence-start' | 'silence-end'; silence: SilenceEvent };
+
+/**
+ * Convert a linear sample level to dBFS (-Infinity for digital silence)
+ */
+export function toDecibels(level: number): number {
+  return level > 0 ? 20 * Math.log10(level) : -Infinity;
+}
+
+/**
+ * Level meter and silence detector for one audio stream
+ */
+export class AudioLevelMeter {
+  #rate: number;
+  #silenceThresholdDb: number;
+  #silenceDurationMs: number;
+  #deadInputDurationMs: number;
+
+  // Window being measured
+  #windowStart: number | null = null;
+  #windowFrames = 0;
+  #sumSquares: number[] = [];
+  #peaks: number[] = [];
+
+  // Silence being measured
+  #hasHeardSound = false;
+  #silentMs = 0;
+  #silenceStart: number | null = null;
+  #isDigitalSilence = true;
+  #isSilenceReported = false;
+
+  /**
+   * @param options - Update rate and silence detection settings
+   */
+  constructor(options: AudioLevelMeterOptions = {}) {
+    validateAudioLevelMeterOptions(options);
+    this.#rate = options.rate ?? DEFAULT_AUDIO_LEVEL_RATE;
+    this.#silenceThresholdDb = options.silenceThresholdDb ?? DEFAULT_SILENCE_THRESHOLD_DB;
+    this.#silenceDurationMs = options.silenceDurationMs ?? DEFAULT_SILENCE_DURATION_MS;
+    this.#deadInputDurationMs = options.deadInputDurationMs ?? DEFAULT_DEAD_INPUT_DURATION_MS;
+  }
+
+  /**
+   * Measure a block of samples
+   *
+   * @param timestamp - Media timestamp of the first frame, in µs
+   * @param sampleRate - Sample rate of the block
+   * @param planes - One Float32Array per channel
+   * @returns Level updates and silence changes completed by this block, in order
+   */
+  process(timestamp: number, sampleRate: number, planes: Float32Array[]): AudioLevelMeterEvent[] {
+    const events: AudioLevelMeterEvent[] = [];
+    const numberOfFrames = planes[0]?.length ?? 0;
+    const windowFrames = Math.max(1, Math.round(sampleRate / this.#rate));
+
+    if (this.#sumSquares.length !== planes.length) {
+      this.#resetWindow(planes.length);
+    }
+
+    for (let offset = 0; offset < numberOfFrames;) {
+      this.#windowStart ??= timestamp + Math.round(offset * 1_000_000 / sampleRate);
+      const end = Math.min(numberOfFrames, offset + windowFrames - this.#windowFrames);
+
+      planes.forEach((plane, channel) => {
+        let sumSquares = 0;
+        let peak = this.#peaks[channel];
+        for (let i = offset; i < end; i++) {
+          const sample = plane[i];
+          sumSquares += sample * sample;
+          peak = Math.max(peak, Math.abs(sample));
+        }
+        this.#sumSquares[channel] += sumSquares;
+        this.#peaks[channel] = peak;
+      });
+      this.#windowFrames += end - offset;
+      offset = end;
+
+      if (this.#windowFrames >= windowFrames) {
+        this.#closeWindow(sampleRate, events);
+      }
+    }
+    return events;
+  }
+
+  #closeWindow(sampleRate: number, events: AudioLevelMeterEvent[]): void {
+    const timestamp = this.#windowStart!;
+    const level: AudioLevel = {
+      timestamp,
+      rms: this.#sumSquares.map(sum => Math.sqrt(sum / this.#windowFrames)),
+      peak: [...this.#peaks]
+    };
+    const durationMs = this.#windowFrames * 1000 / sampleRate;
+    events.push({ type: 'audio-level', level });
+    this.#resetWindow(level.rms.length);
+
+    const loudestDb = toDecibels(Math.max(0, ...level.rms));
+    if (loudestDb >= this.#silenceThresholdDb) {
+      if (this.#isSilenceReported) {
+        events.push({
+          type: 'silence-end',
+          silence: { timestamp, duration: this.#silentMs, isDigitalSilence: this.#isDigitalSilence }
+        });
+      }
+      this.#hasHeardSound = true;
+      this.#silentMs = 0;
+      this.#silenceStart = null;
+      this.#isDigitalSilence = true;
+      this.#isSilenceReported = false;
+      return;
+    }
+
+    this.#silenceStart ??= timestamp;
+    this.#silentMs += durationMs;
+    this.#isDigitalSilence &&= level.peak.every(peak => peak === 0);
+
+    const looksDead = this.#isDigitalSilence || !this.#hasHeardSound;
+    const reportAfterMs = looksDead ? Math.min(this.#deadInputDurationMs, this.#silenceDurationMs) : this.#silenceDurationMs;
+    if (!this.#isSilenceReported && this.#silentMs >= reportAfterMs) {
+      this.#isSilenceReported = true;
+      events.push({
+        type: 'silence-start',
+        silence: { timestamp: this.#silenceStart, isDigitalSilence: this.#isDigitalSilence }
+      });
+    }
+  }
+
+  #resetWindow(numberOfChannels: number): void {
+    this.#windowStart = null;
+    this.#windowFrames = 0;
+    this.#sumSquares = new Array(numberOfChannels).fill(0);
+    this.#peaks = new Array(numberOfChannels).fill(0);
+  }
+}
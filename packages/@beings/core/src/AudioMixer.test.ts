@@ -0,0 +1,120 @@
+import { describe, test, expect } from 'vitest';
+import { AudioMixer, softClip } from './AudioMixer';
+
+const constant = (value: number, frames: number) => new Float32Array(frames).fill(value);
+
+// 1 kHz output keeps frame counts readable: 1 frame = 1ms = 1000µs
+const createMixer = (inputs = 2, numberOfChannels = 1) => new AudioMixer({
+  sampleRate: 1000,
+  numberOfChannels,
+  inputs: Array.from({ length: inputs }, () => ({})),
+  blockFrames: 10,
+  maxLatencyMs: 50
+});
+
+describe('AudioMixer', () => {
+  test('should sum inputs that cover the same time', () => {
+    const mixer = createMixer();
+    mixer.write(0, 0, 1000, [constant(0.25, 20)]);
+    mixer.write(1, 0, 1000, [constant(0.5, 20)]);
+
+    const blocks = mixer.read();
+    expect(blocks.map(block => block.timestamp)).toEqual([0, 10_000]);
+    expect(Array.from(blocks[1].planes[0])).toEqual(new Array(10).fill(0.75));
+  });
+
+  test('should align inputs by timestamp', () => {
+    const mixer = createMixer();
+    mixer.write(0, 0, 1000, [constant(0.25, 30)]);
+    // Second input starts 10ms into the mix
+    mixer.write(1, 10_000, 1000, [constant(0.5, 20)]);
+
+    const [first, second] = mixer.read();
+    expect(first.planes[0][0]).toBe(0.25);
+    expect(second.planes[0][0]).toBe(0.75);
+  });
+
+  test('should wait for a lagging input, then mix it as silence past the latency budget', () => {
+    const mixer = createMixer();
+    mixer.write(0, 0, 1000, [constant(0.25, 40)]);
+    expect(mixer.read()).toEqual([]);
+
+    mixer.write(0, 40_000, 1000, [constant(0.25, 30)]);
+    const blocks = mixer.read();
+    expect(blocks).toHaveLength(2);
+    expect(blocks[0].planes[0][0]).toBe(0.25);
+
+    // Samples arriving for time already mixed are dropped
+    mixer.write(1, 0, 1000, [constant(0.5, 30)]);
+    const [next] = mixer.read();
+    expect(next.timestamp).toBe(20_000);
+    expect(next.planes[0][0]).toBe(0.75);
+  });
+
+  test('should hand pacing to another input when the first stops', () => {
+    const mixer = createMixer();
+    mixer.write(0, 0, 1000, [constant(0.25, 20)]);
+    mixer.write(1, 0, 1000, [constant(0.5, 20)]);
+    expect(mixer.read()).toHaveLength(2);
+
+    // The first input's track ended: the second keeps the mix going once it is past the latency budget
+    mixer.write(1, 20_000, 1000, [constant(0.5, 40)]);
+    expect(mixer.read()).toEqual([]);
+    mixer.write(1, 60_000, 1000, [constant(0.5, 100)]);
+    const blocks = mixer.read();
+    // Everything but the last 50ms, which the first input might still deliver
+    expect(blocks.map(block => block.timestamp)).toEqual(Array.from({ length: 9 }, (_, i) => 20_000 + i * 10_000));
+    expect(blocks[0].planes[0][0]).toBe(0.5);
+  });
+
+  test('should start without the first input once another is past the latency budget', () => {
+    const mixer = createMixer();
+    mixer.write(1, 0, 1000, [constant(0.5, 40)]);
+    expect(mixer.read()).toEqual([]);
+
+    mixer.write(1, 40_000, 1000, [constant(0.5, 20)]);
+    expect(mixer.read().map(block => block.timestamp)).toEqual([0]);
+  });
+
+  test('should apply gain and mute', () => {
+    const mixer = createMixer();
+    mixer.setGain(0, 2);
+    mixer.setMuted(1, true);
+    mixer.write(0, 0, 1000, [constant(0.25, 10)]);
+    mixer.write(1, 0, 1000, [constant(0.5, 10)]);
+
+    expect(mixer.read()[0].planes[0][0]).toBe(0.5);
+    expect(() => mixer.setGain(1, -1)).toThrow('Invalid audio input gain: -1');
+    expect(() => mixer.setGain(2, 1)).toThrow('No audio mixer input 2 (mixer has 2)');
+  });
+
+  test('should resample and map channels to the output format', () => {
+    const mixer = createMixer(2, 2);
+    // 2 kHz mono ramp: every other sample lands on the output
+    const ramp = Float32Array.from({ length: 41 }, (_, i) => i / 100);
+    mixer.write(0, 0, 2000, [ramp]);
+    mixer.write(1, 0, 1000, [constant(0.1, 20), constant(-0.1, 20)]);
+
+    const [block] = mixer.read();
+    expect(block.planes).toHaveLength(2);
+    expect(block.planes[0][3]).toBeCloseTo(0.06 + 0.1);
+    expect(block.planes[1][3]).toBeCloseTo(0.06 - 0.1);
+  });
+
+  test('flush() should mix what the first input covered without waiting', () => {
+    const mixer = createMixer();
+    mixer.write(0, 0, 1000, [constant(0.25, 15)]);
+
+    expect(mixer.read()).toEqual([]);
+    const blocks = mixer.flush();
+    expect(blocks.map(block => block.planes[0].length)).toEqual([10, 5]);
+  });
+
+  test('softClip() should keep sums under full scale', () => {
+    expect(softClip(0.5)).toBe(0.5);
+    expect(softClip(1.5)).toBeLessThan(1);
+    expect(softClip(1.5)).toBeGreaterThan(softClip(1.2));
+    expect(softClip(-1.2)).toBeGreaterThan(-1);
+    expect(softClip(-10)).toBe(-1);
+  });
+});
@@ -0,0 +1,370 @@
+/**
+ * Audio Mixer
+ *
+ * Mixes several audio inputs (e.g. a USB microphone and system audio) into one
+ * stream for the audio worker's encoder. Each input is placed on the output
+ * timeline by its timestamps, resampled to the output rate and mapped to the
+ * output channel count, then scaled by its gain and summed.
+ *
+ * The first input fixes where the output starts, and the input furthest ahead
+ * paces it: a block is mixed once that input has covered it and every other
+ * input has either covered it too or fallen more than `maxLatencyMs` behind,
+ * in which case it contributes silence. Pacing usually stays with the first
+ * input, but passes to another when the first stops delivering (e.g. its
+ * track ended), so no input buffers more than the latency budget. Samples an
+ * input delivers for time already mixed are dropped.
+ *
+ * Sums over full scale are soft-clipped rather than wrapped or hard-clipped.
+ */
+
+import type { AudioMixInput } from './types';
+
+/**
+ * Mixer output format and inputs
+ */
+export interface AudioMixerOptions {
+  sampleRate: number;
+  numberOfChannels: number;
+  /** One entry per input; the first input's first sample starts the output */
+  inputs: AudioMixInput[];
+  /** Frames per mixed block (default 10ms) */
+  blockFrames?: number;
+  /** How far an input may lag the one furthest ahead before it is mixed as silence (default 200ms) */
+  maxLatencyMs?: number;
+}
+
+/**
+ * A block of mixed audio
+ */
+export interface MixedAudioBlock {
+  /** Block start on the input timeline, in µs */
+  timestamp: number;
+  /** One plane per output channel */
+  planes: Float32Array[];
+}
+
+/** Timestamp jitter absorbed without inserting silence or dropping samples */
+const JITTER_TOLERANCE_MS = 20;
+
+/** Level above which the sum is soft-clipped */
+const SOFT_CLIP_THRESHOLD = 0.9;
+
+/**
+ * Bring a sample sum back under full scale
+ *
+ * Linear up to the threshold, then a tanh knee that flattens out at full scale.
+ */
+export function softClip(sample: number): number {
+  const magnitude = Math.abs(sample);
+  if (magnitude <= SOFT_CLIP_THRESHOLD) {
+    return sample;
+  }
+  const headroom = 1 - SOFT_CLIP_THRESHOLD;
+  return Math.sign(sample) * (SOFT_CLIP_THRESHOLD + headroom * Math.tanh((magnitude - SOFT_CLIP_THRESHOLD) / headroom));
+}
+
+function validateGain(gain: number): void {
+  if (!(Number.isFinite(gain) && gain >= 0)) {
+    throw new Error(`Invalid audio input gain: ${gain}`);
+  }
+}
+
+/**
+ * One input's samples on the output timeline, at the output rate and channel count
+ */
+class MixerInput {
+  gain: number;
+  muted: boolean;
+  /** Output frame index of the first buffered sample, null before the first write */
+  start: number | null = null;
+  length = 0;
+
+  #planes: Float32Array[];
+  // Linear resampler state: position of the next output sample relative to the next input chunk
+  #phase = 0;
+  #lastSamples: number[];
+
+  constructor(options: AudioMixInput, numberOfChannels: number) {
+    validateGain(options.gain ?? 1);
+    this.gain = options.gain ?? 1;
+    this.muted = options.muted ?? false;
+    this.#planes = Array.from({ length: numberOfChannels }, () => new Float32Array(4096));
+    this.#lastSamples = new Array(numberOfChannels).fill(0);
+  }
+
+  /** Output frame index after the last buffered sample */
+  get end(): number {
+    return (this.start ?? 0) + this.length;
+  }
+
+  /**
+   * Add samples starting at output frame `position`
+   */
+  write(position: number, sampleRate: number, outputRate: number, planes: Float32Array[], toleranceFrames: number): void {
+    const mapped = this.#mapChannels(planes);
+    const samples = sampleRate === outputRate ? mapped : this.#resample(mapped, sampleRate / outputRate);
+    let offset = 0;
+
+    if (this.start === null) {
+      this.start = position;
+    } else if (position > this.end + toleranceFrames) {
+      // Gap in the input: fill it with silence
+      this.#append(null, position - this.end);
+    } else if (position < this.end - toleranceFrames) {
+      // Overlaps what is already buffered (or mixed): drop the overlap
+      offset = Math.min(samples[0].length, this.end - position);
+    }
+    this.#append(samples, samples[0].length - offset, offset);
+  }
+
+  /**
+   * Add this input's samples for one channel, from output frame `from`, into `target`, scaled by the gain
+   */
+  mixInto(target: Float32Array, channel: number, from: number): void {
+    if (this.muted || this.gain === 0 || this.start === null) {
+      return;
+    }
+    const plane = this.#planes[channel];
+    for (let i = 0; i < target.length; i++) {
+      const index = from + i - this.start;
+      if (index >= 0 && index < this.length) {
+        target[i] += plane[index] * this.gain;
+      }
+    }
+  }
+
+  /**
+   * Drop samples before output frame `position`
+   */
+  discardBefore(position: number): void {
+    if (this.start === null || position <= this.start) {
+      return;
+    }
+    const count = Math.min(this.length, position - this.start);
+    for (const plane of this.#planes) {
+      plane.copyWithin(0, count, this.length);
+    }
+    this.length -= count;
+    this.start += count;
+    if (this.length === 0) {
+      this.start = position;
+    }
+  }
+
+  #append(samples: Float32Array[] | null, count: number, offset = 0): void {
+    if (count <= 0) {
+      return;
+    }
+    if (this.length + count > this.#planes[0].length) {
+      const capacity = Math.max(this.length + count, this.#planes[0].length * 2);
+      this.#planes = this.#planes.map(plane => {
+        const grown = new Float32Array(capacity);
+        grown.set(plane.subarray(0, this.length));
+        return grown;
+      });
+    }
+    this.#planes.forEach((plane, channel) => {
+      if (samples) {
+        plane.set(samples[channel].subarray(offset, offset + count), this.length);
+      } else {
+        plane.fill(0, this.length, this.length + count);
+      }
+    });
+    this.length += count;
+  }
+
+  /**
+   * Map input planes onto the output channels: mono is duplicated, and a
+   * down-mix to mono averages every input channel
+   */
+  #mapChannels(planes: Float32Array[]): Float32Array[] {
+    const outputChannels = this.#planes.length;
+    if (planes.length === outputChannels) {
+      return planes;
+    }
+    if (outputChannels === 1) {
+      const mono = new Float32Array(planes[0].length);
+      for (const plane of planes) {
+        for (let i = 0; i < mono.length; i++) {
+          mono[i] += plane[i] / planes.length;
+        }
+      }
+      return [mono];
+    }
+    return Array.from({ length: outputChannels }, (_, channel) => planes[channel] ?? planes[0]);
+  }
+
+  /**
+   * Linear-interpolation resampling that carries its position across chunks
+   *
+   * @param step - Input samples per output sample
+   */
+  #resample(planes: Float32Array[], step: number): Float32Array[] {
+    const inputLength = planes[0].length;
+    const outputLength = Math.max(0, Math.ceil((inputLength - 1 - this.#phase) / step));
+    const output = planes.map(() => new Float32Array(outputLength));
+
+    for (let i = 0; i < outputLength; i++) {
+      const position = this.#phase + i * step;
+      const index = Math.floor(position);
+      const fraction = position - index;
+      planes.forEach((plane, channel) => {
+        const a = index < 0 ? this.#lastSamples[channel] : plane[index];
+        const b = plane[index + 1];
+        output[channel][i] = a + (b - a) * fraction;
+      });
+    }
+
+    this.#phase = this.#phase + outputLength * step - inputLength;
+    this.#lastSamples = planes.map(plane => plane[inputLength - 1]);
+    return output;
+  }
+}
+
+/**
+ * Mixes timestamped inputs into blocks of output audio
+ */
+export class AudioMixer {
+  #sampleRate: number;
+  #numberOfChannels: number;
+  #blockFrames: number;
+  #maxLatencyFrames: number;
+  #toleranceFrames: number;
+  #inputs: MixerInput[];
+  /**
+   * Output frame index of the next block, null until the first input has been
+   * written (or another has buffered more than the latency budget without it)
+   */
+  #cursor: number | null = null;
+
+  constructor(options: AudioMixerOptions) {
+    if (options.inputs.length === 0) {
+      throw new Error('Audio mixer needs at least one input');
+    }
+    this.#sampleRate = options.sampleRate;
+    this.#numberOfChannels = options.numberOfChannels;
+    this.#blockFrames = options.blockFrames ?? Math.round(options.sampleRate / 100);
+    this.#maxLatencyFrames = Math.round((options.maxLatencyMs ?? 200) * options.sampleRate / 1000);
+    this.#toleranceFrames = Math.round(JITTER_TOLERANCE_MS * options.sampleRate / 1000);
+    this.#inputs = options.inputs.map(input => new MixerInput(input, options.numberOfChannels));
+  }
+
+  /** Number of inputs */
+  get inputCount(): number {
+    return this.#inputs.length;
+  }
+
+  /**
+   * Change an input's gain
+   */
+  setGain(input: number, gain: number): void {
+    validateGain(gain);
+    this.#getInput(input).gain = gain;
+  }
+
+  /**
+   * Mute or unmute an input
+   */
+  setMuted(input: number, muted: boolean): void {
+    this.#getInput(input).muted = muted;
+  }
+
+  /**
+   * Add audio for an input
+   *
+   * @param input - Input index
+   * @param timestamp - Timestamp of the first sample, in µs
+   * @param sampleRate - Sample rate of `planes`
+   * @param planes - One Float32Array of samples per channel
+   */
+  write(input: number, timestamp: number, sampleRate: number, planes: Float32Array[]): void {
+    if (planes.length === 0 || planes[0].length === 0) {
+      return;
+    }
+    const position = Math.round(timestamp * this.#sampleRate / 1_000_000);
+    this.#getInput(input).write(position, sampleRate, this.#sampleRate, planes, this.#toleranceFrames);
+
+    if (this.#cursor === null) {
+      this.#cursor = this.#getStart();
+    }
+  }
+
+  /**
+   * Mix every block that is ready
+   */
+  read(): MixedAudioBlock[] {
+    return this.#mixBlocks(false);
+  }
+
+  /**
+   * Mix everything any input has covered, without waiting for the others (end of input)
+   */
+  flush(): MixedAudioBlock[] {
+    return this.#mixBlocks(true);
+  }
+
+  #getInput(input: number): MixerInput {
+    const mixerInput = this.#inputs[input];
+    if (!mixerInput) {
+      throw new Error(`No audio mixer input ${input} (mixer has ${this.#inputs.length})`);
+    }
+    return mixerInput;
+  }
+
+  /**
+   * Where the output starts: the first input's first sample, or the earliest
+   * other input's once one has buffered past the latency budget without it
+   */
+  #getStart(): number | null {
+    const [first, ...others] = this.#inputs;
+    if (first.start !== null) {
+      return first.start;
+    }
+    const started = others.filter(input => input.start !== null);
+    if (!started.some(input => input.length >= this.#maxLatencyFrames)) {
+      return null;
+    }
+    return Math.min(...started.map(input => input.start!));
+  }
+
+  #mixBlocks(isFlushing: boolean): MixedAudioBlock[] {
+    const blocks: MixedAudioBlock[] = [];
+    this.#cursor ??= this.#getStart();
+
+    while (this.#cursor !== null) {
+      // The input furthest ahead paces the mix
+      const pacingEnd = Math.max(...this.#inputs.map(input => input.start === null ? -Infinity : input.end));
+      if (this.#cursor >= pacingEnd) {
+        break;
+      }
+      const frames = Math.min(this.#blockFrames, pacingEnd - this.#cursor);
+      if (frames < this.#blockFrames && !isFlushing) {
+        break;
+      }
+      const blockEnd = this.#cursor + frames;
+      const lag = pacingEnd - blockEnd;
+      const othersReady = isFlushing || this.#inputs.every(input => (input.start !== null && input.end >= blockEnd) || lag >= this.#maxLatencyFrames);
+      if (!othersReady) {
+        break;
+      }
+
+      const planes = Array.from({ length: this.#numberOfChannels }, (_, channel) => {
+        const plane = new Float32Array(frames);
+        for (const input of this.#inputs) {
+          input.mixInto(plane, channel, this.#cursor!);
+        }
+        for (let i = 0; i < frames; i++) {
+          plane[i] = softClip(plane[i]);
+        }
+        return plane;
+      });
+      blocks.push({ timestamp: Math.round(this.#cursor * 1_000_000 / this.#sampleRate), planes });
+
+      this.#cursor = blockEnd;
+      for (const input of this.#inputs) {
+        input.discardBefore(blockEnd);
+      }
+    }
+    return blocks;
+  }
+}
@@ -0,0 +1,151 @@
+import { describe, test, expect, vi, afterEach } from 'vitest';
+import { probeCapabilities, recommendConfig, getDeviceKey, PROBE_AUDIO_FORMATS, PROBE_FRAME_RATES, PROBE_RESOLUTIONS } from './CapabilityProbe';
+import { AUDIO_WEBCODECS_CODECS, VIDEO_CODEC_STRATEGIES } from './CodecNegotiation';
+
+const VIDEO_CODEC_STRINGS = VIDEO_CODEC_STRATEGIES.flatMap(strategy => strategy.codecs);
+
+/**
+ * Device with hardware H.264 up to 1080p, software VP9 and AV1 at any size,
+ * no HEVC, and Opus but no AAC
+ */
+const stubEncoders = () => {
+  const videoChecks = vi.fn(async (config: VideoEncoderConfig) => {
+    const isHardware = config.hardwareAcceleration === 'prefer-hardware';
+    const supported = config.codec.startsWith('avc1') ? isHardware && config.width <= 1920
+      : config.codec.startsWith('vp09') || config.codec.startsWith('av01') ? !isHardware
+      : false;
+    return { supported, config };
+  });
+  const audioChecks = vi.fn(async (config: AudioEncoderConfig) => ({ supported: config.codec !== 'mp4a.40.2', config }));
+  vi.stubGlobal('VideoEncoder', { isConfigSupported: videoChecks });
+  vi.stubGlobal('AudioEncoder', { isConfigSupported: audioChecks });
+  return { videoChecks, audioChecks };
+};
+
+/** localStorage stand-in */
+const createStorage = () => {
+  const values = new Map<string, string>();
+  return {
+    values,
+    getItem: vi.fn((key: string) => values.get(key) ?? null),
+    setItem: vi.fn((key: string, value: string) => { values.set(key, value); })
+  };
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('probeCapabilities', () => {
+  test('should check every codec string at every size and frame rate, hardware and software', async () => {
+    const { videoChecks, audioChecks } = stubEncoders();
+
+    const report = await probeCapabilities({ refresh: true, storage: null });
+
+    const probePoints = VIDEO_CODEC_STRINGS.length * PROBE_RESOLUTIONS.length * PROBE_FRAME_RATES.length;
+    expect(report.video).toHaveLength(probePoints);
+    expect(videoChecks).toHaveBeenCalledTimes(probePoints * 2);
+    expect(report.audio).toHaveLength(Object.keys(AUDIO_WEBCODECS_CODECS).length * PROBE_AUDIO_FORMATS.length);
+    expect(audioChecks).toHaveBeenCalledTimes(report.audio.length);
+    expect(report.timedOut).toBe(false);
+    expect(report.fromCache).toBe(false);
+
+    expect(report.video).toContainEqual({ codec: 'h264', codecString: 'avc1.640028', width: 1920, height: 1080, frameRate: 60, hardware: true, software: false });
+    expect(report.video).toContainEqual({ codec: 'h264', codecString: 'avc1.640028', width: 3840, height: 2160, frameRate: 30, hardware: false, software: false });
+    expect(report.video).toContainEqual({ codec: 'vp9', codecString: 'vp09.00.10.08', width: 3840, height: 2160, frameRate: 60, hardware: false, software: true });
+    expect(report.audio).toContainEqual({ codec: 'aac', codecString: 'mp4a.40.2', sampleRate: 48000, numberOfChannels: 2, supported: false });
+  });
+
+  test('should recommend hardware encoding at 1080p30, with audio that fits the container', async () => {
+    stubEncoders();
+
+    const { recommended } = await probeCapabilities({ refresh: true, storage: null });
+
+    // AV1 comes first in priority order but is software-only here
+    expect(recommended).toMatchObject({
+      width: 1920,
+      height: 1080,
+      frameRate: 30,
+      codecSelection: 'h264',
+      hardwareAcceleration: 'prefer-hardware'
+    });
+    // H.264 goes into MP4, which needs AAC; this device has none
+    expect(recommended!.audio).toBeUndefined();
+  });
+
+  test('should cache results per device', async () => {
+    const { videoChecks } = stubEncoders();
+    const storage = createStorage();
+
+    const probed = await probeCapabilities({ refresh: true, storage });
+    const checkCount = videoChecks.mock.calls.length;
+    const cached = await probeCapabilities({ storage });
+
+    expect(videoChecks).toHaveBeenCalledTimes(checkCount);
+    expect(cached).toEqual({ ...probed, fromCache: true });
+    expect(storage.setItem).toHaveBeenCalledWith(`beings-capabilities:v1:${getDeviceKey()}`, expect.any(String));
+    expect(JSON.parse(storage.values.get(`beings-capabilities:v1:${getDeviceKey()}`)!).recommended).toEqual(probed.recommended);
+  });
+
+  test('should probe again over a cached report it cannot read', async () => {
+    vi.stubGlobal('navigator', { userAgent: 'stale-cache', hardwareConcurrency: 4 });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { videoChecks } = stubEncoders();
+    const storage = createStorage();
+    storage.values.set(`beings-capabilities:v1:${getDeviceKey()}`, JSON.stringify({ deviceKey: getDeviceKey(), video: {} }));
+
+    const report = await probeCapabilities({ storage });
+
+    expect(report.fromCache).toBe(false);
+    expect(videoChecks).toHaveBeenCalled();
+    expect(console.warn).toHaveBeenCalledWith('[capability-probe] Ignoring cached capabilities in an unexpected format');
+  });
+
+  test('should report checks that miss the time budget as unknown, without caching them', async () => {
+    vi.useFakeTimers();
+    stubEncoders();
+    vi.stubGlobal('AudioEncoder', { isConfigSupported: () => new Promise(() => {}) });
+    const storage = createStorage();
+
+    const probe = probeCapabilities({ refresh: true, storage, timeoutMs: 2000 });
+    await vi.advanceTimersByTimeAsync(2000);
+    const report = await probe;
+
+    expect(report.timedOut).toBe(true);
+    expect(report.audio.every(entry => entry.supported === null)).toBe(true);
+    expect(report.video.every(entry => entry.hardware !== null && entry.software !== null)).toBe(true);
+    expect(storage.setItem).not.toHaveBeenCalled();
+  });
+
+  test('should report nothing supported without WebCodecs', async () => {
+    const report = await probeCapabilities({ refresh: true, storage: null });
+
+    expect(report.video.every(entry => entry.hardware === false && entry.software === false)).toBe(true);
+    expect(report.recommended).toBeNull();
+    await expect(probeCapabilities({ timeoutMs: 0 })).rejects.toThrow('Invalid probe timeout: 0');
+  });
+});
+
+describe('recommendConfig', () => {
+  test('should fall back to 720p and software encoding', () => {
+    const config = recommendConfig(
+      [
+        { codec: 'vp9', codecString: 'vp09.00.10.08', width: 1920, height: 1080, frameRate: 30, hardware: false, software: false },
+        { codec: 'vp9', codecString: 'vp09.00.10.08', width: 1280, height: 720, frameRate: 30, hardware: null, software: true }
+      ],
+      [{ codec: 'opus', codecString: 'opus', sampleRate: 48000, numberOfChannels: 2, supported: true }]
+    );
+
+    expect(config).toEqual({
+      width: 1280,
+      height: 720,
+      frameRate: 30,
+      bitrate: 2_500_000,
+      codecSelection: 'vp9',
+      hardwareAcceleration: 'prefer-software',
+      audio: { enabled: true, codec: 'opus', sampleRate: 48000, numberOfChannels: 2, bitrate: 128000 }
+    });
+  });
+});
@@ -0,0 +1,348 @@
+/**
+ * Capability Probe
+ *
+ * Pre-flight check of what this device can encode. Every video codec string
+ * the video worker would negotiate is checked with
+ * `VideoEncoder.isConfigSupported()` at several resolutions and frame rates,
+ * once preferring hardware and once preferring software encoding, and every
+ * audio codec at the usual sample rates and channel counts. All checks run at
+ * once under one time budget; a check that has not answered by then is
+ * reported as unknown.
+ *
+ * Complete results are cached per device (browser build and CPU count), in
+ * memory and in localStorage, so later page loads skip the probe.
+ */
+
+import { AUDIO_WEBCODECS_CODECS, getContainerForVideoCodec, resolveAudioCodecForContainer, VIDEO_CODEC_STRATEGIES } from './CodecNegotiation';
+import type { VideoCodecStrategy } from './CodecNegotiation';
+import type { SlowTrackRecorderConfig } from './SlowTrackRecorder';
+import type { AudioConfig } from './types';
+import { Logger } from './Logger';
+
+const log = new Logger('capability-probe');
+
+/** Time budget of a probe, in milliseconds */
+export const DEFAULT_PROBE_TIMEOUT_MS = 2000;
+
+/** Resolutions each video codec string is checked at */
+export const PROBE_RESOLUTIONS: ReadonlyArray<{ width: number; height: number }> = [
+  { width: 1280, height: 720 },
+  { width: 1920, height: 1080 },
+  { width: 3840, height: 2160 }
+];
+
+/** Frame rates each video codec string is checked at */
+export const PROBE_FRAME_RATES: readonly number[] = [30, 60];
+
+/** Sample rates and channel counts each audio codec is checked at */
+export const PROBE_AUDIO_FORMATS: ReadonlyArray<Pick<AudioConfig, 'sampleRate' | 'numberOfChannels'>> = [
+  { sampleRate: 48000, numberOfChannels: 2 },
+  { sampleRate: 48000, numberOfChannels: 1 },
+  { sampleRate: 44100, numberOfChannels: 2 }
+];
+
+/** Largest size and frame rate a recommended config records at */
+const RECOMMENDED_TARGETS: ReadonlyArray<{ width: number; height: number; frameRate: number; bitrate: number }> = [
+  { width: 1920, height: 1080, frameRate: 30, bitrate: 4_000_000 },
+  { width: 1280, height: 720, frameRate: 30, bitrate: 2_500_000 }
+];
+
+/** Versioned, so reports cached in an older format are not read back */
+const CACHE_KEY_PREFIX = 'beings-capabilities:v1:';
+
+/**
+ * Support of one video codec string at one size and frame rate
+ *
+ * `hardware` and `software` are null when the check did not answer within
+ * the time budget.
+ */
+export interface VideoCapability {
+  codec: VideoCodecStrategy['name'];
+  codecString: string;
+  width: number;
+  height: number;
+  frameRate: number;
+  /** Supported with hardwareAcceleration: 'prefer-hardware' */
+  hardware: boolean | null;
+  /** Supported with hardwareAcceleration: 'prefer-software' */
+  software: boolean | null;
+}
+
+/**
+ * Support of one audio codec at one sample rate and channel count
+ */
+export interface AudioCapability {
+  codec: keyof typeof AUDIO_WEBCODECS_CODECS;
+  codecString: string;
+  sampleRate: AudioConfig['sampleRate'];
+  numberOfChannels: AudioConfig['numberOfChannels'];
+  /** Null when the check did not answer within the time budget */
+  supported: boolean | null;
+}
+
+/**
+ * Result of `SlowTrackRecorder.probeCapabilities()`
+ */
+export interface CapabilityReport {
+  /** Every video codec string at every probed size and frame rate */
+  video: VideoCapability[];
+  /** Every audio codec at every probed format */
+  audio: AudioCapability[];
+  /**
+   * Config to record with: the first codec family in default priority order
+   * that encodes 1080p30 (else 720p30), preferring hardware encoding.
+   * Null when no video codec is supported.
+   */
+  recommended: SlowTrackRecorderConfig | null;
+  /** True when some checks did not answer within the time budget */
+  timedOut: boolean;
+  /** How long the probe took, in milliseconds */
+  durationMs: number;
+  /** Device the results belong to */
+  deviceKey: string;
+  /** When the probe ran (ms since the epoch) */
+  probedAt: number;
+  /** True when the report was read from the cache instead of probed */
+  fromCache: boolean;
+}
+
+/**
+ * Options for `SlowTrackRecorder.probeCapabilities()`
+ */
+export interface CapabilityProbeOptions {
+  /** Time budget in milliseconds (default 2000) */
+  timeoutMs?: number;
+  /** Probe again even if results for this device are cached */
+  refresh?: boolean;
+  /** Where results are cached across page loads (default: localStorage when available; null for memory only) */
+  storage?: { getItem(key: string): string | null; setItem(key: string, value: string): void } | null;
+}
+
+const memoryCache = new Map<string, CapabilityReport>();
+
+/**
+ * Identify the device for caching: codec support depends on the browser
+ * build (in the user agent) and the hardware
+ */
+export function getDeviceKey(): string {
+  if (typeof navigator === 'undefined') {
+    return 'unknown';
+  }
+  return `${navigator.userAgent}|${navigator.hardwareConcurrency ?? 0}`;
+}
+
+/**
+ * Probe the device's encoding capabilities
+ *
+ * @param options - Time budget and caching
+ */
+export async function probeCapabilities(options: CapabilityProbeOptions = {}): Promise<CapabilityReport> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS;
+  if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+    throw new Error(`Invalid probe timeout: ${timeoutMs}`);
+  }
+  const storage = options.storage !== undefined
+    ? options.storage
+    : (typeof localStorage !== 'undefined' ? localStorage : null);
+  const deviceKey = getDeviceKey();
+
+  if (!options.refresh) {
+    const cached = readCache(deviceKey, storage);
+    if (cached) {
+      return { ...cached, fromCache: true };
+    }
+  }
+
+  const startedAt = performance.now();
+  let isPastDeadline = false;
+  let deadlineTimer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<void>(resolve => {
+    deadlineTimer = setTimeout(() => {
+      isPastDeadline = true;
+      resolve();
+    }, timeoutMs);
+  });
+
+  // Each check settles its entry in place; whatever has not answered by the deadline stays null
+  const video: VideoCapability[] = [];
+  const audio: AudioCapability[] = [];
+  const checks: Promise<void>[] = [];
+  const check = (isSupported: () => Promise<boolean>, settle: (supported: boolean) => void) => {
+    checks.push(isSupported().then(supported => {
+      if (!isPastDeadline) {
+        settle(supported);
+      }
+    }));
+  };
+
+  for (const strategy of VIDEO_CODEC_STRATEGIES) {
+    for (const codecString of strategy.codecs) {
+      for (const { width, height } of PROBE_RESOLUTIONS) {
+        for (const frameRate of PROBE_FRAME_RATES) {
+          const entry: VideoCapability = { codec: strategy.name, codecString, width, height, frameRate, hardware: null, software: null };
+          video.push(entry);
+          const config = { codec: codecString, width, height, framerate: frameRate, bitrate: estimateBitrate(width, height, frameRate) };
+          check(() => isVideoConfigSupported({ ...config, hardwareAcceleration: 'prefer-hardware' }), supported => { entry.hardware = supported; });
+          check(() => isVideoConfigSupported({ ...config, hardwareAcceleration: 'prefer-software' }), supported => { entry.software = supported; });
+        }
+      }
+    }
+  }
+
+  for (const [codec, codecString] of Object.entries(AUDIO_WEBCODECS_CODECS) as Array<[AudioCapability['codec'], string]>) {
+    for (const { sampleRate, numberOfChannels } of PROBE_AUDIO_FORMATS) {
+      const entry: AudioCapability = { codec, codecString, sampleRate, numberOfChannels, supported: null };
+      audio.push(entry);
+      check(() => isAudioConfigSupported({
+        codec: codecString,
+        sampleRate,
+        numberOfChannels,
+        ...(codec !== 'flac' && { bitrate: 128000 })
+      }), supported => { entry.supported = supported; });
+    }
+  }
+
+  await Promise.race([Promise.all(checks), deadline]);
+  clearTimeout(deadlineTimer);
+  isPastDeadline = true;
+
+  const timedOut = video.some(entry => entry.hardware === null || entry.software === null)
+    || audio.some(entry => entry.supported === null);
+  const report: CapabilityReport = {
+    video,
+    audio,
+    recommended: recommendConfig(video, audio),
+    timedOut,
+    durationMs: Math.round(performance.now() - startedAt),
+    deviceKey,
+    probedAt: Date.now(),
+    fromCache: false
+  };
+  log.info(`Probed ${checks.length} encoder configurations in ${report.durationMs}ms${timedOut ? ', some did not answer in time' : ''}`);
+
+  // An incomplete probe is not cached, so the next one can fill the gaps
+  if (!timedOut) {
+    writeCache(report, storage);
+  }
+  return report;
+}
+
+/**
+ * Pick a recording config from a probe's results
+ *
+ * @param video - Video support matrix
+ * @param audio - Audio support matrix
+ * @returns Config for the first codec family in default priority order that
+ *          encodes 1080p30 (else 720p30), hardware before software; null if none
+ */
+export function recommendConfig(video: VideoCapability[], audio: AudioCapability[]): SlowTrackRecorderConfig | null {
+  for (const target of RECOMMENDED_TARGETS) {
+    for (const acceleration of ['hardware', 'software'] as const) {
+      const match = VIDEO_CODEC_STRATEGIES
+        .map(strategy => video.find(entry => entry.codec === strategy.name && entry[acceleration] === true
+          && entry.width === target.width && entry.height === target.height && entry.frameRate === target.frameRate))
+        .find(entry => entry !== undefined);
+      if (!match) {
+        continue;
+      }
+
+      // The audio codec has to fit the container the video codec implies
+      const audioCodec = resolveAudioCodecForContainer('auto', getContainerForVideoCodec(match.codec)).codec;
+      const audioFormat = audio.find(entry => entry.codec === audioCodec && entry.supported === true);
+      return {
+        width: target.width,
+        height: target.height,
+        frameRate: target.frameRate,
+        bitrate: target.bitrate,
+        codecSelection: match.codec,
+        hardwareAcceleration: acceleration === 'hardware' ? 'prefer-hardware' : 'prefer-software',
+        ...(audioFormat && {
+          audio: {
+            enabled: true,
+            codec: audioCodec,
+            sampleRate: audioFormat.sampleRate,
+            numberOfChannels: audioFormat.numberOfChannels,
+            bitrate: 128000
+          }
+        })
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Rough bitrate for a size and frame rate, so the checks ask for realistic configs
+ */
+function estimateBitrate(width: number, height: number, frameRate: number): number {
+  return Math.round(width * height * frameRate * 0.07);
+}
+
+async function isVideoConfigSupported(config: VideoEncoderConfig): Promise<boolean> {
+  if (typeof VideoEncoder === 'undefined') {
+    return false;
+  }
+  try {
+    return (await VideoEncoder.isConfigSupported(config)).supported === true;
+  } catch {
+    // Rejected as invalid rather than unsupported, e.g. an unknown codec string
+    return false;
+  }
+}
+
+async function isAudioConfigSupported(config: AudioEncoderConfig): Promise<boolean> {
+  if (typeof AudioEncoder === 'undefined') {
+    return false;
+  }
+  try {
+    return (await AudioEncoder.isConfigSupported(config)).supported === true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a value read from storage has the shape of a report for this device
+ */
+function isCachedReport(value: unknown, deviceKey: string): value is CapabilityReport {
+  const report = value as Partial<CapabilityReport> | null;
+  return typeof report === 'object' && report !== null
+    && report.deviceKey === deviceKey
+    && Array.isArray(report.video)
+    && Array.isArray(report.audio)
+    && (report.recommended === null || typeof report.recommended === 'object')
+    && typeof report.probedAt === 'number';
+}
+
+function readCache(deviceKey: string, storage: CapabilityProbeOptions['storage']): CapabilityReport | null {
+  const cached = memoryCache.get(deviceKey);
+  if (cached) {
+    return cached;
+  }
+  try {
+    const value = storage?.getItem(CACHE_KEY_PREFIX + deviceKey);
+    if (!value) {
+      return null;
+    }
+    const report: unknown = JSON.parse(value);
+    if (!isCachedReport(report, deviceKey)) {
+      log.warn('Ignoring cached capabilities in an unexpected format');
+      return null;
+    }
+    memoryCache.set(deviceKey, report);
+    return report;
+  } catch (error) {
+    log.warn('Ignoring unreadable cached capabilities:', error);
+    return null;
+  }
+}
+
+function writeCache(report: CapabilityReport, storage: CapabilityProbeOptions['storage']): void {
+  memoryCache.set(report.deviceKey, report);
+  try {
+    storage?.setItem(CACHE_KEY_PREFIX + report.deviceKey, JSON.stringify(report));
+  } catch (error) {
+    // Storage full or blocked; the results stay cached for this page
+    log.warn('Could not cache capabilities:', error);
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, test, expect } from 'vitest';
+import {
+  getAudioOnlyContainers,
+  getContainerForVideoCodec,
+  getVideoCodecStrategies,
+  resolveAudioCodecForContainer,
+  VIDEO_CODEC_STRATEGIES
+} from './CodecNegotiation';
+import { createMuxerConfig } from './ContainerMuxer';
+
+const codecSelections = ['auto', 'av1', 'hevc', 'h264', 'vp9'] as const;
+const videoCodecs = ['av1', 'hevc', 'h264', 'vp9'] as const;
+const audioCodecs = ['auto', 'opus', 'aac', 'mp3', 'flac'] as const;
+
+// Container codec id the muxers should write for each resolved audio codec
+const expectedMuxerAudioCodec = {
+  mp4: { aac: 'aac' },
+  webm: { opus: 'A_OPUS', flac: 'A_FLAC' }
+} as const;
+
+// Every codecSelection, every video codec it can end up negotiating, every audio.codec
+const combinations = codecSelections.flatMap(codecSelection =>
+  getVideoCodecStrategies(codecSelection).flatMap(({ name: videoCodec }) =>
+    audioCodecs.map(audioCodec => [codecSelection, videoCodec, audioCodec] as const)
+  )
+);
+
+describe('CodecNegotiation', () => {
+  test('getContainerForVideoCodec() should pick WebM for AV1/VP9 and MP4 otherwise', () => {
+    expect(getContainerForVideoCodec('av1')).toBe('webm');
+    expect(getContainerForVideoCodec('vp9')).toBe('webm');
+    expect(getContainerForVideoCodec('h264')).toBe('mp4');
+    expect(getContainerForVideoCodec('hevc')).toBe('mp4');
+  });
+
+  test.each(codecSelections)('getVideoCodecStrategies(%s) should try the selection first and keep every fallback', (codecSelection) => {
+    const strategies = getVideoCodecStrategies(codecSelection);
+
+    expect(strategies.map(s => s.name).sort()).toEqual([...videoCodecs].sort());
+    if (codecSelection === 'auto') {
+      expect(strategies).toEqual(VIDEO_CODEC_STRATEGIES);
+    } else {
+      expect(strategies[0].name).toBe(codecSelection);
+    }
+    strategies.forEach(strategy => {
+      expect(strategy.muxerType).toBe(getContainerForVideoCodec(strategy.name));
+    });
+  });
+
+  test.each(combinations)('codecSelection=%s negotiating %s with audio.codec=%s should produce a muxable audio track', (_codecSelection, videoCodec, audioCodec) => {
+    const container = getContainerForVideoCodec(videoCodec);
+    const resolution = resolveAudioCodecForContainer(audioCodec, container);
+
+    const config = createMuxerConfig({
+      container,
+      videoCodec,
+      audioCodec: resolution.codec,
+      width: 1280,
+      height: 720,
+      sampleRate: 48000,
+      numberOfChannels: 2
+    }, 'target', true);
+
+    const expectedCodecs: Record<string, string> = expectedMuxerAudioCodec[container];
+    expect(config.audio.codec).toBe(expectedCodecs[resolution.codec]);
+    expect(resolution.fellBack).toBe(audioCodec !== 'auto' && audioCodec !== resolution.codec);
+  });
+
+  test('resolveAudioCodecForContainer() should honour codecs the container can carry', () => {
+    expect(resolveAudioCodecForContainer('aac', 'mp4')).toEqual({ codec: 'aac', webCodecsCodec: 'mp4a.40.2', fellBack: false });
+    expect(resolveAudioCodecForContainer('opus', 'webm')).toEqual({ codec: 'opus', webCodecsCodec: 'opus', fellBack: false });
+    expect(resolveAudioCodecForContainer('flac', 'webm')).toEqual({ codec: 'flac', webCodecsCodec: 'flac', fellBack: false });
+  });
+
+  test('resolveAudioCodecForContainer() should fall back instead of mislabelling the track', () => {
+    expect(resolveAudioCodecForContainer('opus', 'mp4')).toMatchObject({ codec: 'aac', fellBack: true });
+    expect(resolveAudioCodecForContainer('mp3', 'mp4')).toMatchObject({ codec: 'aac', fellBack: true });
+    expect(resolveAudioCodecForContainer('flac', 'mp4')).toMatchObject({ codec: 'aac', fellBack: true });
+    expect(resolveAudioCodecForContainer('aac', 'webm')).toMatchObject({ codec: 'opus', fellBack: true });
+    expect(resolveAudioCodecForContainer('mp3', 'webm')).toMatchObject({ codec: 'opus', fellBack: true });
+  });
+
+  test('resolveAudioCodecForContainer() should fit audio-only Ogg and FLAC files', () => {
+    expect(resolveAudioCodecForContainer('auto', 'ogg')).toMatchObject({ codec: 'opus', fellBack: false });
+    expect(resolveAudioCodecForContainer('aac', 'ogg')).toMatchObject({ codec: 'opus', fellBack: true });
+    expect(resolveAudioCodecForContainer('auto', 'flac')).toMatchObject({ codec: 'flac', fellBack: false });
+  });
+
+  test('getAudioOnlyContainers() should put the format for the requested codec first', () => {
+    expect(getAudioOnlyContainers('auto')).toEqual(['webm', 'm4a']);
+    expect(getAudioOnlyContainers('aac')).toEqual(['m4a', 'webm']);
+    expect(getAudioOnlyContainers('flac')).toEqual(['flac', 'webm', 'm4a']);
+    expect(getAudioOnlyContainers('opus', 'ogg')).toEqual(['ogg']);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Codec Negotiation
+ *
+ * Shared rules for resolving video and audio codecs into one consistent
+ * container. The video codec is negotiated first (it decides MP4 vs WebM);
+ * the audio codec is then resolved for that container, so the audio track
+ * can always be muxed and labelled correctly.
+ */
+
+import type { AudioOnlyContainer } from './types';
+
+/**
+ * A video codec family and the codec strings to try for it, in order
+ */
+export interface VideoCodecStrategy {
+  name: 'av1' | 'hevc' | 'h264' | 'vp9';
+  codecs: string[];
+  muxerType: 'mp4' | 'webm';
+}
+
+/**
+ * Video codec strategies in default priority order
+ */
+export const VIDEO_CODEC_STRATEGIES: readonly VideoCodecStrategy[] = [
+  {
+    name: 'av1',
+    codecs: ['av01.0.04M.08'],
+    muxerType: 'webm'
+  },
+  {
+    name: 'hevc',
+    codecs: [
+      'hvc1.1.6.L93.B0',
+      'hev1.1.6.L93.B0',
+      'hvc1.1.6.L120.B0',
+      'hev1.1.6.L120.B0'
+    ],
+    muxerType: 'mp4'
+  },
+  {
+    name: 'h264',
+    codecs: [
+      'avc1.42001f',
+      'avc1.42E01E',
+      'avc1.4D401E',
+      'avc1.640028'
+    ],
+    muxerType: 'mp4'
+  },
+  {
+    name: 'vp9',
+    codecs: ['vp09.00.10.08'],
+    muxerType: 'webm'
+  }
+];
+
+/**
+ * WebCodecs codec strings for each muxable audio codec
+ */
+export const AUDIO_WEBCODECS_CODECS: Record<'opus' | 'aac' | 'flac', string> = {
+  opus: 'opus',
+  aac: 'mp4a.40.2', // AAC-LC profile
+  flac: 'flac'
+};
+
+/**
+ * Result of resolving a requested audio codec against a container
+ */
+export interface AudioCodecResolution {
+  /** Audio codec that will actually be encoded */
+  codec: 'opus' | 'aac' | 'flac';
+  /** WebCodecs codec string for the AudioEncoder */
+  webCodecsCodec: string;
+  /** True when the requested codec could not go in the container and was replaced */
+  fellBack: boolean;
+}
+
+/**
+ * Determine the container for a negotiated video codec
+ */
+export function getContainerForVideoCodec(videoCodec: 'av1' | 'hevc' | 'h264' | 'vp9' | null): 'mp4' | 'webm' {
+  return (videoCodec === 'av1' || videoCodec === 'vp9') ? 'webm' : 'mp4';
+}
+
+/**
+ * Order the video codec strategies for a codec selection
+ *
+ * An explicit selection is tried first; the remaining strategies follow in
+ * default order so recording still starts if the selection is unsupported.
+ */
+export function getVideoCodecStrategies(
+  codecSelection: 'auto' | 'av1' | 'hevc' | 'h264' | 'vp9' = 'auto'
+): VideoCodecStrategy[] {
+  if (codecSelection === 'auto') {
+    return [...VIDEO_CODEC_STRATEGIES];
+  }
+
+  const selected = VIDEO_CODEC_STRATEGIES.filter(strategy => strategy.name === codecSelection);
+  const others = VIDEO_CODEC_STRATEGIES.filter(strategy => strategy.name !== codecSelection);
+  return [...selected, ...others];
+}
+
+/**
+ * Resolve the requested audio codec for the container chosen by the video codec
+ *
+ * MP4 output carries AAC (mp4-muxer cannot write MP3 or FLAC). WebM output
+ * carries Opus, or FLAC when explicitly requested. Audio-only Ogg files carry
+ * Opus and native FLAC files carry FLAC. Any other request falls back to the
+ * container's default codec rather than writing a mislabelled track.
+ *
+ * @param requested - Codec from `AudioConfig.codec`
+ * @param container - Container decided by video codec negotiation, or the audio-only format
+ */
+export function resolveAudioCodecForContainer(
+  requested: 'auto' | 'opus' | 'aac' | 'mp3' | 'flac',
+  container: 'mp4' | 'webm' | 'ogg' | 'flac'
+): AudioCodecResolution {
+  let codec: 'opus' | 'aac' | 'flac';
+
+  if (container === 'mp4') {
+    codec = 'aac';
+  } else if (container === 'ogg') {
+    codec = 'opus';
+  } else if (container === 'flac') {
+    codec = 'flac';
+  } else {
+    codec = requested === 'flac' ? 'flac' : 'opus';
+  }
+
+  return {
+    codec,
+    webCodecsCodec: AUDIO_WEBCODECS_CODECS[codec],
+    fellBack: requested !== 'auto' && requested !== codec
+  };
+}
+
+/**
+ * Order the formats to try for an audio-only recording
+ *
+ * An explicit format is the only one tried. With 'auto' the format that fits
+ * the requested codec comes first (.m4a for AAC, .flac for FLAC, otherwise
+ * .webm), followed by .webm and .m4a so recording still starts if that codec
+ * cannot be encoded. .ogg is only used when asked for explicitly, since .webm
+ * holds the same Opus stream.
+ *
+ * @param requested - Codec from `AudioConfig.codec`
+ * @param container - Format from `AudioConfig.container`
+ */
+export function getAudioOnlyContainers(
+  requested: 'auto' | 'opus' | 'aac' | 'mp3' | 'flac',
+  container: 'auto' | AudioOnlyContainer = 'auto'
+): AudioOnlyContainer[] {
+  if (container !== 'auto') {
+    return [container];
+  }
+
+  const preferred: AudioOnlyContainer = requested === 'aac' ? 'm4a' : requested === 'flac' ? 'flac' : 'webm';
+  return [...new Set<AudioOnlyContainer>([preferred, 'webm', 'm4a'])];
+}
@@ -0,0 +1,63 @@
+import { describe, test, expect } from 'vitest';
+import { computeLayerPlacements, validateVideoLayout } from './Compositor';
+import type { VideoLayout } from './types';
+
+const screen = { width: 1920, height: 1080 };
+const camera = { width: 640, height: 480 };
+
+describe('Compositor', () => {
+  test('pip should fill the picture with the primary source and inset the others in the corner', () => {
+    const [primary, inset] = computeLayerPlacements({ type: 'pip' }, 1920, 1080, [screen, camera]);
+
+    expect(primary).toEqual({
+      source: { x: 0, y: 0, width: 1920, height: 1080 },
+      dest: { x: 0, y: 0, width: 1920, height: 1080 }
+    });
+    // 25% of the width, camera aspect ratio, 2% margin from the bottom-right corner
+    expect(inset!.dest).toEqual({ x: 1402, y: 682, width: 480, height: 360 });
+    expect(inset!.source).toEqual({ x: 0, y: 0, width: 640, height: 480 });
+  });
+
+  test('pip should stack several insets away from the corner', () => {
+    const placements = computeLayerPlacements({ type: 'pip', corner: 'top-left', size: 0.2, margin: 0 }, 1000, 1000, [screen, camera, camera]);
+
+    expect(placements[1]!.dest).toEqual({ x: 0, y: 0, width: 200, height: 150 });
+    expect(placements[2]!.dest).toEqual({ x: 0, y: 150, width: 200, height: 150 });
+  });
+
+  test('side-by-side should show each source whole in its own column', () => {
+    const [left, right] = computeLayerPlacements({ type: 'side-by-side' }, 1920, 1080, [screen, camera]);
+
+    expect(left!.dest).toEqual({ x: 0, y: 270, width: 960, height: 540 });
+    expect(right!.dest).toEqual({ x: 960, y: 180, width: 960, height: 720 });
+    expect(right!.source).toEqual({ x: 0, y: 0, width: 640, height: 480 });
+  });
+
+  test('custom rects should cover by default and crop the source from the centre', () => {
+    const layout: VideoLayout = {
+      type: 'custom',
+      rects: [
+        { x: 0, y: 0, width: 1, height: 1 },
+        { x: 0.75, y: 0, width: 0.25, height: 0.25 * 16 / 9 }
+      ]
+    };
+    const [, square] = computeLayerPlacements(layout, 1280, 720, [screen, camera]);
+
+    expect(square!.dest).toEqual({ x: 960, y: 0, width: 320, height: 320 });
+    expect(square!.source).toEqual({ x: 80, y: 0, width: 480, height: 480 });
+  });
+
+  test('should skip sources without a frame yet', () => {
+    expect(computeLayerPlacements({ type: 'pip' }, 1920, 1080, [screen, null])[1]).toBeNull();
+  });
+
+  test('validateVideoLayout() should reject layouts that cannot be drawn', () => {
+    expect(() => validateVideoLayout({ type: 'custom', rects: [{ x: 0, y: 0, width: 1, height: 1 }] }, 2))
+      .toThrow('Custom layout has 1 rects for 2 video sources');
+    expect(() => validateVideoLayout({ type: 'custom', rects: [{ x: 0, y: 0, width: 1, height: 1 }, { x: 0.5, y: 0, width: 2, height: 1 }] }, 2))
+      .toThrow('Invalid layout rect 1');
+    expect(() => validateVideoLayout({ type: 'pip', size: 0 }, 2)).toThrow('Invalid picture-in-picture size');
+    expect(() => validateVideoLayout({ type: 'grid' } as unknown as VideoLayout, 2)).toThrow('Unknown video layout: grid');
+    expect(() => validateVideoLayout({ type: 'side-by-side' }, 3)).not.toThrow();
+  });
+});
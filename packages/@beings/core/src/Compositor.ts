@@ -0,0 +1,174 @@
+/**
+ * Compositor
+ *
+ * Layout for recording several video sources as one track, e.g. a screen share
+ * with a presenter camera inset. The video worker draws the primary source's
+ * frame and the latest frame of every other source onto its canvas, so the
+ * output is paced by the primary source.
+ *
+ * Placement is computed per frame from the frames' own sizes, so a source that
+ * changes size (a resized shared window) keeps its aspect ratio.
+ */
+
+import type { LayoutRect, VideoLayout } from './types';
+
+/**
+ * Rectangle in pixels
+ */
+export interface PixelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Where to draw one source: the part of it to take, and where it goes on the canvas
+ */
+export interface LayerPlacement {
+  source: PixelRect;
+  dest: PixelRect;
+}
+
+const DEFAULT_PIP_SIZE = 0.25;
+const DEFAULT_PIP_MARGIN = 0.02;
+
+/**
+ * Check a layout against the number of sources, throwing on anything that cannot be drawn
+ *
+ * @param layout - Layout from the start options
+ * @param sourceCount - Number of video sources, primary included
+ */
+export function validateVideoLayout(layout: VideoLayout, sourceCount: number): void {
+  const inRange = (value: number, min: number, max: number) => Number.isFinite(value) && value >= min && value <= max;
+
+  switch (layout.type) {
+    case 'pip':
+      if (layout.size !== undefined && !inRange(layout.size, 0.05, 1)) {
+        throw new Error(`Invalid picture-in-picture size: ${layout.size} (expected 0.05-1)`);
+      }
+      if (layout.margin !== undefined && !inRange(layout.margin, 0, 0.5)) {
+        throw new Error(`Invalid picture-in-picture margin: ${layout.margin} (expected 0-0.5)`);
+      }
+      return;
+    case 'side-by-side':
+      return;
+    case 'custom':
+      if (layout.rects.length !== sourceCount) {
+        throw new Error(`Custom layout has ${layout.rects.length} rects for ${sourceCount} video sources`);
+      }
+      layout.rects.forEach((rect, index) => {
+        if (!inRange(rect.x, 0, 1) || !inRange(rect.y, 0, 1) || !inRange(rect.width, 0, 1) || !inRange(rect.height, 0, 1) || rect.width === 0 || rect.height === 0) {
+          throw new Error(`Invalid layout rect ${index}: expected x, y, width and height as fractions (0-1) of the output`);
+        }
+      });
+      return;
+    default:
+      throw new Error(`Unknown video layout: ${(layout as { type: string }).type}`);
+  }
+}
+
+/**
+ * Fit a source into a destination rectangle, keeping its aspect ratio
+ *
+ * 'contain' shows the whole source centred in the rectangle; 'cover' fills the
+ * rectangle with the centre of the source.
+ */
+export function fitInto(sourceWidth: number, sourceHeight: number, dest: PixelRect, fit: 'contain' | 'cover'): LayerPlacement {
+  const scale = fit === 'contain'
+    ? Math.min(dest.width / sourceWidth, dest.height / sourceHeight)
+    : Math.max(dest.width / sourceWidth, dest.height / sourceHeight);
+
+  if (fit === 'contain') {
+    const width = Math.round(sourceWidth * scale);
+    const height = Math.round(sourceHeight * scale);
+    return {
+      source: { x: 0, y: 0, width: sourceWidth, height: sourceHeight },
+      dest: { x: dest.x + Math.round((dest.width - width) / 2), y: dest.y + Math.round((dest.height - height) / 2), width, height }
+    };
+  }
+
+  const width = dest.width / scale;
+  const height = dest.height / scale;
+  return {
+    source: { x: (sourceWidth - width) / 2, y: (sourceHeight - height) / 2, width, height },
+    dest
+  };
+}
+
+/**
+ * Pixel rectangle for a fractional layout rect
+ */
+function toPixels(rect: LayoutRect, outputWidth: number, outputHeight: number): PixelRect {
+  return {
+    x: Math.round(rect.x * outputWidth),
+    y: Math.round(rect.y * outputHeight),
+    width: Math.round(rect.width * outputWidth),
+    height: Math.round(rect.height * outputHeight)
+  };
+}
+
+/**
+ * Place each source on the output canvas
+ *
+ * @param layout - Validated layout
+ * @param outputWidth - Canvas width
+ * @param outputHeight - Canvas height
+ * @param sources - Current size of each source, primary first; null while a source has no frame yet
+ * @returns One placement per source, null where there is nothing to draw
+ */
+export function computeLayerPlacements(
+  layout: VideoLayout,
+  outputWidth: number,
+  outputHeight: number,
+  sources: Array<{ width: number; height: number } | null>
+): Array<LayerPlacement | null> {
+  switch (layout.type) {
+    case 'pip': {
+      const size = layout.size ?? DEFAULT_PIP_SIZE;
+      const margin = Math.round((layout.margin ?? DEFAULT_PIP_MARGIN) * outputWidth);
+      const corner = layout.corner ?? 'bottom-right';
+      const fromRight = corner.endsWith('right');
+      const fromBottom = corner.startsWith('bottom');
+      // Insets stack away from the corner
+      let offset = margin;
+
+      return sources.map((source, index) => {
+        if (!source) {
+          return null;
+        }
+        if (index === 0) {
+          return fitInto(source.width, source.height, { x: 0, y: 0, width: outputWidth, height: outputHeight }, 'cover');
+        }
+        const width = Math.round(outputWidth * size);
+        const height = Math.round(width * source.height / source.width);
+        const dest = {
+          x: fromRight ? outputWidth - margin - width : margin,
+          y: fromBottom ? outputHeight - offset - height : offset,
+          width,
+          height
+        };
+        offset += height + margin;
+        return fitInto(source.width, source.height, dest, 'cover');
+      });
+    }
+
+    case 'side-by-side': {
+      const columnWidth = outputWidth / sources.length;
+      return sources.map((source, index) => source && fitInto(source.width, source.height, {
+        x: Math.round(index * columnWidth),
+        y: 0,
+        width: Math.round((index + 1) * columnWidth) - Math.round(index * columnWidth),
+        height: outputHeight
+      }, 'contain'));
+    }
+
+    case 'custom':
+      return sources.map((source, index) => source && fitInto(
+        source.width,
+        source.height,
+        toPixels(layout.rects[index], outputWidth, outputHeight),
+        layout.rects[index].fit ?? 'cover'
+      ));
+  }
+}
@@ -0,0 +1,155 @@
+import { describe, test, expect } from 'vitest';
+import { createMuxerConfig, muxChunksInMemory, TrackStartGate } from './ContainerMuxer';
+import type { MuxerTrackOptions, MuxInputChunk } from './ContainerMuxer';
+import { createMockChunk } from './test-utils';
+
+const baseTracks: MuxerTrackOptions = {
+  container: 'mp4',
+  videoCodec: 'h264',
+  audioCodec: 'aac',
+  width: 1280,
+  height: 720,
+  sampleRate: 48000,
+  numberOfChannels: 2
+};
+
+describe('ContainerMuxer', () => {
+  test('createMuxerConfig() should map codecs onto mp4-muxer track options', () => {
+    const config = createMuxerConfig({ ...baseTracks, videoCodec: 'hevc' }, 'target', true);
+
+    expect(config.video).toEqual({ codec: 'hevc', width: 1280, height: 720 });
+    expect(config.audio).toEqual({ codec: 'aac', sampleRate: 48000, numberOfChannels: 2 });
+    expect(config.fastStart).toBe('fragmented');
+  });
+
+  test('createMuxerConfig() should map codecs onto webm-muxer track options', () => {
+    const config = createMuxerConfig({
+      ...baseTracks,
+      container: 'webm',
+      videoCodec: 'av1',
+      audioCodec: 'opus'
+    }, 'buffer', true);
+
+    expect(config.video.codec).toBe('V_AV01');
+    expect(config.audio.codec).toBe('A_OPUS');
+  });
+
+  test('createMuxerConfig() should refuse to mislabel an audio codec the container cannot hold', () => {
+    expect(() => createMuxerConfig({ ...baseTracks, audioCodec: 'flac' }, 'target', true))
+      .toThrow('Audio codec flac cannot be muxed into MP4');
+    expect(() => createMuxerConfig({ ...baseTracks, container: 'webm', videoCodec: 'vp9' }, 'buffer', true))
+      .toThrow('Audio codec aac cannot be muxed into WebM');
+  });
+
+  test('createMuxerConfig() should write rotation and display aspect into the MP4 track matrix', () => {
+    expect(createMuxerConfig({ ...baseTracks, rotation: 90 }, 'target', true).video.rotation).toBe(90);
+
+    // 4:3 picture coded at 16:9: pixels are 0.75 wide
+    const anamorphic = createMuxerConfig({ ...baseTracks, displayWidth: 960, displayHeight: 720 }, 'target', true);
+    expect(anamorphic.video).toMatchObject({ width: 1280, height: 720 });
+    expect(anamorphic.video.rotation.map((value: number) => value + 0)).toEqual([0.75, 0, 0, 0, 1, 0, 0, 0, 1]);
+
+    const rotated = createMuxerConfig({ ...baseTracks, displayWidth: 960, displayHeight: 720, rotation: 90 }, 'target', true);
+    expect(rotated.video.rotation.map((value: number) => value + 0)).toEqual([0, 0.75, 0, -1, 0, 0, 0, 0, 1]);
+  });
+
+  test('createMuxerConfig() should leave square, unrotated video untransformed', () => {
+    const config = createMuxerConfig({ ...baseTracks, displayWidth: 1280, displayHeight: 720, rotation: 0 }, 'target', true);
+    expect(config.video.rotation).toBeUndefined();
+  });
+
+  test('createMuxerConfig() should omit the audio track when not requested', () => {
+    expect(createMuxerConfig(baseTracks, 'target', false).audio).toBeUndefined();
+    expect(createMuxerConfig({ ...baseTracks, audioCodec: null }, 'target', true).audio).toBeUndefined();
+  });
+
+  test('createMuxerConfig() should write only the audio track without a video codec', () => {
+    const config = createMuxerConfig({ ...baseTracks, videoCodec: null }, 'target', true);
+    expect(config.video).toBeUndefined();
+    expect(config.audio).toEqual({ codec: 'aac', sampleRate: 48000, numberOfChannels: 2 });
+  });
+
+  test('muxChunksInMemory() should produce an audio-only WebM file', async () => {
+    const chunks: MuxInputChunk[] = [0, 20_000, 40_000].map(timestamp => ({
+      type: 'audio',
+      chunk: createMockChunk('key', 100_000 + timestamp, 20_000)
+    }));
+    let timelineStart: number | null = null;
+
+    const blob = await muxChunksInMemory({ ...baseTracks, container: 'webm', videoCodec: null, audioCodec: 'opus' }, chunks, true, {
+      onTimelineStart: (timestamp) => { timelineStart = timestamp; }
+    });
+
+    expect(blob.type).toBe('audio/webm');
+    expect(blob.size).toBeGreaterThan(3 * 16);
+    expect(timelineStart).toBe(100_000);
+  });
+
+  test('muxChunksInMemory() should produce a WebM file from an async chunk source', async () => {
+    async function* chunks(): AsyncGenerator<MuxInputChunk> {
+      for (let i = 0; i < 3; i++) {
+        yield {
+          type: 'video',
+          chunk: createMockChunk(i === 0 ? 'key' : 'delta', i * 33333, 33333)
+        };
+      }
+    }
+
+    const blob = await muxChunksInMemory({
+      ...baseTracks,
+      container: 'webm',
+      videoCodec: 'vp9',
+      audioCodec: null
+    }, chunks(), false);
+
+    expect(blob.type).toBe('video/webm');
+    expect(blob.size).toBeGreaterThan(3 * 16);
+  });
+
+  test('TrackStartGate should keep the start-up offset between tracks', () => {
+    const gate = new TrackStartGate(true);
+    const video = (timestamp: number): MuxInputChunk => ({ type: 'video', chunk: createMockChunk('delta', timestamp, 33333) });
+    const audio = (timestamp: number): MuxInputChunk => ({ type: 'audio', chunk: createMockChunk('key', timestamp, 20000) });
+
+    // Camera running from 100ms, microphone starting at 350ms
+    expect(gate.push(video(100_000))).toEqual([]);
+    expect(gate.push(video(133_333))).toEqual([]);
+    const released = gate.push(audio(350_000));
+
+    expect(gate.timelineStart).toBe(100_000);
+    expect(released.map(({ type, timestamp }) => [type, timestamp])).toEqual([
+      ['video', 0],
+      ['video', 33_333],
+      ['audio', 250_000]
+    ]);
+    expect(gate.push(video(166_666))[0].timestamp).toBe(66_666);
+  });
+
+  test('TrackStartGate should start the timeline at the earliest track', () => {
+    const gate = new TrackStartGate(true);
+    gate.push({ type: 'video', chunk: createMockChunk('key', 500_000, 33333) });
+    const released = gate.push({ type: 'audio', chunk: createMockChunk('key', 480_000, 20000) });
+
+    expect(released.map(({ type, timestamp }) => [type, timestamp])).toEqual([['audio', 0], ['video', 20_000]]);
+  });
+
+  test('TrackStartGate should release audio straight away without a video track', () => {
+    const gate = new TrackStartGate(true, false);
+    const released = gate.push({ type: 'audio', chunk: createMockChunk('key', 480_000, 20000) });
+
+    expect(gate.timelineStart).toBe(480_000);
+    expect(released.map(({ type, timestamp }) => [type, timestamp])).toEqual([['audio', 0]]);
+  });
+
+  test('TrackStartGate should stop waiting for a track that never starts', () => {
+    const gate = new TrackStartGate(true);
+    let released = 0;
+    for (let i = 0; i < 600; i++) {
+      released += gate.push({ type: 'video', chunk: createMockChunk('delta', i * 33333, 33333) }).length;
+    }
+
+    expect(released).toBe(600);
+    // Audio from before the timeline started is dropped
+    expect(gate.push({ type: 'audio', chunk: createMockChunk('key', -10_000, 20000) })).toEqual([]);
+  });
+});
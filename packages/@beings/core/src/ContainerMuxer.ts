@@ -0,0 +1,421 @@
+/**
+ * Container Muxer
+ *
+ * Shared container-writing logic for the main thread. Maps negotiated WebCodecs
+ * codecs onto mp4-muxer / webm-muxer track options and muxes encoded chunks
+ * into a finished file. Used both for live recordings and for rebuilding
+ * journaled sessions after a crash. Without a video codec the file holds
+ * just the audio track (.m4a or audio-only .webm).
+ */
+
+import { Logger } from './Logger';
+
+/** Logger for muxing outside a recorder (crash recovery) */
+const defaultLog = new Logger('mux');
+
+/**
+ * Everything the muxers need to know about the tracks being written
+ */
+export interface MuxerTrackOptions {
+  /** Container to write */
+  container: 'mp4' | 'webm';
+  /** Negotiated video codec family (null for audio-only) */
+  videoCodec: 'av1' | 'hevc' | 'h264' | 'vp9' | null;
+  /** Negotiated audio codec family (null for video-only) */
+  audioCodec: 'opus' | 'aac' | 'mp3' | 'flac' | null;
+  /** Coded size of the encoded video (ignored when videoCodec is null) */
+  width: number;
+  height: number;
+  /** Size the video is displayed at, when its pixels are not square */
+  displayWidth?: number;
+  displayHeight?: number;
+  /** Clockwise rotation to apply on playback, in degrees */
+  rotation?: 0 | 90 | 180 | 270;
+  /** Audio track parameters (ignored when audioCodec is null) */
+  sampleRate: number;
+  numberOfChannels: number;
+}
+
+/**
+ * A single encoded chunk queued for muxing
+ */
+export interface MuxInputChunk {
+  type: 'video' | 'audio';
+  chunk: EncodedVideoChunk | EncodedAudioChunk;
+  metadata?: EncodedVideoChunkMetadata | EncodedAudioChunkMetadata;
+}
+
+/**
+ * Options for observing in-memory muxer output
+ */
+export interface MuxOutputOptions {
+  /** Called with each piece of output as the muxer writes it */
+  onData?: (data: Uint8Array, position: number) => void;
+  /** Called with the source timestamp (µs) that becomes media time zero */
+  onTimelineStart?: (timestamp: number) => void;
+  /** Logger to use instead of the default 'mux' one */
+  log?: Logger;
+}
+
+/**
+ * A chunk released by the start gate, with its timestamp on the file's timeline
+ */
+export interface TimedMuxInputChunk extends MuxInputChunk {
+  /** Microseconds from media time zero */
+  timestamp: number;
+}
+
+/** Chunks held back while waiting for a track that may never start */
+const MAX_GATED_CHUNKS = 600;
+
+/**
+ * Puts both tracks on one timeline
+ *
+ * Chunk timestamps share the session epoch, so a track that started late keeps
+ * its offset. Media time zero is the earliest first chunk of any track, which
+ * is only known once every track has produced a chunk; until then chunks are
+ * held back, then released in timestamp order. Chunks from before media time
+ * zero (a track that started after the gate gave up waiting) are dropped.
+ */
+export class TrackStartGate {
+  #waitingFor: Set<'video' | 'audio'>;
+  #pending: MuxInputChunk[] = [];
+  #timelineStart: number | null = null;
+  #droppedChunks = 0;
+  #log: Logger;
+
+  /**
+   * @param includeAudio - Whether to wait for an audio track
+   * @param includeVideo - Whether to wait for a video track (false for audio-only)
+   * @param log - Logger for timeline warnings
+   */
+  constructor(includeAudio: boolean, includeVideo = true, log: Logger = defaultLog) {
+    this.#log = log;
+    this.#waitingFor = new Set<'video' | 'audio'>();
+    if (includeVideo) {
+      this.#waitingFor.add('video');
+    }
+    if (includeAudio) {
+      this.#waitingFor.add('audio');
+    }
+  }
+
+  /** Source timestamp (µs) of media time zero, once known */
+  get timelineStart(): number | null {
+    return this.#timelineStart;
+  }
+
+  /**
+   * Queue a chunk and return the chunks that can be muxed now
+   */
+  push(input: MuxInputChunk): TimedMuxInputChunk[] {
+    if (this.#timelineStart !== null) {
+      return this.#release([input]);
+    }
+
+    this.#pending.push(input);
+    this.#waitingFor.delete(input.type);
+    if (this.#waitingFor.size > 0 && this.#pending.length < MAX_GATED_CHUNKS) {
+      return [];
+    }
+    if (this.#waitingFor.size > 0) {
+      this.#log.warn(`No ${[...this.#waitingFor].join('/')} chunk after ${MAX_GATED_CHUNKS} chunks, starting the timeline without it`);
+    }
+    return this.flush();
+  }
+
+  /**
+   * Release everything still held back (end of input)
+   */
+  flush(): TimedMuxInputChunk[] {
+    const pending = this.#pending.sort((a, b) => a.chunk.timestamp - b.chunk.timestamp);
+    this.#pending = [];
+    if (pending.length > 0 && this.#timelineStart === null) {
+      this.#timelineStart = pending[0].chunk.timestamp;
+    }
+    return this.#release(pending);
+  }
+
+  #release(inputs: MuxInputChunk[]): TimedMuxInputChunk[] {
+    const start = this.#timelineStart!;
+    const released: TimedMuxInputChunk[] = [];
+    for (const input of inputs) {
+      if (input.chunk.timestamp < start) {
+        if (this.#droppedChunks++ === 0) {
+          this.#log.warn(`Dropping ${input.type} chunks from before the start of the timeline`);
+        }
+        continue;
+      }
+      released.push({ ...input, timestamp: input.chunk.timestamp - start });
+    }
+    return released;
+  }
+}
+
+/**
+ * Add a gated chunk to an mp4-muxer or webm-muxer instance at its timeline position
+ *
+ * @param muxer - Muxer created from `createMuxerConfig()`
+ * @param input - Chunk released by a `TrackStartGate`
+ */
+export function addTimedChunk(muxer: any, input: TimedMuxInputChunk): void {
+  if (input.type === 'video') {
+    muxer.addVideoChunk(input.chunk as EncodedVideoChunk, (input.metadata || {}) as EncodedVideoChunkMetadata, input.timestamp);
+  } else {
+    muxer.addAudioChunk(input.chunk as EncodedAudioChunk, (input.metadata || {}) as EncodedAudioChunkMetadata, input.timestamp);
+  }
+}
+
+/**
+ * Growable in-memory file that accepts positioned writes
+ */
+class OutputBuffer {
+  #bytes = new Uint8Array(1024 * 1024);
+  #size = 0;
+
+  write(data: Uint8Array, position: number): void {
+    const end = position + data.byteLength;
+    if (end > this.#bytes.byteLength) {
+      const grown = new Uint8Array(Math.max(end, this.#bytes.byteLength * 2));
+      grown.set(this.#bytes.subarray(0, this.#size));
+      this.#bytes = grown;
+    }
+    this.#bytes.set(data, position);
+    this.#size = Math.max(this.#size, end);
+  }
+
+  toBlob(type: string): Blob {
+    return new Blob([this.#bytes.subarray(0, this.#size)], { type });
+  }
+}
+
+/**
+ * Container codec ids for each audio codec the muxers can write
+ */
+const MP4_AUDIO_CODECS: Record<string, 'aac' | 'opus'> = {
+  'aac': 'aac',
+  'opus': 'opus'
+};
+const WEBM_AUDIO_CODECS: Record<string, string> = {
+  'opus': 'A_OPUS',
+  'flac': 'A_FLAC'
+};
+
+/**
+ * Track matrix (mp4-muxer's TransformationMatrix layout) that stretches the
+ * coded picture to its display aspect ratio and then rotates it clockwise
+ */
+function createTrackMatrix(pixelAspectRatio: number, rotation: number): number[] {
+  const theta = rotation * (Math.PI / 180);
+  // Rounded so 90° steps give exact 0/±1 entries
+  const cos = Math.round(Math.cos(theta));
+  const sin = Math.round(Math.sin(theta));
+  return [
+    pixelAspectRatio * cos, pixelAspectRatio * sin, 0,
+    -sin, cos, 0,
+    0, 0, 1
+  ];
+}
+
+/**
+ * MIME type of a muxed file: audio/* when it has no video track
+ */
+export function getMuxedMimeType(container: 'mp4' | 'webm', hasVideo: boolean): string {
+  return `${hasVideo ? 'video' : 'audio'}/${container}`;
+}
+
+/**
+ * Build muxer options for the given tracks
+ *
+ * Throws if the audio codec cannot be written to the container, rather than
+ * labelling the track as something it isn't.
+ *
+ * @param tracks - Track description
+ * @param target - Muxer output target (mp4-muxer target object, or webm-muxer target)
+ * @param includeAudio - Whether to declare an audio track
+ * @param log - Logger for output warnings
+ */
+export function createMuxerConfig(tracks: MuxerTrackOptions, target: unknown, includeAudio: boolean, log: Logger = defaultLog): any {
+  const rotation = tracks.rotation ?? 0;
+  const pixelAspectRatio = tracks.displayWidth && tracks.displayHeight
+    ? (tracks.displayWidth / tracks.displayHeight) / (tracks.width / tracks.height)
+    : 1;
+  const hasSquarePixels = Math.abs(pixelAspectRatio - 1) < 0.01;
+
+  if (tracks.container === 'mp4') {
+    const muxerConfig: any = {
+      target,
+      fastStart: 'fragmented',
+      // Timestamps are put on a shared timeline by TrackStartGate; unlike 'strict',
+      // 'cross-track-offset' accepts a track that starts after zero
+      firstTimestampBehavior: 'cross-track-offset'
+    };
+
+    if (tracks.videoCodec) {
+      muxerConfig.video = {
+        codec: tracks.videoCodec === 'hevc' ? 'hevc' : 'avc',
+        width: tracks.width,
+        height: tracks.height
+      };
+
+      // mp4-muxer cannot write a pasp box, so a non-square pixel aspect goes into
+      // the track matrix along with the rotation
+      if (!hasSquarePixels) {
+        muxerConfig.video.rotation = createTrackMatrix(pixelAspectRatio, rotation);
+      } else if (rotation !== 0) {
+        muxerConfig.video.rotation = rotation;
+      }
+    }
+
+    if (includeAudio && tracks.audioCodec) {
+      const audioCodec = MP4_AUDIO_CODECS[tracks.audioCodec];
+      if (!audioCodec) {
+        throw new Error(`Audio codec ${tracks.audioCodec} cannot be muxed into MP4`);
+      }
+      muxerConfig.audio = {
+        codec: audioCodec,
+        sampleRate: tracks.sampleRate,
+        numberOfChannels: tracks.numberOfChannels
+      };
+    }
+
+    return muxerConfig;
+  }
+
+  if (tracks.videoCodec && (!hasSquarePixels || rotation !== 0)) {
+    log.warn(`⚠️ WebM output cannot carry the display size or rotation; the video will play at ${tracks.width}x${tracks.height}, unrotated`);
+  }
+
+  const muxerConfig: any = {
+    target,
+    // Timestamps are put on a shared timeline by TrackStartGate
+    firstTimestampBehavior: 'permissive'
+  };
+
+  if (tracks.videoCodec) {
+    muxerConfig.video = {
+      codec: tracks.videoCodec === 'av1' ? 'V_AV01' : 'V_VP9',
+      width: tracks.width,
+      height: tracks.height
+    };
+  }
+
+  if (includeAudio && tracks.audioCodec) {
+    const audioCodec = WEBM_AUDIO_CODECS[tracks.audioCodec];
+    if (!audioCodec) {
+      throw new Error(`Audio codec ${tracks.audioCodec} cannot be muxed into WebM`);
+    }
+    muxerConfig.audio = {
+      codec: audioCodec,
+      sampleRate: tracks.sampleRate,
+      numberOfChannels: tracks.numberOfChannels
+    };
+  }
+
+  return muxerConfig;
+}
+
+/**
+ * Mux a sequence of encoded chunks into an in-memory file
+ *
+ * Chunks must be in non-decreasing timestamp order per track; both muxers
+ * interleave the two tracks themselves.
+ *
+ * @param tracks - Track description
+ * @param chunks - Encoded chunks, in order (may be produced asynchronously)
+ * @param includeAudio - Whether to declare an audio track
+ * @param outputOptions - Optional output observer
+ * @returns The finished file as a Blob
+ */
+export async function muxChunksInMemory(
+  tracks: MuxerTrackOptions,
+  chunks: Iterable<MuxInputChunk> | AsyncIterable<MuxInputChunk>,
+  includeAudio: boolean,
+  outputOptions: MuxOutputOptions = {}
+): Promise<Blob> {
+  const log = outputOptions.log ?? defaultLog;
+  log.info(`Creating ${tracks.container.toUpperCase()} container for ${tracks.videoCodec ?? 'no'} video codec`);
+  const hasVideo = tracks.videoCodec !== null;
+
+  if (tracks.container === 'mp4') {
+    // Use mp4-muxer for H.264/HEVC. An unchunked stream target hands over each
+    // fragment once it is complete, so observed output is append-only.
+    const { Muxer, StreamTarget } = await import('mp4-muxer');
+    const output = new OutputBuffer();
+    const target = new StreamTarget({
+      onData: (data: Uint8Array, position: number) => {
+        output.write(data, position);
+        outputOptions.onData?.(data, position);
+      }
+    });
+
+    const muxerConfig = createMuxerConfig(tracks, target, includeAudio, log);
+    const muxer = new Muxer(muxerConfig);
+    log.debug('Created MP4 muxer with config:', muxerConfig);
+
+    await addChunksThroughGate(muxer, chunks, !!muxerConfig.audio, hasVideo, outputOptions);
+
+    muxer.finalize();
+    const blob = output.toBlob(getMuxedMimeType('mp4', hasVideo));
+    log.info(`Created MP4 blob, size: ${blob.size} bytes`);
+    return blob;
+  }
+
+  // Use webm-muxer for AV1/VP9. Writes are positioned so the muxer can patch
+  // its header (segment size, duration, cues) in place when finalizing. The
+  // buffer target is used unless the output is observed, since webm-muxer's
+  // function target needs FileSystemWritableFileStream to exist.
+  const WebMMuxer = (await import('webm-muxer')).default;
+  const output = outputOptions.onData ? new OutputBuffer() : null;
+  const target = output
+    ? (data: Uint8Array, position: number) => {
+        output.write(data, position);
+        outputOptions.onData!(data, position);
+      }
+    : 'buffer';
+  const muxerConfig = createMuxerConfig(tracks, target, includeAudio, log);
+  const muxer = new WebMMuxer(muxerConfig);
+  log.debug('Created WebM muxer with config:', muxerConfig);
+
+  await addChunksThroughGate(muxer, chunks, !!muxerConfig.audio, hasVideo, outputOptions);
+
+  const buffer = muxer.finalize();
+  const mimeType = getMuxedMimeType('webm', hasVideo);
+  const blob = output ? output.toBlob(mimeType) : new Blob(buffer ? [buffer] : [], { type: mimeType });
+  log.info(`Created WebM blob, size: ${blob.size} bytes`);
+  return blob;
+}
+
+/**
+ * Feed chunks to a muxer on a shared timeline
+ *
+ * @param muxer - Muxer created from `createMuxerConfig()`
+ * @param chunks - Encoded chunks
+ * @param hasAudio - Whether the muxer has an audio track (audio chunks are skipped otherwise)
+ * @param hasVideo - Whether the muxer has a video track (video chunks are skipped otherwise)
+ * @param outputOptions - Receives the timeline start
+ */
+async function addChunksThroughGate(
+  muxer: any,
+  chunks: Iterable<MuxInputChunk> | AsyncIterable<MuxInputChunk>,
+  hasAudio: boolean,
+  hasVideo: boolean,
+  outputOptions: MuxOutputOptions
+): Promise<void> {
+  const gate = new TrackStartGate(hasAudio, hasVideo, outputOptions.log);
+  let isTimelineReported = false;
+  const add = (released: TimedMuxInputChunk[]) => {
+    if (!isTimelineReported && gate.timelineStart !== null) {
+      isTimelineReported = true;
+      outputOptions.onTimelineStart?.(gate.timelineStart);
+    }
+    released.forEach(input => addTimedChunk(muxer, input));
+  };
+
+  for await (const input of chunks) {
+    if (input.type === 'video' ? hasVideo : hasAudio) {
+      add(gate.push(input));
+    }
+  }
+  add(gate.flush());
+}
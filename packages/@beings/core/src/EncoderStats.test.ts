@@ -0,0 +1,55 @@
+import { describe, test, expect } from 'vitest';
+import { EncoderStats, TrackOutputStats, getLatencyPercentiles } from './EncoderStats';
+
+describe('EncoderStats', () => {
+  test('should count captured, dropped and encoded frames', () => {
+    const stats = new EncoderStats();
+    stats.recordEncodeStart(0, 0);
+    stats.recordDropped();
+    stats.recordEncodeStart(33_333, 33);
+    stats.recordEncoded(0, 10);
+
+    expect(stats.snapshot(1)).toMatchObject({
+      framesCaptured: 3,
+      framesEncoded: 1,
+      framesDropped: 1,
+      encodeQueueSize: 1
+    });
+  });
+
+  test('should time each frame from encode() to the chunk with its timestamp', () => {
+    const stats = new EncoderStats();
+    expect(stats.snapshot(0).encodeLatencyMs).toBeNull();
+
+    for (let i = 0; i < 100; i++) {
+      stats.recordEncodeStart(i * 1000, i * 10);
+    }
+    // Chunks come out in order, the last five slowly
+    for (let i = 0; i < 100; i++) {
+      stats.recordEncoded(i * 1000, i * 10 + (i < 95 ? 5 : 50));
+    }
+    // A chunk that matches no frame adds no latency
+    stats.recordEncoded(999_999, 2000);
+
+    expect(stats.snapshot(0).encodeLatencyMs).toEqual({ p50: 5, p95: 5, p99: 50 });
+  });
+
+  test('getLatencyPercentiles() should use the nearest rank', () => {
+    expect(getLatencyPercentiles([])).toBeNull();
+    expect(getLatencyPercentiles([3, 1, 2])).toEqual({ p50: 2, p95: 3, p99: 3 });
+  });
+});
+
+describe('TrackOutputStats', () => {
+  test('should average the bitrate over the media time received', () => {
+    const output = new TrackOutputStats();
+    expect(output.bitrate).toBeNull();
+
+    output.add({ timestamp: 1_000_000, duration: 500_000, byteLength: 50_000 });
+    output.add({ timestamp: 1_500_000, duration: 500_000, byteLength: 75_000 });
+
+    expect(output.chunks).toBe(2);
+    expect(output.bytes).toBe(125_000);
+    expect(output.bitrate).toBe(1_000_000);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Encoder Stats
+ *
+ * Counters behind the 'stats' event. Each worker keeps an `EncoderStats`:
+ * frames offered to its encoder, frames dropped before encoding, chunks the
+ * encoder produced, and the encode latency of each frame (from `encode()` to
+ * the chunk with its timestamp). The main thread keeps a `TrackOutputStats`
+ * per track for the chunks it receives.
+ *
+ * Latency percentiles come from the most recent frames only, so they follow
+ * the encoder's current state rather than averaging in the whole session.
+ */
+
+import type { EncoderStatsSnapshot, LatencyPercentiles } from './types';
+
+/** Encode latencies kept for the percentiles */
+const LATENCY_WINDOW = 512;
+
+/** Frames awaiting output before the oldest is assumed lost (the encoder never emits some) */
+const MAX_PENDING_FRAMES = 256;
+
+/**
+ * p50/p95/p99 of a set of values, or null without any
+ */
+export function getLatencyPercentiles(values: ArrayLike<number>): LatencyPercentiles | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = Float64Array.from(values).sort();
+  // Nearest-rank percentile
+  const at = (percentile: number) => sorted[Math.max(0, Math.ceil(percentile / 100 * sorted.length) - 1)];
+  return { p50: at(50), p95: at(95), p99: at(99) };
+}
+
+/**
+ * Frame counters and encode latency for one worker's encoder
+ */
+export class EncoderStats {
+  #framesCaptured = 0;
+  #framesDropped = 0;
+  #framesEncoded = 0;
+  /** When each frame still being encoded went in, by timestamp */
+  #pending = new Map<number, number>();
+  #latencies = new Float64Array(LATENCY_WINDOW);
+  #latencyCount = 0;
+
+  /**
+   * Count a frame dropped before it reached the encoder
+   */
+  recordDropped(): void {
+    this.#framesCaptured++;
+    this.#framesDropped++;
+  }
+
+  /**
+   * Count a frame handed to the encoder
+   *
+   * @param timestamp - Timestamp of the frame, as the encoder's output will carry it
+   * @param now - performance.now()
+   */
+  recordEncodeStart(timestamp: number, now: number): void {
+    this.#framesCaptured++;
+    if (this.#pending.size >= MAX_PENDING_FRAMES) {
+      this.#pending.delete(this.#pending.keys().next().value!);
+    }
+    this.#pending.set(timestamp, now);
+  }
+
+  /**
+   * Count a chunk from the encoder and time the frame it came from
+   *
+   * @param timestamp - Timestamp of the chunk
+   * @param now - performance.now()
+   */
+  recordEncoded(timestamp: number, now: number): void {
+    this.#framesEncoded++;
+    const start = this.#pending.get(timestamp);
+    if (start === undefined) {
+      return;
+    }
+    this.#pending.delete(timestamp);
+    this.#latencies[this.#latencyCount++ % LATENCY_WINDOW] = now - start;
+  }
+
+  /**
+   * Current counters
+   *
+   * @param encodeQueueSize - The encoder's current queue size
+   */
+  snapshot(encodeQueueSize: number): EncoderStatsSnapshot {
+    return {
+      framesCaptured: this.#framesCaptured,
+      framesEncoded: this.#framesEncoded,
+      framesDropped: this.#framesDropped,
+      encodeQueueSize,
+      encodeLatencyMs: getLatencyPercentiles(this.#latencies.subarray(0, Math.min(this.#latencyCount, LATENCY_WINDOW)))
+    };
+  }
+}
+
+/**
+ * Chunks received for one track, for its output bitrate
+ */
+export class TrackOutputStats {
+  chunks = 0;
+  bytes = 0;
+  #start: number | null = null;
+  #end: number | null = null;
+
+  add(chunk: { timestamp: number; duration: number | null; byteLength: number }): void {
+    this.chunks++;
+    this.bytes += chunk.byteLength;
+    this.#start = Math.min(this.#start ?? chunk.timestamp, chunk.timestamp);
+    this.#end = Math.max(this.#end ?? 0, chunk.timestamp + (chunk.duration ?? 0));
+  }
+
+  /** Average bitrate over the media time covered so far (bits per second), or null before any media time */
+  get bitrate(): number | null {
+    if (this.#start === null || this.#end === null || this.#end <= this.#start) {
+      return null;
+    }
+    return this.bytes * 8 / ((this.#end - this.#start) / 1_000_000);
+  }
+}
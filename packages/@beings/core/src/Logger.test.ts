@@ -0,0 +1,76 @@
+import { describe, test, expect, vi, afterEach } from 'vitest';
+import { Logger, configureLogging, consoleLogSink, DEFAULT_LOG_LEVEL } from './Logger';
+import type { LogEntry, LogLevel } from './Logger';
+
+afterEach(() => {
+  configureLogging({ level: DEFAULT_LOG_LEVEL, sink: consoleLogSink });
+  vi.restoreAllMocks();
+});
+
+describe('Logger', () => {
+  test('should send entries at or above its level to its sink', () => {
+    const entries: LogEntry[] = [];
+    const log = new Logger('mux', { level: 'warn', sink: entry => entries.push(entry) });
+
+    log.debug('Created WebM muxer with config:', { streaming: false });
+    log.info('Created WebM blob, size: 1024 bytes');
+    log.warn('Dropping audio chunks from before the start of the timeline');
+    log.error('Main thread muxing failed', new Error('Out of memory'));
+
+    expect(entries.map(entry => [entry.level, entry.message])).toEqual([
+      ['warn', 'Dropping audio chunks from before the start of the timeline'],
+      ['error', 'Main thread muxing failed']
+    ]);
+    expect(entries[1]).toMatchObject({ namespace: 'mux', data: [new Error('Out of memory')] });
+    expect(entries[1].time).toBeGreaterThan(0);
+
+    log.level = 'silent';
+    log.error('Main thread muxing failed');
+    expect(entries).toHaveLength(2);
+  });
+
+  test('should forward entries from a worker logger at its own level', () => {
+    const workerEntries: LogEntry[] = [];
+    const workerLog = new Logger('video-worker', { level: 'debug', sink: entry => workerEntries.push(structuredClone(entry)) });
+    workerLog.debug('📊 Processed 100 frames (direct encoding)');
+    workerLog.info('✅ Selected codec: h264 (avc1.640028)');
+
+    const sink = vi.fn();
+    const log = new Logger('recorder', { level: 'info', sink });
+    workerEntries.forEach(entry => log.forward(entry));
+
+    expect(sink).toHaveBeenCalledTimes(1);
+    expect(sink).toHaveBeenCalledWith(expect.objectContaining({ namespace: 'video-worker', message: '✅ Selected codec: h264 (avc1.640028)' }));
+  });
+
+  test('should follow configureLogging() unless given a level and sink', () => {
+    const sink = vi.fn();
+    const configured = new Logger('codec-tester');
+    const own = new Logger('recorder', { level: 'error', sink: vi.fn() });
+
+    configureLogging({ level: 'debug', sink });
+    configured.debug('🧪 Testing: Safe Baseline');
+    own.debug('Creating audio worker...');
+
+    expect(configured.level).toBe('debug');
+    expect(sink).toHaveBeenCalledTimes(1);
+    expect(() => configureLogging({ level: 'verbose' as LogLevel })).toThrow('Invalid log level: verbose');
+  });
+
+  test('should write to the console by default, prefixed with the namespace', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const error = new Error('Reader already released');
+
+    new Logger('audio-worker').warn('Error closing encoder:', error);
+
+    expect(console.warn).toHaveBeenCalledWith('[audio-worker] Error closing encoder:', error);
+  });
+
+  test('should keep going when the sink throws', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const log = new Logger('recorder', { sink: () => { throw new Error('Sink broke'); } });
+
+    expect(() => log.info('🎬 Recording started')).not.toThrow();
+    expect(console.error).toHaveBeenCalledWith('Logger: Error in log sink:', expect.any(Error));
+  });
+});
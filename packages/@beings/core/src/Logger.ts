@@ -0,0 +1,156 @@
+/**
+ * Logger
+ *
+ * Levelled, namespaced logging for the recorder, its workers and the muxers.
+ * Each entry goes to a sink (the console by default) when its level is at or
+ * above the logger's. A recorder's loggers take `logLevel` and `logSink` from
+ * its config; everything else, such as SafeCodecTester, uploads, OPFS
+ * storage, crash recovery and telemetry, follows `configureLogging()`.
+ *
+ * Workers cannot call the main thread's sink, so their loggers post each
+ * entry over the worker's message channel and the recorder passes it on.
+ */
+
+/** Levels in increasing severity; 'silent' logs nothing */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Part of the recorder an entry comes from
+ * - 'upload': TusUploader
+ * - 'storage': OPFS files and the crash-recovery journal
+ * - 'telemetry': Telemetry and its exporters
+ * - 'capability-probe': probeCapabilities() and its cache
+ */
+export type LogNamespace = 'recorder' | 'video-worker' | 'audio-worker' | 'mux' | 'codec-tester' | 'upload' | 'storage' | 'telemetry' | 'capability-probe';
+
+/**
+ * One log line
+ */
+export interface LogEntry {
+  level: Exclude<LogLevel, 'silent'>;
+  namespace: LogNamespace;
+  message: string;
+  /** Further values logged with the message (objects, errors) */
+  data: unknown[];
+  /** Wall-clock time in ms since the epoch */
+  time: number;
+}
+
+/**
+ * Where log entries go
+ */
+export type LogSink = (entry: LogEntry) => void;
+
+/** Default level: lifecycle messages, warnings and errors, without per-frame diagnostics */
+export const DEFAULT_LOG_LEVEL: LogLevel = 'info';
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+/**
+ * Sink that writes to the browser console, prefixed with the namespace
+ */
+export const consoleLogSink: LogSink = (entry) => {
+  const write = entry.level === 'debug' ? console.debug
+    : entry.level === 'info' ? console.log
+    : entry.level === 'warn' ? console.warn
+    : console.error;
+  write(`[${entry.namespace}] ${entry.message}`, ...entry.data);
+};
+
+let defaultLevel: LogLevel = DEFAULT_LOG_LEVEL;
+let defaultSink: LogSink = consoleLogSink;
+
+/**
+ * Check a log level option
+ */
+export function validateLogLevel(level: unknown): asserts level is LogLevel | undefined {
+  if (level !== undefined && !LOG_LEVELS.includes(level as LogLevel)) {
+    throw new Error(`Invalid log level: ${String(level)}`);
+  }
+}
+
+/**
+ * Set the level and sink of loggers not configured by a recorder
+ * (SafeCodecTester, uploads, storage, telemetry, crash recovery, and the
+ * defaults of new recorders)
+ */
+export function configureLogging(options: { level?: LogLevel; sink?: LogSink }): void {
+  validateLogLevel(options.level);
+  defaultLevel = options.level ?? defaultLevel;
+  defaultSink = options.sink ?? defaultSink;
+}
+
+/**
+ * Logger for one namespace
+ */
+export class Logger {
+  readonly namespace: LogNamespace;
+  #level: LogLevel | null;
+  #sink: LogSink | null;
+
+  /**
+   * @param namespace - Where the entries come from
+   * @param options - Level and sink; either left out follows `configureLogging()`
+   */
+  constructor(namespace: LogNamespace, options: { level?: LogLevel; sink?: LogSink } = {}) {
+    this.namespace = namespace;
+    this.#level = options.level ?? null;
+    this.#sink = options.sink ?? null;
+  }
+
+  /** Lowest level logged */
+  get level(): LogLevel {
+    return this.#level ?? defaultLevel;
+  }
+
+  set level(level: LogLevel) {
+    this.#level = level;
+  }
+
+  /**
+   * Whether entries of a level are logged, to skip building costly messages
+   */
+  isEnabled(level: LogEntry['level']): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.level);
+  }
+
+  debug(message: string, ...data: unknown[]): void {
+    this.#write('debug', message, data);
+  }
+
+  info(message: string, ...data: unknown[]): void {
+    this.#write('info', message, data);
+  }
+
+  warn(message: string, ...data: unknown[]): void {
+    this.#write('warn', message, data);
+  }
+
+  error(message: string, ...data: unknown[]): void {
+    this.#write('error', message, data);
+  }
+
+  /**
+   * Pass on an entry from another logger (a worker's) if its level is logged here
+   */
+  forward(entry: LogEntry): void {
+    if (this.isEnabled(entry.level)) {
+      this.#send(entry);
+    }
+  }
+
+  #write(level: LogEntry['level'], message: string, data: unknown[]): void {
+    if (this.isEnabled(level)) {
+      this.#send({ level, namespace: this.namespace, message, data, time: performance.timeOrigin + performance.now() });
+    }
+  }
+
+  #send(entry: LogEntry): void {
+    try {
+      (this.#sink ?? defaultSink)(entry);
+    } catch (error) {
+      // A failing sink must not break recording; report it the only other way there is
+      console.error('Logger: Error in log sink:', error);
+    }
+  }
+}
@@ -0,0 +1,115 @@
+// @vitest-environment node
+import { describe, test, expect } from 'vitest';
+import { muxTracksToMatroska, MATROSKA_MIME_TYPE } from './MatroskaMuxer';
+import type { MatroskaInputChunk, MatroskaTrackOptions } from './MatroskaMuxer';
+import { createMockChunk } from './test-utils';
+
+interface EbmlElement {
+  id: number;
+  data: Uint8Array;
+}
+
+/**
+ * Read the EBML elements in `bytes` (one level)
+ */
+const readElements = (bytes: Uint8Array): EbmlElement[] => {
+  const elements: EbmlElement[] = [];
+  const readVint = (offset: number, keepMarker: boolean) => {
+    const length = Math.clz32(bytes[offset]) - 23;
+    let value = keepMarker ? bytes[offset] : bytes[offset] & (0xff >> length);
+    for (let i = 1; i < length; i++) {
+      value = value * 256 + bytes[offset + i];
+    }
+    return { value, length };
+  };
+  for (let offset = 0; offset < bytes.length;) {
+    const id = readVint(offset, true);
+    const size = readVint(offset + id.length, false);
+    const start = offset + id.length + size.length;
+    elements.push({ id: id.value, data: bytes.subarray(start, start + size.value) });
+    offset = start + size.value;
+  }
+  return elements;
+};
+
+const child = (element: EbmlElement, id: number) => readElements(element.data).find(e => e.id === id)!;
+const text = (element: EbmlElement) => new TextDecoder().decode(element.data);
+
+const tracks: MatroskaTrackOptions[] = [
+  { kind: 'video', codec: 'vp9', name: 'Camera', width: 1280, height: 720 },
+  { kind: 'video', codec: 'h264', name: 'Screen', width: 1920, height: 1080 },
+  { kind: 'audio', codec: 'opus', name: 'Microphone', sampleRate: 48000, numberOfChannels: 1 }
+];
+
+const mux = async (chunks: MatroskaInputChunk[]) => {
+  const { blob, timelineStart } = muxTracksToMatroska(tracks, chunks);
+  const [ebml, segment] = readElements(new Uint8Array(await blob.arrayBuffer()));
+  return { blob, timelineStart, ebml, segment };
+};
+
+describe('MatroskaMuxer', () => {
+  test('should write one named track entry per track', async () => {
+    const avcC = new Uint8Array([1, 0x64, 0, 0x1f]);
+    const { blob, ebml, segment } = await mux([
+      { track: 0, chunk: createMockChunk('key', 0, 33333) },
+      { track: 1, chunk: createMockChunk('key', 0, 33333), metadata: { decoderConfig: { codec: 'avc1.64001f', description: avcC } } }
+    ]);
+
+    expect(blob.type).toBe(MATROSKA_MIME_TYPE);
+    expect(text(child(ebml, 0x4282))).toBe('matroska');
+
+    const entries = readElements(child(segment, 0x1654AE6B).data);
+    expect(entries.map(entry => text(child(entry, 0x536E)))).toEqual(['Camera', 'Screen', 'Microphone']);
+    expect(entries.map(entry => text(child(entry, 0x86)))).toEqual(['V_VP9', 'V_MPEG4/ISO/AVC', 'A_OPUS']);
+    expect(Array.from(child(entries[1], 0x63A2).data)).toEqual(Array.from(avcC));
+    // Opus without a description gets an OpusHead
+    expect(text(child(entries[2], 0x63A2)).slice(0, 8)).toBe('OpusHead');
+  });
+
+  test('should keep each track at its offset on the shared timeline', async () => {
+    const { timelineStart, segment } = await mux([
+      { track: 0, chunk: createMockChunk('key', 1_000_000, 33333, { fill: 1 }) },
+      { track: 0, chunk: createMockChunk('delta', 1_033_333, 33333, { fill: 1 }) },
+      { track: 1, chunk: createMockChunk('key', 1_250_000, 33333, { fill: 2 }) },
+      { track: 2, chunk: createMockChunk('key', 1_500_000, 20000, { fill: 3 }) }
+    ]);
+    expect(timelineStart).toBe(1_000_000);
+
+    const blocks = readElements(segment.data)
+      .filter(element => element.id === 0x1F43B675)
+      .flatMap(cluster => {
+        const clusterTime = child(cluster, 0xE7).data[0] ?? 0;
+        return readElements(cluster.data)
+          .filter(element => element.id === 0xA3)
+          .map(({ data }) => ({
+            track: data[0] & 0x7f,
+            time: clusterTime + new DataView(data.buffer, data.byteOffset).getInt16(1),
+            isKey: (data[3] & 0x80) !== 0
+          }));
+      });
+
+    expect(blocks).toEqual([
+      { track: 1, time: 0, isKey: true },
+      { track: 1, time: 33, isKey: false },
+      { track: 2, time: 250, isKey: true },
+      { track: 3, time: 500, isKey: true }
+    ]);
+  });
+
+  test('should report every byte of the file through onData in order', async () => {
+    const pieces: Array<{ size: number; position: number }> = [];
+    const { blob } = muxTracksToMatroska(tracks.slice(0, 1), [{ track: 0, chunk: createMockChunk('key', 0, 33333) }],
+      (data, position) => pieces.push({ size: data.byteLength, position }));
+
+    let expectedPosition = 0;
+    for (const piece of pieces) {
+      expect(piece.position).toBe(expectedPosition);
+      expectedPosition += piece.size;
+    }
+    expect(expectedPosition).toBe(blob.size);
+  });
+
+  test('should refuse an empty track list', () => {
+    expect(() => muxTracksToMatroska([], [])).toThrow('Cannot mux 0 tracks into Matroska');
+  });
+});
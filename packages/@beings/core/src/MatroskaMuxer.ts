@@ -0,0 +1,322 @@
+/**
+ * Matroska Muxer
+ *
+ * Writes any number of video and audio tracks into one Matroska (.mkv) file,
+ * for multi-track recordings. mp4-muxer and webm-muxer only take one track of
+ * each kind, so separate tracks per source are written here instead.
+ *
+ * Matroska holds every codec the workers negotiate, so each track keeps its own
+ * codec. The file is assembled in memory once all chunks are in: block
+ * timestamps are relative to their cluster, and the segment size and duration
+ * are written up front. No cue index is written.
+ */
+
+import { Logger } from './Logger';
+import type { MuxInputChunk } from './ContainerMuxer';
+
+/** Logger for muxing outside a recorder */
+const defaultLog = new Logger('mux');
+
+/**
+ * One track of a Matroska file
+ */
+export interface MatroskaTrackOptions {
+  kind: 'video' | 'audio';
+  /** Negotiated codec family */
+  codec: 'av1' | 'hevc' | 'h264' | 'vp9' | 'opus' | 'aac' | 'mp3' | 'flac';
+  /** Full WebCodecs codec string, used to describe AV1 when the encoder gives no av1C */
+  codecString?: string;
+  /** Track name shown by players and editors */
+  name?: string;
+  /** Coded size (video) */
+  width?: number;
+  height?: number;
+  /** Display size (video), when its pixels are not square */
+  displayWidth?: number;
+  displayHeight?: number;
+  /** Audio parameters */
+  sampleRate?: number;
+  numberOfChannels?: number;
+}
+
+/**
+ * An encoded chunk for a Matroska track
+ */
+export interface MatroskaInputChunk {
+  /** Index into the track list */
+  track: number;
+  chunk: MuxInputChunk['chunk'];
+  metadata?: MuxInputChunk['metadata'];
+}
+
+/**
+ * Output of `muxTracksToMatroska()`
+ */
+export interface MatroskaOutput {
+  blob: Blob;
+  /** Source timestamp (µs) that became media time zero, or null without chunks */
+  timelineStart: number | null;
+}
+
+/** Matroska MIME type */
+export const MATROSKA_MIME_TYPE = 'video/x-matroska';
+
+const CODEC_IDS: Record<MatroskaTrackOptions['codec'], string> = {
+  'av1': 'V_AV1',
+  'hevc': 'V_MPEGH/ISO/HEVC',
+  'h264': 'V_MPEG4/ISO/AVC',
+  'vp9': 'V_VP9',
+  'opus': 'A_OPUS',
+  'aac': 'A_AAC',
+  'mp3': 'A_MPEG/L3',
+  'flac': 'A_FLAC'
+};
+
+/** Longest cluster; block timestamps are signed 16-bit milliseconds from the cluster's */
+const MAX_CLUSTER_MS = 5000;
+/** A cluster this long starts over at the next video keyframe */
+const CLUSTER_KEYFRAME_MS = 1000;
+
+/** Opus pre-skip and seek pre-roll written for every Opus track (48kHz samples / ns) */
+const OPUS_PRE_SKIP = 3840;
+const OPUS_SEEK_PRE_ROLL_NS = 80_000_000;
+
+const textEncoder = new TextEncoder();
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.byteLength;
+  }
+  return result;
+}
+
+/** Big-endian bytes of a non-negative integer below 2^53, at least `minLength` long */
+function uintBytes(value: number, minLength = 1): Uint8Array {
+  const bytes: number[] = [];
+  for (let rest = value; rest > 0 || bytes.length < minLength; rest = Math.floor(rest / 256)) {
+    bytes.unshift(rest % 256);
+  }
+  return new Uint8Array(bytes);
+}
+
+/** EBML variable-length size */
+function vintSize(size: number): Uint8Array {
+  let length = 1;
+  while (length < 8 && size >= 2 ** (7 * length) - 1) {
+    length++;
+  }
+  const bytes = uintBytes(size, length);
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+}
+
+function element(id: number, payload: Uint8Array | Uint8Array[]): Uint8Array {
+  const data = Array.isArray(payload) ? concat(payload) : payload;
+  return concat([uintBytes(id), vintSize(data.byteLength), data]);
+}
+
+const uintElement = (id: number, value: number) => element(id, uintBytes(value));
+const stringElement = (id: number, value: string) => element(id, textEncoder.encode(value));
+const floatElement = (id: number, value: number) => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, bytes);
+};
+
+function toBytes(source: AllowSharedBufferSource): Uint8Array {
+  return ArrayBuffer.isView(source)
+    ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength)
+    : new Uint8Array(source);
+}
+
+/**
+ * OpusHead for an Opus track whose encoder gave no description (RFC 7845)
+ */
+export function createOpusHead(numberOfChannels: number, sampleRate: number): Uint8Array {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(textEncoder.encode('OpusHead'));
+  head[8] = 1;
+  head[9] = numberOfChannels;
+  view.setUint16(10, OPUS_PRE_SKIP, true);
+  view.setUint32(12, sampleRate, true);
+  return head;
+}
+
+/**
+ * av1C from an 'av01.P.LLT.DD' codec string, for an AV1 encoder that gave no description
+ */
+function createAv1CodecConfiguration(codecString: string | undefined): Uint8Array {
+  const [, profile = '0', levelAndTier = '08M', depth = '08'] = (codecString ?? '').split('.');
+  const level = parseInt(levelAndTier, 10) || 0;
+  const tier = levelAndTier.endsWith('H') ? 1 : 0;
+  const highBitdepth = parseInt(depth, 10) > 8 ? 1 : 0;
+  // marker + version 1; profile + level; tier, bit depth, 4:2:0 chroma subsampling
+  return new Uint8Array([0x81, (parseInt(profile, 10) << 5) | level, (tier << 7) | (highBitdepth << 6) | 0b1100, 0]);
+}
+
+function getCodecPrivate(track: MatroskaTrackOptions, description: Uint8Array | null, log: Logger): Uint8Array | null {
+  if (description) {
+    return description;
+  }
+  switch (track.codec) {
+    case 'opus':
+      return createOpusHead(track.numberOfChannels ?? 2, track.sampleRate ?? 48000);
+    case 'av1':
+      return createAv1CodecConfiguration(track.codecString);
+    case 'h264':
+    case 'hevc':
+    case 'aac':
+    case 'flac':
+      log.warn(`⚠️ No decoder description for ${track.codec} track "${track.name ?? ''}", players may not decode it`);
+      return null;
+    default:
+      return null;
+  }
+}
+
+function trackEntry(track: MatroskaTrackOptions, number: number, description: Uint8Array | null, log: Logger): Uint8Array {
+  const codecPrivate = getCodecPrivate(track, description, log);
+  const children = [
+    uintElement(0xD7, number),                          // TrackNumber
+    uintElement(0x73C5, number),                        // TrackUID
+    uintElement(0x83, track.kind === 'video' ? 1 : 2),  // TrackType
+    uintElement(0x9C, 0),                               // FlagLacing
+    stringElement(0x22B59C, 'und'),                     // Language
+    stringElement(0x86, CODEC_IDS[track.codec])         // CodecID
+  ];
+  if (track.name) {
+    children.push(stringElement(0x536E, track.name));   // Name
+  }
+  if (codecPrivate) {
+    children.push(element(0x63A2, codecPrivate));       // CodecPrivate
+  }
+  if (track.codec === 'opus') {
+    children.push(uintElement(0x56AA, Math.round(OPUS_PRE_SKIP / 48000 * 1e9)));  // CodecDelay
+    children.push(uintElement(0x56BB, OPUS_SEEK_PRE_ROLL_NS));                  // SeekPreRoll
+  }
+
+  if (track.kind === 'video') {
+    const video = [
+      uintElement(0xB0, track.width ?? 0),              // PixelWidth
+      uintElement(0xBA, track.height ?? 0)              // PixelHeight
+    ];
+    if (track.displayWidth && track.displayHeight) {
+      video.push(uintElement(0x54B0, track.displayWidth));   // DisplayWidth
+      video.push(uintElement(0x54BA, track.displayHeight));  // DisplayHeight
+    }
+    children.push(element(0xE0, video));                // Video
+  } else {
+    children.push(element(0xE1, [                       // Audio
+      floatElement(0xB5, track.sampleRate ?? 48000),    // SamplingFrequency
+      uintElement(0x9F, track.numberOfChannels ?? 2)    // Channels
+    ]));
+  }
+
+  return element(0xAE, children);                       // TrackEntry
+}
+
+function simpleBlock(trackNumber: number, relativeMs: number, chunk: MuxInputChunk['chunk']): Uint8Array {
+  const data = new Uint8Array(chunk.byteLength);
+  chunk.copyTo(data);
+  const header = new Uint8Array(4);
+  header[0] = 0x80 | trackNumber;
+  new DataView(header.buffer).setInt16(1, relativeMs);
+  header[3] = chunk.type === 'key' ? 0x80 : 0;
+  return element(0xA3, [header, data]);
+}
+
+/**
+ * Mux the chunks of several tracks into a Matroska file
+ *
+ * Tracks share one timeline: media time zero is the earliest chunk of any
+ * track, and every other track keeps its offset from it. Chunks must be in
+ * non-decreasing timestamp order per track.
+ *
+ * @param tracks - Track descriptions; track numbers are their positions plus one
+ * @param chunks - Encoded chunks of all tracks
+ * @param onData - Called with each piece of the file in order, e.g. for checksums
+ * @param log - Logger to use instead of the default 'mux' one
+ */
+export function muxTracksToMatroska(
+  tracks: MatroskaTrackOptions[],
+  chunks: MatroskaInputChunk[],
+  onData?: (data: Uint8Array, position: number) => void,
+  log: Logger = defaultLog
+): MatroskaOutput {
+  if (tracks.length === 0 || tracks.length > 126) {
+    throw new Error(`Cannot mux ${tracks.length} tracks into Matroska (1-126 supported)`);
+  }
+
+  const sorted = [...chunks].sort((a, b) => a.chunk.timestamp - b.chunk.timestamp);
+  const timelineStart = sorted.length > 0 ? sorted[0].chunk.timestamp : null;
+
+  // Decoder descriptions come with each track's first chunks
+  const descriptions: Array<Uint8Array | null> = tracks.map(() => null);
+  for (const { track, metadata } of chunks) {
+    const description = metadata?.decoderConfig?.description;
+    if (description && !descriptions[track]) {
+      descriptions[track] = toBytes(description);
+    }
+  }
+
+  // Clusters start at video keyframes, and at least every MAX_CLUSTER_MS
+  const clusters: Uint8Array[] = [];
+  let clusterStart = 0;
+  let blocks: Uint8Array[] = [];
+  let mediaEnd = 0;
+  const closeCluster = () => {
+    if (blocks.length > 0) {
+      clusters.push(element(0x1F43B675, [uintElement(0xE7, clusterStart), ...blocks]));  // Cluster, Timestamp
+    }
+    blocks = [];
+  };
+
+  for (const { track, chunk } of sorted) {
+    const timestampMs = Math.round((chunk.timestamp - timelineStart!) / 1000);
+    const isVideoKeyframe = tracks[track].kind === 'video' && chunk.type === 'key';
+    const clusterAge = timestampMs - clusterStart;
+    if (blocks.length === 0 || clusterAge >= MAX_CLUSTER_MS || (isVideoKeyframe && clusterAge >= CLUSTER_KEYFRAME_MS)) {
+      closeCluster();
+      clusterStart = timestampMs;
+    }
+    blocks.push(simpleBlock(track + 1, timestampMs - clusterStart, chunk));
+    mediaEnd = Math.max(mediaEnd, timestampMs + (chunk.duration ?? 0) / 1000);
+  }
+  closeCluster();
+
+  const header = element(0x1A45DFA3, [                  // EBML
+    uintElement(0x4286, 1),                             // EBMLVersion
+    uintElement(0x42F7, 1),                             // EBMLReadVersion
+    uintElement(0x42F2, 4),                             // EBMLMaxIDLength
+    uintElement(0x42F3, 8),                             // EBMLMaxSizeLength
+    stringElement(0x4282, 'matroska'),                  // DocType
+    uintElement(0x4287, 4),                             // DocTypeVersion
+    uintElement(0x4285, 2)                              // DocTypeReadVersion
+  ]);
+  const info = element(0x1549A966, [                    // Info
+    uintElement(0x2AD7B1, 1_000_000),                   // TimestampScale (1ms)
+    stringElement(0x4D80, '@beings/core'),              // MuxingApp
+    stringElement(0x5741, '@beings/core'),              // WritingApp
+    floatElement(0x4489, mediaEnd)                      // Duration
+  ]);
+  const trackEntries = element(0x1654AE6B, tracks.map((track, index) => trackEntry(track, index + 1, descriptions[index], log)));
+
+  const segmentBody = [info, trackEntries, ...clusters];
+  const segmentSize = segmentBody.reduce((total, part) => total + part.byteLength, 0);
+  const parts = [header, concat([uintBytes(0x18538067), vintSize(segmentSize)]), ...segmentBody];
+
+  if (onData) {
+    let position = 0;
+    for (const part of parts) {
+      onData(part, position);
+      position += part.byteLength;
+    }
+  }
+
+  log.info(`Wrote ${tracks.length} tracks, ${sorted.length} chunks in ${clusters.length} clusters`);
+  return { blob: new Blob(parts as BlobPart[], { type: MATROSKA_MIME_TYPE }), timelineStart };
+}
@@ -0,0 +1,92 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { OpfsFileWriter, RECORDINGS_DIRECTORY } from './OpfsFileWriter';
+
+// Minimal in-memory stand-in for the OPFS handles used by OpfsFileWriter
+const createFakeOpfs = () => {
+  const files = new Map<string, Uint8Array>();
+  const failingFiles = new Set<string>();
+
+  const createFileHandle = (name: string) => ({
+    createWritable: vi.fn(async () => {
+      let bytes = new Uint8Array(0);
+      return {
+        write: vi.fn(async ({ data, position }: { data: Uint8Array; position: number }) => {
+          if (failingFiles.has(name)) {
+            throw new Error('QuotaExceededError');
+          }
+          const end = position + data.byteLength;
+          if (end > bytes.byteLength) {
+            const grown = new Uint8Array(end);
+            grown.set(bytes);
+            bytes = grown;
+          }
+          bytes.set(data, position);
+        }),
+        close: vi.fn(async () => {
+          files.set(name, bytes);
+        }),
+        abort: vi.fn(async () => {}),
+      };
+    }),
+    getFile: vi.fn(async () => new File([(files.get(name) ?? new Uint8Array(0)) as BlobPart], name)),
+  });
+
+  const directory = {
+    getFileHandle: vi.fn(async (name: string) => createFileHandle(name)),
+    removeEntry: vi.fn(async (name: string) => {
+      files.delete(name);
+    }),
+  };
+
+  const root = {
+    getDirectoryHandle: vi.fn(async () => directory),
+  };
+
+  return { files, failingFiles, directory, root };
+};
+
+describe('OpfsFileWriter', () => {
+  let opfs: ReturnType<typeof createFakeOpfs>;
+
+  beforeEach(() => {
+    opfs = createFakeOpfs();
+    vi.stubGlobal('navigator', {
+      storage: { getDirectory: vi.fn(async () => opfs.root) },
+    });
+  });
+
+  test('should assemble positional writes into a single file', async () => {
+    const writer = await OpfsFileWriter.create('recording-1.mp4');
+
+    writer.write(new Uint8Array([1, 2, 3, 4]), 0);
+    writer.write(new Uint8Array([5, 6]), 4);
+    // Muxers patch headers in place after writing later data
+    writer.write(new Uint8Array([9]), 1);
+
+    const file = await writer.close();
+
+    expect(opfs.root.getDirectoryHandle).toHaveBeenCalledWith(RECORDINGS_DIRECTORY, { create: true });
+    expect(Array.from(opfs.files.get('recording-1.mp4')!)).toEqual([1, 9, 3, 4, 5, 6]);
+    expect(file.size).toBe(6);
+    expect(writer.size).toBe(6);
+  });
+
+  test('should surface a failed write when closing', async () => {
+    opfs.failingFiles.add('recording-2.webm');
+    const writer = await OpfsFileWriter.create('recording-2.webm');
+
+    writer.write(new Uint8Array([1, 2, 3]), 0);
+
+    await expect(writer.close()).rejects.toThrow('OPFS write failed: QuotaExceededError');
+  });
+
+  test('discard() should remove the partially written file', async () => {
+    const writer = await OpfsFileWriter.create('recording-3.mp4');
+    writer.write(new Uint8Array([1]), 0);
+
+    await writer.discard();
+
+    expect(opfs.directory.removeEntry).toHaveBeenCalledWith('recording-3.mp4');
+    expect(() => writer.write(new Uint8Array([2]), 1)).toThrow('Cannot write to a closed file');
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * OPFS File Writer
+ *
+ * Positional file writer backed by the Origin Private File System. Used as the
+ * sink for streaming muxer output so long sessions are written to disk as they
+ * are recorded instead of accumulating encoded chunks in memory.
+ */
+
+import { Logger } from './Logger';
+
+const log = new Logger('storage');
+
+/** OPFS directory that holds all recorder-owned files */
+export const RECORDINGS_DIRECTORY = 'beings-recordings';
+
+/**
+ * Writes muxer output into an OPFS file at arbitrary byte positions
+ *
+ * Writes are queued on the underlying FileSystemWritableFileStream without
+ * awaiting each one, so the muxer callbacks stay synchronous. Any write
+ * failure is captured and surfaced when the file is closed.
+ */
+export class OpfsFileWriter {
+  #directory: FileSystemDirectoryHandle;
+  #fileHandle: FileSystemFileHandle;
+  #writable: FileSystemWritableFileStream;
+  #writeError: Error | null = null;
+  #bytesWritten = 0;
+  #isClosed = false;
+
+  /** Name of the file inside the recordings directory */
+  readonly fileName: string;
+
+  private constructor(
+    directory: FileSystemDirectoryHandle,
+    fileHandle: FileSystemFileHandle,
+    writable: FileSystemWritableFileStream,
+    fileName: string
+  ) {
+    this.#directory = directory;
+    this.#fileHandle = fileHandle;
+    this.#writable = writable;
+    this.fileName = fileName;
+  }
+
+  /**
+   * Check if OPFS-backed writing is available in the current environment
+   */
+  static isSupported(): boolean {
+    return typeof navigator !== 'undefined' &&
+           typeof navigator.storage?.getDirectory === 'function' &&
+           typeof FileSystemFileHandle !== 'undefined' &&
+           'createWritable' in FileSystemFileHandle.prototype;
+  }
+
+  /**
+   * Get (and create if needed) the recorder's OPFS directory
+   */
+  static async getRecordingsDirectory(): Promise<FileSystemDirectoryHandle> {
+    const root = await navigator.storage.getDirectory();
+    return root.getDirectoryHandle(RECORDINGS_DIRECTORY, { create: true });
+  }
+
+  /**
+   * Create a new, empty file in the recordings directory and open it for writing
+   *
+   * @param fileName - Name of the file to create (overwritten if it exists)
+   */
+  static async create(fileName: string): Promise<OpfsFileWriter> {
+    const directory = await OpfsFileWriter.getRecordingsDirectory();
+    const fileHandle = await directory.getFileHandle(fileName, { create: true });
+    const writable = await fileHandle.createWritable({ keepExistingData: false });
+    return new OpfsFileWriter(directory, fileHandle, writable, fileName);
+  }
+
+  /**
+   * Delete a previously written file from the recordings directory
+   *
+   * @param fileName - Name of the file to remove
+   */
+  static async delete(fileName: string): Promise<void> {
+    const directory = await OpfsFileWriter.getRecordingsDirectory();
+    await directory.removeEntry(fileName);
+  }
+
+  /** Highest byte offset written so far */
+  get size(): number {
+    return this.#bytesWritten;
+  }
+
+  /**
+   * Queue a write of `data` at byte offset `position`
+   */
+  write(data: Uint8Array, position: number): void {
+    if (this.#isClosed) {
+      throw new Error('OpfsFileWriter: Cannot write to a closed file');
+    }
+
+    this.#bytesWritten = Math.max(this.#bytesWritten, position + data.byteLength);
+    this.#writable.write({ type: 'write', data: data as BufferSource, position }).catch((error: unknown) => {
+      // Keep the first failure; it is the root cause of any that follow
+      if (!this.#writeError) {
+        this.#writeError = error instanceof Error ? error : new Error(String(error));
+      }
+    });
+  }
+
+  /**
+   * Flush all queued writes and close the file
+   *
+   * @returns The written file, read back from OPFS (data is disk-backed, not in memory)
+   */
+  async close(): Promise<File> {
+    if (!this.#isClosed) {
+      this.#isClosed = true;
+      await this.#writable.close();
+    }
+
+    if (this.#writeError) {
+      throw new Error(`OPFS write failed: ${this.#writeError.message}`);
+    }
+
+    return this.#fileHandle.getFile();
+  }
+
+  /**
+   * Abort writing and remove the partially written file
+   */
+  async discard(): Promise<void> {
+    if (!this.#isClosed) {
+      this.#isClosed = true;
+      try {
+        await this.#writable.abort();
+      } catch (error) {
+        log.warn('Error aborting OPFS writable stream:', error);
+      }
+    }
+
+    try {
+      await this.#directory.removeEntry(this.fileName);
+    } catch (error) {
+      log.warn(`Could not remove ${this.fileName} from OPFS:`, error);
+    }
+  }
+}
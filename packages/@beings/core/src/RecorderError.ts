@@ -0,0 +1,88 @@
+/**
+ * Recorder Errors
+ *
+ * Errors emitted through 'error' and thrown by `start()` / `stop()` that a UI
+ * may want to tell apart. Each carries a machine-readable `code`; other
+ * failures are plain `Error`s. Hints that do not stop the recording go through
+ * the 'warning' event instead.
+ */
+
+/** Machine-readable cause of a `RecorderError` */
+export type RecorderErrorCode = 'CODEC_UNSUPPORTED' | 'WORKER_INIT_TIMEOUT' | 'MUX_FAILED' | 'OPTIONS_UNSUPPORTED';
+
+/**
+ * Base class of the recorder's typed errors
+ */
+export class RecorderError extends Error {
+  readonly code: RecorderErrorCode;
+
+  constructor(code: RecorderErrorCode, message: string) {
+    super(message);
+    this.name = 'RecorderError';
+    this.code = code;
+  }
+}
+
+/**
+ * No codec the browser can encode was found for a track
+ */
+export class CodecUnsupportedError extends RecorderError {
+  constructor(message: string) {
+    super('CODEC_UNSUPPORTED', message);
+    this.name = 'CodecUnsupportedError';
+  }
+}
+
+/**
+ * The workers did not report ready in time
+ */
+export class WorkerInitTimeoutError extends RecorderError {
+  constructor(message: string) {
+    super('WORKER_INIT_TIMEOUT', message);
+    this.name = 'WorkerInitTimeoutError';
+  }
+}
+
+/**
+ * The encoded chunks could not be written into the container
+ */
+export class MuxError extends RecorderError {
+  constructor(message: string) {
+    super('MUX_FAILED', message);
+    this.name = 'MuxError';
+  }
+}
+
+/**
+ * The requested options cannot be combined, e.g. separate tracks with OPFS storage
+ */
+export class OptionsUnsupportedError extends RecorderError {
+  constructor(message: string) {
+    super('OPTIONS_UNSUPPORTED', message);
+    this.name = 'OptionsUnsupportedError';
+  }
+}
+
+/**
+ * Recreate an error a worker reported by message
+ *
+ * Errors lose their class when posted, so workers send the code alongside
+ * the message.
+ *
+ * @param code - Code of the worker's error, if it had one
+ * @param message - Message for the main thread's error
+ */
+export function createWorkerError(code: RecorderErrorCode | undefined, message: string): Error {
+  switch (code) {
+    case 'CODEC_UNSUPPORTED':
+      return new CodecUnsupportedError(message);
+    case 'WORKER_INIT_TIMEOUT':
+      return new WorkerInitTimeoutError(message);
+    case 'MUX_FAILED':
+      return new MuxError(message);
+    case 'OPTIONS_UNSUPPORTED':
+      return new OptionsUnsupportedError(message);
+    default:
+      return new Error(message);
+  }
+}
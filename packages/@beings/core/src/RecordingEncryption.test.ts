@@ -0,0 +1,73 @@
+// @vitest-environment node
+import { describe, test, expect } from 'vitest';
+import {
+  decryptRecording,
+  encryptRecording,
+  generateEncryptionKey,
+  validateEncryptionKey
+} from './RecordingEncryption';
+
+const createRecording = (size: number) => {
+  const bytes = new Uint8Array(size);
+  for (let i = 0; i < size; i++) {
+    bytes[i] = (i * 31 + 7) & 0xff;
+  }
+  return new Blob([bytes], { type: 'video/mp4' });
+};
+
+const readBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+describe('RecordingEncryption', () => {
+  test('decryptRecording() should restore the original file bit-for-bit', async () => {
+    const key = await generateEncryptionKey();
+    const recording = createRecording(10_000);
+
+    const { ciphertext, manifest } = await encryptRecording(recording, key, 4096);
+
+    expect(manifest.chunks).toHaveLength(3);
+    expect(manifest.plaintextSize).toBe(10_000);
+    expect(ciphertext.size).toBe(10_000);
+    expect(await readBytes(ciphertext)).not.toEqual(await readBytes(recording));
+
+    const decrypted = await decryptRecording(ciphertext, manifest, key);
+
+    expect(decrypted.type).toBe('video/mp4');
+    expect(await readBytes(decrypted)).toEqual(await readBytes(recording));
+  });
+
+  test('encryptRecording() should use a unique IV per chunk', async () => {
+    const key = await generateEncryptionKey();
+    const { manifest } = await encryptRecording(createRecording(8192), key, 1024);
+
+    const ivs = new Set(manifest.chunks.map(chunk => chunk.iv));
+    expect(ivs.size).toBe(manifest.chunks.length);
+  });
+
+  test('decryptRecording() should reject tampered or reordered chunks', async () => {
+    const key = await generateEncryptionKey();
+    const { ciphertext, manifest } = await encryptRecording(createRecording(4096), key, 1024);
+
+    const tampered = await readBytes(ciphertext);
+    tampered[1500] ^= 0xff;
+    await expect(decryptRecording(new Blob([tampered]), manifest, key))
+      .rejects.toThrow('Decryption failed for chunk 1');
+
+    const reordered = { ...manifest, chunks: [manifest.chunks[1], manifest.chunks[0], ...manifest.chunks.slice(2)] };
+    await expect(decryptRecording(ciphertext, reordered, key)).rejects.toThrow('Decryption failed for chunk 0');
+  });
+
+  test('decryptRecording() should reject the wrong key', async () => {
+    const { ciphertext, manifest } = await encryptRecording(createRecording(100), await generateEncryptionKey());
+
+    await expect(decryptRecording(ciphertext, manifest, await generateEncryptionKey()))
+      .rejects.toThrow('Decryption failed for chunk 0');
+  });
+
+  test('validateEncryptionKey() should only accept AES-GCM-256 keys', async () => {
+    const aes128 = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 128 }, false, ['encrypt']);
+    const decryptOnly = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['decrypt']);
+
+    expect(() => validateEncryptionKey(aes128)).toThrow('Encryption key must be AES-GCM 256-bit');
+    expect(() => validateEncryptionKey(decryptOnly)).toThrow('does not allow the "encrypt" usage');
+  });
+});
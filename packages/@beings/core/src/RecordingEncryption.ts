@@ -0,0 +1,238 @@
+/**
+ * Recording Encryption
+ *
+ * Client-side AES-GCM-256 encryption of muxed recordings. The file is split
+ * into fixed-size chunks, each encrypted with its own random 96-bit IV. The
+ * ciphertext keeps the plaintext layout (tags are moved into the manifest),
+ * and each chunk's index and the chunk count are authenticated so chunks
+ * cannot be reordered, dropped or truncated without decryption failing.
+ */
+
+import type { EncryptionManifest } from './types';
+
+/** Default plaintext bytes per encrypted chunk */
+export const DEFAULT_ENCRYPTION_CHUNK_SIZE = 1024 * 1024;
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * One encrypted chunk, as produced by encryptChunks()
+ */
+export interface EncryptedChunk {
+  /** Chunk index in file order */
+  index: number;
+  /** Ciphertext without the authentication tag (same length as the plaintext) */
+  ciphertext: Uint8Array;
+  iv: Uint8Array;
+  tag: Uint8Array;
+}
+
+/**
+ * Generate a new extractable AES-GCM-256 key for a recording session
+ */
+export function generateEncryptionKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Check that a key can be used to encrypt recordings
+ *
+ * @throws Error if the key is not an AES-GCM-256 encryption key
+ */
+export function validateEncryptionKey(key: CryptoKey): void {
+  const algorithm = key.algorithm as AesKeyAlgorithm;
+  if (algorithm.name !== 'AES-GCM' || algorithm.length !== 256) {
+    throw new Error(`Encryption key must be AES-GCM 256-bit, got ${algorithm.name} ${algorithm.length ?? ''}`.trim());
+  }
+  if (!key.usages.includes('encrypt')) {
+    throw new Error('Encryption key does not allow the "encrypt" usage');
+  }
+}
+
+/**
+ * Check that a chunk size is a positive whole number of bytes
+ *
+ * @throws Error if the chunk size is invalid
+ */
+export function validateEncryptionChunkSize(chunkSize: number): void {
+  if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+    throw new Error(`Invalid encryption chunk size: ${chunkSize}`);
+  }
+}
+
+/**
+ * Encrypt a file chunk by chunk
+ *
+ * Yields each chunk as soon as it is encrypted, so callers can stream the
+ * ciphertext to storage without holding the whole file twice.
+ *
+ * @param source - Muxed recording to encrypt
+ * @param key - AES-GCM-256 key
+ * @param chunkSize - Plaintext bytes per chunk
+ */
+export async function* encryptChunks(
+  source: Blob,
+  key: CryptoKey,
+  chunkSize: number = DEFAULT_ENCRYPTION_CHUNK_SIZE
+): AsyncGenerator<EncryptedChunk> {
+  const chunkCount = getChunkCount(source.size, chunkSize);
+
+  for (let index = 0; index < chunkCount; index++) {
+    const plaintext = await source.slice(index * chunkSize, (index + 1) * chunkSize).arrayBuffer();
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+
+    const sealed = new Uint8Array(await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: createAdditionalData(index, chunkCount), tagLength: TAG_LENGTH * 8 },
+      key,
+      plaintext
+    ));
+
+    yield {
+      index,
+      ciphertext: sealed.subarray(0, sealed.length - TAG_LENGTH),
+      iv,
+      tag: sealed.subarray(sealed.length - TAG_LENGTH)
+    };
+  }
+}
+
+/**
+ * Build the manifest for a set of encrypted chunks
+ *
+ * @param source - The plaintext file that was encrypted
+ * @param chunkSize - Plaintext bytes per chunk
+ * @param chunks - IV and tag of each chunk, in file order
+ */
+export function createEncryptionManifest(
+  source: Blob,
+  chunkSize: number,
+  chunks: Array<Pick<EncryptedChunk, 'iv' | 'tag'>>
+): EncryptionManifest {
+  return {
+    version: 1,
+    algorithm: 'AES-GCM',
+    keyLength: 256,
+    chunkSize,
+    plaintextSize: source.size,
+    mimeType: source.type,
+    chunks: chunks.map(({ iv, tag }) => ({ iv: toBase64(iv), tag: toBase64(tag) }))
+  };
+}
+
+/**
+ * Encrypt a recording in memory
+ *
+ * @param source - Muxed recording to encrypt
+ * @param key - AES-GCM-256 key
+ * @param chunkSize - Plaintext bytes per chunk
+ * @returns The ciphertext and the manifest needed to decrypt it
+ */
+export async function encryptRecording(
+  source: Blob,
+  key: CryptoKey,
+  chunkSize: number = DEFAULT_ENCRYPTION_CHUNK_SIZE
+): Promise<{ ciphertext: Blob; manifest: EncryptionManifest }> {
+  const parts: Uint8Array[] = [];
+  const chunks: EncryptedChunk[] = [];
+
+  for await (const chunk of encryptChunks(source, key, chunkSize)) {
+    parts.push(chunk.ciphertext);
+    chunks.push(chunk);
+  }
+
+  return {
+    ciphertext: new Blob(parts as BlobPart[], { type: 'application/octet-stream' }),
+    manifest: createEncryptionManifest(source, chunkSize, chunks)
+  };
+}
+
+/**
+ * Decrypt a recording produced with `encryption` enabled
+ *
+ * Restores the original muxed file bit-for-bit.
+ *
+ * @param ciphertext - Encrypted recording (`RecordingResult.blob`)
+ * @param manifest - `RecordingResult.encryption`
+ * @param key - Key the recording was encrypted with
+ * @throws Error if the ciphertext, manifest or key do not match
+ */
+export async function decryptRecording(
+  ciphertext: Blob,
+  manifest: EncryptionManifest,
+  key: CryptoKey
+): Promise<Blob> {
+  if (manifest.version !== 1 || manifest.algorithm !== 'AES-GCM') {
+    throw new Error(`Unsupported encryption manifest: version ${manifest.version}, ${manifest.algorithm}`);
+  }
+  if (ciphertext.size !== manifest.plaintextSize) {
+    throw new Error(`Ciphertext is ${ciphertext.size} bytes, manifest expects ${manifest.plaintextSize}`);
+  }
+
+  const chunkCount = getChunkCount(manifest.plaintextSize, manifest.chunkSize);
+  if (manifest.chunks.length !== chunkCount) {
+    throw new Error(`Manifest lists ${manifest.chunks.length} chunks, expected ${chunkCount}`);
+  }
+
+  const parts: ArrayBuffer[] = [];
+
+  for (let index = 0; index < chunkCount; index++) {
+    const { iv, tag } = manifest.chunks[index];
+    const encrypted = new Uint8Array(await ciphertext.slice(index * manifest.chunkSize, (index + 1) * manifest.chunkSize).arrayBuffer());
+    const tagBytes = fromBase64(tag);
+
+    const sealed = new Uint8Array(encrypted.length + tagBytes.length);
+    sealed.set(encrypted);
+    sealed.set(tagBytes, encrypted.length);
+
+    try {
+      parts.push(await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(iv), additionalData: createAdditionalData(index, chunkCount), tagLength: TAG_LENGTH * 8 },
+        key,
+        sealed
+      ));
+    } catch (error) {
+      throw new Error(`Decryption failed for chunk ${index}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return new Blob(parts, { type: manifest.mimeType });
+}
+
+/**
+ * Number of chunks a file of the given size is split into (at least one, so
+ * an empty file still carries an authentication tag)
+ */
+function getChunkCount(size: number, chunkSize: number): number {
+  validateEncryptionChunkSize(chunkSize);
+  return Math.max(1, Math.ceil(size / chunkSize));
+}
+
+/**
+ * Authenticated data binding a chunk to its position: index and chunk count,
+ * both big-endian uint32
+ */
+function createAdditionalData(index: number, chunkCount: number): ArrayBuffer {
+  const data = new Uint8Array(8);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, index);
+  view.setUint32(4, chunkCount);
+  return data.buffer;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,103 @@
+// @vitest-environment node
+import { describe, test, expect } from 'vitest';
+import { crc32c, createIntegrityManifest, IntegrityHasher, Sha256, verifyRecording } from './RecordingIntegrity';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+const sha256Hex = (data: Uint8Array) => {
+  const hash = new Sha256();
+  hash.update(data);
+  return hash.digestHex();
+};
+
+const subtleSha256Hex = async (data: Uint8Array) => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data as Uint8Array<ArrayBuffer>));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const createRecording = (size: number) => {
+  const bytes = new Uint8Array(size);
+  for (let i = 0; i < size; i++) {
+    bytes[i] = (i * 7 + (i >> 8)) & 0xff;
+  }
+  return bytes;
+};
+
+describe('RecordingIntegrity', () => {
+  test('crc32c() should match the Castagnoli check value', () => {
+    expect(crc32c(0, encode('123456789'))).toBe(0xe3069283);
+    expect(crc32c(crc32c(0, encode('12345')), encode('6789'))).toBe(0xe3069283);
+  });
+
+  test('Sha256 should match known digests and Web Crypto', async () => {
+    expect(sha256Hex(new Uint8Array(0))).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(sha256Hex(encode('abc'))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+
+    // Odd-sized updates crossing block boundaries
+    const data = createRecording(100_003);
+    const hash = new Sha256();
+    for (let offset = 0; offset < data.length; offset += 999) {
+      hash.update(data.subarray(offset, offset + 999));
+    }
+    expect(hash.digestHex()).toBe(await subtleSha256Hex(data));
+  });
+
+  test('IntegrityHasher should checksum each part and the whole file as it is written', async () => {
+    const data = createRecording(2500);
+    const hasher = new IntegrityHasher(1000);
+    for (let offset = 0; offset < data.length; offset += 300) {
+      hasher.write(data.subarray(offset, offset + 300), offset);
+    }
+
+    const manifest = hasher.finish();
+
+    expect(manifest.size).toBe(2500);
+    expect(manifest.sha256).toBe(await subtleSha256Hex(data));
+    expect(manifest.parts.map(({ offset, size }) => [offset, size])).toEqual([[0, 1000], [1000, 1000], [2000, 500]]);
+    expect(manifest.parts[1].crc32c).toBe(crc32c(0, data.subarray(1000, 2000)).toString(16).padStart(8, '0'));
+  });
+
+  test('createIntegrityManifest() should match checksums taken while writing', async () => {
+    const data = createRecording(2500);
+    const hasher = new IntegrityHasher(1000);
+    hasher.write(data, 0);
+
+    expect(await createIntegrityManifest(new Blob([data]), 1000)).toEqual(hasher.finish());
+  });
+
+  test('IntegrityHasher should refuse output that is not append-only', () => {
+    const hasher = new IntegrityHasher(1000);
+    hasher.write(new Uint8Array(100), 0);
+    hasher.write(new Uint8Array(4), 10);
+
+    expect(() => hasher.finish()).toThrow('Integrity hashing needs append-only output: write at 10, expected 100');
+  });
+
+  test('verifyRecording() should accept the original and pinpoint corrupt parts', async () => {
+    const data = createRecording(5000);
+    const hasher = new IntegrityHasher(1024);
+    hasher.write(data, 0);
+    const manifest = hasher.finish();
+
+    expect(await verifyRecording(new Blob([data]), manifest)).toEqual({
+      valid: true,
+      sizeMatches: true,
+      sha256Matches: true,
+      corruptParts: []
+    });
+
+    const corrupted = data.slice();
+    corrupted[3000] ^= 0x01;
+    expect(await verifyRecording(new Blob([corrupted]), manifest)).toEqual({
+      valid: false,
+      sizeMatches: true,
+      sha256Matches: false,
+      corruptParts: [2]
+    });
+
+    const truncated = await verifyRecording(new Blob([data.subarray(0, 4096)]), manifest);
+    expect(truncated.valid).toBe(false);
+    expect(truncated.sizeMatches).toBe(false);
+    expect(truncated.corruptParts).toEqual([4]);
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * Recording Integrity
+ *
+ * Checksums for recorded output: a CRC32C per fixed-size part and a SHA-256
+ * of the whole file. Both are computed incrementally as the output is
+ * written, so producing the manifest needs no second pass over the file.
+ * Parts use the default upload part size so they line up with TUS parts.
+ *
+ * Web Crypto only hashes complete buffers, so SHA-256 is implemented here
+ * as an incremental hash.
+ */
+
+import type { IntegrityManifest } from './types';
+
+/** Default bytes per CRC32C part (matches the default upload part size) */
+export const DEFAULT_INTEGRITY_PART_SIZE = 8 * 1024 * 1024;
+
+/** Bytes read per step when checksumming a finished file */
+const VERIFY_READ_SIZE = 1024 * 1024;
+
+/**
+ * Result of checking a file against its integrity manifest
+ */
+export interface IntegrityVerification {
+  /** True when size, every part CRC32C and the SHA-256 all match */
+  valid: boolean;
+  sizeMatches: boolean;
+  sha256Matches: boolean;
+  /** Indexes of parts whose CRC32C does not match */
+  corruptParts: number[];
+}
+
+const CRC32C_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0x82f63b78 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Continue a CRC32C (Castagnoli) over more data
+ *
+ * @param crc - CRC of the preceding data (0 to start)
+ * @param data - Next bytes
+ */
+export function crc32c(crc: number, data: Uint8Array): number {
+  let c = ~crc >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC32C_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return ~c >>> 0;
+}
+
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+/**
+ * Incremental SHA-256
+ */
+export class Sha256 {
+  #state = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+  ]);
+  #block = new Uint8Array(64);
+  #blockLength = 0;
+  #byteLength = 0;
+  #words = new Uint32Array(64);
+
+  /**
+   * Hash more data
+   */
+  update(data: Uint8Array): void {
+    this.#byteLength += data.length;
+    let offset = 0;
+
+    // Top up a partial block first
+    if (this.#blockLength > 0) {
+      const take = Math.min(64 - this.#blockLength, data.length);
+      this.#block.set(data.subarray(0, take), this.#blockLength);
+      this.#blockLength += take;
+      offset = take;
+      if (this.#blockLength < 64) {
+        return;
+      }
+      this.#compress(this.#block, 0);
+      this.#blockLength = 0;
+    }
+
+    for (; offset + 64 <= data.length; offset += 64) {
+      this.#compress(data, offset);
+    }
+
+    this.#block.set(data.subarray(offset), 0);
+    this.#blockLength = data.length - offset;
+  }
+
+  /**
+   * Finish hashing and return the digest as lowercase hex
+   */
+  digestHex(): string {
+    const bitLength = this.#byteLength * 8;
+    const padding = new Uint8Array(this.#blockLength < 56 ? 64 - this.#blockLength : 128 - this.#blockLength);
+    padding[0] = 0x80;
+    const view = new DataView(padding.buffer);
+    view.setUint32(padding.length - 8, Math.floor(bitLength / 0x100000000));
+    view.setUint32(padding.length - 4, bitLength >>> 0);
+    this.update(padding);
+
+    return Array.from(this.#state, word => word.toString(16).padStart(8, '0')).join('');
+  }
+
+  #compress(data: Uint8Array, offset: number): void {
+    const w = this.#words;
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      w[i] = (data[j] << 24) | (data[j + 1] << 16) | (data[j + 2] << 8) | data[j + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const w15 = w[i - 15];
+      const w2 = w[i - 2];
+      const s0 = ((w15 >>> 7) | (w15 << 25)) ^ ((w15 >>> 18) | (w15 << 14)) ^ (w15 >>> 3);
+      const s1 = ((w2 >>> 17) | (w2 << 15)) ^ ((w2 >>> 19) | (w2 << 13)) ^ (w2 >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+
+    const state = this.#state;
+    let a = state[0], b = state[1], c = state[2], d = state[3];
+    let e = state[4], f = state[5], g = state[6], h = state[7];
+
+    for (let i = 0; i < 64; i++) {
+      const s1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (h + s1 + ch + SHA256_K[i] + w[i]) | 0;
+      const s0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (s0 + maj) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+
+    state[0] += a; state[1] += b; state[2] += c; state[3] += d;
+    state[4] += e; state[5] += f; state[6] += g; state[7] += h;
+  }
+}
+
+/**
+ * Builds an integrity manifest from output as it is written
+ *
+ * Output must be append-only: each write has to start where the previous one
+ * ended, since SHA-256 can only be computed in order.
+ */
+export class IntegrityHasher {
+  #partSize: number;
+  #sha256 = new Sha256();
+  #parts: IntegrityManifest['parts'] = [];
+  #partOffset = 0;
+  #partCrc = 0;
+  #partLength = 0;
+  #size = 0;
+  #error: Error | null = null;
+
+  constructor(partSize: number = DEFAULT_INTEGRITY_PART_SIZE) {
+    if (!Number.isInteger(partSize) || partSize <= 0) {
+      throw new Error(`Invalid integrity part size: ${partSize}`);
+    }
+    this.#partSize = partSize;
+  }
+
+  /** Bytes hashed so far */
+  get size(): number {
+    return this.#size;
+  }
+
+  /**
+   * Hash the next piece of output
+   *
+   * @param data - Output bytes
+   * @param position - Byte offset of `data`; must equal the bytes hashed so far
+   */
+  write(data: Uint8Array, position: number = this.#size): void {
+    if (this.#error) {
+      return;
+    }
+    if (position !== this.#size) {
+      this.#error = new Error(`Integrity hashing needs append-only output: write at ${position}, expected ${this.#size}`);
+      return;
+    }
+
+    this.#sha256.update(data);
+    this.#size += data.length;
+
+    let offset = 0;
+    while (offset < data.length) {
+      const take = Math.min(this.#partSize - this.#partLength, data.length - offset);
+      this.#partCrc = crc32c(this.#partCrc, data.subarray(offset, offset + take));
+      this.#partLength += take;
+      offset += take;
+
+      if (this.#partLength === this.#partSize) {
+        this.#closePart();
+      }
+    }
+  }
+
+  /**
+   * Finish hashing and return the manifest
+   *
+   * @throws Error if the output was not written append-only
+   */
+  finish(): IntegrityManifest {
+    if (this.#error) {
+      throw this.#error;
+    }
+    if (this.#partLength > 0) {
+      this.#closePart();
+    }
+
+    return {
+      version: 1,
+      size: this.#size,
+      partSize: this.#partSize,
+      sha256: this.#sha256.digestHex(),
+      parts: this.#parts
+    };
+  }
+
+  #closePart(): void {
+    this.#parts.push({
+      offset: this.#partOffset,
+      size: this.#partLength,
+      crc32c: this.#partCrc.toString(16).padStart(8, '0')
+    });
+    this.#partOffset += this.#partLength;
+    this.#partCrc = 0;
+    this.#partLength = 0;
+  }
+}
+
+/**
+ * Checksum a finished file in one pass
+ *
+ * For output that was not written append-only, e.g. a WebM file whose header
+ * was patched when it was finalized.
+ *
+ * @param blob - Finished recording
+ * @param partSize - Bytes per CRC32C part
+ */
+export async function createIntegrityManifest(blob: Blob, partSize: number = DEFAULT_INTEGRITY_PART_SIZE): Promise<IntegrityManifest> {
+  const hasher = new IntegrityHasher(partSize);
+  for (let offset = 0; offset < blob.size; offset += VERIFY_READ_SIZE) {
+    hasher.write(new Uint8Array(await blob.slice(offset, offset + VERIFY_READ_SIZE).arrayBuffer()));
+  }
+  return hasher.finish();
+}
+
+/**
+ * Check a recording against its integrity manifest
+ *
+ * @param blob - Recording to check (`RecordingResult.blob`)
+ * @param manifest - `RecordingResult.integrity`
+ */
+export async function verifyRecording(blob: Blob, manifest: IntegrityManifest): Promise<IntegrityVerification> {
+  if (manifest.version !== 1) {
+    throw new Error(`Unsupported integrity manifest version: ${manifest.version}`);
+  }
+
+  const actual = await createIntegrityManifest(blob, manifest.partSize);
+
+  const corruptParts = manifest.parts
+    .map((part, index) => ({ index, matches: actual.parts[index]?.crc32c === part.crc32c && actual.parts[index]?.size === part.size }))
+    .filter(({ matches }) => !matches)
+    .map(({ index }) => index);
+
+  const sizeMatches = actual.size === manifest.size;
+  const sha256Matches = actual.sha256 === manifest.sha256;
+
+  return {
+    valid: sizeMatches && sha256Matches && corruptParts.length === 0 && actual.parts.length === manifest.parts.length,
+    sizeMatches,
+    sha256Matches,
+    corruptParts
+  };
+}
@@ -0,0 +1,54 @@
+import { describe, test, expect } from 'vitest';
+import { resolveOutputResolution, validateResolutionOptions } from './Resolution';
+import type { ResolutionOptions } from './Resolution';
+
+describe('Resolution', () => {
+  test('should scale to the preset size without a fit mode', () => {
+    expect(resolveOutputResolution(1920, 1080)).toEqual({ width: 1920, height: 1080, needsScaling: false, sourceRect: null });
+    expect(resolveOutputResolution(1280, 720, { resolutionTarget: '720p' })).toMatchObject({ width: 1280, height: 720, needsScaling: false });
+    // A 4:3 source is stretched to the 16:9 preset
+    expect(resolveOutputResolution(1440, 1080, { resolutionTarget: '720p' })).toMatchObject({ width: 1280, height: 720, needsScaling: true });
+  });
+
+  test("'contain' should fit the whole picture inside the target size", () => {
+    expect(resolveOutputResolution(1440, 1080, { resolutionTarget: '720p', fit: 'contain' }))
+      .toEqual({ width: 960, height: 720, needsScaling: true, sourceRect: null, fit: 'contain' });
+    // Limits alone imply 'contain' and never scale up
+    expect(resolveOutputResolution(1920, 1080, { maxWidth: 1000 })).toMatchObject({ width: 1000, height: 562, fit: 'contain' });
+    expect(resolveOutputResolution(640, 480, { maxWidth: 1280, maxHeight: 720 }))
+      .toMatchObject({ width: 640, height: 480, needsScaling: false });
+  });
+
+  test("'cover' should fill the target size and crop the overflow from the centre", () => {
+    expect(resolveOutputResolution(1440, 1080, { resolutionTarget: '720p', fit: 'cover' })).toEqual({
+      width: 1280,
+      height: 720,
+      needsScaling: true,
+      sourceRect: { x: 0, y: 135, width: 1440, height: 810 },
+      fit: 'cover'
+    });
+  });
+
+  test("'crop' should cut the centre out at the source pixel size", () => {
+    expect(resolveOutputResolution(1920, 1080, { maxWidth: 1080, maxHeight: 1080, fit: 'crop' })).toEqual({
+      width: 1080,
+      height: 1080,
+      needsScaling: true,
+      sourceRect: { x: 420, y: 0, width: 1080, height: 1080 },
+      fit: 'crop'
+    });
+  });
+
+  test('preset sizes should be capped by maxWidth/maxHeight', () => {
+    expect(resolveOutputResolution(3840, 2160, { resolutionTarget: '1080p', maxHeight: 720 }))
+      .toMatchObject({ width: 1280, height: 720, fit: 'contain' });
+  });
+
+  test('validateResolutionOptions() should reject options the worker could not apply', () => {
+    expect(() => validateResolutionOptions({ resolutionTarget: '8k' } as unknown as ResolutionOptions)).toThrow('Invalid resolutionTarget: 8k');
+    expect(() => validateResolutionOptions({ fit: 'stretch' } as unknown as ResolutionOptions)).toThrow('Invalid fit: stretch');
+    expect(() => validateResolutionOptions({ maxWidth: 0 })).toThrow('Invalid maxWidth: 0');
+    expect(() => validateResolutionOptions({ maxHeight: 720.5 })).toThrow('Invalid maxHeight: 720.5');
+    expect(() => validateResolutionOptions({ resolutionTarget: '1080p', maxWidth: 1280, fit: 'cover' })).not.toThrow();
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Resolution
+ *
+ * Chooses the encoded size for a source track from the resolution options on
+ * `SlowTrackRecorderConfig`. Without a fit mode the source is scaled to the
+ * preset size, whatever its aspect ratio (a differing aspect ratio is carried
+ * to the container as display size). With a fit mode the aspect ratio is kept,
+ * by scaling to fit, by cropping, or both.
+ *
+ * Runs in the video worker; validation runs on the main thread so bad options
+ * fail in the constructor rather than after the workers have started.
+ */
+
+import type { ResolutionFit, ResolutionTarget } from './types';
+
+/**
+ * Resolution options from `SlowTrackRecorderConfig`
+ */
+export interface ResolutionOptions {
+  resolutionTarget?: ResolutionTarget;
+  maxWidth?: number;
+  maxHeight?: number;
+  fit?: ResolutionFit;
+}
+
+/**
+ * Region of the source frame that is encoded
+ */
+export interface SourceRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Encoded size chosen for a source
+ */
+export interface OutputResolution {
+  width: number;
+  height: number;
+  /** Whether frames must be redrawn (scaled or cropped) before encoding */
+  needsScaling: boolean;
+  /** Part of the source frame to encode, or null for all of it */
+  sourceRect: SourceRect | null;
+  /** Fit mode used, or undefined when scaled to the preset size */
+  fit?: ResolutionFit;
+}
+
+/** Target sizes of the fixed presets */
+const PRESET_SIZES: Record<Exclude<ResolutionTarget, 'auto'>, { width: number; height: number }> = {
+  '4k': { width: 3840, height: 2160 },
+  '1080p': { width: 1920, height: 1080 },
+  '720p': { width: 1280, height: 720 },
+  '540p': { width: 960, height: 540 }
+};
+
+const RESOLUTION_TARGETS: readonly ResolutionTarget[] = ['auto', '4k', '1080p', '720p', '540p'];
+const RESOLUTION_FITS: readonly ResolutionFit[] = ['contain', 'cover', 'crop'];
+
+/**
+ * Check the resolution options, throwing on anything the video worker could not apply
+ */
+export function validateResolutionOptions(options: ResolutionOptions): void {
+  if (options.resolutionTarget !== undefined && !RESOLUTION_TARGETS.includes(options.resolutionTarget)) {
+    throw new Error(`Invalid resolutionTarget: ${options.resolutionTarget} (expected one of ${RESOLUTION_TARGETS.join(', ')})`);
+  }
+  if (options.fit !== undefined && !RESOLUTION_FITS.includes(options.fit)) {
+    throw new Error(`Invalid fit: ${options.fit} (expected one of ${RESOLUTION_FITS.join(', ')})`);
+  }
+  for (const key of ['maxWidth', 'maxHeight'] as const) {
+    const value = options[key];
+    if (value !== undefined && !(Number.isInteger(value) && value >= 2)) {
+      throw new Error(`Invalid ${key}: ${value} (expected an integer of at least 2)`);
+    }
+  }
+}
+
+/**
+ * Calculate scaled dimensions that fit within hardware limits while preserving aspect ratio
+ */
+function calculateScaledDimensions(
+  originalWidth: number,
+  originalHeight: number,
+  maxWidth = 1920,
+  maxHeight = 1080
+) {
+  if (originalWidth <= maxWidth && originalHeight <= maxHeight) {
+    return { width: originalWidth, height: originalHeight, needsScaling: false };
+  }
+
+  const widthRatio = maxWidth / originalWidth;
+  const heightRatio = maxHeight / originalHeight;
+  const scalingFactor = Math.min(widthRatio, heightRatio);
+
+  const scaledWidth = Math.floor(originalWidth * scalingFactor / 2) * 2;
+  const scaledHeight = Math.floor(originalHeight * scalingFactor / 2) * 2;
+
+  let finalWidth = Math.floor(scaledWidth / 16) * 16;
+  let finalHeight = Math.floor(scaledHeight / 16) * 16;
+
+  if (finalWidth < 640) finalWidth = 640;
+  if (finalHeight < 360) finalHeight = 360;
+  if (finalWidth > 1920) finalWidth = 1920;
+  if (finalHeight > 1080) finalHeight = 1080;
+
+  return { width: finalWidth, height: finalHeight, needsScaling: true };
+}
+
+/**
+ * Preset size for a resolution target, scaled to exactly (no fit mode)
+ */
+function determineTargetResolution(
+  originalWidth: number,
+  originalHeight: number,
+  resolutionTarget: ResolutionTarget
+): { width: number; height: number; needsScaling: boolean } {
+  if (resolutionTarget === 'auto') {
+    const scaled = calculateScaledDimensions(originalWidth, originalHeight, 1920, 1080);
+
+    if (scaled.width >= 1600) {
+      const widthDifference = Math.abs(originalWidth - 1920) / originalWidth;
+      const heightDifference = Math.abs(originalHeight - 1080) / originalHeight;
+
+      if (widthDifference > 0.02 || heightDifference > 0.02 || 1920 < originalWidth || 1080 < originalHeight) {
+        return { width: 1920, height: 1080, needsScaling: true };
+      }
+      return { width: originalWidth, height: originalHeight, needsScaling: false };
+    } else if (scaled.width >= 1200) {
+      return { width: 1280, height: 720, needsScaling: true };
+    } else if (scaled.width >= 800) {
+      return { width: 960, height: 540, needsScaling: true };
+    }
+    return { width: 640, height: 360, needsScaling: true };
+  }
+
+  const preset = PRESET_SIZES[resolutionTarget];
+  if (resolutionTarget === '4k') {
+    return { ...preset, needsScaling: true };
+  }
+
+  // A source within 2% of the preset is encoded as-is
+  const widthDifference = Math.abs(originalWidth - preset.width) / originalWidth;
+  const heightDifference = Math.abs(originalHeight - preset.height) / originalHeight;
+  if (widthDifference <= 0.02 && heightDifference <= 0.02 && originalWidth <= preset.width && originalHeight <= preset.height) {
+    return { width: originalWidth, height: originalHeight, needsScaling: false };
+  }
+  return { ...preset, needsScaling: true };
+}
+
+/** Round down to an even size of at least 2, as the encoders require */
+const even = (value: number) => Math.max(2, Math.floor(value / 2) * 2);
+
+/**
+ * Choose the encoded size for a source
+ *
+ * The target size is the preset's, capped by `maxWidth`/`maxHeight`; with only
+ * `maxWidth`/`maxHeight` set, it is those limits alone. Setting either limit
+ * without a fit mode implies 'contain'. Fit modes never scale up.
+ *
+ * @param sourceWidth - Width of the source track
+ * @param sourceHeight - Height of the source track
+ * @param options - Resolution options from the recorder config
+ */
+export function resolveOutputResolution(
+  sourceWidth: number,
+  sourceHeight: number,
+  options: ResolutionOptions = {}
+): OutputResolution {
+  const hasLimits = options.maxWidth !== undefined || options.maxHeight !== undefined;
+  const fit = options.fit ?? (hasLimits ? 'contain' : undefined);
+
+  if (!fit) {
+    return { ...determineTargetResolution(sourceWidth, sourceHeight, options.resolutionTarget ?? 'auto'), sourceRect: null };
+  }
+
+  const box = options.resolutionTarget !== undefined || !hasLimits
+    ? determineTargetResolution(sourceWidth, sourceHeight, options.resolutionTarget ?? 'auto')
+    : { width: Infinity, height: Infinity };
+  const boxWidth = Math.min(box.width, options.maxWidth ?? Infinity);
+  const boxHeight = Math.min(box.height, options.maxHeight ?? Infinity);
+
+  const widthRatio = boxWidth / sourceWidth;
+  const heightRatio = boxHeight / sourceHeight;
+  let scale: number;
+  if (fit === 'crop') {
+    scale = 1;
+  } else if (fit === 'cover' && Number.isFinite(widthRatio) && Number.isFinite(heightRatio)) {
+    scale = Math.min(1, Math.max(widthRatio, heightRatio));
+  } else {
+    // 'contain', and 'cover' with only one limit, which has nothing to crop to
+    scale = Math.min(1, widthRatio, heightRatio);
+  }
+
+  const width = even(Math.min(boxWidth, sourceWidth * scale));
+  const height = even(Math.min(boxHeight, sourceHeight * scale));
+
+  // Centred region of the source that maps onto the output
+  const cropWidth = Math.min(sourceWidth, width / scale);
+  const cropHeight = Math.min(sourceHeight, height / scale);
+  const isCropped = sourceWidth - cropWidth >= 1 || sourceHeight - cropHeight >= 1;
+  const sourceRect = isCropped
+    ? {
+        x: Math.round((sourceWidth - cropWidth) / 2),
+        y: Math.round((sourceHeight - cropHeight) / 2),
+        width: Math.round(cropWidth),
+        height: Math.round(cropHeight)
+      }
+    : null;
+
+  return {
+    width,
+    height,
+    needsScaling: width !== sourceWidth || height !== sourceHeight || sourceRect !== null,
+    sourceRect,
+    fit
+  };
+}
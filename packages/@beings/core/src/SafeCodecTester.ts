@@ -6,6 +6,9 @@
  */
 
 import type { SlowTrackRecorderConfig } from './SlowTrackRecorder';
+import { Logger } from './Logger';
+
+const log = new Logger('codec-tester');
 
 /**
  * Get the safest, most widely supported codec configuration for baseline testing
@@ -116,28 +119,27 @@ export async function findWorkingConfiguration(
   testFunction: (config: SlowTrackRecorderConfig) => Promise<boolean>
 ): Promise<{ name: string; config: SlowTrackRecorderConfig } | null> {
   
-  console.log('🧪 SafeCodecTester: Starting configuration compatibility test...');
+  log.info('🧪 Starting configuration compatibility test...');
   
   for (const testConfig of TEST_CONFIGURATIONS) {
-    console.log(`🧪 Testing: ${testConfig.name}`);
-    console.log(`   ${testConfig.description}`);
+    log.debug(`🧪 Testing: ${testConfig.name} - ${testConfig.description}`);
     
     try {
       const works = await testFunction(testConfig.config);
       if (works) {
-        console.log(`✅ SUCCESS: ${testConfig.name} works!`);
+        log.info(`✅ SUCCESS: ${testConfig.name} works!`);
         return {
           name: testConfig.name,
           config: testConfig.config
         };
       } else {
-        console.log(`❌ FAILED: ${testConfig.name} did not work`);
+        log.debug(`❌ FAILED: ${testConfig.name} did not work`);
       }
     } catch (error) {
-      console.log(`❌ ERROR: ${testConfig.name} threw error:`, error);
+      log.warn(`❌ ERROR: ${testConfig.name} threw error:`, error);
     }
   }
   
-  console.log('🚨 All test configurations failed - this indicates a fundamental system issue');
+  log.error('🚨 All test configurations failed - this indicates a fundamental system issue');
   return null;
 }
@@ -0,0 +1,47 @@
+import { describe, test, expect, vi, afterEach } from 'vitest';
+import { createSessionEpoch, resolveTimelineZero } from './SessionClock';
+import type { SessionEpoch } from './SessionClock';
+
+// Session started at 5s on the frame clock, at a fixed wall-clock time
+const sessionEpoch: SessionEpoch = { epoch: 5_000_000, startTime: 1_700_000_000_000 };
+
+describe('SessionClock', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('createSessionEpoch() should take the epoch and wall-clock start from the same instant', () => {
+    vi.spyOn(performance, 'now').mockReturnValue(1234.5678);
+
+    expect(createSessionEpoch()).toEqual({
+      epoch: 1_234_568,
+      startTime: performance.timeOrigin + 1234.5678
+    });
+  });
+
+  test('resolveTimelineZero() should count from the epoch, so a late track keeps its offset', () => {
+    // Camera 100ms and microphone 1.5s after session start
+    const camera = resolveTimelineZero(sessionEpoch, 5_100_000, sessionEpoch.startTime + 100);
+    const microphone = resolveTimelineZero(sessionEpoch, 6_500_000, sessionEpoch.startTime + 1500);
+
+    expect(camera).toEqual({ zero: 5_000_000, isEstimated: false });
+    expect(microphone).toEqual({ zero: 5_000_000, isEstimated: false });
+    expect(6_500_000 - microphone.zero).toBe(1_500_000);
+  });
+
+  test('resolveTimelineZero() should place the first frame by its arrival when the frame clock differs', () => {
+    // Frames stamped on a clock an hour ahead, arriving 1.2s after session start
+    const { zero, isEstimated } = resolveTimelineZero(sessionEpoch, 3_605_000_000, sessionEpoch.startTime + 1200);
+
+    expect(isEstimated).toBe(true);
+    expect(3_605_000_000 - zero).toBe(1_200_000);
+
+    // A frame arriving before the recorded start counts from the session start
+    expect(resolveTimelineZero(sessionEpoch, 3_605_000_000, sessionEpoch.startTime - 5))
+      .toEqual({ zero: 3_605_000_000, isEstimated: true });
+  });
+
+  test('resolveTimelineZero() should count from the first frame without an epoch', () => {
+    expect(resolveTimelineZero(null, 42_000_000, Date.now())).toEqual({ zero: 42_000_000, isEstimated: false });
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Session Clock
+ *
+ * One time base for both worker tracks. The main thread takes a session epoch
+ * when recording starts and hands it to the video and audio workers, which
+ * count their timestamps from it instead of from their own first frame, so a
+ * microphone that starts later than the camera keeps its offset.
+ *
+ * Frames from MediaStreamTrackProcessor are timestamped on the document's
+ * clock (microseconds of `performance.now()`), so the epoch uses that clock.
+ */
+
+/** Largest plausible gap between the session epoch and a track's first frame */
+const MAX_SESSION_START_OFFSET_US = 10_000_000;
+
+/**
+ * Start of a recording session
+ */
+export interface SessionEpoch {
+  /** Session start on the frame clock, in microseconds */
+  epoch: number;
+  /** Session start as wall-clock time (ms since Unix epoch, UTC) */
+  startTime: number;
+}
+
+/**
+ * Take the session epoch (main thread)
+ */
+export function createSessionEpoch(): SessionEpoch {
+  const now = performance.now();
+  return {
+    epoch: Math.round(now * 1000),
+    startTime: performance.timeOrigin + now
+  };
+}
+
+/**
+ * Frame timestamp a worker track counts from
+ */
+export interface TimelineZero {
+  /** Frame timestamp (µs) that is media time zero */
+  zero: number;
+  /**
+   * True when the frame clock is not the epoch's, so the first frame was
+   * placed by when it arrived instead of by its timestamp
+   */
+  isEstimated: boolean;
+}
+
+/**
+ * Pick the frame timestamp a worker track counts from
+ *
+ * Normally the session epoch. When the frame clock evidently differs from the
+ * epoch's, the first frame is taken to have been captured when it arrived,
+ * which keeps the track on the session's time base to within the capture
+ * latency. Both workers apply the same rule, so their tracks always share one
+ * zero. Without an epoch, the track counts from its first frame.
+ *
+ * @param sessionEpoch - Epoch from the main thread, if any
+ * @param firstTimestamp - Timestamp of the track's first frame (µs)
+ * @param arrivalTime - Wall-clock time the first frame arrived (ms since Unix epoch)
+ */
+export function resolveTimelineZero(sessionEpoch: SessionEpoch | null, firstTimestamp: number, arrivalTime: number): TimelineZero {
+  if (sessionEpoch === null) {
+    return { zero: firstTimestamp, isEstimated: false };
+  }
+
+  if (Math.abs(firstTimestamp - sessionEpoch.epoch) <= MAX_SESSION_START_OFFSET_US) {
+    return { zero: sessionEpoch.epoch, isEstimated: false };
+  }
+
+  const arrivalOffset = Math.max(0, Math.round((arrivalTime - sessionEpoch.startTime) * 1000));
+  return { zero: firstTimestamp - arrivalOffset, isEstimated: true };
+}
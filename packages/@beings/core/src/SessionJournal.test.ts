@@ -0,0 +1,260 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SessionJournal } from './SessionJournal';
+import type { JournalChunk } from './SessionJournal';
+import { SlowTrackRecorder } from './SlowTrackRecorder';
+import type { SlowTrackRecorderConfig } from './SlowTrackRecorder';
+import type { MuxerTrackOptions } from './ContainerMuxer';
+
+/** IndexedDB order: numbers before strings before arrays, arrays element by element */
+const compareKeys = (a: IDBValidKey, b: IDBValidKey): number => {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      const order = compareKeys(a[i], b[i]);
+      if (order !== 0) {
+        return order;
+      }
+    }
+    return a.length - b.length;
+  }
+  const rank = (key: IDBValidKey) => (typeof key === 'number' ? 0 : typeof key === 'string' ? 1 : 2);
+  if (rank(a) !== rank(b)) {
+    return rank(a) - rank(b);
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+class FakeKeyRange {
+  constructor(readonly lower: IDBValidKey, readonly upper: IDBValidKey) {}
+
+  static bound(lower: IDBValidKey, upper: IDBValidKey): FakeKeyRange {
+    return new FakeKeyRange(lower, upper);
+  }
+
+  includes(key: IDBValidKey): boolean {
+    return compareKeys(this.lower, key) <= 0 && compareKeys(key, this.upper) <= 0;
+  }
+}
+
+type StoredRecord = Record<string, unknown>;
+
+// Minimal in-memory stand-in for the IndexedDB calls used by SessionJournal
+const createFakeIndexedDB = () => {
+  const databases = new Map<string, { version: number; stores: Map<string, { keyPath: string | string[]; records: Map<string, { key: IDBValidKey; value: StoredRecord }> }> }>();
+
+  // Requests settle after the caller has attached its handlers
+  const succeed = <T>(result: T) => {
+    const request = { result, error: null, onsuccess: null as (() => void) | null, onerror: null as (() => void) | null };
+    queueMicrotask(() => request.onsuccess?.());
+    return request;
+  };
+
+  const open = (name: string, version: number) => {
+    const existing = databases.get(name);
+    const database = existing ?? { version: 0, stores: new Map() };
+    databases.set(name, database);
+    const { stores } = database;
+
+    const db = {
+      objectStoreNames: { contains: (storeName: string) => stores.has(storeName) },
+      createObjectStore: (storeName: string, { keyPath }: { keyPath: string | string[] }) => {
+        stores.set(storeName, { keyPath, records: new Map() });
+      },
+      transaction: (storeNames: string | string[]) => {
+        const transaction = {
+          error: null,
+          oncomplete: null as (() => void) | null,
+          onerror: null as (() => void) | null,
+          onabort: null as (() => void) | null,
+          objectStore: (storeName: string) => {
+            expect([storeNames].flat()).toContain(storeName);
+            const { keyPath, records } = stores.get(storeName)!;
+            const sorted = () => [...records.values()].sort((a, b) => compareKeys(a.key, b.key));
+            return {
+              put: (value: StoredRecord) => {
+                const key = (Array.isArray(keyPath) ? keyPath.map(path => value[path]) : value[keyPath]) as IDBValidKey;
+                records.set(JSON.stringify(key), { key, value: structuredClone(value) });
+                return succeed(key);
+              },
+              get: (key: IDBValidKey) => succeed(structuredClone(records.get(JSON.stringify(key))?.value)),
+              getAll: (range?: FakeKeyRange, count?: number) => succeed(
+                sorted().filter(({ key }) => !range || range.includes(key)).slice(0, count).map(({ value }) => structuredClone(value))
+              ),
+              delete: (query: IDBValidKey | FakeKeyRange) => {
+                for (const [id, { key }] of records) {
+                  if (query instanceof FakeKeyRange ? query.includes(key) : compareKeys(key, query) === 0) {
+                    records.delete(id);
+                  }
+                }
+                return succeed(undefined);
+              },
+            };
+          },
+        };
+        // Every request settles in a microtask, so the transaction commits after them
+        setTimeout(() => transaction.oncomplete?.(), 0);
+        return transaction;
+      },
+      close: vi.fn(),
+    };
+
+    const request = {
+      result: db,
+      error: null,
+      onupgradeneeded: null as (() => void) | null,
+      onsuccess: null as (() => void) | null,
+      onerror: null as (() => void) | null,
+    };
+    queueMicrotask(() => {
+      if (database.version < version) {
+        database.version = version;
+        request.onupgradeneeded?.();
+      }
+      request.onsuccess?.();
+    });
+    return request;
+  };
+
+  return { indexedDB: { open }, databases };
+};
+
+/** Encoded chunk stand-in that keeps its payload, as the recorder's chunks do */
+class EncodedChunkStandIn {
+  readonly type: EncodedVideoChunkType;
+  readonly timestamp: number;
+  readonly duration: number | null;
+  readonly byteLength: number;
+  #data: Uint8Array;
+
+  constructor(init: EncodedVideoChunkInit) {
+    this.type = init.type;
+    this.timestamp = init.timestamp;
+    this.duration = init.duration ?? null;
+    this.#data = new Uint8Array(init.data as ArrayBuffer).slice();
+    this.byteLength = this.#data.byteLength;
+  }
+
+  copyTo(destination: ArrayBuffer | ArrayBufferView): void {
+    const bytes = destination instanceof ArrayBuffer
+      ? new Uint8Array(destination)
+      : new Uint8Array(destination.buffer, destination.byteOffset, destination.byteLength);
+    bytes.set(this.#data);
+  }
+}
+
+const tracks: MuxerTrackOptions = {
+  container: 'webm',
+  videoCodec: 'vp9',
+  audioCodec: 'opus',
+  width: 1280,
+  height: 720,
+  sampleRate: 48000,
+  numberOfChannels: 2
+};
+
+const requestedConfig: SlowTrackRecorderConfig = { width: 1280, height: 720, frameRate: 30, bitrate: 2000000, crashRecovery: true };
+
+const videoChunk = (type: EncodedVideoChunkType, timestamp: number, fill = 1) =>
+  new EncodedVideoChunk({ type, timestamp, duration: 33_333, data: new Uint8Array(16).fill(fill) });
+
+const audioChunk = (timestamp: number, fill = 2) =>
+  new EncodedAudioChunk({ type: 'key', timestamp, duration: 20_000, data: new Uint8Array(8).fill(fill) });
+
+const readAll = async (sessionId: string) => {
+  const chunks: JournalChunk[] = [];
+  for await (const chunk of SessionJournal.readChunks(sessionId)) {
+    chunks.push(chunk);
+  }
+  return chunks;
+};
+
+describe('SessionJournal', () => {
+  let fake: ReturnType<typeof createFakeIndexedDB>;
+
+  beforeEach(() => {
+    fake = createFakeIndexedDB();
+    vi.stubGlobal('indexedDB', fake.indexedDB);
+    vi.stubGlobal('IDBKeyRange', FakeKeyRange);
+    vi.stubGlobal('EncodedVideoChunk', EncodedChunkStandIn);
+    vi.stubGlobal('EncodedAudioChunk', EncodedChunkStandIn);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test('should read appended chunks back in arrival order across both tracks', async () => {
+    const journal = await SessionJournal.create(requestedConfig, tracks, 1_700_000_000_000);
+    const decoderConfig: VideoDecoderConfig = { codec: 'vp09.00.10.08' };
+
+    journal.append('video', videoChunk('key', 0), { decoderConfig });
+    journal.append('audio', audioChunk(0));
+    // More than one read batch
+    for (let i = 1; i <= 500; i++) {
+      journal.append('video', videoChunk('delta', i * 33_333, i % 256));
+    }
+    await journal.close();
+
+    const [session] = await SessionJournal.listSessions();
+    expect(session).toMatchObject({
+      id: journal.sessionId,
+      requestedConfig,
+      tracks,
+      chunkCount: 502,
+      byteLength: 501 * 16 + 8,
+      lastTimestamp: 500 * 33_333,
+      sessionStartTime: 1_700_000_000_000
+    });
+    expect(await SessionJournal.getSession(journal.sessionId)).toEqual(session);
+
+    const chunks = await readAll(journal.sessionId);
+    expect(chunks.map(chunk => chunk.seq)).toEqual(Array.from({ length: 502 }, (_, i) => i));
+    expect(chunks[0]).toMatchObject({ track: 'video', type: 'key', timestamp: 0, duration: 33_333, decoderConfig });
+    expect(chunks[1]).toMatchObject({ track: 'audio', timestamp: 0, duration: 20_000, decoderConfig: undefined });
+    expect(new Uint8Array(chunks[1].data)).toEqual(new Uint8Array(8).fill(2));
+    expect(new Uint8Array(chunks[501].data)).toEqual(new Uint8Array(16).fill(500 % 256));
+  });
+
+  test('should delete the session and its chunks when discarded', async () => {
+    const journal = await SessionJournal.create(requestedConfig, tracks);
+    journal.append('video', videoChunk('key', 0));
+    await journal.flush();
+    journal.append('video', videoChunk('delta', 33_333));
+
+    await journal.discard();
+
+    expect(await SessionJournal.listSessions()).toEqual([]);
+    expect(await SessionJournal.getSession(journal.sessionId)).toBeNull();
+    expect(await readAll(journal.sessionId)).toEqual([]);
+  });
+
+  test('recoverSession() should rebuild a playable file starting at the first chunk', async () => {
+    const journal = await SessionJournal.create(requestedConfig, tracks, 1_700_000_000_000);
+    // The camera started 250ms and the microphone 260ms after the session epoch
+    journal.append('video', videoChunk('key', 250_000));
+    journal.append('audio', audioChunk(260_000));
+    journal.append('video', videoChunk('delta', 283_333));
+    journal.append('audio', audioChunk(280_000));
+    await journal.close();
+
+    const result = await SlowTrackRecorder.recoverSession(journal.sessionId);
+
+    expect(result.blob.type).toBe('video/webm');
+    expect(result.blob.size).toBeGreaterThan(2 * 16 + 2 * 8);
+    expect(result.requestedConfig).toEqual(requestedConfig);
+    expect(result.startTime).toBe(1_700_000_000_250);
+
+    // The journal is kept until it is discarded explicitly
+    expect(await SessionJournal.getSession(journal.sessionId)).not.toBeNull();
+    await SlowTrackRecorder.discardRecoverableSession(journal.sessionId);
+    expect(await SlowTrackRecorder.listRecoverableSessions()).toEqual([]);
+  });
+
+  test('recoverSession() should reject a missing or empty session', async () => {
+    await expect(SlowTrackRecorder.recoverSession('missing')).rejects.toThrow('No recoverable session found with id missing');
+
+    const journal = await SessionJournal.create(requestedConfig, tracks);
+    await journal.close();
+    await expect(SlowTrackRecorder.recoverSession(journal.sessionId))
+      .rejects.toThrow(`Session ${journal.sessionId} has no recorded data to recover`);
+  });
+});
@@ -0,0 +1,358 @@
+/**
+ * Session Journal
+ *
+ * Crash-safe, incremental store for in-progress recordings. Encoded chunks are
+ * appended to IndexedDB in small batches while recording, together with the
+ * codec and decoder configuration needed to remux them, so a session cut short
+ * by a tab close or worker crash can be rebuilt on the next page load.
+ *
+ * IndexedDB is used rather than OPFS because each committed transaction is
+ * durable on its own; OPFS writable streams only commit their data on close().
+ */
+
+import type { SlowTrackRecorderConfig } from './SlowTrackRecorder';
+import type { MuxerTrackOptions } from './ContainerMuxer';
+import { Logger } from './Logger';
+
+const log = new Logger('storage');
+
+const DB_NAME = 'beings-recorder-journal';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+const CHUNKS_STORE = 'chunks';
+
+/** How often buffered chunks are committed; bounds the data lost in a crash */
+const FLUSH_INTERVAL_MS = 1000;
+
+/** Number of chunks read per transaction during recovery */
+const READ_BATCH_SIZE = 500;
+
+/**
+ * Persisted description of a journaled recording session
+ */
+export interface JournalSessionInfo {
+  /** Unique session identifier */
+  id: string;
+  /** Wall-clock time the session started (ms since epoch) */
+  startedAt: number;
+  /** Wall-clock time of the last committed batch (ms since epoch) */
+  updatedAt: number;
+  /** Configuration the recording was started with */
+  requestedConfig: SlowTrackRecorderConfig;
+  /** Negotiated codecs and track parameters needed for remuxing */
+  tracks: MuxerTrackOptions;
+  /** Number of committed chunks */
+  chunkCount: number;
+  /** Total committed payload size in bytes */
+  byteLength: number;
+  /** Latest committed media timestamp, in microseconds */
+  lastTimestamp: number;
+  /** Wall-clock time of the session epoch chunk timestamps count from (ms since epoch) */
+  sessionStartTime?: number;
+}
+
+/**
+ * A single journaled encoded chunk
+ */
+export interface JournalChunk {
+  sessionId: string;
+  /** Arrival order across both tracks */
+  seq: number;
+  track: 'video' | 'audio';
+  type: EncodedVideoChunkType | EncodedAudioChunkType;
+  /** Media timestamp in microseconds */
+  timestamp: number;
+  /** Duration in microseconds, if known */
+  duration: number | null;
+  /** Encoded payload */
+  data: ArrayBuffer;
+  /** Decoder configuration, present on chunks where the encoder emitted one */
+  decoderConfig?: VideoDecoderConfig | AudioDecoderConfig;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolve once a transaction has committed
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+}
+
+/**
+ * Open (and upgrade if needed) the journal database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+        db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(CHUNKS_STORE)) {
+        db.createObjectStore(CHUNKS_STORE, { keyPath: ['sessionId', 'seq'] });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Create a reasonably unique session identifier
+ */
+function createSessionId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Append-only journal for one recording session
+ */
+export class SessionJournal {
+  #db: IDBDatabase;
+  #session: JournalSessionInfo;
+  #pending: JournalChunk[] = [];
+  #nextSeq = 0;
+  #flushInterval: number | null = null;
+  #flushPromise: Promise<void> = Promise.resolve();
+  #isClosed = false;
+
+  private constructor(db: IDBDatabase, session: JournalSessionInfo) {
+    this.#db = db;
+    this.#session = session;
+  }
+
+  /**
+   * Check if journaling is available in the current environment
+   */
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Create a new journaled session and start periodic flushing
+   *
+   * @param requestedConfig - Configuration the recording was started with
+   * @param tracks - Negotiated codecs and track parameters
+   * @param sessionStartTime - Wall-clock time of the session epoch, if known
+   */
+  static async create(requestedConfig: SlowTrackRecorderConfig, tracks: MuxerTrackOptions, sessionStartTime?: number): Promise<SessionJournal> {
+    const db = await openDatabase();
+    const now = Date.now();
+    const session: JournalSessionInfo = {
+      id: createSessionId(),
+      startedAt: now,
+      updatedAt: now,
+      requestedConfig,
+      tracks,
+      chunkCount: 0,
+      byteLength: 0,
+      lastTimestamp: 0,
+      sessionStartTime
+    };
+
+    const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+    transaction.objectStore(SESSIONS_STORE).put(session);
+    await transactionDone(transaction);
+
+    const journal = new SessionJournal(db, session);
+    journal.#flushInterval = window.setInterval(() => {
+      journal.flush().catch((error) => {
+        log.warn('Periodic session journal flush failed:', error);
+      });
+    }, FLUSH_INTERVAL_MS);
+
+    return journal;
+  }
+
+  /**
+   * List every session still present in the journal
+   */
+  static async listSessions(): Promise<JournalSessionInfo[]> {
+    const db = await openDatabase();
+    try {
+      const transaction = db.transaction(SESSIONS_STORE, 'readonly');
+      const sessions = await promisifyRequest(transaction.objectStore(SESSIONS_STORE).getAll()) as JournalSessionInfo[];
+      return sessions.sort((a, b) => b.startedAt - a.startedAt);
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * Look up a single journaled session
+   */
+  static async getSession(sessionId: string): Promise<JournalSessionInfo | null> {
+    const db = await openDatabase();
+    try {
+      const transaction = db.transaction(SESSIONS_STORE, 'readonly');
+      const session = await promisifyRequest(transaction.objectStore(SESSIONS_STORE).get(sessionId)) as JournalSessionInfo | undefined;
+      return session ?? null;
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * Read a session's chunks in arrival order, a batch per transaction
+   */
+  static async *readChunks(sessionId: string): AsyncGenerator<JournalChunk> {
+    const db = await openDatabase();
+    try {
+      let fromSeq = 0;
+      while (true) {
+        const transaction = db.transaction(CHUNKS_STORE, 'readonly');
+        const range = IDBKeyRange.bound([sessionId, fromSeq], [sessionId, Infinity]);
+        const batch = await promisifyRequest(transaction.objectStore(CHUNKS_STORE).getAll(range, READ_BATCH_SIZE)) as JournalChunk[];
+
+        for (const chunk of batch) {
+          yield chunk;
+        }
+
+        if (batch.length < READ_BATCH_SIZE) {
+          break;
+        }
+        fromSeq = batch[batch.length - 1].seq + 1;
+      }
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * Delete a session and all of its chunks
+   */
+  static async deleteSession(sessionId: string): Promise<void> {
+    const db = await openDatabase();
+    try {
+      const transaction = db.transaction([SESSIONS_STORE, CHUNKS_STORE], 'readwrite');
+      transaction.objectStore(SESSIONS_STORE).delete(sessionId);
+      transaction.objectStore(CHUNKS_STORE).delete(IDBKeyRange.bound([sessionId, 0], [sessionId, Infinity]));
+      await transactionDone(transaction);
+    } finally {
+      db.close();
+    }
+  }
+
+  /** Identifier of this session */
+  get sessionId(): string {
+    return this.#session.id;
+  }
+
+  /**
+   * Queue an encoded chunk for the next flush
+   *
+   * The payload is copied immediately since the encoder's chunk may be
+   * released before the batch is committed.
+   */
+  append(
+    track: 'video' | 'audio',
+    chunk: EncodedVideoChunk | EncodedAudioChunk,
+    metadata?: EncodedVideoChunkMetadata | EncodedAudioChunkMetadata
+  ): void {
+    if (this.#isClosed) {
+      return;
+    }
+
+    const data = new ArrayBuffer(chunk.byteLength);
+    chunk.copyTo(data);
+
+    this.#pending.push({
+      sessionId: this.#session.id,
+      seq: this.#nextSeq++,
+      track,
+      type: chunk.type,
+      timestamp: chunk.timestamp,
+      duration: chunk.duration,
+      data,
+      decoderConfig: metadata?.decoderConfig
+    });
+  }
+
+  /**
+   * Commit all queued chunks in a single transaction
+   */
+  flush(): Promise<void> {
+    // Serialize flushes so batches commit in order
+    this.#flushPromise = this.#flushPromise.then(() => this.#commitPending());
+    return this.#flushPromise;
+  }
+
+  /**
+   * Flush remaining chunks and stop journaling, keeping the session recoverable
+   */
+  async close(): Promise<void> {
+    if (this.#isClosed) {
+      return this.#flushPromise;
+    }
+
+    this.#stopFlushing();
+    await this.flush();
+    this.#isClosed = true;
+    this.#db.close();
+  }
+
+  /**
+   * Stop journaling and delete the session (recording completed normally)
+   */
+  async discard(): Promise<void> {
+    this.#stopFlushing();
+    this.#pending = [];
+    this.#isClosed = true;
+
+    // Let an in-flight batch land before deleting so nothing is left behind
+    await this.#flushPromise.catch(() => undefined);
+    this.#db.close();
+    await SessionJournal.deleteSession(this.#session.id);
+  }
+
+  #stopFlushing(): void {
+    if (this.#flushInterval !== null) {
+      clearInterval(this.#flushInterval);
+      this.#flushInterval = null;
+    }
+  }
+
+  async #commitPending(): Promise<void> {
+    if (this.#pending.length === 0 || this.#isClosed) {
+      return;
+    }
+
+    const batch = this.#pending;
+    this.#pending = [];
+
+    const session = this.#session;
+    session.updatedAt = Date.now();
+    session.chunkCount += batch.length;
+    for (const chunk of batch) {
+      session.byteLength += chunk.data.byteLength;
+      session.lastTimestamp = Math.max(session.lastTimestamp, chunk.timestamp);
+    }
+
+    const transaction = this.#db.transaction([SESSIONS_STORE, CHUNKS_STORE], 'readwrite');
+    const chunkStore = transaction.objectStore(CHUNKS_STORE);
+    for (const chunk of batch) {
+      chunkStore.put(chunk);
+    }
+    transaction.objectStore(SESSIONS_STORE).put(session);
+    await transactionDone(transaction);
+  }
+}
@@ -1,6 +1,10 @@
 import { describe, test, expect, vi, beforeEach } from 'vitest';
+import type { Mock } from 'vitest';
 import { SlowTrackRecorder } from './SlowTrackRecorder';
-import type { RecorderWorkerResponse } from './types';
+import { InMemoryTelemetryExporter } from './Telemetry';
+import { CodecUnsupportedError, OptionsUnsupportedError } from './RecorderError';
+import type { AudioWorkerRequest, AudioWorkerResponse, RecorderWorkerResponse, VideoWorkerRequest, VideoWorkerResponse } from './types';
+import type { LogEntry, LogLevel } from './Logger';
 
 // Mock browser APIs
 const mockWorker = {
@@ -411,3 +415,345 @@ describe('SlowTrackRecorder', () => {
     );
   });
 });
+
+describe('SlowTrackRecorder with dual workers', () => {
+  /** Stand-in for a video or audio worker */
+  interface MockWorker {
+    postMessage: Mock<[VideoWorkerRequest | AudioWorkerRequest, Transferable[]?], void>;
+    terminate: Mock<[], void>;
+    onmessage: ((event: MessageEvent<VideoWorkerResponse | AudioWorkerResponse>) => void) | null;
+  }
+
+  let workers: MockWorker[];
+
+  /** Deliver a message from a worker to the recorder */
+  const respond = (worker: MockWorker, data: VideoWorkerResponse | AudioWorkerResponse) => {
+    worker.onmessage?.({ data } as MessageEvent<VideoWorkerResponse | AudioWorkerResponse>);
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    workers = [];
+
+    // Each dual-architecture worker answers 'start' with a 'ready' message
+    vi.stubGlobal('Worker', vi.fn(() => {
+      const worker: MockWorker = {
+        postMessage: vi.fn((message: VideoWorkerRequest | AudioWorkerRequest) => {
+          if (message.type === 'start') {
+            setTimeout(() => respond(worker, { type: 'ready', finalCodec: 'h264' }), 0);
+          }
+        }),
+        terminate: vi.fn(),
+        onmessage: null,
+      };
+      workers.push(worker);
+      return worker;
+    }));
+    vi.stubGlobal('MediaStreamTrackProcessor', vi.fn(() => ({ 
+      readable: mockReadableStream 
+    })));
+  });
+
+  const createRecorder = () => new SlowTrackRecorder({
+    width: 1920,
+    height: 1080,
+    frameRate: 30,
+    bitrate: 2000000,
+  });
+
+  describe('pause/resume', () => {
+    test('pause() and resume() should signal the workers and emit events', async () => {
+      const recorder = createRecorder();
+      const onPause = vi.fn();
+      const onResume = vi.fn();
+      recorder.on('pause', onPause);
+      recorder.on('resume', onResume);
+
+      await recorder.start(mockMediaStream as unknown as MediaStream);
+      const [videoWorker] = workers;
+
+      await recorder.pause();
+      expect(recorder.isPaused()).toBe(true);
+      expect(videoWorker.postMessage).toHaveBeenCalledWith({ type: 'pause' });
+      expect(onPause).toHaveBeenCalledTimes(1);
+
+      await recorder.resume();
+      expect(recorder.isPaused()).toBe(false);
+      expect(videoWorker.postMessage).toHaveBeenCalledWith({ type: 'resume' });
+      expect(onResume).toHaveBeenCalledTimes(1);
+    });
+
+    test('pause() should be idempotent while already paused', async () => {
+      const recorder = createRecorder();
+      const onPause = vi.fn();
+      recorder.on('pause', onPause);
+
+      await recorder.start(mockMediaStream as unknown as MediaStream);
+      await recorder.pause();
+      await recorder.pause();
+
+      expect(onPause).toHaveBeenCalledTimes(1);
+    });
+
+    test('pause() and resume() should reject when not recording', async () => {
+      const recorder = createRecorder();
+
+      await expect(recorder.pause()).rejects.toThrow('Recording is not currently active');
+      await expect(recorder.resume()).rejects.toThrow('Recording is not currently active');
+    });
+  });
+
+  describe('replaceTrack', () => {
+    test('replaceTrack() should hand the new source to the worker and emit source-change', async () => {
+      const recorder = createRecorder();
+      const onSourceChange = vi.fn();
+      recorder.on('source-change', onSourceChange);
+
+      await recorder.start(mockMediaStream as unknown as MediaStream);
+      const [videoWorker] = workers;
+      const newCamera = { ...mockVideoStreamTrack, id: 'usb-camera', label: 'USB Camera' };
+
+      await recorder.replaceTrack('video', newCamera as unknown as MediaStreamTrack);
+      expect(videoWorker.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'replace-source', videoStream: mockReadableStream }),
+        [mockReadableStream]
+      );
+      expect(onSourceChange).toHaveBeenCalledWith(expect.objectContaining({
+        kind: 'video',
+        reason: 'replaced',
+        previous: { label: 'Mock Video Track', id: 'mock-video-track' },
+        current: { label: 'USB Camera', id: 'usb-camera' }
+      }));
+
+      await expect(recorder.replaceTrack('audio', newCamera as unknown as MediaStreamTrack))
+        .rejects.toThrow('Cannot replace the audio source with a video track');
+    });
+
+    test('should emit source-change when a recorded source ends', async () => {
+      const recorder = createRecorder();
+      const onSourceChange = vi.fn();
+      recorder.on('source-change', onSourceChange);
+
+      await recorder.start(mockMediaStream as unknown as MediaStream);
+      const [, onEnded] = mockVideoStreamTrack.addEventListener.mock.calls.find(([type]) => type === 'ended') as unknown as [string, () => void];
+      onEnded();
+
+      expect(onSourceChange).toHaveBeenCalledWith(expect.objectContaining({ kind: 'video', reason: 'ended', current: null }));
+    });
+  });
+
+  describe('separate tracks', () => {
+    test('should reject separate tracks with storage it cannot stream them to', async () => {
+      const recorder = new SlowTrackRecorder({ width: 1920, height: 1080, frameRate: 30, bitrate: 2000000, storage: 'opfs', crashRecovery: true });
+
+      const start = recorder.start(mockMediaStream as unknown as MediaStream, { tracks: [mockAudioStreamTrack as unknown as MediaStreamTrack] });
+      await expect(start).rejects.toThrow(OptionsUnsupportedError);
+      await expect(start).rejects.toThrow("Separate tracks cannot be recorded with storage: 'opfs', crashRecovery");
+      expect(workers).toHaveLength(0);
+    });
+  });
+
+  describe('audioSources', () => {
+    test('should reject audio sources when audio is not enabled', async () => {
+      const recorder = createRecorder();
+
+      await expect(recorder.start(mockMediaStream as unknown as MediaStream, { audioSources: [mockAudioStreamTrack as unknown as MediaStreamTrack] }))
+        .rejects.toThrow('audioSources need audio.enabled: true');
+      expect(workers).toHaveLength(0);
+    });
+  });
+
+  describe('encryption', () => {
+    test('should reject an invalid encryption chunk size before recording', () => {
+      for (const chunkSize of [0, -1, 1.5]) {
+        expect(() => new SlowTrackRecorder({ width: 1920, height: 1080, frameRate: 30, bitrate: 2000000, encryption: { chunkSize } }))
+          .toThrow(`Invalid encryption chunk size: ${chunkSize}`);
+      }
+      expect(workers).toHaveLength(0);
+    });
+  });
+
+  describe('audioLevels', () => {
+    test('should reject invalid audio level options before recording', () => {
+      expect(() => new SlowTrackRecorder({ width: 1920, height: 1080, frameRate: 30, bitrate: 2000000, audioLevels: { rate: 0 } }))
+        .toThrow('Invalid audio level rate: 0');
+      expect(() => new SlowTrackRecorder({ width: 1920, height: 1080, frameRate: 30, bitrate: 2000000, audioLevels: { silenceDurationMs: -1 } }))
+        .toThrow('Invalid audio level silenceDurationMs: -1');
+      expect(workers).toHaveLength(0);
+    });
+  });
+
+  describe('stats', () => {
+    test('getStats() should combine worker counters with the chunks received', async () => {
+      const recorder = createRecorder();
+      expect(recorder.getStats()).toBeNull();
+
+      await recorder.start(mockMediaStream as unknown as MediaStream);
+      const [videoWorker] = workers;
+      respond(videoWorker, { type: 'video-chunk', chunk: { timestamp: 0, duration: 500_000, byteLength: 100_000 } as EncodedVideoChunk });
+      respond(videoWorker, { type: 'stats', stats: { framesCaptured: 50, framesEncoded: 48, framesDropped: 1, encodeQueueSize: 2, encodeLatencyMs: null } });
+
+      expect(recorder.getStats()).toMatchObject({
+        duration: 500,
+        video: { framesCaptured: 50, framesDropped: 1, dropRate: 0.02, chunksReceived: 1, bitrate: 1_600_000 },
+        audio: null,
+        drift: null,
+        bufferedBytes: 100_000
+      });
+    });
+  });
+
+  describe('telemetry', () => {
+    test('should trace the recording into the telemetry exporter, with worker spans forwarded', async () => {
+      const exporter = new InMemoryTelemetryExporter();
+      const recorder = new SlowTrackRecorder({ width: 1920, height: 1080, frameRate: 30, bitrate: 2000000, telemetry: exporter });
+
+      await recorder.start(mockMediaStream as unknown as MediaStream);
+      const [videoWorker] = workers;
+      const [start] = exporter.getSpans('recorder.start');
+      expect(start).toMatchObject({ status: 'ok', attributes: { 'video.codec': 'h264', 'recorder.audio_only': false } });
+      expect(start.parentSpanId).toMatch(/^[0-9a-f]{16}$/);
+
+      // The worker nests its spans under recorder.start, without being sent the exporter
+      const [[startMessage]] = videoWorker.postMessage.mock.calls;
+      expect(startMessage.telemetry).toEqual({ traceId: start.traceId, spanId: start.spanId });
+      expect(startMessage.config?.telemetry).toBeUndefined();
+      const negotiation = { ...start, spanId: '00000000000000aa', parentSpanId: start.spanId, name: 'video.codec_negotiation' };
+      respond(videoWorker, { type: 'telemetry', telemetry: { kind: 'span', span: negotiation } });
+      expect(exporter.getSpans('video.codec_negotiation')).toEqual([negotiation]);
+
+      await recorder.pause();
+      const [pause] = exporter.events.filter(event => event.name === 'recorder.pause');
+      expect(pause.context?.traceId).toBe(start.traceId);
+      expect(pause.context?.spanId).not.toBe(start.spanId);
+    });
+  });
+
+  describe('logging', () => {
+    test('should log at its logLevel to its logSink, with worker entries forwarded', async () => {
+      const logSink = vi.fn();
+      const recorder = new SlowTrackRecorder({ width: 1920, height: 1080, frameRate: 30, bitrate: 2000000, logLevel: 'warn', logSink });
+
+      await recorder.start(mockMediaStream as unknown as MediaStream);
+      const [videoWorker] = workers;
+      expect(logSink).not.toHaveBeenCalled();
+
+      // Workers are sent the level, and post their entries back instead of calling the sink
+      const [[startMessage]] = videoWorker.postMessage.mock.calls;
+      expect(startMessage.config).toMatchObject({ logLevel: 'warn', logSink: undefined });
+      const entry: LogEntry = { level: 'warn', namespace: 'video-worker', message: '⚠️ Video source ended, waiting for a replacement', data: [], time: Date.now() };
+      respond(videoWorker, { type: 'log', log: { ...entry, level: 'debug' } });
+      respond(videoWorker, { type: 'log', log: entry });
+      expect(logSink.mock.calls).toEqual([[entry]]);
+
+      expect(() => new SlowTrackRecorder({ width: 1920, height: 1080, frameRate: 30, bitrate: 2000000, logLevel: 'verbose' as LogLevel }))
+        .toThrow('Invalid log level: verbose');
+    });
+  });
+
+  describe('session clock', () => {
+    test('should give both workers one session epoch, and warn when a track\'s start is estimated', async () => {
+      const recorder = new SlowTrackRecorder({
+        width: 1920, height: 1080, frameRate: 30, bitrate: 2000000,
+        audio: { enabled: true, codec: 'auto', sampleRate: 48000, numberOfChannels: 2, bitrate: 128000 }
+      });
+      const onWarning = vi.fn();
+      recorder.on('warning', onWarning);
+      const streamWithAudio = { ...mockMediaStream, getAudioTracks: () => [mockAudioStreamTrack] };
+
+      await recorder.start(streamWithAudio as unknown as MediaStream);
+      const [videoWorker, audioWorker] = workers;
+      const [[videoStart]] = videoWorker.postMessage.mock.calls;
+      const [[audioStart]] = audioWorker.postMessage.mock.calls;
+      expect(videoStart.sessionEpoch).toEqual({ epoch: expect.any(Number), startTime: expect.any(Number) });
+      expect(audioStart.sessionEpoch).toBe(videoStart.sessionEpoch);
+
+      respond(audioWorker, { type: 'timeline-estimated', timelineOffset: 1200.4 });
+      expect(onWarning).toHaveBeenCalledWith(expect.objectContaining({
+        code: 'TIMELINE_ESTIMATED',
+        severity: 'warning',
+        details: { track: 'audio', offsetMs: 1200 }
+      }));
+    });
+  });
+
+  describe('warnings and errors', () => {
+    test('should report sustained backpressure as a warning, not an error', async () => {
+      const recorder = createRecorder();
+      const onWarning = vi.fn();
+      const onError = vi.fn();
+      recorder.on('warning', onWarning);
+      recorder.on('error', onError);
+
+      await recorder.start(mockMediaStream as unknown as MediaStream);
+      const [videoWorker] = workers;
+      let now = performance.now();
+      vi.spyOn(performance, 'now').mockImplementation(() => now);
+      vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+      try {
+        respond(videoWorker, { type: 'pressure', status: 'high', queueSize: 9 });
+        now += 13000;
+        vi.advanceTimersByTime(1000);
+        expect(onWarning).toHaveBeenCalledTimes(1);
+        expect(onWarning).toHaveBeenCalledWith(expect.objectContaining({
+          code: 'SUSTAINED_BACKPRESSURE',
+          severity: 'info',
+          details: expect.objectContaining({ stage: 1 })
+        }));
+
+        now += 13000;
+        vi.advanceTimersByTime(1000);
+        expect(onWarning).toHaveBeenLastCalledWith(expect.objectContaining({ code: 'SUSTAINED_BACKPRESSURE', severity: 'warning' }));
+        expect(onError).not.toHaveBeenCalled();
+      } finally {
+        respond(videoWorker, { type: 'pressure', status: 'low', queueSize: 2 });
+        vi.useRealTimers();
+        vi.mocked(performance.now).mockRestore();
+      }
+    });
+
+    test('should continue without audio, with a warning, when the audio worker fails', async () => {
+      const recorder = new SlowTrackRecorder({
+        width: 1920, height: 1080, frameRate: 30, bitrate: 2000000,
+        audio: { enabled: true, codec: 'auto', sampleRate: 48000, numberOfChannels: 2, bitrate: 128000 }
+      });
+      const onWarning = vi.fn();
+      const onError = vi.fn();
+      recorder.on('warning', onWarning);
+      recorder.on('error', onError);
+      const streamWithAudio = { ...mockMediaStream, getAudioTracks: () => [mockAudioStreamTrack] };
+
+      await recorder.start(streamWithAudio as unknown as MediaStream);
+      const [, audioWorker] = workers;
+      respond(audioWorker, { type: 'error', error: 'No supported audio encoder configuration found', errorCode: 'CODEC_UNSUPPORTED' });
+
+      expect(onWarning).toHaveBeenCalledWith(expect.objectContaining({
+        code: 'AUDIO_DISABLED',
+        severity: 'warning',
+        details: { reason: 'No supported audio encoder configuration found', errorCode: 'CODEC_UNSUPPORTED' }
+      }));
+      expect(audioWorker.terminate).toHaveBeenCalled();
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    test('should warn of a codec fallback and recreate typed errors from the workers', async () => {
+      const recorder = new SlowTrackRecorder({ width: 1920, height: 1080, frameRate: 30, bitrate: 2000000, codecSelection: 'av1' });
+      const onWarning = vi.fn();
+      const onError = vi.fn();
+      recorder.on('warning', onWarning);
+      recorder.on('error', onError);
+
+      await recorder.start(mockMediaStream as unknown as MediaStream);
+      expect(onWarning).toHaveBeenCalledWith(expect.objectContaining({
+        code: 'CODEC_FALLBACK',
+        details: { track: 'video', requested: 'av1', selected: 'h264' }
+      }));
+
+      const [videoWorker] = workers;
+      respond(videoWorker, { type: 'error', error: 'No supported video codec found', errorCode: 'CODEC_UNSUPPORTED' });
+      const [[error]] = onError.mock.calls;
+      expect(error).toBeInstanceOf(CodecUnsupportedError);
+      expect(error).toMatchObject({ code: 'CODEC_UNSUPPORTED', message: 'Video worker error: No supported video codec found' });
+    });
+  });
+});
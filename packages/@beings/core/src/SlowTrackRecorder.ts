@@ -4,11 +4,71 @@ import type {
   VideoWorkerResponse,
   AudioWorkerRequest, 
   AudioWorkerResponse,
+  AdaptiveQualityConfig,
   AudioConfig, 
+  AudioLevel,
+  AudioMixInput,
+  AudioOnlyContainer,
+  EncoderStatsSnapshot,
+  EncryptionConfig,
+  EncryptionManifest,
   FinalEncoderConfig, 
+  IntegrityManifest,
+  QualityChange,
+  RecordedTrack,
+  RecorderStats,
+  RecorderWarning,
   RecordingResult, 
-  SyncData 
+  ResolutionFit,
+  ResolutionTarget,
+  ResolvedResolution,
+  SilenceEvent,
+  SourceChange,
+  SyncData,
+  TelemetryAttributes,
+  TelemetryEventData,
+  TrackStats,
+  VideoLayout
 } from './types';
+import { OpfsFileWriter } from './OpfsFileWriter';
+import { SessionJournal } from './SessionJournal';
+import type { JournalSessionInfo } from './SessionJournal';
+import {
+  DEFAULT_ENCRYPTION_CHUNK_SIZE,
+  encryptChunks,
+  createEncryptionManifest,
+  generateEncryptionKey,
+  validateEncryptionChunkSize,
+  validateEncryptionKey
+} from './RecordingEncryption';
+import { createIntegrityManifest, IntegrityHasher } from './RecordingIntegrity';
+import { SyncMonitor } from './SyncMonitor';
+import type { SyncMonitorOptions } from './SyncMonitor';
+import { validateAudioLevelMeterOptions } from './AudioLevelMeter';
+import type { AudioLevelMeterOptions } from './AudioLevelMeter';
+import { TrackOutputStats } from './EncoderStats';
+import { Telemetry } from './Telemetry';
+import { Logger, validateLogLevel } from './Logger';
+import type { LogEntry, LogLevel, LogSink } from './Logger';
+import { createWorkerError, MuxError, OptionsUnsupportedError, WorkerInitTimeoutError } from './RecorderError';
+import type { RecorderErrorCode } from './RecorderError';
+import type { TelemetryExporter, TelemetrySpan } from './Telemetry';
+import { createSessionEpoch } from './SessionClock';
+import { WavWriter } from './WavWriter';
+import type { SessionEpoch } from './SessionClock';
+import { addTimedChunk, createMuxerConfig, getMuxedMimeType, muxChunksInMemory, TrackStartGate } from './ContainerMuxer';
+import { muxFlac, muxOggOpus } from './AudioFileMuxer';
+import { getAudioOnlyContainers, getContainerForVideoCodec } from './CodecNegotiation';
+import { validateResolutionOptions } from './Resolution';
+import { validateVideoLayout } from './Compositor';
+import { probeCapabilities } from './CapabilityProbe';
+import type { CapabilityProbeOptions, CapabilityReport } from './CapabilityProbe';
+import { muxTracksToMatroska } from './MatroskaMuxer';
+import type { MatroskaInputChunk, MatroskaTrackOptions } from './MatroskaMuxer';
+import type { MuxerTrackOptions, MuxInputChunk } from './ContainerMuxer';
+
+/** Logger for the static methods, which have no recorder config */
+const log = new Logger('recorder');
 
 /**
  * Configuration interface for the SlowTrackRecorder
@@ -23,8 +83,151 @@ export interface SlowTrackRecorderConfig {
   codecSelection?: 'auto' | 'av1' | 'hevc' | 'h264' | 'vp9';
   keyframeIntervalSeconds?: number;
   hardwareAcceleration?: 'no-preference' | 'prefer-hardware' | 'prefer-software';
+  /**
+   * Output size preset (default 'auto'). Without `fit` the video is scaled to
+   * the preset size exactly; the chosen size is reported as
+   * `FinalEncoderConfig.resolution`.
+   */
+  resolutionTarget?: ResolutionTarget;
+  /** Largest output width; with `maxHeight`, caps the preset size or replaces it when no preset is set */
+  maxWidth?: number;
+  /** Largest output height */
+  maxHeight?: number;
+  /**
+   * Keep the source aspect ratio when fitting it to the output size (default
+   * 'contain' once `maxWidth` or `maxHeight` is set). Never scales up.
+   */
+  fit?: ResolutionFit;
+  /**
+   * Step video bitrate, then resolution, down under sustained encoder
+   * backpressure and back up once it clears (default false). Each change is
+   * reported through 'quality-change' and `FinalEncoderConfig.qualityChanges`.
+   */
+  adaptiveQuality?: boolean | AdaptiveQualityConfig;
   /** Optional audio recording configuration */
   audio?: AudioConfig;
+  /**
+   * Where muxed output is kept while recording.
+   * - 'memory' (default): encoded chunks are buffered and muxed when stop() is called
+   * - 'opfs': chunks are muxed as they arrive into an Origin Private File System file,
+   *   keeping memory flat for long sessions. Falls back to 'memory' if OPFS is unavailable.
+   */
+  storage?: 'memory' | 'opfs';
+  /**
+   * Journal encoded chunks to IndexedDB while recording so the session can be
+   * rebuilt with `SlowTrackRecorder.recoverSession()` after a tab close or crash.
+   */
+  crashRecovery?: boolean;
+  /**
+   * Emit muxed output through the 'data' event as it is written, e.g. to feed a
+   * TusUploader. Requires storage: 'opfs'. Output is then strictly append-only:
+   * MP4 is flushed one fragment at a time and WebM is written in live-streaming
+   * form (without duration or cue index). The emitted bytes are not encrypted.
+   */
+  streamOutput?: boolean;
+  /**
+   * Compute a CRC32C per part (default 8 MiB) and a SHA-256 of the whole file
+   * while the output is written, returned as `RecordingResult.integrity`.
+   * Checksums cover the returned blob (the ciphertext when encrypted).
+   * WebM output that is not streamed is checksummed in one more pass once
+   * finalized, since its header is patched in place at the end.
+   */
+  integrity?: boolean | { partSize?: number };
+  /**
+   * Encrypt the muxed recording with AES-GCM-256 before it is returned.
+   * `RecordingResult.blob` then holds ciphertext and `RecordingResult.encryption`
+   * the manifest needed by `decryptRecording()`. Journaled crash-recovery data
+   * is not encrypted.
+   */
+  encryption?: EncryptionConfig;
+  /**
+   * A/V drift monitoring while audio is recorded. 'sync-update' is emitted every
+   * `intervalMs` (default 1000) and 'drift-alert' when the drift trend passes
+   * `driftBudgetMsPerHour` (default ±20ms/hour) in either direction. The trend is
+   * only reported after `minimumWindowMs` of media (default 5 minutes).
+   * Set to false to disable.
+   */
+  syncMonitoring?: false | (SyncMonitorOptions & { intervalMs?: number });
+  /**
+   * Level metering of the recorded audio. 'audio-level' is emitted `rate` times
+   * a second (default 20) with each channel's RMS and peak, and 'silence-start'
+   * / 'silence-end' bracket stretches below `silenceThresholdDb` (default -60
+   * dBFS) lasting `silenceDurationMs` (default 3s). Input that looks muted or
+   * dead is reported after `deadInputDurationMs` (default 1s).
+   * Off by default; pass true or options to enable.
+   */
+  audioLevels?: boolean | AudioLevelMeterOptions;
+  /**
+   * Recording telemetry: frame counts, drop rate, encode latency, bitrate,
+   * queue depths, A/V drift and buffered memory. 'stats' is emitted every
+   * `intervalMs` (default 1000) and once more when recording stops; `getStats()`
+   * returns the latest at any time. Set to false to stop the event.
+   */
+  stats?: false | { intervalMs?: number };
+  /**
+   * Where spans, metrics and events describing each recording are exported
+   * (default: nowhere). A recording is one trace: 'recorder.session' holding
+   * 'recorder.start' (with the workers' codec negotiation), 'recorder.record'
+   * and 'recorder.finalize' (encoder flush, mux and encryption). The 'stats'
+   * counters are exported as metrics every `stats.intervalMs`.
+   */
+  telemetry?: TelemetryExporter;
+  /**
+   * Lowest level logged by this recorder, its workers and its muxing: 'debug'
+   * adds per-frame and per-chunk diagnostics, 'silent' logs nothing.
+   * Defaults to the level set with `configureLogging()` ('info').
+   */
+  logLevel?: LogLevel;
+  /** Where this recorder's log entries go, worker entries included (default: the console) */
+  logSink?: LogSink;
+}
+
+/**
+ * Options for a single recording
+ */
+export interface StartOptions {
+  /**
+   * Further video sources composited with the stream's video track into one
+   * encoded track, e.g. a presenter camera over a screen share. The stream's
+   * track is the primary source: it paces the output, and the output size is
+   * chosen from it.
+   */
+  videoSources?: Array<MediaStream | MediaStreamTrack>;
+  /** How the sources are arranged (default: picture-in-picture, bottom right) */
+  layout?: VideoLayout;
+  /**
+   * Further video and audio tracks, each recorded as its own track by its own
+   * worker. The recording is then written as one Matroska (.mkv) file holding
+   * the stream's tracks followed by these, and `RecordingResult.tracks`
+   * describes them all. Such recordings are kept in memory: start() rejects
+   * with an `OptionsUnsupportedError` when storage: 'opfs', streamOutput or
+   * crashRecovery is set as well.
+   */
+  tracks?: Array<MediaStreamTrack | { track: MediaStreamTrack; label?: string }>;
+  /**
+   * Further audio inputs mixed with the stream's audio track into one encoded
+   * track, e.g. a USB microphone with system audio. Inputs are aligned by
+   * timestamp and resampled to the primary input's rate; the stream's track
+   * (or, without one, the first of these) is input 0 and starts the mix.
+   * Gain and mute can be changed while recording with `setAudioInputGain()`
+   * and `setAudioInputMuted()`. Requires `audio.enabled`; start() rejects
+   * them otherwise.
+   */
+  audioSources?: Array<MediaStream | MediaStreamTrack | ({ track: MediaStreamTrack } & AudioMixInput)>;
+}
+
+/**
+ * A source recorded as its own track by a dedicated worker (`StartOptions.tracks`)
+ */
+interface SeparateTrack {
+  kind: 'video' | 'audio';
+  label: string;
+  sourceId: string;
+  worker: Worker;
+  isReady: boolean;
+  codec: RecordedTrack['codec'] | null;
+  encoderConfig: VideoEncoderConfig | AudioEncoderConfig | null;
+  chunks: MuxInputChunk[];
 }
 
 /**
@@ -36,8 +239,17 @@ export interface RecorderEvents {
   'stop': (result: Blob) => void;
   'pause': () => void;
   'resume': () => void;
+  'data': (data: Uint8Array, position: number) => void;
   'error': (error: Error) => void;
+  'warning': (warning: RecorderWarning) => void;
   'sync-update': (syncData: SyncData) => void;
+  'drift-alert': (syncData: SyncData) => void;
+  'quality-change': (change: QualityChange) => void;
+  'source-change': (change: SourceChange) => void;
+  'audio-level': (level: AudioLevel) => void;
+  'silence-start': (silence: SilenceEvent) => void;
+  'silence-end': (silence: SilenceEvent) => void;
+  'stats': (stats: RecorderStats) => void;
 }
 
 /**
@@ -81,6 +293,8 @@ export interface RecorderEvents {
  */
 export class SlowTrackRecorder {
   #config: SlowTrackRecorderConfig;
+  #log: Logger;
+  #muxLog: Logger;
   #listeners: Map<keyof RecorderEvents, Set<Function>> = new Map();
   
   // Dual worker architecture
@@ -88,11 +302,65 @@ export class SlowTrackRecorder {
   #audioWorker: Worker | null = null;
   #isVideoWorkerReady = false;
   #isAudioWorkerReady = false;
+
+  /** Workers recording `StartOptions.tracks`, in track order */
+  #separateTracks: SeparateTrack[] = [];
+  /** Labels and ids of the stream's own tracks, for `RecordingResult.tracks` */
+  #primarySources: { video: { label: string; id: string } | null; audio: { label: string; id: string } | null } | null = null;
+  /** Whether the stream had no video track, so only audio is recorded */
+  #isAudioOnly = false;
+  /** Format the audio worker chose for an audio-only recording */
+  #audioOnlyContainer: AudioOnlyContainer | null = null;
+  /** Tracks of the last multi-track file */
+  #recordedTracks: RecordedTrack[] | null = null;
+  /** Lossless side-track of the audio (audio.wav) */
+  #wavWriter: WavWriter | null = null;
+  /** Removes the 'ended' listeners from the recorded video and audio sources */
+  #detachSourceListeners: Array<() => void> = [];
+  /** Mix settings per audio input while mixing `StartOptions.audioSources`, null otherwise */
+  #audioMixInputs: AudioMixInput[] | null = null;
+
+  /** Sends the audio worker its start message once the video codec (and so the container) is known */
+  #pendingAudioStart: ((containerType: 'mp4' | 'webm') => void) | null = null;
   
   // Chunk buffering for main thread muxing
   #videoChunks: EncodedVideoChunk[] = [];
   #audioChunks: EncodedAudioChunk[] = [];
   #chunkMetadata = new Map<EncodedVideoChunk | EncodedAudioChunk, any>();
+
+  /** Streaming muxer writing into OPFS (storage: 'opfs' only) */
+  #streamingMuxer: {
+    muxer: any;
+    writer: OpfsFileWriter;
+    container: 'mp4' | 'webm';
+    gate: TrackStartGate;
+  } | null = null;
+
+  /** Time base shared by both workers for the current session */
+  #sessionEpoch: SessionEpoch | null = null;
+
+  /** Chunk timestamp (µs after the session epoch) that became media time zero */
+  #timelineStart: number | null = null;
+
+  /** Encoder changes made by adaptive quality this session */
+  #qualityChanges: QualityChange[] = [];
+
+  /** Encoder configs the workers confirmed in their 'ready' messages */
+  #videoEncoderConfig: VideoEncoderConfig | null = null;
+  #audioEncoderConfig: AudioEncoderConfig | null = null;
+
+  /** Output size chosen by the video worker */
+  #resolution: ResolvedResolution | null = null;
+
+  /** Rotation of the source video, reported by the video worker */
+  #videoRotation: 0 | 90 | 180 | 270 = 0;
+
+  /** Media time covered by the received chunks, in µs (for the recording duration) */
+  #mediaStartTimestamp: number | null = null;
+  #mediaEndTimestamp: number | null = null;
+
+  /** Crash-recovery journal for the current session (crashRecovery only) */
+  #journal: SessionJournal | null = null;
   
   #isRecording = false;
   #stopPromiseResolve: ((blob: Blob) => void) | null = null;
@@ -103,6 +371,32 @@ export class SlowTrackRecorder {
   #startPromiseResolve: (() => void) | null = null;
   #startPromiseReject: ((error: Error) => void) | null = null;
   #lastResult: RecordingResult | null = null;
+
+  /** Key for encryption: set; generated per session when none was supplied */
+  #encryptionKey: CryptoKey | null = null;
+  #isEncryptionKeyGenerated = false;
+
+  /** Checksums of the muxed output as it is written (integrity without encryption) */
+  #outputHasher: IntegrityHasher | null = null;
+
+  /** A/V drift measurement from incoming chunks (audio recordings only) */
+  #syncMonitor: SyncMonitor | null = null;
+  #syncUpdateInterval: number | null = null;
+  /** Latest drift sample, for 'stats' */
+  #lastSyncData: SyncData | null = null;
+
+  /** Encoder counters last posted by the video and audio workers */
+  #videoEncoderStats: EncoderStatsSnapshot | null = null;
+  #audioEncoderStats: EncoderStatsSnapshot | null = null;
+  /** Chunks received per track, for the output bitrate */
+  #videoOutputStats = new TrackOutputStats();
+  #audioOutputStats = new TrackOutputStats();
+  #statsInterval: number | null = null;
+  
+  // Telemetry: the current recording's root span and the span of its recording phase
+  #telemetry: Telemetry;
+  #sessionSpan: TelemetrySpan | null = null;
+  #recordSpan: TelemetrySpan | null = null;
   
   /** @deprecated Use #finalVideoCodec instead */
   #finalCodec: 'av1' | 'hevc' | 'h264' | 'vp9' | null = null;
@@ -110,6 +404,11 @@ export class SlowTrackRecorder {
   /** High-resolution monotonic timestamp of when recording started */
   #recordingStartTime: number | null = null;
 
+  /** Pause state - paused time is excluded from the recording duration */
+  #isPaused = false;
+  #pauseStartTime: number | null = null;
+  #totalPausedTime = 0;
+
   /** Diagnostic counters for performance monitoring */
   #videoFrameCount = 0;
   #lastDiagnosticTime = 0;
@@ -147,38 +446,54 @@ export class SlowTrackRecorder {
     
     // Log audio capability for debugging
     if (hasVideoSupport && !hasAudioSupport) {
-      console.info('SlowTrackRecorder: Video recording supported, audio recording not available');
+      log.debug('Video recording supported, audio recording not available');
     } else if (hasVideoSupport && hasAudioSupport) {
-      console.info('SlowTrackRecorder: Both video and audio recording supported');
+      log.debug('Both video and audio recording supported');
     }
     
     // Return true if video is supported (audio is optional enhancement)
     return hasVideoSupport;
   }
 
+  /**
+   * Check which codecs, sizes and frame rates this device can encode, before recording
+   * 
+   * Every codec string the video worker negotiates and every audio codec is
+   * checked with `isConfigSupported()`, hardware and software encoding
+   * separately, within a 2s budget. Results are cached per device, so only
+   * the first call on a device takes that long.
+   * 
+   * @param options - Time budget and caching
+   * @returns Support matrix and a recommended config
+   */
+  static async probeCapabilities(options?: CapabilityProbeOptions): Promise<CapabilityReport> {
+    return probeCapabilities(options);
+  }
+
   /**
    * Validate and sanitize audio configuration
    * 
    * @param audioConfig - Audio configuration to validate
+   * @param log - Logger of the recorder being configured
    * @returns Validated audio configuration or undefined if invalid
    */
-  static #validateAudioConfig(audioConfig: AudioConfig): AudioConfig | undefined {
+  static #validateAudioConfig(audioConfig: AudioConfig, log: Logger): AudioConfig | undefined {
     try {
       // Check if AudioEncoder is available when audio is enabled
       if (audioConfig.enabled && typeof window.AudioEncoder === 'undefined') {
-        console.warn('SlowTrackRecorder: Audio enabled but AudioEncoder not available, disabling audio');
+        log.warn('Audio enabled but AudioEncoder not available, disabling audio');
         return { ...audioConfig, enabled: false };
       }
 
       // Validate bitrate range (8kbps to 512kbps)
       if (audioConfig.bitrate < 8000 || audioConfig.bitrate > 512000) {
-        console.warn(`SlowTrackRecorder: Audio bitrate ${audioConfig.bitrate} out of range, using 128000`);
+        log.warn(`Audio bitrate ${audioConfig.bitrate} out of range, using 128000`);
         return { ...audioConfig, bitrate: 128000 };
       }
 
       return audioConfig;
     } catch (error) {
-      console.warn('SlowTrackRecorder: Error validating audio config:', error);
+      log.warn('Error validating audio config:', error);
       return undefined;
     }
   }
@@ -189,13 +504,26 @@ export class SlowTrackRecorder {
    * @param config - Recording configuration parameters
    */
   constructor(config: SlowTrackRecorderConfig) {
+    validateResolutionOptions(config);
+    validateLogLevel(config.logLevel);
+    if (config.encryption?.chunkSize !== undefined) {
+      // Checked here, not at stop(), so a bad value cannot cost a whole session
+      validateEncryptionChunkSize(config.encryption.chunkSize);
+    }
+    if (typeof config.audioLevels === 'object') {
+      validateAudioLevelMeterOptions(config.audioLevels);
+    }
+    this.#log = new Logger('recorder', { level: config.logLevel, sink: config.logSink });
+    this.#muxLog = new Logger('mux', { level: config.logLevel, sink: config.logSink });
+
     // Validate and sanitize audio configuration if provided
     if (config.audio) {
-      const validatedAudio = SlowTrackRecorder.#validateAudioConfig(config.audio);
+      const validatedAudio = SlowTrackRecorder.#validateAudioConfig(config.audio, this.#log);
       this.#config = { ...config, audio: validatedAudio };
     } else {
       this.#config = config;
     }
+    this.#telemetry = new Telemetry(config.telemetry);
   }
 
   /**
@@ -238,7 +566,7 @@ export class SlowTrackRecorder {
           (callback as Function)(...args);
         } catch (error) {
           // Prevent listener errors from breaking the recorder
-          console.error(`Error in ${event} event listener:`, error);
+          this.#log.error(`Error in ${event} event listener:`, error);
         }
       });
     }
@@ -255,7 +583,7 @@ export class SlowTrackRecorder {
       return;
     }
 
-    console.error('SlowTrackRecorder: Fatal error in dual-worker processing:', error);
+    this.#log.error('Fatal error in dual-worker processing:', error);
     
     // Signal all loops to terminate
     this.#shouldStopProcessing = true;
@@ -266,11 +594,14 @@ export class SlowTrackRecorder {
     
     // Reset all state
     this.#recordingStartTime = null;
+    this.#isPaused = false;
+    this.#pauseStartTime = null;
     this.#videoFrameCount = 0;
     this.#lastDiagnosticTime = 0;
     
     // Create proper error object and emit
     const fatalError = error instanceof Error ? error : new Error(String(error || 'Unknown processing error'));
+    this.#endTelemetrySession(fatalError);
     this.#emit('error', fatalError);
   }
 
@@ -285,8 +616,26 @@ export class SlowTrackRecorder {
         case 'ready':
           this.#isVideoWorkerReady = true;
           this.#finalVideoCodec = event.data.finalCodec || null;
+          this.#videoEncoderConfig = event.data.encoderConfig || null;
+          this.#videoRotation = event.data.rotation ?? 0;
+          this.#resolution = event.data.resolution ?? null;
           this.#finalCodec = this.#finalVideoCodec; // Backward compatibility
-          console.log('SlowTrackRecorder: Video worker ready with codec:', this.#finalVideoCodec);
+          this.#log.info('Video worker ready with codec:', this.#finalVideoCodec);
+          const codecSelection = this.#config.codecSelection ?? 'auto';
+          if (codecSelection !== 'auto' && this.#finalVideoCodec !== codecSelection) {
+            this.#emitWarning('CODEC_FALLBACK', 'info', `${codecSelection.toUpperCase()} is not supported, recording video as ${String(this.#finalVideoCodec).toUpperCase()}`, {
+              track: 'video',
+              requested: codecSelection,
+              selected: this.#finalVideoCodec
+            });
+          }
+          
+          // Audio codec negotiation depends on the container the video codec implies
+          if (this.#pendingAudioStart) {
+            const startAudio = this.#pendingAudioStart;
+            this.#pendingAudioStart = null;
+            startAudio(getContainerForVideoCodec(this.#finalVideoCodec));
+          }
           
           // Check if both workers are ready
           this.#checkWorkersReady();
@@ -294,13 +643,21 @@ export class SlowTrackRecorder {
         
         case 'video-chunk':
           if (event.data.chunk) {
+            this.#journal?.append('video', event.data.chunk, event.data.metadata);
+            this.#trackMediaTime(event.data.chunk);
+            this.#videoOutputStats.add(event.data.chunk);
+            this.#syncMonitor?.addVideoChunk(event.data.chunk, performance.now() - this.#totalPausedTime);
+          }
+          if (event.data.chunk && this.#streamingMuxer) {
+            this.#addChunkToStreamingMuxer('video', event.data.chunk, event.data.metadata);
+          } else if (event.data.chunk) {
             this.#videoChunks.push(event.data.chunk);
             if (event.data.metadata) {
               this.#chunkMetadata.set(event.data.chunk, event.data.metadata);
             }
             // Log first few chunks for startup diagnostics
             if (this.#videoChunks.length <= 3) {
-              console.log(`SlowTrackRecorder: Video chunk ${this.#videoChunks.length} received (${event.data.chunk.byteLength} bytes)`);
+              this.#log.debug(`Video chunk ${this.#videoChunks.length} received (${event.data.chunk.byteLength} bytes)`);
             }
           }
           break;
@@ -309,19 +666,53 @@ export class SlowTrackRecorder {
           this.#handleVideoBackpressureMessage(event.data);
           break;
         
+        case 'quality-change':
+          if (event.data.qualityChange) {
+            this.#qualityChanges.push(event.data.qualityChange);
+            this.#recordTelemetryEvent('recorder.quality_change', {
+              'quality.level': event.data.qualityChange.level,
+              'quality.direction': event.data.qualityChange.direction,
+              'video.bitrate': event.data.qualityChange.bitrate,
+              'video.width': event.data.qualityChange.width,
+              'video.height': event.data.qualityChange.height
+            });
+            this.#emit('quality-change', event.data.qualityChange);
+          }
+          break;
+        
+        case 'timeline-estimated':
+          this.#warnTimelineEstimated('video', event.data.timelineOffset ?? 0);
+          break;
+        
+        case 'stats':
+          this.#videoEncoderStats = event.data.stats ?? this.#videoEncoderStats;
+          break;
+        
+        case 'telemetry':
+          if (event.data.telemetry) {
+            this.#telemetry.exportRecord(event.data.telemetry);
+          }
+          break;
+        
+        case 'log':
+          if (event.data.log) {
+            this.#log.forward(event.data.log);
+          }
+          break;
+        
         case 'error':
-          this.#handleVideoWorkerError(event.data.error || 'Unknown video worker error');
+          this.#handleVideoWorkerError(event.data.error || 'Unknown video worker error', event.data.errorCode);
           break;
         
         case 'complete':
-          console.log('SlowTrackRecorder: Video worker completed');
+          this.#log.debug('Video worker completed');
           break;
         
         default:
-          console.warn('SlowTrackRecorder: Unknown message type from video worker:', event.data);
+          this.#log.warn('Unknown message type from video worker:', event.data);
       }
     } catch (error) {
-      console.error('SlowTrackRecorder: Error handling video worker message:', error);
+      this.#log.error('Error handling video worker message:', error);
     }
   }
 
@@ -336,7 +727,28 @@ export class SlowTrackRecorder {
         case 'ready':
           this.#isAudioWorkerReady = true;
           this.#finalAudioCodec = event.data.finalCodec || null;
-          console.log('SlowTrackRecorder: Audio worker ready with codec:', this.#finalAudioCodec);
+          this.#audioEncoderConfig = event.data.encoderConfig || null;
+          this.#audioOnlyContainer = event.data.container ?? null;
+          this.#log.info('Audio worker ready with codec:', this.#finalAudioCodec);
+          const requestedAudioCodec = this.#config.audio?.codec ?? 'auto';
+          if (requestedAudioCodec !== 'auto' && this.#finalAudioCodec !== requestedAudioCodec) {
+            this.#emitWarning('CODEC_FALLBACK', 'info', `${requestedAudioCodec.toUpperCase()} cannot be used, recording audio as ${String(this.#finalAudioCodec).toUpperCase()}`, {
+              track: 'audio',
+              requested: requestedAudioCodec,
+              selected: this.#finalAudioCodec
+            });
+          }
+          
+          // The WAV side-track takes the encoder's format, which the worker has just settled
+          if (this.#config.audio?.wav && !this.#encryptionKey && this.#audioEncoderConfig) {
+            const wavWriter = new WavWriter(this.#audioEncoderConfig.sampleRate, this.#audioEncoderConfig.numberOfChannels);
+            this.#wavWriter = wavWriter;
+            if (this.#config.storage === 'opfs' && OpfsFileWriter.isSupported()) {
+              wavWriter.openFile(`recording-${Date.now()}.wav.pcm`).catch((error) => {
+                this.#log.warn('Could not open OPFS file for audio.wav, keeping it in memory:', error);
+              });
+            }
+          }
           
           // Check if both workers are ready
           this.#checkWorkersReady();
@@ -344,30 +756,97 @@ export class SlowTrackRecorder {
         
         case 'audio-chunk':
           if (event.data.chunk) {
+            this.#journal?.append('audio', event.data.chunk, event.data.metadata);
+            this.#trackMediaTime(event.data.chunk);
+            this.#audioOutputStats.add(event.data.chunk);
+            this.#syncMonitor?.addAudioChunk(event.data.chunk, performance.now() - this.#totalPausedTime);
+          }
+          if (event.data.chunk && this.#streamingMuxer) {
+            this.#addChunkToStreamingMuxer('audio', event.data.chunk, event.data.metadata);
+          } else if (event.data.chunk) {
             this.#audioChunks.push(event.data.chunk);
             if (event.data.metadata) {
               this.#chunkMetadata.set(event.data.chunk, event.data.metadata);
             }
             // Log first few chunks for startup diagnostics
             if (this.#audioChunks.length <= 3) {
-              console.log(`SlowTrackRecorder: Audio chunk ${this.#audioChunks.length} received (${event.data.chunk.byteLength} bytes)`);
+              this.#log.debug(`Audio chunk ${this.#audioChunks.length} received (${event.data.chunk.byteLength} bytes)`);
+            }
+          }
+          break;
+        
+        case 'pcm':
+          if (event.data.pcm && event.data.timestamp !== undefined) {
+            this.#wavWriter?.write(event.data.timestamp, event.data.pcm);
+          }
+          break;
+        
+        case 'audio-level':
+          if (event.data.level) {
+            this.#emit('audio-level', event.data.level);
+          }
+          break;
+        
+        case 'silence-start':
+          if (event.data.silence) {
+            if (event.data.silence.isDigitalSilence) {
+              this.#log.warn('⚠️ The microphone delivers no signal; it may be muted or disconnected');
+            } else {
+              this.#log.warn('⚠️ No sound above the silence threshold is being recorded');
             }
+            this.#recordTelemetryEvent('recorder.silence_start', {
+              'media.timestamp': event.data.silence.timestamp,
+              'silence.digital': event.data.silence.isDigitalSilence
+            }, 'warn');
+            this.#emit('silence-start', event.data.silence);
+          }
+          break;
+        
+        case 'silence-end':
+          if (event.data.silence) {
+            this.#log.info(`🔊 Sound again after ${Math.round(event.data.silence.duration ?? 0)}ms of silence`);
+            this.#recordTelemetryEvent('recorder.silence_end', {
+              'media.timestamp': event.data.silence.timestamp,
+              'silence.duration_ms': event.data.silence.duration ?? 0,
+              'silence.digital': event.data.silence.isDigitalSilence
+            });
+            this.#emit('silence-end', event.data.silence);
+          }
+          break;
+        
+        case 'timeline-estimated':
+          this.#warnTimelineEstimated('audio', event.data.timelineOffset ?? 0);
+          break;
+        
+        case 'stats':
+          this.#audioEncoderStats = event.data.stats ?? this.#audioEncoderStats;
+          break;
+        
+        case 'telemetry':
+          if (event.data.telemetry) {
+            this.#telemetry.exportRecord(event.data.telemetry);
+          }
+          break;
+        
+        case 'log':
+          if (event.data.log) {
+            this.#log.forward(event.data.log);
           }
           break;
         
         case 'error':
-          this.#handleAudioWorkerError(event.data.error || 'Unknown audio worker error');
+          this.#handleAudioWorkerError(event.data.error || 'Unknown audio worker error', event.data.errorCode);
           break;
         
         case 'complete':
-          console.log('SlowTrackRecorder: Audio worker completed');
+          this.#log.debug('Audio worker completed');
           break;
         
         default:
-          console.warn('SlowTrackRecorder: Unknown message type from audio worker:', event.data);
+          this.#log.warn('Unknown message type from audio worker:', event.data);
       }
     } catch (error) {
-      console.error('SlowTrackRecorder: Error handling audio worker message:', error);
+      this.#log.error('Error handling audio worker message:', error);
     }
   }
 
@@ -375,11 +854,12 @@ export class SlowTrackRecorder {
    * Check if both workers are ready and resolve start promise
    */
   #checkWorkersReady(): void {
-    const audioEnabled = this.#config.audio?.enabled === true;
-    const bothReady = this.#isVideoWorkerReady && (!audioEnabled || this.#isAudioWorkerReady);
+    // Without an audio worker (no audio track, or audio disabled after an error) only video is waited for
+    const bothReady = (this.#isAudioOnly || this.#isVideoWorkerReady) && (!this.#audioWorker || this.#isAudioWorkerReady)
+      && this.#separateTracks.every(track => track.isReady);
     
     if (bothReady && this.#startPromiseResolve) {
-      console.log('SlowTrackRecorder: Both workers ready, starting recording');
+      this.#log.debug('Both workers ready, starting recording');
       this.#startPromiseResolve();
       this.#startPromiseResolve = null;
       this.#startPromiseReject = null;
@@ -402,27 +882,29 @@ export class SlowTrackRecorder {
     if (data.status === 'high') {
       const hysteresisInfo = data.consecutiveCount ? ` (attempt ${data.consecutiveCount})` : '';
       const immediateInfo = isImmediate ? ' [IMMEDIATE]' : '';
-      console.warn(`SlowTrackRecorder: Video encoder backpressure HIGH${hysteresisInfo}${immediateInfo} (queue: ${encoderQueue})`);
+      this.#log.warn(`Video encoder backpressure HIGH${hysteresisInfo}${immediateInfo} (queue: ${encoderQueue})`);
       
       this.#isPumpPaused = true;
+      this.#recordTelemetryEvent('recorder.backpressure', { 'backpressure.status': 'high', 'encoder.queue_size': encoderQueue }, 'warn');
       if (this.#pressureHighTimestamp === null) {
         this.#pressureHighTimestamp = performance.now();
         this.#startPerformanceMonitoring();
       }
       
       if (isImmediate) {
-        console.warn(`SlowTrackRecorder: 🚨 IMMEDIATE video encoder overload detected`);
+        this.#log.warn(`🚨 IMMEDIATE video encoder overload detected`);
       }
     } else if (data.status === 'low') {
       const immediateInfo = isImmediate ? ' [IMMEDIATE]' : '';
-      console.log(`SlowTrackRecorder: Video encoder backpressure LOW${immediateInfo} (queue: ${encoderQueue})`);
+      this.#log.debug(`Video encoder backpressure LOW${immediateInfo} (queue: ${encoderQueue})`);
       
       this.#isPumpPaused = false;
       this.#pressureHighTimestamp = null;
       this.#stopPerformanceMonitoring();
+      this.#recordTelemetryEvent('recorder.backpressure', { 'backpressure.status': 'low', 'encoder.queue_size': encoderQueue });
       
       if (isImmediate) {
-        console.log(`SlowTrackRecorder: ✅ IMMEDIATE video encoder recovery detected`);
+        this.#log.debug(`✅ IMMEDIATE video encoder recovery detected`);
       }
     }
   }
@@ -430,9 +912,10 @@ export class SlowTrackRecorder {
   /**
    * Handle error messages from video worker
    */
-  #handleVideoWorkerError(errorMessage: string): void {
-    const error = new Error(`Video worker error: ${errorMessage}`);
-    console.error('SlowTrackRecorder: Video worker error:', errorMessage);
+  #handleVideoWorkerError(errorMessage: string, errorCode?: RecorderErrorCode): void {
+    const error = createWorkerError(errorCode, `Video worker error: ${errorMessage}`);
+    this.#log.error('Video worker error:', errorMessage);
+    this.#recordTelemetryEvent('recorder.worker_error', { 'worker': 'video', 'error.message': errorMessage }, 'error');
     
     if (this.#startPromiseReject) {
       this.#startPromiseReject(error);
@@ -450,13 +933,33 @@ export class SlowTrackRecorder {
 
   /**
    * Handle error messages from audio worker
+   *
+   * Audio-only recordings fail; otherwise audio is disabled with an
+   * AUDIO_DISABLED warning and the recording continues video-only.
    */
-  #handleAudioWorkerError(errorMessage: string): void {
-    const error = new Error(`Audio worker error: ${errorMessage}`);
-    console.error('SlowTrackRecorder: Audio worker error:', errorMessage);
+  #handleAudioWorkerError(errorMessage: string, errorCode?: RecorderErrorCode): void {
+    this.#log.error('Audio worker error:', errorMessage);
+    this.#recordTelemetryEvent('recorder.worker_error', { 'worker': 'audio', 'error.message': errorMessage }, 'error');
+    
+    if (this.#isAudioOnly) {
+      const error = createWorkerError(errorCode, `Audio worker error: ${errorMessage}`);
+      if (this.#startPromiseReject) {
+        this.#startPromiseReject(error);
+        this.#startPromiseResolve = null;
+        this.#startPromiseReject = null;
+      }
+      if (this.#stopPromiseReject) {
+        this.#stopPromiseReject(error);
+      }
+      this.#emit('error', error);
+      this.#cleanupDualWorkers();
+      return;
+    }
     
-    // Audio errors are less critical - disable audio and continue with video-only
-    console.warn('SlowTrackRecorder: Disabling audio due to worker error, continuing with video-only recording');
+    this.#emitWarning('AUDIO_DISABLED', 'warning', 'Audio could not be recorded; continuing with video only', {
+      reason: errorMessage,
+      errorCode: errorCode ?? null
+    });
     
     if (this.#audioWorker) {
       this.#audioWorker.terminate();
@@ -488,9 +991,7 @@ export class SlowTrackRecorder {
         this.#firstLevelWarningShown = true;
         const message = 'Performance notice: Recording quality may be reduced due to system load. This will not affect your current recording.';
         
-        console.info(`SlowTrackRecorder: ${message} (${durationSeconds}s backpressure)`);
-        // Emit as info event, not error
-        this.#emit('error', new Error(message));
+        this.#emitWarning('SUSTAINED_BACKPRESSURE', 'info', message, { durationMs: Math.round(duration), stage: 1 });
       }
       
       // Second-level warning: 25 seconds (continued guidance)
@@ -498,14 +999,12 @@ export class SlowTrackRecorder {
         this.#secondLevelWarningShown = true;
         const message = 'Continued performance constraints detected. For optimal quality in future recordings, consider closing other applications or reducing recording resolution.';
         
-        console.info(`SlowTrackRecorder: ${message} (${durationSeconds}s backpressure)`);
-        // Emit as info event, not error
-        this.#emit('error', new Error(message));
+        this.#emitWarning('SUSTAINED_BACKPRESSURE', 'warning', message, { durationMs: Math.round(duration), stage: 2 });
       }
       
       // Log periodic updates for debugging without user notification
       if (duration > 30000 && durationSeconds % 10 === 0) {
-        console.log(`SlowTrackRecorder: Backpressure continues (${durationSeconds}s) - system adapting quality gracefully`);
+        this.#log.debug(`Backpressure continues (${durationSeconds}s) - system adapting quality gracefully`);
       }
     }, 1000); // Check every second
   }
@@ -524,6 +1023,179 @@ export class SlowTrackRecorder {
     this.#secondLevelWarningShown = false;
   }
 
+  /**
+   * Start periodic A/V drift sampling
+   * 
+   * Emits 'sync-update' with every sample and 'drift-alert' when the drift
+   * trend moves over budget. Sampling is skipped while paused.
+   */
+  #startSyncMonitoring(): void {
+    const options = this.#config.syncMonitoring;
+    if (options === false) {
+      return;
+    }
+
+    this.#stopSyncMonitoring();
+    this.#syncMonitor = new SyncMonitor(options);
+
+    this.#syncUpdateInterval = window.setInterval(() => {
+      if (this.#isPaused || !this.#syncMonitor) return;
+
+      const sample = this.#syncMonitor.sample();
+      if (!sample) return;
+
+      this.#lastSyncData = sample.syncData;
+      this.#emit('sync-update', sample.syncData);
+
+      if (sample.exceededBudget) {
+        const { drift, driftRate } = sample.syncData;
+        this.#log.warn(`⚠️ A/V drift trend ${driftRate!.toFixed(1)}ms/hour exceeds budget (current drift ${drift.toFixed(1)}ms)`);
+        this.#recordTelemetryEvent('recorder.drift_alert', { 'av.drift_ms': drift, 'av.drift_rate_ms_per_hour': driftRate! }, 'warn');
+        this.#emit('drift-alert', sample.syncData);
+      }
+    }, options?.intervalMs ?? 1000);
+  }
+
+  /**
+   * Start reporting stats every `stats.intervalMs`
+   */
+  #startStatsReporting(): void {
+    const options = this.#config.stats;
+    if (options === false && !this.#telemetry.isEnabled) {
+      return;
+    }
+
+    this.#stopStatsReporting();
+    this.#statsInterval = window.setInterval(() => {
+      if (this.#isPaused) return;
+      this.#reportStats(this.getStats()!);
+    }, typeof options === 'object' ? options.intervalMs ?? 1000 : 1000);
+  }
+
+  /**
+   * Emit 'stats' and export the counters as telemetry metrics
+   */
+  #reportStats(stats: RecorderStats): void {
+    if (this.#config.stats !== false) {
+      this.#emit('stats', stats);
+    }
+    if (!this.#telemetry.isEnabled) {
+      return;
+    }
+
+    const telemetry = this.#telemetry;
+    telemetry.recordMetric('recorder.duration', stats.duration, 'ms');
+    telemetry.recordMetric('recorder.buffered_bytes', stats.bufferedBytes, 'By');
+    if (stats.drift !== null) {
+      telemetry.recordMetric('recorder.av_drift', stats.drift, 'ms');
+    }
+    for (const [track, trackStats] of [['video', stats.video], ['audio', stats.audio]] as const) {
+      if (!trackStats) continue;
+      const attributes = { track };
+      telemetry.recordMetric('recorder.frames.captured', trackStats.framesCaptured, '{frame}', attributes);
+      telemetry.recordMetric('recorder.frames.encoded', trackStats.framesEncoded, '{frame}', attributes);
+      telemetry.recordMetric('recorder.frames.dropped', trackStats.framesDropped, '{frame}', attributes);
+      telemetry.recordMetric('recorder.frames.drop_rate', trackStats.dropRate, '1', attributes);
+      telemetry.recordMetric('recorder.encoder.queue_size', trackStats.encodeQueueSize, '{frame}', attributes);
+      telemetry.recordMetric('recorder.output.bytes', trackStats.bytes, 'By', attributes);
+      if (trackStats.bitrate !== null) {
+        telemetry.recordMetric('recorder.output.bitrate', trackStats.bitrate, 'bit/s', attributes);
+      }
+      if (trackStats.encodeLatencyMs) {
+        for (const [percentile, value] of Object.entries(trackStats.encodeLatencyMs)) {
+          telemetry.recordMetric('recorder.encoder.latency', value, 'ms', { ...attributes, percentile });
+        }
+      }
+    }
+  }
+
+  /**
+   * Export an event, within the recording phase span when there is one
+   */
+  #recordTelemetryEvent(name: string, attributes: TelemetryAttributes = {}, severity?: TelemetryEventData['severity']): void {
+    this.#telemetry.recordEvent(name, attributes, (this.#recordSpan ?? this.#sessionSpan)?.context, severity);
+  }
+
+  /**
+   * Log a problem that does not stop the recording, and emit it as 'warning'
+   */
+  #emitWarning(code: RecorderWarning['code'], severity: RecorderWarning['severity'], message: string, details: RecorderWarning['details'] = {}): void {
+    if (severity === 'info') {
+      this.#log.info(message, details);
+    } else {
+      this.#log.warn(`⚠️ ${message}`, details);
+    }
+    this.#recordTelemetryEvent('recorder.warning', { 'warning.code': code, 'warning.severity': severity }, severity === 'info' ? 'info' : 'warn');
+    this.#emit('warning', { code, severity, message, details, timestamp: this.#getCurrentMediaTime() });
+  }
+
+  /**
+   * Warn that a track's start was placed by when its first frame arrived
+   *
+   * @param track - 'video', 'audio' or the label of a separate track
+   * @param offsetMs - Estimated start of the track after session start
+   */
+  #warnTimelineEstimated(track: string, offsetMs: number): void {
+    this.#emitWarning('TIMELINE_ESTIMATED', 'warning', `The ${track} track's frames are not on the session clock; its start is estimated at ${Math.round(offsetMs)}ms`, {
+      track,
+      offsetMs: Math.round(offsetMs)
+    });
+  }
+
+  /**
+   * End the recording phase and root spans of the current recording
+   *
+   * @param error - Why the recording failed, if it did
+   */
+  #endTelemetrySession(error?: Error): void {
+    this.#recordSpan?.end(error);
+    this.#recordSpan = null;
+    this.#sessionSpan?.end(error);
+    this.#sessionSpan = null;
+    void this.#telemetry.flush();
+  }
+
+  /**
+   * Stop emitting 'stats'
+   */
+  #stopStatsReporting(): void {
+    if (this.#statsInterval !== null) {
+      clearInterval(this.#statsInterval);
+      this.#statsInterval = null;
+    }
+  }
+
+  /**
+   * Combine a worker's encoder counters with the chunks received from it
+   */
+  #getTrackStats(encoderStats: EncoderStatsSnapshot | null, output: TrackOutputStats): TrackStats {
+    const counters = encoderStats ?? {
+      framesCaptured: 0,
+      framesEncoded: 0,
+      framesDropped: 0,
+      encodeQueueSize: 0,
+      encodeLatencyMs: null
+    };
+    return {
+      ...counters,
+      dropRate: counters.framesCaptured > 0 ? counters.framesDropped / counters.framesCaptured : 0,
+      chunksReceived: output.chunks,
+      bytes: output.bytes,
+      bitrate: output.bitrate
+    };
+  }
+
+  /**
+   * Stop A/V drift sampling
+   */
+  #stopSyncMonitoring(): void {
+    if (this.#syncUpdateInterval !== null) {
+      clearInterval(this.#syncUpdateInterval);
+      this.#syncUpdateInterval = null;
+    }
+    this.#syncMonitor = null;
+  }
+
   /**
    * 🎯 SURGICAL STRIKE: Start lightweight frame leak monitoring
    * This is our "poor man's leak detector" that will immediately expose frame leaks
@@ -537,22 +1209,17 @@ export class SlowTrackRecorder {
       const activeCount = this.#activeFrames.size;
       
       if (activeCount > 50) {
-        console.error(`🚨 CRITICAL FRAME LEAK DETECTED! In-flight frames: ${activeCount}`);
-        console.error('🚨 This confirms a memory leak in the video processing pipeline');
-        
-        // Additional diagnostic info
-        console.error('🚨 Leak Details:', {
-          activeFramesCount: activeCount,
-          isRecording: this.#isRecording,
+        this.#emitWarning('FRAME_LEAK', 'critical', `Video frames are not being released (${activeCount} in flight)`, {
+          activeFrames: activeCount,
           isPumpPaused: this.#isPumpPaused,
           videoFrameCount: this.#videoFrameCount
         });
       } else if (activeCount > 20) {
-        console.warn(`⚠️ High frame count detected: ${activeCount} frames in-flight`);
+        this.#log.warn(`⚠️ High frame count detected: ${activeCount} frames in-flight`);
       } else if (activeCount > 0) {
-        console.log(`📊 LEAK DETECTOR: ${activeCount} frames in-flight (main thread tracking)`);
+        this.#log.debug(`📊 LEAK DETECTOR: ${activeCount} frames in-flight (main thread tracking)`);
       } else {
-        console.log(`📊 LEAK DETECTOR: 0 frames in-flight - main thread clean`);
+        this.#log.debug(`📊 LEAK DETECTOR: 0 frames in-flight - main thread clean`);
       }
     }, 1000); // Check every second for more frequent updates
   }
@@ -569,7 +1236,7 @@ export class SlowTrackRecorder {
     // Final leak report
     const remainingFrames = this.#activeFrames.size;
     if (remainingFrames > 0) {
-      console.warn(`🚨 LEAK DETECTED AT SHUTDOWN: ${remainingFrames} frames were never cleaned up`);
+      this.#emitWarning('FRAME_LEAK', 'warning', `${remainingFrames} video frames were never released; closing them`, { activeFrames: remainingFrames });
       
       // Emergency cleanup - close any remaining frames
       let closedCount = 0;
@@ -578,10 +1245,10 @@ export class SlowTrackRecorder {
           frame.close();
           closedCount++;
         } catch (error) {
-          console.warn('Failed to close leaked frame:', error);
+          this.#log.warn('Failed to close leaked frame:', error);
         }
       }
-      console.warn(`🧹 Emergency cleanup: closed ${closedCount} leaked frames`);
+      this.#log.warn(`🧹 Emergency cleanup: closed ${closedCount} leaked frames`);
     }
     
     this.#activeFrames.clear();
@@ -621,20 +1288,48 @@ export class SlowTrackRecorder {
    * Start recording from the provided MediaStream using dual-worker architecture
    * 
    * @param stream - MediaStream to record (typically from getUserMedia or getDisplayMedia)
+   * @param options - Further video sources to composite, and their layout
    * @returns Promise that resolves when recording has started
    */
-  async start(stream: MediaStream): Promise<void> {
+  async start(stream: MediaStream, options: StartOptions = {}): Promise<void> {
+    let startSpan: TelemetrySpan | null = null;
     try {
       // 1. Validate State & Setup
       if (this.#isRecording) {
         throw new Error('Recording already in progress');
       }
       
+      this.#sessionSpan = this.#telemetry.startSpan('recorder.session', {
+        'recorder.storage': this.#config.storage ?? 'memory',
+        'recorder.encrypted': !!this.#config.encryption
+      });
+      this.#recordSpan = null;
+      startSpan = this.#telemetry.startSpan('recorder.start', {}, this.#sessionSpan.context);
+      const telemetryContext = this.#telemetry.isEnabled ? startSpan.context : undefined;
+      
       this.#lastResult = null;
       this.#shouldStopProcessing = false;
       this.#videoFrameCount = 0;
       this.#lastDiagnosticTime = 0;
       this.#recordingStartTime = performance.now();
+      this.#sessionEpoch = createSessionEpoch();
+      this.#timelineStart = null;
+      this.#qualityChanges = [];
+      this.#videoEncoderConfig = null;
+      this.#audioEncoderConfig = null;
+      this.#videoRotation = 0;
+      this.#resolution = null;
+      this.#mediaStartTimestamp = null;
+      this.#mediaEndTimestamp = null;
+      this.#audioOnlyContainer = null;
+      this.#lastSyncData = null;
+      this.#videoEncoderStats = null;
+      this.#audioEncoderStats = null;
+      this.#videoOutputStats = new TrackOutputStats();
+      this.#audioOutputStats = new TrackOutputStats();
+      this.#isPaused = false;
+      this.#pauseStartTime = null;
+      this.#totalPausedTime = 0;
       
       // Clear chunk buffers
       this.#videoChunks = [];
@@ -649,82 +1344,189 @@ export class SlowTrackRecorder {
       // Reset user feedback state
       this.#firstLevelWarningShown = false;
       this.#secondLevelWarningShown = false;
+
+      // Resolve the encryption key up front so a bad key fails before any workers start
+      this.#encryptionKey = null;
+      this.#isEncryptionKeyGenerated = false;
+      if (this.#config.encryption) {
+        await this.#prepareEncryptionKey(this.#config.encryption);
+      }
+
+      // Encrypted output is hashed as ciphertext when stop() encrypts it
+      this.#outputHasher = this.#encryptionKey ? null : this.#createIntegrityHasher();
+
+      this.#wavWriter = null;
+      if (this.#config.audio?.wav && this.#encryptionKey) {
+        this.#log.warn('⚠️ audio.wav is not written for encrypted recordings');
+      }
       
-      console.log('SlowTrackRecorder: 🚀 Starting dual-worker architecture');
+      this.#log.info('🚀 Starting dual-worker architecture');
 
       // 2. Extract and Validate Tracks
-      const videoTrack = stream.getVideoTracks()[0];
-      const audioTrack = stream.getAudioTracks()[0];
-      if (!videoTrack) {
+      const videoTrack: MediaStreamTrack | undefined = stream.getVideoTracks()[0];
+      const streamAudioTrack = stream.getAudioTracks()[0];
+      if (options.audioSources?.length && this.#config.audio?.enabled !== true) {
+        throw new Error('audioSources need audio.enabled: true');
+      }
+      const audioInputs = [
+        ...(streamAudioTrack ? [{ track: streamAudioTrack }] : []),
+        ...(options.audioSources ?? []).map((source, index) => {
+          const input = 'track' in source ? source : { track: 'getAudioTracks' in source ? source.getAudioTracks()[0] : source };
+          if (!input.track || input.track.kind !== 'audio') {
+            throw new Error(`Audio source ${index + 1} has no audio track`);
+          }
+          return input;
+        })
+      ];
+      const audioTrack = audioInputs[0]?.track;
+
+      // Without a video track the audio is recorded on its own
+      if (!videoTrack && !(this.#config.audio?.enabled === true && audioTrack)) {
         throw new Error('No video tracks found in the provided MediaStream');
       }
+      this.#isAudioOnly = !videoTrack;
+      if (this.#isAudioOnly && (options.videoSources?.length || options.tracks?.length)) {
+        throw new Error('Audio-only recordings take no video sources or separate tracks');
+      }
+      this.#audioMixInputs = audioInputs.length > 1
+        ? audioInputs.map(({ gain, muted }: AudioMixInput, index) => {
+          if (gain !== undefined && !(Number.isFinite(gain) && gain >= 0)) {
+            throw new Error(`Invalid gain for audio input ${index}: ${gain}`);
+          }
+          return { gain: gain ?? 1, muted: muted ?? false };
+        })
+        : null;
+
+      const overlayTracks = (options.videoSources ?? []).map((source, index) => {
+        const track = 'getVideoTracks' in source ? source.getVideoTracks()[0] : source;
+        if (!track || track.kind !== 'video') {
+          throw new Error(`Video source ${index + 1} has no video track`);
+        }
+        return track;
+      });
+      const layout = options.layout ?? { type: 'pip' };
+      if (overlayTracks.length > 0) {
+        validateVideoLayout(layout, overlayTracks.length + 1);
+      }
+
+      const separateSources = (options.tracks ?? []).map((source) => 'track' in source ? source : { track: source });
+      if (separateSources.length > 0) {
+        // The OPFS muxer and the journal write a single video and audio track
+        const unsupported = [
+          this.#config.storage === 'opfs' && "storage: 'opfs'",
+          this.#config.streamOutput && 'streamOutput',
+          this.#config.crashRecovery && 'crashRecovery'
+        ].filter(Boolean);
+        if (unsupported.length > 0) {
+          throw new OptionsUnsupportedError(`Separate tracks cannot be recorded with ${unsupported.join(', ')}`);
+        }
+      }
+      this.#recordedTracks = null;
+      this.#primarySources = {
+        video: videoTrack ? { label: videoTrack.label, id: videoTrack.id } : null,
+        audio: audioTrack ? { label: audioTrack.label, id: audioTrack.id } : null
+      };
 
-      const videoSettings = videoTrack.getSettings();
+      const videoSettings: MediaTrackSettings = videoTrack?.getSettings() ?? {};
       const audioEnabled = this.#config.audio?.enabled === true && !!audioTrack;
       let audioSettings: MediaTrackSettings | null = null;
+      if (this.#config.audio?.enabled === true && !audioTrack) {
+        this.#emitWarning('AUDIO_DISABLED', 'warning', 'The stream has no audio track; recording video only', { reason: 'no-audio-track' });
+      }
       
-      console.log('SlowTrackRecorder: 🔍 Video Track Settings:', {
-        width: videoSettings.width,
-        height: videoSettings.height,
-        frameRate: videoSettings.frameRate
-      });
+      if (videoTrack) {
+        this.#log.debug('🔍 Video Track Settings:', {
+          width: videoSettings.width,
+          height: videoSettings.height,
+          frameRate: videoSettings.frameRate
+        });
+      }
 
       if (audioEnabled && audioTrack) {
         audioSettings = audioTrack.getSettings();
-        console.log('SlowTrackRecorder: 🔍 Audio Track Settings:', {
+        this.#log.debug('🔍 Audio Track Settings:', {
           sampleRate: audioSettings.sampleRate,
           channelCount: audioSettings.channelCount
         });
       }
 
-      // 3. Create and Setup Video Worker
-      console.log('SlowTrackRecorder: Creating video worker...');
-      this.#videoWorker = new Worker(
-        new URL('./video.worker.ts', import.meta.url),
-        { type: 'module' }
-      );
-      this.#videoWorker.onmessage = (event) => this.#handleVideoWorkerMessage(event);
+      // 3. Create and Setup Video Worker (not for audio-only recordings)
+      if (videoTrack) {
+        this.#log.debug('Creating video worker...');
+        this.#videoWorker = new Worker(
+          new URL('./video.worker.ts', import.meta.url),
+          { type: 'module' }
+        );
+        this.#videoWorker.onmessage = (event) => this.#handleVideoWorkerMessage(event);
+      }
 
       // 4. Create and Setup Audio Worker (if audio enabled)
       if (audioEnabled && audioTrack) {
-        console.log('SlowTrackRecorder: Creating audio worker...');
+        this.#log.debug('Creating audio worker...');
         this.#audioWorker = new Worker(
           new URL('./audio.worker.ts', import.meta.url),
           { type: 'module' }
         );
         this.#audioWorker.onmessage = (event) => this.#handleAudioWorkerMessage(event);
+        if (videoTrack) {
+          this.#startSyncMonitoring();
+        }
       }
 
       // 5. Create MediaStreamTrackProcessors and Send Streams to Workers
       const baseConfig = {
         ...this.#config,
+        // The exporter stays on the main thread; workers are sent a span context instead
+        telemetry: undefined,
+        // Likewise the log sink; workers post their entries back at the recorder's level
+        logSink: undefined,
+        logLevel: this.#log.level,
         width: videoSettings.width || this.#config.width,
         height: videoSettings.height || this.#config.height,
         frameRate: videoSettings.frameRate || this.#config.frameRate,
       };
 
-      // Create video stream for worker
-      const clonedVideoTrack = videoTrack.clone();
-      const videoProcessor = new MediaStreamTrackProcessor({ track: clonedVideoTrack } as MediaStreamTrackProcessorInit);
-      const videoStream = videoProcessor.readable;
-      
-      // Send video configuration to video worker
-      const videoMessage: VideoWorkerRequest = {
-        type: 'start',
-        config: baseConfig,
-        videoStream: videoStream,
-        actualVideoSettings: videoSettings
-      };
-      
-      console.log('SlowTrackRecorder: Sending video stream to video worker');
-      this.#videoWorker.postMessage(videoMessage, [videoStream]);
+      if (videoTrack && this.#videoWorker) {
+        // Create video stream for worker
+        const clonedVideoTrack = videoTrack.clone();
+        const videoProcessor = new MediaStreamTrackProcessor({ track: clonedVideoTrack } as MediaStreamTrackProcessorInit);
+        const videoStream = videoProcessor.readable;
+        
+        // Further sources are composited by the video worker
+        const overlayStreams = overlayTracks.map(track => {
+          const processor = new MediaStreamTrackProcessor({ track: track.clone() } as MediaStreamTrackProcessorInit);
+          return processor.readable;
+        });
+        
+        // Send video configuration to video worker
+        const videoMessage: VideoWorkerRequest = {
+          type: 'start',
+          config: baseConfig,
+          videoStream: videoStream,
+          actualVideoSettings: videoSettings,
+          sessionEpoch: this.#sessionEpoch,
+          telemetry: telemetryContext,
+          ...(overlayStreams.length > 0 && { overlayStreams, layout })
+        };
+        
+        this.#log.debug(`Sending video stream to video worker${overlayStreams.length > 0 ? ` with ${overlayStreams.length} overlay source(s) (${layout.type})` : ''}`);
+        this.#videoWorker.postMessage(videoMessage, [videoStream, ...overlayStreams]);
+      }
 
-      // Send audio configuration to audio worker (if enabled)
+      // Send audio configuration to audio worker (if enabled). The audio codec
+      // must match the container, so this waits for the video worker's codec;
+      // audio-only recordings let the audio worker pick the format straight away.
       if (audioEnabled && audioTrack && this.#audioWorker && audioSettings) {
         const clonedAudioTrack = audioTrack.clone();
         const audioProcessor = new MediaStreamTrackProcessor({ track: clonedAudioTrack } as MediaStreamTrackProcessorInit);
         const audioStream = audioProcessor.readable;
         
+        // Further inputs are mixed by the audio worker
+        const mixStreams = audioInputs.slice(1).map(({ track }) => {
+          const processor = new MediaStreamTrackProcessor({ track: track.clone() } as MediaStreamTrackProcessorInit);
+          return processor.readable as ReadableStream<AudioData>;
+        });
+        
         const audioConfig = {
           ...baseConfig,
           audio: {
@@ -734,19 +1536,35 @@ export class SlowTrackRecorder {
           }
         };
 
-        const audioMessage: AudioWorkerRequest = {
-          type: 'start',
-          config: audioConfig,
-          audioStream: audioStream,
-          actualAudioSettings: audioSettings
+        const startAudio = (output: Pick<AudioWorkerRequest, 'containerType' | 'audioOnlyContainers'>) => {
+          const audioMessage: AudioWorkerRequest = {
+            type: 'start',
+            config: audioConfig,
+            audioStream: audioStream,
+            actualAudioSettings: audioSettings,
+            ...output,
+            sessionEpoch: this.#sessionEpoch ?? undefined,
+            telemetry: telemetryContext,
+            ...(mixStreams.length > 0 && { mixStreams, mixInputs: this.#audioMixInputs ?? undefined })
+          };
+          
+          const target = output.audioOnlyContainers ? `audio only, .${output.audioOnlyContainers.join('/.')}` : `${output.containerType} container`;
+          this.#log.debug(`Sending audio stream to audio worker (${target})${mixStreams.length > 0 ? ` with ${mixStreams.length} mixed input(s)` : ''}`);
+          this.#audioWorker?.postMessage(audioMessage, [audioStream, ...mixStreams]);
         };
-        
-        console.log('SlowTrackRecorder: Sending audio stream to audio worker');
-        this.#audioWorker.postMessage(audioMessage, [audioStream]);
+
+        if (this.#isAudioOnly) {
+          startAudio({ audioOnlyContainers: getAudioOnlyContainers(this.#config.audio!.codec, this.#config.audio!.container) });
+        } else {
+          this.#pendingAudioStart = (containerType) => startAudio({ containerType });
+        }
       }
 
+      // Each separate track gets its own worker
+      separateSources.forEach(({ track, label }) => this.#startSeparateTrack(track, label, baseConfig));
+
       // 6. Wait for Workers to be Ready
-      console.log('SlowTrackRecorder: Waiting for workers to be ready...');
+      this.#log.debug('Waiting for workers to be ready...');
       await new Promise<void>((resolve, reject) => {
         this.#startPromiseResolve = resolve;
         this.#startPromiseReject = reject;
@@ -754,38 +1572,83 @@ export class SlowTrackRecorder {
         // Timeout if workers don't respond
         setTimeout(() => {
           if (this.#startPromiseReject) {
-            this.#startPromiseReject(new Error('Worker initialization timeout after 15 seconds'));
+            this.#startPromiseReject(new WorkerInitTimeoutError('Worker initialization timeout after 15 seconds'));
             this.#startPromiseResolve = null;
             this.#startPromiseReject = null;
           }
         }, 15000);
       });
 
-      // 7. Finalize Recording State
+      // 7. Open the journal and streaming storage now that the codecs (and so the container) are known.
+      // Multi-track recordings were checked not to ask for either.
+      const isAudioFile = this.#audioOnlyContainer === 'ogg' || this.#audioOnlyContainer === 'flac';
+      if (isAudioFile && (this.#config.crashRecovery || this.#config.storage === 'opfs')) {
+        this.#log.warn(`⚠️ .${this.#audioOnlyContainer} recordings are kept in memory, without crash recovery`);
+      } else {
+        if (this.#config.crashRecovery) {
+          await this.#openJournal();
+        }
+        if (this.#config.storage === 'opfs') {
+          await this.#openStreamingMuxer();
+        }
+      }
+      if (this.#config.streamOutput && !this.#streamingMuxer) {
+        this.#log.warn('streamOutput needs OPFS storage; no \'data\' events will be emitted for this session');
+      }
+
+      // 8. Finalize Recording State
       this.#isRecording = true;
       
-      console.log('SlowTrackRecorder: 🎬 Dual-worker recording started successfully');
-      console.log(`SlowTrackRecorder: Video codec: ${this.#finalVideoCodec}, Audio codec: ${this.#finalAudioCodec}`);
+      this.#log.info('🎬 Dual-worker recording started successfully');
+      this.#log.info(`Video codec: ${this.#finalVideoCodec}, Audio codec: ${this.#finalAudioCodec}`);
       
-      if (audioEnabled) {
-        console.log('🎬 SlowTrackRecorder: A/V recording session initiated with dual workers');
+      if (this.#isAudioOnly) {
+        this.#log.info(`🎬 Audio-only recording session initiated (.${this.#audioOnlyContainer})`);
+      } else if (audioEnabled) {
+        this.#log.info('🎬 A/V recording session initiated with dual workers');
       } else {
-        console.log('🎬 SlowTrackRecorder: Video-only recording session initiated');
+        this.#log.info('🎬 Video-only recording session initiated');
       }
       
+      if (videoTrack) {
+        this.#watchSourceEnded('video', videoTrack);
+      }
+      if (audioEnabled && audioTrack) {
+        this.#watchSourceEnded('audio', audioTrack);
+      }
+
+      startSpan.setAttributes({
+        'recorder.audio_only': this.#isAudioOnly,
+        'recorder.separate_tracks': this.#separateTracks.length,
+        'video.codec': this.#finalVideoCodec ?? 'none',
+        'audio.codec': this.#finalAudioCodec ?? 'none'
+      });
+      startSpan.end();
+      this.#sessionSpan.setAttributes({ 'video.codec': this.#finalVideoCodec ?? 'none', 'audio.codec': this.#finalAudioCodec ?? 'none' });
+      this.#recordSpan = this.#telemetry.startSpan('recorder.record', {}, this.#sessionSpan.context);
+
+      this.#startStatsReporting();
       this.#emit('start');
 
     } catch (error) {
-      // 8. Comprehensive Cleanup on Error
-      console.error('SlowTrackRecorder: Error in dual-worker start:', error);
+      // 9. Comprehensive Cleanup on Error
+      this.#log.error('Error in dual-worker start:', error);
       
       this.#cleanupDualWorkers();
       this.#isRecording = false;
       this.#shouldStopProcessing = false;
       this.#recordingStartTime = null;
       this.#stopPerformanceMonitoring();
-
-      this.#emit('error', error instanceof Error ? error : new Error(String(error)));
+      this.#stopSyncMonitoring();
+      this.#stopStatsReporting();
+
+      const startError = error instanceof Error ? error : new Error(String(error));
+      // A start refused because a recording is running leaves that recording's spans alone
+      if (startSpan) {
+        startSpan.end(startError);
+        this.#endTelemetrySession(startError);
+      }
+      this.#emit('error', startError);
       throw error;
     }
   }
@@ -796,7 +1659,7 @@ export class SlowTrackRecorder {
    * @returns Promise that resolves with the recorded video as a Blob
    */
   async stop(): Promise<Blob> {
-    console.log('🎬 SlowTrackRecorder: Dual-worker recording session ending');
+    this.#log.info('🎬 Dual-worker recording session ending');
     
     // Idempotency Check
     if (!this.#isRecording) {
@@ -805,6 +1668,16 @@ export class SlowTrackRecorder {
 
     // State Change
     this.#isRecording = false;
+    
+    // Close out an in-progress pause so the duration excludes it
+    if (this.#isPaused && this.#pauseStartTime !== null) {
+      this.#totalPausedTime += performance.now() - this.#pauseStartTime;
+    }
+    this.#isPaused = false;
+    this.#pauseStartTime = null;
+    this.#recordSpan?.setAttributes({ 'recorder.paused_ms': Math.round(this.#totalPausedTime) });
+    this.#recordSpan?.end();
+    this.#recordSpan = null;
 
     return new Promise<Blob>((resolve, reject) => {
       this.#stopPromiseResolve = resolve;
@@ -813,6 +1686,7 @@ export class SlowTrackRecorder {
       // Timeout protection
       this.#stopTimeout = window.setTimeout(() => {
         const timeoutError = new Error('Dual-worker stop operation timed out after 20 seconds');
+        this.#endTelemetrySession(timeoutError);
         this.#cleanupStopOperation();
         reject(timeoutError);
         this.#emit('error', timeoutError);
@@ -826,19 +1700,24 @@ export class SlowTrackRecorder {
    * Coordinate stopping both workers and perform main thread muxing
    */
   async #stopDualWorkers(): Promise<Blob> {
+    const finalizeSpan = this.#telemetry.startSpan('recorder.finalize', {}, this.#sessionSpan?.context);
+    const stopMessage: VideoWorkerRequest & AudioWorkerRequest = {
+      type: 'stop',
+      telemetry: this.#telemetry.isEnabled ? finalizeSpan.context : undefined
+    };
     try {
-      console.log('SlowTrackRecorder: Coordinating dual-worker stop operation');
+      this.#log.debug('Coordinating dual-worker stop operation');
       
       const stopPromises: Promise<void>[] = [];
       
       // Send stop command to video worker
       if (this.#videoWorker) {
-        console.log('SlowTrackRecorder: Stopping video worker...');
+        this.#log.debug('Stopping video worker...');
         const videoStopPromise = new Promise<void>((resolve) => {
           const originalHandler = this.#videoWorker!.onmessage;
           this.#videoWorker!.onmessage = (event: MessageEvent<VideoWorkerResponse>) => {
             if (event.data.type === 'complete') {
-              console.log('SlowTrackRecorder: Video worker stopped');
+              this.#log.debug('Video worker stopped');
               this.#videoWorker!.onmessage = originalHandler;
               resolve();
             } else if (originalHandler) {
@@ -846,18 +1725,18 @@ export class SlowTrackRecorder {
             }
           };
         });
-        this.#videoWorker.postMessage({ type: 'stop' });
+        this.#videoWorker.postMessage(stopMessage);
         stopPromises.push(videoStopPromise);
       }
 
       // Send stop command to audio worker (if exists)
       if (this.#audioWorker) {
-        console.log('SlowTrackRecorder: Stopping audio worker...');
+        this.#log.debug('Stopping audio worker...');
         const audioStopPromise = new Promise<void>((resolve) => {
           const originalHandler = this.#audioWorker!.onmessage;
           this.#audioWorker!.onmessage = (event: MessageEvent<AudioWorkerResponse>) => {
             if (event.data.type === 'complete') {
-              console.log('SlowTrackRecorder: Audio worker stopped');
+              this.#log.debug('Audio worker stopped');
               this.#audioWorker!.onmessage = originalHandler;
               resolve();
             } else if (originalHandler) {
@@ -865,19 +1744,68 @@ export class SlowTrackRecorder {
             }
           };
         });
-        this.#audioWorker.postMessage({ type: 'stop' });
+        this.#audioWorker.postMessage(stopMessage);
         stopPromises.push(audioStopPromise);
       }
 
+      // Send stop command to the separate track workers
+      for (const track of this.#separateTracks) {
+        const worker = track.worker;
+        stopPromises.push(new Promise<void>((resolve) => {
+          const originalHandler = worker.onmessage;
+          worker.onmessage = (event: MessageEvent<VideoWorkerResponse | AudioWorkerResponse>) => {
+            if (event.data.type === 'complete') {
+              this.#log.debug(`${track.kind} track "${track.label}" worker stopped`);
+              worker.onmessage = originalHandler;
+              resolve();
+            } else if (originalHandler) {
+              originalHandler.call(worker, event);
+            }
+          };
+        }));
+        worker.postMessage({ type: 'stop' });
+      }
+
       // Wait for both workers to complete
-      console.log(`SlowTrackRecorder: Waiting for ${stopPromises.length} workers to complete...`);
+      this.#log.debug(`Waiting for ${stopPromises.length} workers to complete...`);
       await Promise.all(stopPromises);
       
-      console.log('SlowTrackRecorder: All workers completed, starting main thread muxing');
-      console.log(`SlowTrackRecorder: Collected ${this.#videoChunks.length} video chunks, ${this.#audioChunks.length} audio chunks`);
-
-      // Perform main thread muxing
-      const finalBlob = await this.#performMainThreadMuxing();
+      let storageFileName: string | undefined;
+      const muxMode = this.#separateTracks.length > 0 ? 'matroska' : this.#streamingMuxer ? 'streaming' : 'memory';
+
+      let finalBlob = await this.#telemetry.trace('recorder.mux', { 'mux.mode': muxMode }, finalizeSpan.context, async (muxSpan) => {
+        let blob: Blob;
+        if (this.#separateTracks.length > 0) {
+          this.#log.debug('All workers completed, muxing separate tracks');
+          blob = this.#muxSeparateTracks();
+        } else if (this.#streamingMuxer) {
+          this.#log.debug('All workers completed, finalizing streaming muxer');
+          storageFileName = this.#streamingMuxer.writer.fileName;
+          blob = await this.#finalizeStreamingMuxer();
+        } else {
+          this.#log.debug('All workers completed, starting main thread muxing');
+          this.#log.debug(`Collected ${this.#videoChunks.length} video chunks, ${this.#audioChunks.length} audio chunks`);
+
+          // Perform main thread muxing
+          blob = await this.#performMainThreadMuxing();
+        }
+        muxSpan.setAttributes({ 'mux.mime_type': blob.type, 'mux.bytes': blob.size });
+        return blob;
+      });
+
+      let encryption: EncryptionManifest | undefined;
+      let integrity: IntegrityManifest | undefined;
+      if (this.#encryptionKey) {
+        ({ blob: finalBlob, manifest: encryption, integrity, storageFileName } = await this.#telemetry.trace(
+          'recorder.encrypt', { 'encrypt.plaintext_bytes': finalBlob.size }, finalizeSpan.context,
+          () => this.#encryptOutput(finalBlob, storageFileName)
+        ));
+      } else if (this.#outputHasher) {
+        integrity = this.#finishIntegrity(this.#outputHasher);
+        this.#outputHasher = null;
+      } else if (this.#config.integrity) {
+        integrity = await this.#checksumOutput(finalBlob);
+      }
       
       // Clear timeout since we completed successfully
       if (this.#stopTimeout !== null) {
@@ -889,8 +1817,33 @@ export class SlowTrackRecorder {
       this.#lastResult = {
         blob: finalBlob,
         requestedConfig: { ...this.#config },
-        finalConfig: this.#createFinalConfig()
+        finalConfig: this.#createFinalConfig(),
+        storageFileName,
+        encryption,
+        encryptionKey: this.#isEncryptionKeyGenerated ? this.#encryptionKey! : undefined,
+        integrity,
+        startTime: this.#getTimelineStartTime(),
+        tracks: this.#recordedTracks ?? undefined,
+        wav: await this.#wavWriter?.finish(this.#timelineStart ?? 0),
+        wavFileName: this.#wavWriter?.fileName
       };
+      this.#wavWriter = null;
+
+      // The recording completed normally, so its crash-recovery journal is no longer needed
+      if (this.#journal) {
+        const journal = this.#journal;
+        this.#journal = null;
+        await journal.discard().catch((error) => {
+          this.#log.warn('Error discarding session journal:', error);
+        });
+      }
+
+      // Final counters, now that the workers have flushed their encoders
+      this.#reportStats(this.getStats()!);
+
+      finalizeSpan.setAttributes({ 'output.bytes': finalBlob.size, 'recorder.duration_ms': this.#lastResult.finalConfig?.duration ?? 0 });
+      finalizeSpan.end();
+      this.#endTelemetrySession();
 
       // Cleanup and emit success
       this.#cleanupStopOperation();
@@ -899,137 +1852,612 @@ export class SlowTrackRecorder {
       return finalBlob;
 
     } catch (error) {
-      console.error('SlowTrackRecorder: Error in dual-worker stop operation:', error);
-      this.#cleanupStopOperation();
+      this.#log.error('Error in dual-worker stop operation:', error);
       const stopError = error instanceof Error ? error : new Error(String(error));
+      finalizeSpan.end(stopError);
+      this.#endTelemetrySession(stopError);
+      this.#cleanupStopOperation();
       this.#emit('error', stopError);
       throw stopError;
     }
   }
 
+  /**
+   * Start a worker recording one source as its own track
+   * 
+   * @param track - Source track from `StartOptions.tracks`
+   * @param label - Label for the track, defaulting to the source's
+   * @param baseConfig - Recorder config with the primary video track's settings
+   */
+  #startSeparateTrack(track: MediaStreamTrack, label: string | undefined, baseConfig: SlowTrackRecorderConfig): void {
+    const kind = track.kind === 'audio' ? 'audio' : 'video';
+    const settings = track.getSettings();
+    const worker = new Worker(
+      kind === 'video' ? new URL('./video.worker.ts', import.meta.url) : new URL('./audio.worker.ts', import.meta.url),
+      { type: 'module' }
+    );
+    const separateTrack: SeparateTrack = {
+      kind,
+      label: label ?? track.label,
+      sourceId: track.id,
+      worker,
+      isReady: false,
+      codec: null,
+      encoderConfig: null,
+      chunks: []
+    };
+    this.#separateTracks.push(separateTrack);
+    worker.onmessage = (event) => this.#handleSeparateTrackMessage(separateTrack, event);
+
+    const processor = new MediaStreamTrackProcessor({ track: track.clone() } as MediaStreamTrackProcessorInit);
+    this.#log.debug(`Starting ${kind} worker for separate track "${separateTrack.label}"`);
+
+    if (kind === 'video') {
+      const message: VideoWorkerRequest = {
+        type: 'start',
+        config: {
+          ...baseConfig,
+          width: settings.width || baseConfig.width,
+          height: settings.height || baseConfig.height,
+          frameRate: settings.frameRate || baseConfig.frameRate
+        },
+        videoStream: processor.readable as ReadableStream<VideoFrame>,
+        actualVideoSettings: settings,
+        sessionEpoch: this.#sessionEpoch ?? undefined
+      };
+      worker.postMessage(message, [processor.readable]);
+      return;
+    }
+
+    const audio = this.#config.audio;
+    const message: AudioWorkerRequest = {
+      type: 'start',
+      config: {
+        ...baseConfig,
+        // Levels and silence are only reported for the stream's own audio
+        audioLevels: false,
+        audio: {
+          enabled: true,
+          codec: audio?.codec ?? 'auto',
+          bitrate: audio?.bitrate ?? 128000,
+          sampleRate: (settings.sampleRate || audio?.sampleRate || 48000) as AudioConfig['sampleRate'],
+          numberOfChannels: (settings.channelCount || audio?.numberOfChannels || 2) as AudioConfig['numberOfChannels']
+        }
+      },
+      audioStream: processor.readable as ReadableStream<AudioData>,
+      actualAudioSettings: settings,
+      // Matroska holds any audio codec; resolving against WebM prefers Opus
+      containerType: 'webm',
+      sessionEpoch: this.#sessionEpoch ?? undefined
+    };
+    worker.postMessage(message, [processor.readable]);
+  }
+
+  /**
+   * Handle messages from a separate track's worker
+   */
+  #handleSeparateTrackMessage(track: SeparateTrack, event: MessageEvent<VideoWorkerResponse | AudioWorkerResponse>): void {
+    switch (event.data.type) {
+      case 'ready':
+        track.isReady = true;
+        track.codec = event.data.finalCodec || null;
+        track.encoderConfig = event.data.encoderConfig || null;
+        this.#log.info(`Separate ${track.kind} track "${track.label}" ready with codec:`, track.codec);
+        this.#checkWorkersReady();
+        break;
+      
+      case 'video-chunk':
+      case 'audio-chunk':
+        if (event.data.chunk) {
+          this.#trackMediaTime(event.data.chunk);
+          track.chunks.push({ type: track.kind, chunk: event.data.chunk, metadata: event.data.metadata });
+        }
+        break;
+      
+      case 'timeline-estimated':
+        this.#warnTimelineEstimated(track.label, event.data.timelineOffset ?? 0);
+        break;
+      
+      case 'error':
+        this.#handleSeparateTrackError(track, event.data.error || 'Unknown worker error', event.data.errorCode);
+        break;
+      
+      default:
+        // Backpressure and quality changes are only acted on for the primary video track
+        break;
+    }
+  }
+
+  /**
+   * Handle an error from a separate track's worker
+   * 
+   * The track was asked for explicitly, so losing it fails the recording.
+   */
+  #handleSeparateTrackError(track: SeparateTrack, errorMessage: string, errorCode?: RecorderErrorCode): void {
+    const error = createWorkerError(errorCode, `Worker error for ${track.kind} track "${track.label}": ${errorMessage}`);
+    this.#log.error('Separate track worker error:', errorMessage);
+    
+    if (this.#startPromiseReject) {
+      this.#startPromiseReject(error);
+      this.#startPromiseResolve = null;
+      this.#startPromiseReject = null;
+    }
+    
+    if (this.#stopPromiseReject) {
+      this.#stopPromiseReject(error);
+    }
+    
+    this.#emit('error', error);
+    this.#cleanupDualWorkers();
+  }
+
+  /**
+   * Mux the stream's tracks and the separate tracks into one Matroska file
+   */
+  #muxSeparateTracks(): Blob {
+    const trackOptions = this.#getMuxerTrackOptions();
+    const tracks: MatroskaTrackOptions[] = [];
+    const chunks: MatroskaInputChunk[] = [];
+    const recordedTracks: RecordedTrack[] = [];
+
+    const addTrack = (
+      options: MatroskaTrackOptions,
+      source: { label: string; id: string },
+      trackChunks: MuxInputChunk[],
+      encoderConfig: VideoEncoderConfig | AudioEncoderConfig | null
+    ) => {
+      const index = tracks.length;
+      tracks.push({ ...options, name: source.label || undefined });
+      trackChunks.forEach(({ chunk, metadata }) => chunks.push({ track: index, chunk, metadata }));
+      recordedTracks.push({
+        number: index + 1,
+        kind: options.kind,
+        label: source.label,
+        sourceId: source.id,
+        codec: options.codec,
+        encoderConfig: encoderConfig ?? undefined,
+        chunkCount: trackChunks.length
+      });
+    };
+
+    const primaryVideo = this.#primarySources?.video ?? { label: '', id: '' };
+    addTrack({
+      kind: 'video',
+      codec: trackOptions.videoCodec ?? 'h264',
+      codecString: this.#videoEncoderConfig?.codec,
+      width: trackOptions.width,
+      height: trackOptions.height,
+      displayWidth: trackOptions.displayWidth,
+      displayHeight: trackOptions.displayHeight
+    }, primaryVideo, this.#videoChunks.map(chunk => ({ type: 'video', chunk, metadata: this.#chunkMetadata.get(chunk) })), this.#videoEncoderConfig);
+
+    if (this.#finalAudioCodec && this.#audioChunks.length > 0) {
+      addTrack({
+        kind: 'audio',
+        codec: this.#finalAudioCodec,
+        sampleRate: trackOptions.sampleRate,
+        numberOfChannels: trackOptions.numberOfChannels
+      }, this.#primarySources?.audio ?? { label: '', id: '' }, this.#audioChunks.map(chunk => ({ type: 'audio', chunk, metadata: this.#chunkMetadata.get(chunk) })), this.#audioEncoderConfig);
+    }
+
+    for (const track of this.#separateTracks) {
+      if (!track.codec) {
+        this.#log.warn(`Separate track "${track.label}" never became ready, leaving it out`);
+        continue;
+      }
+      const config = track.encoderConfig;
+      addTrack(track.kind === 'video' ? {
+        kind: 'video',
+        codec: track.codec,
+        codecString: config?.codec,
+        width: (config as VideoEncoderConfig | null)?.width,
+        height: (config as VideoEncoderConfig | null)?.height,
+        displayWidth: (config as VideoEncoderConfig | null)?.displayWidth,
+        displayHeight: (config as VideoEncoderConfig | null)?.displayHeight
+      } : {
+        kind: 'audio',
+        codec: track.codec,
+        sampleRate: (config as AudioEncoderConfig | null)?.sampleRate,
+        numberOfChannels: (config as AudioEncoderConfig | null)?.numberOfChannels
+      }, { label: track.label, id: track.sourceId }, track.chunks, config);
+    }
+
+    const hasher = this.#outputHasher;
+    let output: ReturnType<typeof muxTracksToMatroska>;
+    try {
+      output = muxTracksToMatroska(tracks, chunks, hasher ? (data, position) => hasher.write(data, position) : undefined, this.#muxLog);
+    } catch (error) {
+      throw new MuxError(`Matroska muxing failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    this.#timelineStart = output.timelineStart;
+    this.#recordedTracks = recordedTracks;
+    return output.blob;
+  }
+
+  /**
+   * Describe the negotiated tracks for the muxers
+   */
+  #getMuxerTrackOptions(): MuxerTrackOptions {
+    return {
+      container: this.#isAudioOnly
+        ? (this.#audioOnlyContainer === 'webm' ? 'webm' : 'mp4')
+        : getContainerForVideoCodec(this.#finalVideoCodec),
+      videoCodec: this.#isAudioOnly ? null : this.#finalVideoCodec || 'h264',
+      audioCodec: this.#finalAudioCodec,
+      // The encoder's coded size, which differs from the requested one whenever the worker scales
+      width: this.#videoEncoderConfig?.width ?? this.#config.width,
+      height: this.#videoEncoderConfig?.height ?? this.#config.height,
+      displayWidth: this.#videoEncoderConfig?.displayWidth,
+      displayHeight: this.#videoEncoderConfig?.displayHeight,
+      rotation: this.#videoRotation,
+      sampleRate: this.#audioEncoderConfig?.sampleRate ?? this.#config.audio?.sampleRate ?? 48000,
+      numberOfChannels: this.#audioEncoderConfig?.numberOfChannels ?? this.#config.audio?.numberOfChannels ?? 2
+    };
+  }
+
+  /**
+   * Wall-clock time of media time zero (ms since Unix epoch, UTC)
+   * 
+   * Chunk timestamps count from the session epoch, so media time zero is the
+   * epoch plus the first muxed timestamp.
+   */
+  #getTimelineStartTime(): number | undefined {
+    if (!this.#sessionEpoch || this.#timelineStart === null) {
+      return undefined;
+    }
+    return this.#sessionEpoch.startTime + this.#timelineStart / 1000;
+  }
+
   /**
    * Perform muxing on the main thread using collected chunks
    */
   async #performMainThreadMuxing(): Promise<Blob> {
     try {
-      // Determine container type based on video codec
-      const containerType: 'mp4' | 'webm' = (this.#finalVideoCodec === 'av1' || this.#finalVideoCodec === 'vp9') ? 'webm' : 'mp4';
-      console.log(`SlowTrackRecorder: Creating ${containerType.toUpperCase()} container for ${this.#finalVideoCodec} video codec`);
-
       // Combine and sort all chunks by timestamp for A/V sync
-      const allChunks: Array<{chunk: EncodedVideoChunk | EncodedAudioChunk, type: 'video' | 'audio', timestamp: number}> = [];
-      
-      // Add video chunks
-      this.#videoChunks.forEach(chunk => {
-        allChunks.push({ chunk, type: 'video', timestamp: chunk.timestamp });
-      });
-      
-      // Add audio chunks
-      this.#audioChunks.forEach(chunk => {
-        allChunks.push({ chunk, type: 'audio', timestamp: chunk.timestamp });
+      const allChunks = this.#getBufferedChunksInOrder();
+      this.#log.debug(`Sorted ${allChunks.length} total chunks by timestamp for A/V sync`);
+
+      const includeAudio = this.#audioChunks.length > 0 && !!this.#finalAudioCodec;
+      const muxInput: MuxInputChunk[] = allChunks.map(({ chunk, type }) => ({
+        type,
+        chunk,
+        metadata: this.#chunkMetadata.get(chunk)
+      }));
+
+      if (this.#audioOnlyContainer === 'ogg' || this.#audioOnlyContainer === 'flac') {
+        return this.#muxAudioFile(this.#audioOnlyContainer, muxInput);
+      }
+      const tracks = this.#getMuxerTrackOptions();
+      if (tracks.container === 'webm') {
+        // Checksummed once finalized instead, so the muxer can still patch duration and cues
+        this.#outputHasher = null;
+      }
+      const hasher = this.#outputHasher;
+      return await muxChunksInMemory(tracks, muxInput, includeAudio, {
+        onTimelineStart: (timestamp) => { this.#timelineStart = timestamp; },
+        log: this.#muxLog,
+        ...(hasher && {
+          onData: (data: Uint8Array, position: number) => hasher.write(data, position)
+        })
       });
 
-      // Sort by timestamp to maintain A/V synchronization
-      allChunks.sort((a, b) => a.timestamp - b.timestamp);
-      console.log(`SlowTrackRecorder: Sorted ${allChunks.length} total chunks by timestamp for A/V sync`);
+    } catch (error) {
+      this.#log.error('Error in main thread muxing:', error);
+      throw new MuxError(`Main thread muxing failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
 
-      let finalBlob: Blob;
+  /**
+   * Write an audio-only recording as an Ogg Opus or native FLAC file
+   */
+  #muxAudioFile(container: 'ogg' | 'flac', chunks: MuxInputChunk[]): Blob {
+    const { sampleRate, numberOfChannels } = this.#getMuxerTrackOptions();
+    const audioChunks = chunks.map(({ chunk, metadata }) => ({
+      chunk: chunk as EncodedAudioChunk,
+      metadata: metadata as EncodedAudioChunkMetadata | undefined
+    }));
+    const hasher = this.#outputHasher;
+    const onData = hasher ? (data: Uint8Array, position: number) => hasher.write(data, position) : undefined;
+
+    const output = container === 'ogg'
+      ? muxOggOpus({ sampleRate, numberOfChannels }, audioChunks, onData)
+      : muxFlac({ sampleRate, numberOfChannels }, audioChunks, onData);
+    this.#timelineStart = output.timelineStart;
+    return output.blob;
+  }
 
-      if (containerType === 'mp4') {
-        // Use mp4-muxer for H.264/HEVC
-        const { Muxer, ArrayBufferTarget } = await import('mp4-muxer');
-        const target = new ArrayBufferTarget();
-        
-        const muxerConfig: any = {
-          target,
-          video: {
-            codec: this.#finalVideoCodec === 'hevc' ? 'hevc' : 'avc',
-            width: this.#config.width,
-            height: this.#config.height
-          },
-          fastStart: 'fragmented',
-          firstTimestampBehavior: 'offset'
-        };
+  /**
+   * Combine buffered video and audio chunks, sorted by timestamp for A/V sync
+   */
+  #getBufferedChunksInOrder(): Array<{chunk: EncodedVideoChunk | EncodedAudioChunk, type: 'video' | 'audio', timestamp: number}> {
+    const allChunks: Array<{chunk: EncodedVideoChunk | EncodedAudioChunk, type: 'video' | 'audio', timestamp: number}> = [];
 
-        // Add audio track if we have audio chunks
-        if (this.#audioChunks.length > 0 && this.#finalAudioCodec) {
-          muxerConfig.audio = {
-            codec: 'aac', // MP4 containers use AAC
-            sampleRate: this.#config.audio?.sampleRate || 48000,
-            numberOfChannels: this.#config.audio?.numberOfChannels || 2
-          };
-        }
+    this.#videoChunks.forEach(chunk => {
+      allChunks.push({ chunk, type: 'video', timestamp: chunk.timestamp });
+    });
 
-        const muxer = new Muxer(muxerConfig);
-        console.log('SlowTrackRecorder: Created MP4 muxer with config:', muxerConfig);
+    this.#audioChunks.forEach(chunk => {
+      allChunks.push({ chunk, type: 'audio', timestamp: chunk.timestamp });
+    });
 
-        // Add chunks in timestamp order
-        for (const { chunk, type } of allChunks) {
-          const metadata = this.#chunkMetadata.get(chunk) || {};
-          if (type === 'video') {
-            muxer.addVideoChunk(chunk as EncodedVideoChunk, metadata);
-          } else {
-            muxer.addAudioChunk(chunk as EncodedAudioChunk, metadata);
-          }
-        }
+    allChunks.sort((a, b) => a.timestamp - b.timestamp);
+    return allChunks;
+  }
+
+  /**
+   * Open the crash-recovery journal for crashRecovery: true
+   *
+   * Chunks that arrived while the workers were negotiating are journaled
+   * straight away. Recording continues unjournaled if IndexedDB is unavailable.
+   */
+  async #openJournal(): Promise<void> {
+    if (!SessionJournal.isSupported()) {
+      this.#log.warn('IndexedDB not available, crash recovery disabled for this session');
+      return;
+    }
+
+    try {
+      this.#journal = await SessionJournal.create({ ...this.#config }, this.#getMuxerTrackOptions(), this.#sessionEpoch?.startTime);
+      this.#log.info(`📓 Journaling session ${this.#journal.sessionId} for crash recovery`);
+
+      for (const { chunk, type } of this.#getBufferedChunksInOrder()) {
+        this.#journal.append(type, chunk, this.#chunkMetadata.get(chunk));
+      }
+    } catch (error) {
+      this.#log.warn('Could not open session journal, crash recovery disabled:', error);
+      this.#journal = null;
+    }
+  }
 
-        muxer.finalize();
-        finalBlob = new Blob([target.buffer], { type: 'video/mp4' });
-        console.log(`SlowTrackRecorder: Created MP4 blob, size: ${finalBlob.size} bytes`);
+  /**
+   * Open an OPFS file and a streaming muxer for storage: 'opfs'
+   *
+   * Chunks that arrived while the workers were negotiating are drained into the
+   * muxer immediately; every later chunk is muxed as soon as it arrives. If OPFS
+   * cannot be opened the recording continues with in-memory buffering.
+   */
+  async #openStreamingMuxer(): Promise<void> {
+    if (!OpfsFileWriter.isSupported()) {
+      this.#log.warn('OPFS not available, falling back to in-memory storage');
+      return;
+    }
+
+    const containerType = this.#getMuxerTrackOptions().container;
+    const includeAudio = this.#audioWorker !== null && !!this.#finalAudioCodec;
+    let writer: OpfsFileWriter | null = null;
 
+    try {
+      writer = await OpfsFileWriter.create(`recording-${Date.now()}.${this.#audioOnlyContainer ?? containerType}`);
+      const opfsWriter = writer;
+      const streamOutput = this.#config.streamOutput === true;
+      if (containerType === 'webm' && !streamOutput) {
+        // Checksummed once finalized instead, so the muxer can still patch duration and cues
+        this.#outputHasher = null;
+      }
+      const hasher = this.#outputHasher;
+      const appendOnly = streamOutput || hasher !== null;
+      const onData = (data: Uint8Array, position: number) => {
+        opfsWriter.write(data, position);
+        hasher?.write(data, position);
+        if (streamOutput) {
+          this.#emit('data', data, position);
+        }
+      };
+      let muxer: any;
+
+      if (containerType === 'mp4') {
+        // Fragmented MP4 writes out a fragment at every keyframe, so nothing accumulates.
+        // Unchunked output hands over each fragment only once its header is final.
+        const { Muxer, StreamTarget } = await import('mp4-muxer');
+        const target = new StreamTarget({ onData, chunked: !appendOnly });
+        muxer = new Muxer(createMuxerConfig(this.#getMuxerTrackOptions(), target, includeAudio, this.#muxLog));
       } else {
-        // Use webm-muxer for AV1/VP9
+        // webm-muxer flushes each finished cluster through the callback; streaming
+        // mode never seeks back to patch the header
         const WebMMuxer = (await import('webm-muxer')).default;
-        const muxedChunks: Uint8Array[] = [];
-        
-        const muxerConfig: any = {
-          target: (data: Uint8Array) => {
-            muxedChunks.push(data);
-          },
-          video: {
-            codec: this.#finalVideoCodec === 'av1' ? 'V_AV01' : 'V_VP9',
-            width: this.#config.width,
-            height: this.#config.height
-          },
-          firstTimestampBehavior: 'offset'
-        };
+        const muxerConfig = createMuxerConfig(this.#getMuxerTrackOptions(), onData, includeAudio, this.#muxLog);
+        muxerConfig.streaming = appendOnly;
+        muxer = new WebMMuxer(muxerConfig);
+      }
 
-        // Add audio track if we have audio chunks
-        if (this.#audioChunks.length > 0 && this.#finalAudioCodec) {
-          const audioCodecMap: Record<string, string> = {
-            'opus': 'A_OPUS',
-            'flac': 'A_FLAC'
-          };
-          muxerConfig.audio = {
-            codec: audioCodecMap[this.#finalAudioCodec] || 'A_OPUS',
-            sampleRate: this.#config.audio?.sampleRate || 48000,
-            numberOfChannels: this.#config.audio?.numberOfChannels || 2
-          };
-        }
+      this.#streamingMuxer = { muxer, writer, container: containerType, gate: new TrackStartGate(includeAudio, !this.#isAudioOnly, this.#muxLog) };
+      this.#log.info(`💾 Streaming ${containerType.toUpperCase()} output to OPFS file ${writer.fileName}`);
 
-        const muxer = new WebMMuxer(muxerConfig);
-        console.log('SlowTrackRecorder: Created WebM muxer with config:', muxerConfig);
+      // Drain chunks buffered during worker start-up
+      for (const { chunk, type } of this.#getBufferedChunksInOrder()) {
+        this.#addChunkToStreamingMuxer(type, chunk, this.#chunkMetadata.get(chunk));
+      }
+      this.#videoChunks = [];
+      this.#audioChunks = [];
+      this.#chunkMetadata.clear();
 
-        // Add chunks in timestamp order
-        for (const { chunk, type } of allChunks) {
-          const metadata = this.#chunkMetadata.get(chunk) || {};
-          if (type === 'video') {
-            muxer.addVideoChunk(chunk as EncodedVideoChunk, metadata);
-          } else {
-            muxer.addAudioChunk(chunk as EncodedAudioChunk, metadata);
-          }
+    } catch (error) {
+      this.#log.warn('Could not open OPFS storage, falling back to in-memory storage:', error);
+      this.#streamingMuxer = null;
+      if (writer) {
+        await writer.discard();
+      }
+    }
+  }
+
+  /**
+   * Add a single encoded chunk to the streaming muxer
+   * 
+   * Chunks pass through the start gate, which holds them until both tracks
+   * have started so they share one timeline.
+   */
+  #addChunkToStreamingMuxer(
+    type: 'video' | 'audio',
+    chunk: EncodedVideoChunk | EncodedAudioChunk,
+    metadata?: EncodedVideoChunkMetadata | EncodedAudioChunkMetadata
+  ): void {
+    if (!this.#streamingMuxer) {
+      return;
+    }
+
+    try {
+      const { muxer, gate } = this.#streamingMuxer;
+      gate.push({ type, chunk, metadata }).forEach(input => addTimedChunk(muxer, input));
+    } catch (error) {
+      this.#handleFatalError(new MuxError(`Streaming mux failed: ${error instanceof Error ? error.message : String(error)}`));
+    }
+  }
+
+  /**
+   * Finalize the streaming muxer and return the OPFS file as the recording
+   */
+  async #finalizeStreamingMuxer(): Promise<Blob> {
+    const { muxer, writer, container, gate } = this.#streamingMuxer!;
+
+    try {
+      gate.flush().forEach(input => addTimedChunk(muxer, input));
+      this.#timelineStart = gate.timelineStart;
+      muxer.finalize();
+      const file = await writer.close();
+      this.#streamingMuxer = null;
+
+      // slice() keeps the data disk-backed while attaching the right MIME type
+      const finalBlob = file.slice(0, file.size, getMuxedMimeType(container, !this.#isAudioOnly));
+      this.#log.info(`Finalized ${container.toUpperCase()} in OPFS, size: ${finalBlob.size} bytes`);
+      return finalBlob;
+
+    } catch (error) {
+      this.#log.error('Error finalizing streaming muxer:', error);
+      throw new MuxError(`Streaming muxing failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Validate the configured encryption key, or generate one for this session
+   */
+  async #prepareEncryptionKey(encryption: EncryptionConfig): Promise<void> {
+    if (typeof crypto === 'undefined' || !crypto.subtle) {
+      throw new Error('Encryption requires Web Crypto (a secure context)');
+    }
+
+    if (encryption.key) {
+      validateEncryptionKey(encryption.key);
+      this.#encryptionKey = encryption.key;
+    } else {
+      this.#encryptionKey = await generateEncryptionKey();
+      this.#isEncryptionKeyGenerated = true;
+    }
+
+    if (this.#config.crashRecovery) {
+      this.#log.warn('⚠️ Crash-recovery journal stores chunks unencrypted');
+    }
+  }
+
+  /**
+   * Encrypt the muxed output
+   *
+   * In-memory recordings are encrypted in memory. OPFS recordings stream their
+   * ciphertext into a new OPFS file and the plaintext file is deleted.
+   *
+   * @param plaintext - Muxed recording
+   * @param storageFileName - Backing OPFS file of the plaintext, if any
+   */
+  async #encryptOutput(plaintext: Blob, storageFileName?: string): Promise<{
+    blob: Blob;
+    manifest: EncryptionManifest;
+    integrity?: IntegrityManifest;
+    storageFileName?: string;
+  }> {
+    const key = this.#encryptionKey!;
+    const chunkSize = this.#config.encryption?.chunkSize ?? DEFAULT_ENCRYPTION_CHUNK_SIZE;
+    const hasher = this.#createIntegrityHasher();
+
+    try {
+      const sealedChunks: Array<{ iv: Uint8Array; tag: Uint8Array }> = [];
+
+      if (!storageFileName) {
+        const parts: Uint8Array[] = [];
+        for await (const { ciphertext, iv, tag } of encryptChunks(plaintext, key, chunkSize)) {
+          parts.push(ciphertext);
+          hasher?.write(ciphertext);
+          sealedChunks.push({ iv, tag });
         }
 
-        muxer.finalize();
-        finalBlob = new Blob(muxedChunks as BlobPart[], { type: 'video/webm' });
-        console.log(`SlowTrackRecorder: Created WebM blob, size: ${finalBlob.size} bytes`);
+        const manifest = createEncryptionManifest(plaintext, chunkSize, sealedChunks);
+        this.#log.info(`🔒 Encrypted recording in ${manifest.chunks.length} chunks`);
+        return {
+          blob: new Blob(parts as BlobPart[], { type: 'application/octet-stream' }),
+          manifest,
+          integrity: hasher ? this.#finishIntegrity(hasher) : undefined
+        };
       }
 
-      return finalBlob;
+      const encryptedFileName = `${storageFileName}.enc`;
+      const writer = await OpfsFileWriter.create(encryptedFileName);
+      let file: File;
+
+      try {
+        for await (const { index, ciphertext, iv, tag } of encryptChunks(plaintext, key, chunkSize)) {
+          writer.write(ciphertext, index * chunkSize);
+          hasher?.write(ciphertext, index * chunkSize);
+          sealedChunks.push({ iv, tag });
+        }
+        file = await writer.close();
+      } catch (error) {
+        await writer.discard();
+        throw error;
+      }
+
+      const manifest = createEncryptionManifest(plaintext, chunkSize, sealedChunks);
+      await OpfsFileWriter.delete(storageFileName);
+      this.#log.info(`🔒 Encrypted OPFS recording into ${encryptedFileName} (${manifest.chunks.length} chunks)`);
+
+      return {
+        blob: file.slice(0, file.size, 'application/octet-stream'),
+        manifest,
+        integrity: hasher ? this.#finishIntegrity(hasher) : undefined,
+        storageFileName: encryptedFileName
+      };
+
+    } catch (error) {
+      this.#log.error('Error encrypting recording:', error);
+      throw new Error(`Encryption failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Create an integrity hasher if integrity is enabled
+   */
+  #createIntegrityHasher(): IntegrityHasher | null {
+    const integrity = this.#config.integrity;
+    if (!integrity) {
+      return null;
+    }
+    return new IntegrityHasher(typeof integrity === 'object' ? integrity.partSize : undefined);
+  }
+
+  /**
+   * Checksum the finished recording in one pass, for output that was not
+   * hashed as it was written; a failure leaves the recording without a manifest
+   */
+  async #checksumOutput(blob: Blob): Promise<IntegrityManifest | undefined> {
+    const integrity = this.#config.integrity;
+    try {
+      const manifest = await createIntegrityManifest(blob, typeof integrity === 'object' ? integrity.partSize : undefined);
+      this.#log.info(`🧾 Integrity manifest: ${manifest.parts.length} parts, SHA-256 ${manifest.sha256}`);
+      return manifest;
+    } catch (error) {
+      this.#log.error('Could not compute integrity manifest:', error);
+      return undefined;
+    }
+  }
 
+  /**
+   * Finish an integrity hasher; a failure leaves the recording without a manifest
+   */
+  #finishIntegrity(hasher: IntegrityHasher): IntegrityManifest | undefined {
+    try {
+      const manifest = hasher.finish();
+      this.#log.info(`🧾 Integrity manifest: ${manifest.parts.length} parts, SHA-256 ${manifest.sha256}`);
+      return manifest;
     } catch (error) {
-      console.error('SlowTrackRecorder: Error in main thread muxing:', error);
-      throw new Error(`Main thread muxing failed: ${error instanceof Error ? error.message : String(error)}`);
+      this.#log.error('Could not compute integrity manifest:', error);
+      return undefined;
     }
   }
 
@@ -1037,33 +2465,61 @@ export class SlowTrackRecorder {
    * Create final configuration object for result analysis
    */
   #createFinalConfig(): FinalEncoderConfig | undefined {
+    const recordingDuration = this.#mediaStartTimestamp !== null && this.#mediaEndTimestamp !== null
+      ? (this.#mediaEndTimestamp - this.#mediaStartTimestamp) / 1000
+      : 0;
+
+    if (this.#isAudioOnly) {
+      return this.#audioOnlyContainer ? {
+        kind: 'audio-only',
+        audio: this.#audioEncoderConfig ?? undefined,
+        container: this.#audioOnlyContainer,
+        duration: recordingDuration
+      } : undefined;
+    }
     if (!this.#finalVideoCodec) {
       return undefined;
     }
 
-    const containerType: 'mp4' | 'webm' = (this.#finalVideoCodec === 'av1' || this.#finalVideoCodec === 'vp9') ? 'webm' : 'mp4';
-    const recordingDuration = this.#recordingStartTime ? (performance.now() - this.#recordingStartTime) : 0;
+    const containerType = this.#separateTracks.length > 0 ? 'mkv' : getContainerForVideoCodec(this.#finalVideoCodec);
 
+    // Fall back to the requested settings if a worker did not report its config
+    const videoConfig: VideoEncoderConfig = this.#videoEncoderConfig || {
+      codec: this.#finalVideoCodec,
+      width: this.#config.width,
+      height: this.#config.height,
+      bitrate: this.#config.bitrate,
+      framerate: this.#config.frameRate
+    };
+    const audioConfig: AudioEncoderConfig | undefined = this.#audioEncoderConfig || (this.#finalAudioCodec ? {
+      codec: this.#finalAudioCodec,
+      sampleRate: this.#config.audio?.sampleRate || 48000,
+      numberOfChannels: this.#config.audio?.numberOfChannels || 2,
+      bitrate: this.#config.audio?.bitrate || 128000
+    } : undefined);
+
+    // WebCodecs doesn't say which encoder ran, so hardwareAccelerationUsed stays unset;
+    // the preference it was configured with is videoConfig.hardwareAcceleration
     return {
-      video: {
-        codec: this.#finalVideoCodec,
-        width: this.#config.width,
-        height: this.#config.height,
-        bitrate: this.#config.bitrate,
-        framerate: this.#config.frameRate,
-        hardwareAccelerationUsed: this.#config.hardwareAcceleration === 'prefer-hardware'
-      },
-      audio: this.#finalAudioCodec ? {
-        codec: this.#finalAudioCodec,
-        sampleRate: this.#config.audio?.sampleRate || 48000,
-        numberOfChannels: this.#config.audio?.numberOfChannels || 2,
-        bitrate: this.#config.audio?.bitrate || 128000
-      } : undefined,
+      kind: 'video',
+      video: videoConfig,
+      audio: audioConfig,
       container: containerType,
-      duration: recordingDuration
+      duration: recordingDuration,
+      qualityChanges: [...this.#qualityChanges],
+      resolution: this.#resolution ?? undefined
     };
   }
 
+  /**
+   * Extend the media time covered by the recording with a received chunk
+   */
+  #trackMediaTime(chunk: EncodedVideoChunk | EncodedAudioChunk): void {
+    const end = chunk.timestamp + (chunk.duration ?? 0);
+    this.#mediaStartTimestamp = Math.min(this.#mediaStartTimestamp ?? chunk.timestamp, chunk.timestamp);
+    this.#mediaEndTimestamp = Math.max(this.#mediaEndTimestamp ?? end, end);
+  }
+
   /**
    * Clean up dual workers and resources
    */
@@ -1080,21 +2536,56 @@ export class SlowTrackRecorder {
       this.#audioWorker = null;
     }
     
+    // Terminate separate track workers
+    this.#separateTracks.forEach(track => track.worker.terminate());
+    this.#separateTracks = [];
+    
+    this.#detachSourceListeners.forEach(detach => detach());
+    this.#detachSourceListeners = [];
+    
     // Reset worker state
     this.#isVideoWorkerReady = false;
     this.#isAudioWorkerReady = false;
+    this.#pendingAudioStart = null;
     
     // Clear chunk buffers
     this.#videoChunks = [];
     this.#audioChunks = [];
     this.#chunkMetadata.clear();
     
+    // Keep an unfinished journal recoverable - a completed one was already discarded
+    if (this.#journal) {
+      const journal = this.#journal;
+      this.#journal = null;
+      journal.close().catch((error) => {
+        this.#log.warn('Error closing session journal:', error);
+      });
+    }
+    
+    // Drop an unfinished OPFS file - a finalized one has already been handed off
+    if (this.#streamingMuxer) {
+      const { writer } = this.#streamingMuxer;
+      this.#streamingMuxer = null;
+      writer.discard().catch((error) => {
+        this.#log.warn('Error discarding streaming output:', error);
+      });
+    }
+    
+    // Drop the WAV side-track's OPFS file unless stop() has handed it off
+    if (this.#wavWriter) {
+      const wavWriter = this.#wavWriter;
+      this.#wavWriter = null;
+      wavWriter.discard().catch((error) => {
+        this.#log.warn('Error discarding audio.wav output:', error);
+      });
+    }
+    
     // Reset codec state
     this.#finalVideoCodec = null;
     this.#finalAudioCodec = null;
     this.#finalCodec = null;
     
-    console.log('SlowTrackRecorder: Dual workers cleaned up');
+    this.#log.debug('Dual workers cleaned up');
   }
 
   /**
@@ -1119,6 +2610,8 @@ export class SlowTrackRecorder {
     this.#isPumpPaused = false;
     this.#pressureHighTimestamp = null;
     this.#stopPerformanceMonitoring();
+    this.#stopSyncMonitoring();
+    this.#stopStatsReporting();
     
     // Stop leak monitoring and cleanup
     this.#stopLeakMonitoring();
@@ -1127,19 +2620,281 @@ export class SlowTrackRecorder {
   /**
    * Pause the current recording session
    * 
+   * Both workers keep draining their tracks but discard frames until resumed.
+   * The paused span is removed from the media timeline, so the final file
+   * plays straight through without a frozen gap.
+   * 
    * @returns Promise that resolves when recording is paused
    */
   async pause(): Promise<void> {
-    // TODO: Implement recording pause functionality
+    if (!this.#isRecording) {
+      throw new Error('Recording is not currently active');
+    }
+    if (this.#isPaused) {
+      return;
+    }
+
+    this.#isPaused = true;
+    this.#pauseStartTime = performance.now();
+
+    const pauseMessage: VideoWorkerRequest & AudioWorkerRequest = { type: 'pause' };
+    this.#videoWorker?.postMessage(pauseMessage);
+    this.#audioWorker?.postMessage(pauseMessage);
+    this.#separateTracks.forEach(track => track.worker.postMessage(pauseMessage));
+
+    this.#log.info('⏸️ Recording paused');
+    this.#recordTelemetryEvent('recorder.pause');
+    this.#emit('pause');
   }
 
   /**
    * Resume a paused recording session
    * 
+   * The video worker forces a keyframe on the first frame after resume so the
+   * file stays seekable across the pause boundary.
+   * 
    * @returns Promise that resolves when recording has resumed
    */
   async resume(): Promise<void> {
-    // TODO: Implement recording resume functionality
+    if (!this.#isRecording) {
+      throw new Error('Recording is not currently active');
+    }
+    if (!this.#isPaused) {
+      return;
+    }
+
+    if (this.#pauseStartTime !== null) {
+      this.#totalPausedTime += performance.now() - this.#pauseStartTime;
+    }
+    this.#isPaused = false;
+    this.#pauseStartTime = null;
+
+    const resumeMessage: VideoWorkerRequest & AudioWorkerRequest = { type: 'resume' };
+    this.#videoWorker?.postMessage(resumeMessage);
+    this.#audioWorker?.postMessage(resumeMessage);
+    this.#separateTracks.forEach(track => track.worker.postMessage(resumeMessage));
+
+    this.#log.info('▶️ Recording resumed');
+    this.#recordTelemetryEvent('recorder.resume');
+    this.#emit('resume');
+  }
+
+  /**
+   * Whether the current recording session is paused
+   */
+  isPaused(): boolean {
+    return this.#isPaused;
+  }
+
+  /**
+   * Switch the recorded video or audio source while recording
+   * 
+   * The worker keeps its encoder and timeline, so the file continues across
+   * the switch (starting on a keyframe). Use it after a 'source-change' event
+   * with reason 'ended', or to swap devices at any time. The track's size and
+   * sample rate stay as recorded, since a container track has one frame size:
+   * a video source of another size is letterboxed into it, and audio at
+   * another rate or channel count is converted.
+   * 
+   * @param kind - Which source to replace
+   * @param track - New source; it is cloned, so the caller keeps ownership
+   */
+  async replaceTrack(kind: 'video' | 'audio', track: MediaStreamTrack): Promise<void> {
+    if (!this.#isRecording) {
+      throw new Error('Recording is not currently active');
+    }
+    if (track.kind !== kind) {
+      throw new Error(`Cannot replace the ${kind} source with a ${track.kind} track`);
+    }
+    const worker = kind === 'video' ? this.#videoWorker : this.#audioWorker;
+    if (!worker || !this.#primarySources) {
+      throw new Error(`This recording has no ${kind} track to replace`);
+    }
+
+    const processor = new MediaStreamTrackProcessor({ track: track.clone() } as MediaStreamTrackProcessorInit);
+    if (kind === 'video') {
+      const message: VideoWorkerRequest = {
+        type: 'replace-source',
+        videoStream: processor.readable,
+        actualVideoSettings: track.getSettings()
+      };
+      worker.postMessage(message, [processor.readable]);
+    } else {
+      const message: AudioWorkerRequest = {
+        type: 'replace-source',
+        audioStream: processor.readable as ReadableStream<AudioData>,
+        actualAudioSettings: track.getSettings()
+      };
+      worker.postMessage(message, [processor.readable]);
+    }
+
+    const previous = this.#primarySources[kind];
+    const current = { label: track.label, id: track.id };
+    this.#primarySources = { ...this.#primarySources, [kind]: current };
+    this.#watchSourceEnded(kind, track);
+
+    this.#log.info(`🔁 Replaced ${kind} source "${previous?.label ?? ''}" with "${track.label}"`);
+    this.#recordTelemetryEvent('recorder.source_change', { 'source.kind': kind, 'source.change': 'replaced' });
+    this.#emit('source-change', { kind, reason: 'replaced', timestamp: this.#getCurrentMediaTime(), previous, current });
+  }
+
+  /**
+   * Report a recorded source ending, replacing any watch on the previous source of that kind
+   * 
+   * The worker waits for a replacement rather than finishing, so the recording
+   * survives an unplugged device and stop() still produces the whole file.
+   */
+  #watchSourceEnded(kind: 'video' | 'audio', track: MediaStreamTrack): void {
+    const onEnded = () => {
+      const previous = { label: track.label, id: track.id };
+      this.#log.warn(`⚠️ ${kind} source "${track.label}" ended; call replaceTrack('${kind}', track) to continue it`);
+      this.#recordTelemetryEvent('recorder.source_change', { 'source.kind': kind, 'source.change': 'ended' }, 'warn');
+      this.#emit('source-change', { kind, reason: 'ended', timestamp: this.#getCurrentMediaTime(), previous, current: null });
+    };
+    const detach = () => track.removeEventListener('ended', onEnded);
+
+    const index = kind === 'video' ? 0 : 1;
+    this.#detachSourceListeners[index]?.();
+    this.#detachSourceListeners[index] = detach;
+    track.addEventListener('ended', onEnded);
+  }
+
+  /**
+   * Approximate media timestamp (µs) of the present moment
+   */
+  #getCurrentMediaTime(): number {
+    if (!this.#sessionEpoch) {
+      return 0;
+    }
+    const pausedTime = this.#totalPausedTime + (this.#pauseStartTime !== null ? performance.now() - this.#pauseStartTime : 0);
+    return Math.max(0, Math.round((performance.now() - pausedTime) * 1000 - this.#sessionEpoch.epoch));
+  }
+
+  /**
+   * Set the gain of one mixed audio input while recording
+   * 
+   * @param input - Input index: 0 is the stream's audio track, then `StartOptions.audioSources` in order
+   * @param gain - Linear gain, 0 or more (1 leaves the input unchanged)
+   */
+  setAudioInputGain(input: number, gain: number): void {
+    if (!(Number.isFinite(gain) && gain >= 0)) {
+      throw new Error(`Invalid gain for audio input ${input}: ${gain}`);
+    }
+    this.#updateAudioMixInput(input, { gain });
+  }
+
+  /**
+   * Mute or unmute one mixed audio input while recording
+   * 
+   * @param input - Input index: 0 is the stream's audio track, then `StartOptions.audioSources` in order
+   * @param muted - Whether to leave the input out of the mix
+   */
+  setAudioInputMuted(input: number, muted: boolean): void {
+    this.#updateAudioMixInput(input, { muted });
+  }
+
+  /**
+   * Record a mix input change and pass it to the audio worker
+   */
+  #updateAudioMixInput(input: number, change: AudioMixInput): void {
+    if (!this.#isRecording || !this.#audioMixInputs) {
+      throw new Error('No audio inputs are being mixed; pass StartOptions.audioSources to start()');
+    }
+    if (!Number.isInteger(input) || input < 0 || input >= this.#audioMixInputs.length) {
+      throw new Error(`No audio input ${input} (recording mixes ${this.#audioMixInputs.length})`);
+    }
+
+    this.#audioMixInputs[input] = { ...this.#audioMixInputs[input], ...change };
+    const message: AudioWorkerRequest = { type: 'set-mix-input', mixInput: { index: input, ...change } };
+    this.#audioWorker?.postMessage(message);
+    this.#log.debug(`🎚️ Audio input ${input} set to`, this.#audioMixInputs[input]);
+  }
+
+  /**
+   * List recording sessions that were journaled with crashRecovery but never finished
+   * 
+   * Includes any session still being recorded in another tab; a recent
+   * `updatedAt` indicates the session is probably still live.
+   * 
+   * @returns Journaled sessions, newest first
+   */
+  static async listRecoverableSessions(): Promise<JournalSessionInfo[]> {
+    if (!SessionJournal.isSupported()) {
+      return [];
+    }
+    return SessionJournal.listSessions();
+  }
+
+  /**
+   * Rebuild a playable file from a journaled session
+   * 
+   * The journal is kept until `discardRecoverableSession()` is called, so a
+   * failed upload of the recovered file can be retried.
+   * 
+   * @param sessionId - Id from `listRecoverableSessions()`
+   * @returns Recording result for the recovered file (finalConfig is not available)
+   */
+  static async recoverSession(sessionId: string): Promise<RecordingResult> {
+    const session = await SessionJournal.getSession(sessionId);
+    if (!session) {
+      throw new Error(`No recoverable session found with id ${sessionId}`);
+    }
+    if (session.chunkCount === 0) {
+      throw new Error(`Session ${sessionId} has no recorded data to recover`);
+    }
+
+    log.info(`Recovering session ${sessionId} (${session.chunkCount} chunks, ${session.byteLength} bytes)`);
+
+    async function* journalChunks(): AsyncGenerator<MuxInputChunk> {
+      for await (const entry of SessionJournal.readChunks(sessionId)) {
+        const init = {
+          type: entry.type,
+          timestamp: entry.timestamp,
+          duration: entry.duration ?? undefined,
+          data: entry.data
+        };
+        yield {
+          type: entry.track,
+          chunk: entry.track === 'video' ? new EncodedVideoChunk(init) : new EncodedAudioChunk(init),
+          metadata: entry.decoderConfig ? { decoderConfig: entry.decoderConfig } as EncodedVideoChunkMetadata : undefined
+        };
+      }
+    }
+
+    let timelineStart: number | null = null;
+    const blob = await muxChunksInMemory(session.tracks, journalChunks(), session.tracks.audioCodec !== null, {
+      onTimelineStart: (timestamp) => { timelineStart = timestamp; }
+    });
+
+    return {
+      blob,
+      requestedConfig: session.requestedConfig,
+      startTime: session.sessionStartTime !== undefined && timelineStart !== null
+        ? session.sessionStartTime + timelineStart / 1000
+        : undefined
+    };
+  }
+
+  /**
+   * Permanently delete a journaled session
+   * 
+   * @param sessionId - Id from `listRecoverableSessions()`
+   */
+  static async discardRecoverableSession(sessionId: string): Promise<void> {
+    await SessionJournal.deleteSession(sessionId);
+  }
+
+  /**
+   * Delete a recording that was written to OPFS with storage: 'opfs'
+   * 
+   * The Blob returned by stop() reads from this file, so only delete it once
+   * the recording has been uploaded or copied elsewhere. The same goes for
+   * `RecordingResult.wavFileName`, which backs `RecordingResult.wav`.
+   * 
+   * @param storageFileName - `RecordingResult.storageFileName` or `RecordingResult.wavFileName` of the recording
+   */
+  static async deleteStoredRecording(storageFileName: string): Promise<void> {
+    await OpfsFileWriter.delete(storageFileName);
   }
 
   /**
@@ -1152,6 +2907,33 @@ export class SlowTrackRecorder {
     return this.#lastResult;
   }
 
+  /**
+   * Get recording telemetry for the current or most recent recording
+   * 
+   * @returns Frame, latency, bitrate, drift and memory counters, or null before
+   *          the first recording has started
+   */
+  getStats(): RecorderStats | null {
+    if (!this.#sessionEpoch) {
+      return null;
+    }
+
+    const bufferedBytes = [...this.#videoChunks, ...this.#audioChunks].reduce((total, chunk) => total + chunk.byteLength, 0)
+      + this.#separateTracks.reduce((total, track) => total + track.chunks.reduce((sum, { chunk }) => sum + chunk.byteLength, 0), 0);
+    return {
+      timestamp: performance.now(),
+      duration: this.#mediaStartTimestamp !== null && this.#mediaEndTimestamp !== null
+        ? (this.#mediaEndTimestamp - this.#mediaStartTimestamp) / 1000
+        : 0,
+      video: this.#isAudioOnly ? null : this.#getTrackStats(this.#videoEncoderStats, this.#videoOutputStats),
+      audio: this.#audioEncoderStats || this.#audioOutputStats.chunks > 0
+        ? this.#getTrackStats(this.#audioEncoderStats, this.#audioOutputStats)
+        : null,
+      drift: this.#lastSyncData?.drift ?? null,
+      bufferedBytes
+    };
+  }
+
   /**
    * Get the final codec that was selected by the automatic fallback system
    * 
@@ -0,0 +1,92 @@
+import { describe, test, expect } from 'vitest';
+import { SyncMonitor } from './SyncMonitor';
+
+const VIDEO_FRAME_US = 1_000_000 / 30;
+const AUDIO_FRAME_US = 20_000;
+
+/**
+ * Deterministic arrival jitter in [0, maxMs)
+ */
+const createJitter = (maxMs: number) => {
+  let seed = 42;
+  return () => {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    return (seed / 0x7fffffff) * maxMs;
+  };
+};
+
+/**
+ * Feed 30fps video and 20ms audio chunks with jittered arrival times, audio
+ * running fast by `audioDriftMsPerHour`, sampling once per second
+ */
+const simulate = (monitor: SyncMonitor, seconds: number, audioDriftMsPerHour: number) => {
+  const audioScale = 1 + audioDriftMsPerHour / (60 * 60 * 1000);
+  const jitter = createJitter(15);
+  let videoIndex = 0;
+  let audioIndex = 0;
+  const samples = [];
+
+  for (let second = 1; second <= seconds; second++) {
+    const secondEnd = second * 1000;
+    for (; (videoIndex + 1) * VIDEO_FRAME_US / 1000 <= secondEnd; videoIndex++) {
+      const arrivalTime = (videoIndex + 1) * VIDEO_FRAME_US / 1000 + jitter();
+      monitor.addVideoChunk({ timestamp: videoIndex * VIDEO_FRAME_US, duration: VIDEO_FRAME_US }, arrivalTime);
+    }
+    // Audio media time advances faster than real time by audioScale
+    for (; (audioIndex + 1) * AUDIO_FRAME_US / 1000 / audioScale <= secondEnd; audioIndex++) {
+      const arrivalTime = (audioIndex + 1) * AUDIO_FRAME_US / 1000 / audioScale + jitter();
+      monitor.addAudioChunk({ timestamp: audioIndex * AUDIO_FRAME_US, duration: AUDIO_FRAME_US }, arrivalTime);
+    }
+    samples.push(monitor.sample()!);
+  }
+  return samples;
+};
+
+describe('SyncMonitor', () => {
+  test('should not sample until both tracks have produced a chunk', () => {
+    const monitor = new SyncMonitor();
+    expect(monitor.sample()).toBeNull();
+
+    monitor.addVideoChunk({ timestamp: 0, duration: VIDEO_FRAME_US }, 40);
+    expect(monitor.sample()).toBeNull();
+
+    monitor.addAudioChunk({ timestamp: 0, duration: AUDIO_FRAME_US }, 25);
+    expect(monitor.sample()!.syncData).toMatchObject({
+      videoFramesProcessed: 1,
+      audioFramesProcessed: 1,
+      videoTime: VIDEO_FRAME_US / 1000,
+      audioTime: 20,
+      drift: 20 - VIDEO_FRAME_US / 1000,
+      driftRate: null,
+      isOverBudget: false
+    });
+  });
+
+  test('should report the drift trend only after the minimum window', () => {
+    const samples = simulate(new SyncMonitor({ minimumWindowMs: 60_000 }), 90, 0);
+
+    expect(samples[30].syncData.driftRate).toBeNull();
+    expect(samples[89].syncData.driftRate).not.toBeNull();
+  });
+
+  test('should stay within budget for tracks in sync', () => {
+    const samples = simulate(new SyncMonitor(), 15 * 60, 0);
+
+    expect(samples.some(sample => sample.exceededBudget)).toBe(false);
+    expect(Math.abs(samples[samples.length - 1].syncData.driftRate!)).toBeLessThan(5);
+  });
+
+  test('should alert once when drift passes the budget', () => {
+    const samples = simulate(new SyncMonitor({ driftBudgetMsPerHour: 20 }), 15 * 60, 60);
+
+    const last = samples[samples.length - 1].syncData;
+    expect(last.driftRate).toBeGreaterThan(50);
+    expect(last.driftRate).toBeLessThan(70);
+    expect(last.isOverBudget).toBe(true);
+    expect(samples.filter(sample => sample.exceededBudget)).toHaveLength(1);
+  });
+
+  test('should reject a non-positive drift budget', () => {
+    expect(() => new SyncMonitor({ driftBudgetMsPerHour: 0 })).toThrow('Invalid drift budget');
+  });
+});
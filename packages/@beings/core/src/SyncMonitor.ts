@@ -0,0 +1,171 @@
+/**
+ * Sync Monitor
+ *
+ * Measures A/V drift on the main thread from the encoded chunks the video and
+ * audio workers post. Each track's media time is the end of its latest chunk
+ * (timestamp + duration); drift is audio time minus video time, so a positive
+ * value means audio is ahead.
+ *
+ * The instantaneous drift jitters by up to a frame depending on which chunks
+ * have arrived, far more than the drift budget allows, so the budget is checked
+ * against the drift trend instead. Each track's media time is fitted against
+ * chunk arrival time (least squares over every chunk); the difference between
+ * the two rates, in milliseconds per hour, is the drift trend.
+ */
+
+import type { SyncData } from './types';
+
+/** Default drift budget in milliseconds per hour */
+export const DEFAULT_DRIFT_BUDGET_MS_PER_HOUR = 20;
+
+/** Default recording time observed before the drift trend is trusted */
+export const DEFAULT_DRIFT_ALERT_WINDOW_MS = 5 * 60 * 1000;
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/**
+ * Options for the drift budget check
+ */
+export interface SyncMonitorOptions {
+  /** Drift trend allowed in either direction, ms per hour (default 20) */
+  driftBudgetMsPerHour?: number;
+  /** Recording time (ms) to observe before reporting a drift trend (default 5 minutes) */
+  minimumWindowMs?: number;
+}
+
+/**
+ * Online least-squares fit of a track's media time against arrival time
+ */
+class TrackClock {
+  frames = 0;
+  /** End of the latest chunk, in ms of media time */
+  mediaEnd: number | null = null;
+
+  #firstArrival: number | null = null;
+  #lastArrival = 0;
+  #meanX = 0;
+  #meanY = 0;
+  #sxx = 0;
+  #sxy = 0;
+
+  add(chunk: { timestamp: number; duration: number | null }, arrivalTime: number): void {
+    const end = (chunk.timestamp + (chunk.duration ?? 0)) / 1000;
+    this.frames++;
+    this.mediaEnd = Math.max(this.mediaEnd ?? 0, end);
+
+    this.#firstArrival ??= arrivalTime;
+    this.#lastArrival = arrivalTime;
+
+    // Welford-style update keeps the sums stable over long sessions
+    const x = arrivalTime - this.#firstArrival;
+    const dx = x - this.#meanX;
+    this.#meanX += dx / this.frames;
+    this.#meanY += (end - this.#meanY) / this.frames;
+    this.#sxx += dx * (x - this.#meanX);
+    this.#sxy += dx * (end - this.#meanY);
+  }
+
+  /** Observed arrival span in ms */
+  get span(): number {
+    return this.#firstArrival === null ? 0 : this.#lastArrival - this.#firstArrival;
+  }
+
+  /** Media ms per arrival ms, or null without a spread of arrivals */
+  get rate(): number | null {
+    return this.#sxx > 0 ? this.#sxy / this.#sxx : null;
+  }
+}
+
+/**
+ * Result of a drift sample
+ */
+export interface SyncSample {
+  syncData: SyncData;
+  /** True when this sample moved the drift trend over budget */
+  exceededBudget: boolean;
+}
+
+/**
+ * Tracks per-track media time and the drift trend between them
+ */
+export class SyncMonitor {
+  #driftBudgetMsPerHour: number;
+  #minimumWindowMs: number;
+  #video = new TrackClock();
+  #audio = new TrackClock();
+  #isOverBudget = false;
+
+  constructor(options: SyncMonitorOptions = {}) {
+    this.#driftBudgetMsPerHour = options.driftBudgetMsPerHour ?? DEFAULT_DRIFT_BUDGET_MS_PER_HOUR;
+    this.#minimumWindowMs = options.minimumWindowMs ?? DEFAULT_DRIFT_ALERT_WINDOW_MS;
+
+    if (!(this.#driftBudgetMsPerHour > 0)) {
+      throw new Error(`Invalid drift budget: ${this.#driftBudgetMsPerHour}ms/hour`);
+    }
+  }
+
+  /**
+   * Account for an encoded video chunk
+   *
+   * @param arrivalTime - When the chunk arrived, in ms on a clock that excludes paused time
+   */
+  addVideoChunk(chunk: { timestamp: number; duration: number | null }, arrivalTime: number): void {
+    this.#video.add(chunk, arrivalTime);
+  }
+
+  /**
+   * Account for an encoded audio chunk
+   *
+   * @param arrivalTime - When the chunk arrived, in ms on a clock that excludes paused time
+   */
+  addAudioChunk(chunk: { timestamp: number; duration: number | null }, arrivalTime: number): void {
+    this.#audio.add(chunk, arrivalTime);
+  }
+
+  /**
+   * Take a drift sample
+   *
+   * @returns The sample, or null until both tracks have produced a chunk
+   */
+  sample(): SyncSample | null {
+    const videoTime = this.#video.mediaEnd;
+    const audioTime = this.#audio.mediaEnd;
+    if (videoTime === null || audioTime === null) {
+      return null;
+    }
+
+    const driftRate = this.#getDriftRate();
+    const wasOverBudget = this.#isOverBudget;
+    this.#isOverBudget = driftRate !== null && Math.abs(driftRate) > this.#driftBudgetMsPerHour;
+
+    return {
+      syncData: {
+        videoFramesProcessed: this.#video.frames,
+        audioFramesProcessed: this.#audio.frames,
+        drift: audioTime - videoTime,
+        timestamp: performance.now(),
+        videoTime,
+        audioTime,
+        driftRate,
+        isOverBudget: this.#isOverBudget
+      },
+      exceededBudget: this.#isOverBudget && !wasOverBudget
+    };
+  }
+
+  /**
+   * Audio rate minus video rate in ms/hour, or null before the minimum window
+   */
+  #getDriftRate(): number | null {
+    if (Math.min(this.#video.span, this.#audio.span) < this.#minimumWindowMs) {
+      return null;
+    }
+
+    const videoRate = this.#video.rate;
+    const audioRate = this.#audio.rate;
+    if (videoRate === null || audioRate === null) {
+      return null;
+    }
+    return (audioRate - videoRate) * MS_PER_HOUR;
+  }
+}
@@ -0,0 +1,184 @@
+// @vitest-environment node
+import { describe, test, expect, vi, afterEach } from 'vitest';
+import { ForwardingTelemetryExporter, InMemoryTelemetryExporter, OtlpJsonExporter, Telemetry } from './Telemetry';
+import type { TelemetryExporter } from './Telemetry';
+import type { TelemetryRecord } from './types';
+import { createFetchStandIn } from './test-utils';
+import type { StandInRequest } from './test-utils';
+
+const ENDPOINT = 'http://collector.test:4318';
+
+/**
+ * In-process OTLP/HTTP collector answering every export with `status`
+ */
+const createCollectorStandIn = (status = 200) => createFetchStandIn(ENDPOINT, () => new Response(null, { status }));
+
+/** Parsed OTLP/JSON body of an export */
+const json = (request: StandInRequest) => JSON.parse(String(request.body));
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('Telemetry', () => {
+  test('should nest spans in one trace and export them as they end', () => {
+    const exporter = new InMemoryTelemetryExporter();
+    const telemetry = new Telemetry(exporter);
+    expect(telemetry.isEnabled).toBe(true);
+    expect(new Telemetry().isEnabled).toBe(false);
+
+    const root = telemetry.startSpan('recorder.session', { 'recorder.storage': 'memory' });
+    const child = telemetry.startSpan('recorder.start', {}, root.context);
+    child.addEvent('codec.unsupported', { 'codec.string': 'av01.0.04M.08' });
+    child.setAttributes({ 'video.codec': 'vp9' });
+    child.end();
+    child.end();
+    root.end(new Error('Worker initialization timeout after 15 seconds'));
+
+    const [start, session] = exporter.spans;
+    expect(exporter.spans).toHaveLength(2);
+    expect(session).toMatchObject({ name: 'recorder.session', status: 'error', statusMessage: 'Worker initialization timeout after 15 seconds' });
+    expect(session.parentSpanId).toBeUndefined();
+    expect(session.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(start).toMatchObject({ name: 'recorder.start', status: 'ok', traceId: session.traceId, parentSpanId: session.spanId, attributes: { 'video.codec': 'vp9' } });
+    expect(start.events).toEqual([expect.objectContaining({ name: 'codec.unsupported', attributes: { 'codec.string': 'av01.0.04M.08' } })]);
+    expect(start.endTime).toBeGreaterThanOrEqual(start.startTime);
+  });
+
+  test('trace() should end the span with the outcome of the operation', async () => {
+    const exporter = new InMemoryTelemetryExporter();
+    const telemetry = new Telemetry(exporter);
+
+    expect(await telemetry.trace('recorder.mux', {}, null, () => 42)).toBe(42);
+    await expect(telemetry.trace('recorder.encrypt', {}, null, async () => { throw new Error('Encryption failed'); }))
+      .rejects.toThrow('Encryption failed');
+
+    expect(exporter.spans.map(span => [span.name, span.status])).toEqual([['recorder.mux', 'ok'], ['recorder.encrypt', 'error']]);
+  });
+
+  test('should export records forwarded from a worker as they were recorded', () => {
+    const records: TelemetryRecord[] = [];
+    const workerTelemetry = new Telemetry(new ForwardingTelemetryExporter(record => records.push(structuredClone(record))));
+    workerTelemetry.startSpan('video.encoder_flush', { 'encoder.queue_size': 3 }).end();
+    workerTelemetry.recordMetric('recorder.frames.dropped', 2, '{frame}', { track: 'video' });
+    workerTelemetry.recordEvent('audio.codec_fallback', { 'codec.name': 'opus' }, null, 'warn');
+
+    const exporter = new InMemoryTelemetryExporter();
+    const telemetry = new Telemetry(exporter);
+    records.forEach(record => telemetry.exportRecord(record));
+
+    expect(exporter.spans[0]).toMatchObject({ name: 'video.encoder_flush', attributes: { 'encoder.queue_size': 3 } });
+    expect(exporter.metrics[0]).toMatchObject({ name: 'recorder.frames.dropped', value: 2, unit: '{frame}', attributes: { track: 'video' } });
+    expect(exporter.events[0]).toMatchObject({ name: 'audio.codec_fallback', severity: 'warn' });
+  });
+
+  test('should keep going when the exporter throws', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const exporter: TelemetryExporter = {
+      exportSpan: () => { throw new Error('Exporter broke'); },
+      exportMetric: () => { throw new Error('Exporter broke'); },
+      exportEvent: () => { throw new Error('Exporter broke'); }
+    };
+    const telemetry = new Telemetry(exporter);
+
+    expect(() => {
+      telemetry.startSpan('recorder.record').end();
+      telemetry.recordMetric('recorder.duration', 1000, 'ms');
+      telemetry.recordEvent('recorder.pause');
+    }).not.toThrow();
+    expect(console.warn).toHaveBeenCalledTimes(3);
+    expect(console.warn).toHaveBeenCalledWith('[telemetry] Error in exporter:', new Error('Exporter broke'));
+  });
+});
+
+describe('OtlpJsonExporter', () => {
+  test('should post spans, metrics and events as OTLP/JSON to their signal paths', async () => {
+    const collector = createCollectorStandIn();
+    const exporter = new OtlpJsonExporter({
+      endpoint: `${ENDPOINT}/`,
+      headers: { Authorization: 'Bearer token' },
+      serviceName: 'recorder-app',
+      fetch: collector.fetch
+    });
+    const telemetry = new Telemetry(exporter);
+
+    const span = telemetry.startSpan('recorder.mux', { 'mux.mode': 'memory', 'mux.bytes': 1024, 'mux.ratio': 0.5, 'recorder.audio_only': false });
+    span.end(new Error('Main thread muxing failed'));
+    telemetry.recordMetric('recorder.av_drift', 1.5, 'ms');
+    telemetry.recordEvent('recorder.pause', {}, span.context);
+    expect(collector.requests).toHaveLength(0);
+
+    await exporter.flush();
+    const byPath = Object.fromEntries(collector.requests.map(request => [request.path, request]));
+    expect(Object.keys(byPath).sort()).toEqual(['/v1/logs', '/v1/metrics', '/v1/traces']);
+    expect(byPath['/v1/traces'].headers).toEqual({ Authorization: 'Bearer token', 'Content-Type': 'application/json' });
+
+    const [resourceSpans] = json(byPath['/v1/traces']).resourceSpans;
+    expect(resourceSpans.resource.attributes).toEqual([{ key: 'service.name', value: { stringValue: 'recorder-app' } }]);
+    const [otlpSpan] = resourceSpans.scopeSpans[0].spans;
+    expect(otlpSpan).toMatchObject({
+      traceId: span.context.traceId,
+      spanId: span.context.spanId,
+      name: 'recorder.mux',
+      kind: 1,
+      status: { code: 2, message: 'Main thread muxing failed' },
+      attributes: [
+        { key: 'mux.mode', value: { stringValue: 'memory' } },
+        { key: 'mux.bytes', value: { intValue: '1024' } },
+        { key: 'mux.ratio', value: { doubleValue: 0.5 } },
+        { key: 'recorder.audio_only', value: { boolValue: false } }
+      ]
+    });
+    expect(otlpSpan.startTimeUnixNano).toMatch(/^\d{19}$/);
+    expect(BigInt(otlpSpan.endTimeUnixNano) >= BigInt(otlpSpan.startTimeUnixNano)).toBe(true);
+
+    const [metric] = json(byPath['/v1/metrics']).resourceMetrics[0].scopeMetrics[0].metrics;
+    expect(metric).toMatchObject({ name: 'recorder.av_drift', unit: 'ms', gauge: { dataPoints: [{ asDouble: 1.5 }] } });
+
+    const [logRecord] = json(byPath['/v1/logs']).resourceLogs[0].scopeLogs[0].logRecords;
+    expect(logRecord).toMatchObject({
+      severityNumber: 9,
+      body: { stringValue: 'recorder.pause' },
+      attributes: [{ key: 'event.name', value: { stringValue: 'recorder.pause' } }],
+      traceId: span.context.traceId,
+      spanId: span.context.spanId
+    });
+  });
+
+  test('should send a batch once full, and a partial one after the flush interval', async () => {
+    vi.useFakeTimers();
+    const collector = createCollectorStandIn();
+    const exporter = new OtlpJsonExporter({ endpoint: ENDPOINT, maxBatchSize: 3, flushIntervalMs: 1000, fetch: collector.fetch });
+    const telemetry = new Telemetry(exporter);
+
+    for (let i = 0; i < 4; i++) {
+      telemetry.recordMetric('recorder.duration', i * 1000, 'ms');
+    }
+    expect(collector.requests).toHaveLength(1);
+    expect(json(collector.requests[0]).resourceMetrics[0].scopeMetrics[0].metrics).toHaveLength(3);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(collector.requests).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(collector.requests).toHaveLength(2);
+    expect(json(collector.requests[1]).resourceMetrics[0].scopeMetrics[0].metrics).toHaveLength(1);
+  });
+
+  test('should drop a batch the collector rejects without failing', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const collector = createCollectorStandIn(503);
+    const exporter = new OtlpJsonExporter({ endpoint: ENDPOINT, fetch: collector.fetch });
+    exporter.exportEvent({ name: 'recorder.resume', severity: 'info', time: Date.now(), attributes: {} });
+
+    await expect(exporter.flush()).resolves.toBeUndefined();
+    expect(console.warn).toHaveBeenCalledWith('[telemetry] /v1/logs rejected with status 503, batch dropped');
+
+    await exporter.flush();
+    expect(collector.requests).toHaveLength(1);
+  });
+
+  test('should reject an invalid batch size', () => {
+    expect(() => new OtlpJsonExporter({ endpoint: ENDPOINT, maxBatchSize: 0 })).toThrow('Invalid OTLP batch size: 0');
+  });
+});
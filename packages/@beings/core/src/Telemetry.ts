@@ -0,0 +1,510 @@
+/**
+ * Telemetry
+ *
+ * Spans, metrics and events describing a recording, handed to a pluggable
+ * exporter. Each recording is one trace: a 'recorder.session' root span with
+ * 'recorder.start', 'recorder.record' and 'recorder.finalize' under it. The
+ * workers' codec negotiation and encoder flush spans nest under start and
+ * finalize. Workers cannot share the exporter, so they forward their spans
+ * and events to the main thread over their message channel.
+ *
+ * Three exporters ship with the recorder: NoopTelemetryExporter (the
+ * default), InMemoryTelemetryExporter for tests, and OtlpJsonExporter, which
+ * posts batches to an OpenTelemetry collector over OTLP/HTTP in JSON.
+ */
+
+import type {
+  TelemetryAttributes,
+  TelemetryContext,
+  TelemetryEventData,
+  TelemetryMetricData,
+  TelemetryRecord,
+  TelemetrySpanData
+} from './types';
+import { Logger } from './Logger';
+
+const log = new Logger('telemetry');
+
+/** Default OTLP records per request */
+export const DEFAULT_OTLP_BATCH_SIZE = 100;
+
+/** Default delay (ms) before a partial OTLP batch is sent */
+export const DEFAULT_OTLP_FLUSH_INTERVAL_MS = 5000;
+
+/** Instrumentation scope reported with OTLP data */
+const SCOPE_NAME = '@beings/core';
+
+/**
+ * Receives finished spans, metrics and events
+ *
+ * Called on the main thread as each is recorded, so implementations should
+ * buffer rather than block. Errors thrown here are logged and dropped.
+ */
+export interface TelemetryExporter {
+  exportSpan(span: TelemetrySpanData): void;
+  exportMetric(metric: TelemetryMetricData): void;
+  exportEvent(event: TelemetryEventData): void;
+  /** Send anything buffered; the recorder calls this when a recording ends */
+  flush?(): Promise<void>;
+}
+
+/**
+ * Exporter that drops everything (the default)
+ */
+export class NoopTelemetryExporter implements TelemetryExporter {
+  exportSpan(): void {}
+  exportMetric(): void {}
+  exportEvent(): void {}
+}
+
+/**
+ * Exporter that keeps everything in arrays, for tests
+ */
+export class InMemoryTelemetryExporter implements TelemetryExporter {
+  spans: TelemetrySpanData[] = [];
+  metrics: TelemetryMetricData[] = [];
+  events: TelemetryEventData[] = [];
+
+  exportSpan(span: TelemetrySpanData): void {
+    this.spans.push(span);
+  }
+
+  exportMetric(metric: TelemetryMetricData): void {
+    this.metrics.push(metric);
+  }
+
+  exportEvent(event: TelemetryEventData): void {
+    this.events.push(event);
+  }
+
+  /** Finished spans with a name */
+  getSpans(name: string): TelemetrySpanData[] {
+    return this.spans.filter(span => span.name === name);
+  }
+
+  /** Drop everything recorded so far */
+  reset(): void {
+    this.spans = [];
+    this.metrics = [];
+    this.events = [];
+  }
+}
+
+/**
+ * Exporter that hands each record to a function, e.g. a worker's postMessage()
+ */
+export class ForwardingTelemetryExporter implements TelemetryExporter {
+  #send: (record: TelemetryRecord) => void;
+
+  constructor(send: (record: TelemetryRecord) => void) {
+    this.#send = send;
+  }
+
+  exportSpan(span: TelemetrySpanData): void {
+    this.#send({ kind: 'span', span });
+  }
+
+  exportMetric(metric: TelemetryMetricData): void {
+    this.#send({ kind: 'metric', metric });
+  }
+
+  exportEvent(event: TelemetryEventData): void {
+    this.#send({ kind: 'event', event });
+  }
+}
+
+/**
+ * Configuration for an OtlpJsonExporter
+ */
+export interface OtlpJsonExporterOptions {
+  /**
+   * Collector base URL, e.g. 'https://collector.example.com:4318'. Spans are
+   * posted to `/v1/traces`, metrics to `/v1/metrics` and events, as log
+   * records, to `/v1/logs`.
+   */
+  endpoint: string;
+  /** Extra headers sent with every request (e.g. an API key) */
+  headers?: Record<string, string>;
+  /** service.name resource attribute (default '@beings/core') */
+  serviceName?: string;
+  /** Further resource attributes, e.g. service.version or deployment.environment */
+  resourceAttributes?: TelemetryAttributes;
+  /** Records buffered before a batch is sent (default 100) */
+  maxBatchSize?: number;
+  /** Delay (ms) before a partial batch is sent (default 5000) */
+  flushIntervalMs?: number;
+  /** fetch implementation (default: global fetch) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Exporter that posts batches to an OpenTelemetry collector as OTLP/HTTP JSON
+ *
+ * A batch that fails to send is logged and dropped; telemetry never holds up
+ * or fails a recording.
+ *
+ * @example
+ * ```typescript
+ * const recorder = new SlowTrackRecorder({
+ *   width: 1920, height: 1080, frameRate: 30, bitrate: 4_000_000,
+ *   telemetry: new OtlpJsonExporter({ endpoint: 'https://collector.example.com:4318' })
+ * });
+ * ```
+ */
+export class OtlpJsonExporter implements TelemetryExporter {
+  #endpoint: string;
+  #headers: Record<string, string>;
+  #resource: { attributes: OtlpKeyValue[] };
+  #maxBatchSize: number;
+  #flushIntervalMs: number;
+  #fetch: typeof fetch;
+
+  #spans: TelemetrySpanData[] = [];
+  #metrics: TelemetryMetricData[] = [];
+  #events: TelemetryEventData[] = [];
+  #flushTimer: ReturnType<typeof setTimeout> | null = null;
+  #inFlight = new Set<Promise<void>>();
+
+  constructor(options: OtlpJsonExporterOptions) {
+    const maxBatchSize = options.maxBatchSize ?? DEFAULT_OTLP_BATCH_SIZE;
+    if (!(Number.isInteger(maxBatchSize) && maxBatchSize > 0)) {
+      throw new Error(`Invalid OTLP batch size: ${maxBatchSize}`);
+    }
+
+    this.#endpoint = options.endpoint.replace(/\/+$/, '');
+    this.#headers = options.headers ?? {};
+    this.#resource = {
+      attributes: toOtlpAttributes({ 'service.name': options.serviceName ?? SCOPE_NAME, ...options.resourceAttributes })
+    };
+    this.#maxBatchSize = maxBatchSize;
+    this.#flushIntervalMs = options.flushIntervalMs ?? DEFAULT_OTLP_FLUSH_INTERVAL_MS;
+    this.#fetch = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  exportSpan(span: TelemetrySpanData): void {
+    this.#spans.push(span);
+    this.#onRecord();
+  }
+
+  exportMetric(metric: TelemetryMetricData): void {
+    this.#metrics.push(metric);
+    this.#onRecord();
+  }
+
+  exportEvent(event: TelemetryEventData): void {
+    this.#events.push(event);
+    this.#onRecord();
+  }
+
+  /**
+   * Send everything buffered and wait for every request in flight
+   */
+  async flush(): Promise<void> {
+    this.#sendBatch();
+    await Promise.all(this.#inFlight);
+  }
+
+  #onRecord(): void {
+    if (this.#spans.length + this.#metrics.length + this.#events.length >= this.#maxBatchSize) {
+      this.#sendBatch();
+    } else {
+      this.#flushTimer ??= setTimeout(() => this.#sendBatch(), this.#flushIntervalMs);
+    }
+  }
+
+  #sendBatch(): void {
+    if (this.#flushTimer !== null) {
+      clearTimeout(this.#flushTimer);
+      this.#flushTimer = null;
+    }
+
+    const scope = { name: SCOPE_NAME };
+    if (this.#spans.length > 0) {
+      const spans = this.#spans.map(toOtlpSpan);
+      this.#spans = [];
+      this.#post('/v1/traces', { resourceSpans: [{ resource: this.#resource, scopeSpans: [{ scope, spans }] }] });
+    }
+    if (this.#metrics.length > 0) {
+      const metrics = this.#metrics.map(toOtlpMetric);
+      this.#metrics = [];
+      this.#post('/v1/metrics', { resourceMetrics: [{ resource: this.#resource, scopeMetrics: [{ scope, metrics }] }] });
+    }
+    if (this.#events.length > 0) {
+      const logRecords = this.#events.map(toOtlpLogRecord);
+      this.#events = [];
+      this.#post('/v1/logs', { resourceLogs: [{ resource: this.#resource, scopeLogs: [{ scope, logRecords }] }] });
+    }
+  }
+
+  #post(path: string, body: unknown): void {
+    const request = (async () => {
+      try {
+        const response = await this.#fetch(this.#endpoint + path, {
+          method: 'POST',
+          headers: { ...this.#headers, 'Content-Type': 'application/json' },
+          body: JSON.stringify(body)
+        });
+        if (!response.ok) {
+          log.warn(`${path} rejected with status ${response.status}, batch dropped`);
+        }
+      } catch (error) {
+        log.warn(`Error sending ${path}, batch dropped:`, error);
+      }
+    })();
+    this.#inFlight.add(request);
+    request.finally(() => this.#inFlight.delete(request));
+  }
+}
+
+/**
+ * An operation in progress, ended with end()
+ */
+export class TelemetrySpan {
+  readonly context: TelemetryContext;
+  #name: string;
+  #parentSpanId: string | undefined;
+  #startTime: number;
+  #attributes: TelemetryAttributes;
+  #events: TelemetrySpanData['events'] = [];
+  #onEnd: (span: TelemetrySpanData) => void;
+  #isEnded = false;
+
+  /** @internal Created by Telemetry.startSpan() */
+  constructor(
+    name: string,
+    context: TelemetryContext,
+    parentSpanId: string | undefined,
+    attributes: TelemetryAttributes,
+    onEnd: (span: TelemetrySpanData) => void
+  ) {
+    this.context = context;
+    this.#name = name;
+    this.#parentSpanId = parentSpanId;
+    this.#startTime = now();
+    this.#attributes = { ...attributes };
+    this.#onEnd = onEnd;
+  }
+
+  get isEnded(): boolean {
+    return this.#isEnded;
+  }
+
+  setAttributes(attributes: TelemetryAttributes): void {
+    Object.assign(this.#attributes, attributes);
+  }
+
+  /**
+   * Mark a point in time within the span
+   */
+  addEvent(name: string, attributes: TelemetryAttributes = {}): void {
+    this.#events.push({ name, time: now(), attributes });
+  }
+
+  /**
+   * End the span and export it; later calls do nothing
+   *
+   * @param error - Why the operation failed, giving the span an 'error' status
+   */
+  end(error?: unknown): void {
+    if (this.#isEnded) {
+      return;
+    }
+    this.#isEnded = true;
+    this.#onEnd({
+      ...this.context,
+      ...(this.#parentSpanId && { parentSpanId: this.#parentSpanId }),
+      name: this.#name,
+      startTime: this.#startTime,
+      endTime: now(),
+      attributes: this.#attributes,
+      events: this.#events,
+      status: error === undefined ? 'ok' : 'error',
+      ...(error !== undefined && { statusMessage: error instanceof Error ? error.message : String(error) })
+    });
+  }
+}
+
+/**
+ * Records spans, metrics and events into an exporter
+ *
+ * A failing exporter is logged and otherwise ignored.
+ */
+export class Telemetry {
+  #exporter: TelemetryExporter;
+
+  /**
+   * @param exporter - Where telemetry goes (default: nowhere)
+   */
+  constructor(exporter: TelemetryExporter = new NoopTelemetryExporter()) {
+    this.#exporter = exporter;
+  }
+
+  /** Whether anything is exported, so work done only for telemetry can be skipped */
+  get isEnabled(): boolean {
+    return !(this.#exporter instanceof NoopTelemetryExporter);
+  }
+
+  /**
+   * Start a span
+   *
+   * @param parent - Span to nest it in; without one the span starts a new trace
+   */
+  startSpan(name: string, attributes: TelemetryAttributes = {}, parent?: TelemetryContext | null): TelemetrySpan {
+    const context = { traceId: parent?.traceId ?? randomHex(16), spanId: randomHex(8) };
+    return new TelemetrySpan(name, context, parent?.spanId, attributes, (span) => {
+      this.#export(exporter => exporter.exportSpan(span));
+    });
+  }
+
+  /**
+   * Run an operation in a span, ended with its outcome
+   */
+  async trace<T>(name: string, attributes: TelemetryAttributes, parent: TelemetryContext | null | undefined, operation: (span: TelemetrySpan) => Promise<T> | T): Promise<T> {
+    const span = this.startSpan(name, attributes, parent);
+    try {
+      const result = await operation(span);
+      span.end();
+      return result;
+    } catch (error) {
+      span.end(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a measurement
+   */
+  recordMetric(name: string, value: number, unit?: string, attributes: TelemetryAttributes = {}): void {
+    this.#export(exporter => exporter.exportMetric({ name, value, ...(unit && { unit }), time: now(), attributes }));
+  }
+
+  /**
+   * Record something that happened
+   *
+   * @param context - Span it happened in
+   */
+  recordEvent(name: string, attributes: TelemetryAttributes = {}, context?: TelemetryContext | null, severity: TelemetryEventData['severity'] = 'info'): void {
+    this.#export(exporter => exporter.exportEvent({ name, severity, time: now(), attributes, ...(context && { context }) }));
+  }
+
+  /**
+   * Export a record forwarded from a worker
+   */
+  exportRecord(record: TelemetryRecord): void {
+    this.#export((exporter) => {
+      switch (record.kind) {
+        case 'span':
+          exporter.exportSpan(record.span);
+          break;
+        case 'metric':
+          exporter.exportMetric(record.metric);
+          break;
+        case 'event':
+          exporter.exportEvent(record.event);
+          break;
+      }
+    });
+  }
+
+  /**
+   * Ask the exporter to send anything buffered
+   */
+  async flush(): Promise<void> {
+    try {
+      await this.#exporter.flush?.();
+    } catch (error) {
+      log.warn('Error flushing exporter:', error);
+    }
+  }
+
+  #export(call: (exporter: TelemetryExporter) => void): void {
+    try {
+      call(this.#exporter);
+    } catch (error) {
+      log.warn('Error in exporter:', error);
+    }
+  }
+}
+
+/**
+ * Wall-clock time in ms since the epoch, at performance.now() resolution
+ */
+function now(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+/**
+ * Random lowercase hex id of a byte length (16 for trace ids, 8 for span ids)
+ */
+function randomHex(bytes: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// OTLP/JSON encoding (opentelemetry-proto, JSON protobuf mapping)
+
+type OtlpKeyValue = { key: string; value: { stringValue: string } | { boolValue: boolean } | { intValue: string } | { doubleValue: number } };
+
+/**
+ * ms since the epoch as a uint64 nanosecond string
+ */
+function toUnixNano(time: number): string {
+  return (BigInt(Math.round(time * 1000)) * 1000n).toString();
+}
+
+function toOtlpAttributes(attributes: TelemetryAttributes): OtlpKeyValue[] {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value: typeof value === 'string' ? { stringValue: value }
+      : typeof value === 'boolean' ? { boolValue: value }
+      : Number.isSafeInteger(value) ? { intValue: String(value) }
+      : { doubleValue: value }
+  }));
+}
+
+function toOtlpSpan(span: TelemetrySpanData) {
+  return {
+    traceId: span.traceId,
+    spanId: span.spanId,
+    ...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+    name: span.name,
+    kind: 1, // SPAN_KIND_INTERNAL
+    startTimeUnixNano: toUnixNano(span.startTime),
+    endTimeUnixNano: toUnixNano(span.endTime),
+    attributes: toOtlpAttributes(span.attributes),
+    events: span.events.map(event => ({
+      timeUnixNano: toUnixNano(event.time),
+      name: event.name,
+      attributes: toOtlpAttributes(event.attributes)
+    })),
+    status: span.status === 'ok'
+      ? { code: 1 } // STATUS_CODE_OK
+      : { code: 2, message: span.statusMessage ?? '' } // STATUS_CODE_ERROR
+  };
+}
+
+function toOtlpMetric(metric: TelemetryMetricData) {
+  return {
+    name: metric.name,
+    ...(metric.unit && { unit: metric.unit }),
+    gauge: {
+      dataPoints: [{
+        timeUnixNano: toUnixNano(metric.time),
+        asDouble: metric.value,
+        attributes: toOtlpAttributes(metric.attributes)
+      }]
+    }
+  };
+}
+
+const SEVERITY_NUMBERS = { info: 9, warn: 13, error: 17 } as const;
+
+function toOtlpLogRecord(event: TelemetryEventData) {
+  return {
+    timeUnixNano: toUnixNano(event.time),
+    severityNumber: SEVERITY_NUMBERS[event.severity],
+    severityText: event.severity.toUpperCase(),
+    body: { stringValue: event.name },
+    attributes: toOtlpAttributes({ 'event.name': event.name, ...event.attributes }),
+    ...(event.context && { traceId: event.context.traceId, spanId: event.context.spanId })
+  };
+}
@@ -0,0 +1,242 @@
+// @vitest-environment node
+import { describe, test, expect } from 'vitest';
+import { TusUploader } from './TusUploader';
+import type { UploadStateStorage, UploadProgress } from './TusUploader';
+import { createFetchStandIn } from './test-utils';
+import type { StandInRequest } from './test-utils';
+
+const MiB = 1024 * 1024;
+const ENDPOINT = 'http://tus.test/files/';
+
+/**
+ * In-process TUS 1.0.0 server (creation + deferred length) behind a fetch() stand-in
+ */
+const createTusStandIn = () => {
+  const uploads = new Map<string, { data: Uint8Array; length: number | null }>();
+  const append = (upload: { data: Uint8Array }, bytes: Uint8Array) => {
+    const data = new Uint8Array(upload.data.length + bytes.length);
+    data.set(upload.data);
+    data.set(bytes, upload.data.length);
+    upload.data = data;
+  };
+  let patchFailures = 0;
+  let keepPartialPart = false;
+
+  const { fetch, requests } = createFetchStandIn(ENDPOINT, async ({ method, path, headers, body }) => {
+    if (headers['Tus-Resumable'] !== '1.0.0') {
+      return new Response(null, { status: 412 });
+    }
+
+    if (method === 'POST' && path === '') {
+      const id = `upload-${uploads.size + 1}`;
+      const length = headers['Upload-Length'] !== undefined ? Number(headers['Upload-Length']) : null;
+      uploads.set(id, { data: new Uint8Array(0), length });
+      return new Response(null, { status: 201, headers: { Location: `/files/${id}` } });
+    }
+
+    const upload = uploads.get(path);
+    if (!upload) {
+      return new Response(null, { status: 404 });
+    }
+
+    if (method === 'HEAD') {
+      const responseHeaders: Record<string, string> = { 'Upload-Offset': String(upload.data.length) };
+      if (upload.length === null) {
+        responseHeaders['Upload-Defer-Length'] = '1';
+      } else {
+        responseHeaders['Upload-Length'] = String(upload.length);
+      }
+      return new Response(null, { status: 200, headers: responseHeaders });
+    }
+
+    if (method === 'PATCH') {
+      if (Number(headers['Upload-Offset']) !== upload.data.length) {
+        return new Response(null, { status: 409 });
+      }
+      if (headers['Upload-Length'] !== undefined) {
+        if (upload.length !== null) {
+          return new Response(null, { status: 400 });
+        }
+        upload.length = Number(headers['Upload-Length']);
+      }
+
+      const part = (body as Uint8Array | undefined) ?? new Uint8Array(0);
+      if (patchFailures > 0) {
+        // Drop the connection, optionally after half of the part arrived
+        patchFailures--;
+        if (keepPartialPart) {
+          append(upload, part.subarray(0, part.length / 2));
+        }
+        throw new TypeError('Failed to fetch');
+      }
+
+      append(upload, part);
+      return new Response(null, { status: 204, headers: { 'Upload-Offset': String(upload.data.length) } });
+    }
+
+    return new Response(null, { status: 405 });
+  });
+
+  return {
+    fetch,
+    requests,
+    uploads,
+    failNextPatches: (count: number, keepPartial = false) => {
+      patchFailures = count;
+      keepPartialPart = keepPartial;
+    }
+  };
+};
+
+const createStorage = (): UploadStateStorage & { items: Map<string, string> } => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => { items.set(key, value); },
+    removeItem: (key) => { items.delete(key); }
+  };
+};
+
+const createRecording = (size: number) => {
+  const bytes = new Uint8Array(size);
+  for (let i = 0; i < size; i++) {
+    bytes[i] = (i * 13 + 5) & 0xff;
+  }
+  return bytes;
+};
+
+/** Bytes sent in a request */
+const bodySize = (request: StandInRequest) => (request.body as Uint8Array | undefined)?.byteLength ?? 0;
+
+const isSameBytes = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((value, i) => value === b[i]);
+
+const writeInPieces = (uploader: TusUploader, bytes: Uint8Array, pieceSize: number) => {
+  for (let position = 0; position < bytes.length; position += pieceSize) {
+    uploader.write(bytes.subarray(position, position + pieceSize), position);
+  }
+};
+
+describe('TusUploader', () => {
+  test('should upload output in parts while it is written and declare the length on finish()', async () => {
+    const server = createTusStandIn();
+    const recording = createRecording(12 * MiB);
+    const uploader = new TusUploader({
+      endpoint: ENDPOINT,
+      fingerprint: 'session-1',
+      partSize: 5 * MiB,
+      metadata: { filename: 'recording.mp4' },
+      storage: createStorage(),
+      fetch: server.fetch
+    });
+
+    const progress: UploadProgress[] = [];
+    uploader.on('progress', (p) => progress.push(p));
+
+    writeInPieces(uploader, recording, MiB);
+    const uploadUrl = await uploader.finish();
+
+    expect(uploadUrl).toBe(`${ENDPOINT}upload-1`);
+    const [creation, ...patches] = server.requests;
+    expect(creation.headers['Upload-Defer-Length']).toBe('1');
+    expect(creation.headers['Upload-Metadata']).toBe(`filename ${btoa('recording.mp4')}`);
+    expect(patches.map(bodySize)).toEqual([5 * MiB, 5 * MiB, 2 * MiB]);
+    expect(patches[2].headers['Upload-Length']).toBe(String(12 * MiB));
+
+    expect(isSameBytes(server.uploads.get('upload-1')!.data, recording)).toBe(true);
+    expect(progress.map(p => p.bytesUploaded)).toEqual([5 * MiB, 10 * MiB, 12 * MiB]);
+    expect(progress[2].bytesTotal).toBe(12 * MiB);
+  });
+
+  test('should retry a failed part and resend from the server offset', async () => {
+    const server = createTusStandIn();
+    const recording = createRecording(6 * MiB);
+    const uploader = new TusUploader({
+      endpoint: ENDPOINT,
+      fingerprint: 'session-2',
+      partSize: 5 * MiB,
+      retryDelays: [0, 0],
+      storage: createStorage(),
+      fetch: server.fetch
+    });
+
+    server.failNextPatches(1, true);
+    writeInPieces(uploader, recording, MiB);
+    await uploader.finish();
+
+    expect(isSameBytes(server.uploads.get('upload-1')!.data, recording)).toBe(true);
+    expect(server.requests.some(r => r.method === 'HEAD')).toBe(true);
+  });
+
+  test('should give up once the retries are exhausted', async () => {
+    const server = createTusStandIn();
+    const uploader = new TusUploader({
+      endpoint: ENDPOINT,
+      fingerprint: 'session-3',
+      partSize: 5 * MiB,
+      retryDelays: [0],
+      storage: createStorage(),
+      fetch: server.fetch
+    });
+
+    const errors: Error[] = [];
+    uploader.on('error', (error) => errors.push(error));
+
+    server.failNextPatches(5);
+    writeInPieces(uploader, createRecording(MiB), MiB);
+
+    await expect(uploader.finish()).rejects.toThrow('Network error: Failed to fetch');
+    expect(errors).toHaveLength(1);
+  });
+
+  test('uploadBlob() should resume a persisted upload after a reload', async () => {
+    const server = createTusStandIn();
+    const storage = createStorage();
+    const recording = createRecording(11 * MiB);
+
+    // First page load: two parts go up while recording, then the tab is closed
+    const firstUploader = new TusUploader({ endpoint: ENDPOINT, fingerprint: 'session-4', partSize: 5 * MiB, storage, fetch: server.fetch });
+    await new Promise<void>((resolve) => {
+      firstUploader.on('progress', (p) => p.bytesUploaded === 10 * MiB && resolve());
+      writeInPieces(firstUploader, recording, MiB);
+    });
+
+    expect(TusUploader.getPersistedState('session-4', storage)).toMatchObject({
+      uploadUrl: `${ENDPOINT}upload-1`,
+      offset: 10 * MiB
+    });
+
+    // Second page load: the stored recording is handed over in full
+    server.requests.length = 0;
+    const secondUploader = new TusUploader({ endpoint: ENDPOINT, fingerprint: 'session-4', partSize: 5 * MiB, storage, fetch: server.fetch });
+    await secondUploader.uploadBlob(new Blob([recording]));
+
+    expect(server.requests.map(r => r.method)).toEqual(['HEAD', 'PATCH']);
+    expect(bodySize(server.requests[1])).toBe(MiB);
+    expect(server.requests[1].headers['Upload-Length']).toBe(String(11 * MiB));
+    expect(isSameBytes(server.uploads.get('upload-1')!.data, recording)).toBe(true);
+    expect(TusUploader.getPersistedState('session-4', storage)).toBeNull();
+  });
+
+  test('should reject writes that would change bytes already uploaded', async () => {
+    const server = createTusStandIn();
+    const uploader = new TusUploader({ endpoint: ENDPOINT, fingerprint: 'session-5', partSize: 5 * MiB, storage: createStorage(), fetch: server.fetch });
+
+    await new Promise<void>((resolve) => {
+      uploader.on('progress', () => resolve());
+      writeInPieces(uploader, createRecording(5 * MiB), MiB);
+    });
+
+    const errors: Error[] = [];
+    uploader.on('error', (error) => errors.push(error));
+    uploader.write(new Uint8Array(4), 0);
+
+    expect(errors[0].message).toContain('Cannot rewrite bytes at 0');
+    await expect(uploader.finish()).rejects.toThrow('Cannot rewrite bytes at 0');
+  });
+
+  test('should only accept part sizes between 5 and 10 MiB', () => {
+    expect(() => new TusUploader({ endpoint: ENDPOINT, fingerprint: 'x', partSize: MiB })).toThrow('partSize must be between');
+    expect(() => new TusUploader({ endpoint: ENDPOINT, fingerprint: 'x', partSize: 11 * MiB })).toThrow('partSize must be between');
+  });
+});
@@ -0,0 +1,545 @@
+/**
+ * TUS Uploader
+ *
+ * Resumable upload client (tus protocol 1.0.0, creation extension) that
+ * uploads a recording while it is being recorded. Muxed output is fed in with
+ * write() as the recorder produces it (the recorder's 'data' event) and sent
+ * in fixed-size parts; the final length is declared once finish() is called.
+ *
+ * The upload URL and confirmed offset are persisted under a caller-chosen
+ * fingerprint, so after a reload the same recording (e.g. its OPFS file) can
+ * be passed to uploadBlob() to continue from where the server left off.
+ */
+
+import { Logger } from './Logger';
+
+const log = new Logger('upload');
+
+const TUS_VERSION = '1.0.0';
+const STORAGE_KEY_PREFIX = 'beings-tus::';
+
+/** Parts are sent in 5-10 MiB pieces (the last part may be smaller) */
+export const MIN_UPLOAD_PART_SIZE = 5 * 1024 * 1024;
+export const MAX_UPLOAD_PART_SIZE = 10 * 1024 * 1024;
+export const DEFAULT_UPLOAD_PART_SIZE = 8 * 1024 * 1024;
+
+/** Delays before each retry of a failed request, in milliseconds */
+export const DEFAULT_UPLOAD_RETRY_DELAYS = [1000, 3000, 5000, 10000];
+
+/**
+ * Minimal key-value store used to persist upload offsets (localStorage-compatible)
+ */
+export interface UploadStateStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/**
+ * Persisted state of an in-progress upload
+ */
+export interface PersistedUploadState {
+  /** Upload URL returned by the server on creation */
+  uploadUrl: string;
+  /** Last offset confirmed by the server */
+  offset: number;
+  /** Wall-clock time of the last confirmed part (ms since epoch) */
+  updatedAt: number;
+}
+
+/**
+ * Configuration for a TusUploader
+ */
+export interface TusUploaderOptions {
+  /** TUS creation endpoint */
+  endpoint: string;
+  /** Stable identifier for this recording; keys the persisted upload state */
+  fingerprint: string;
+  /** Bytes per PATCH request, between 5 and 10 MiB (default 8 MiB) */
+  partSize?: number;
+  /** Upload-Metadata sent on creation (values are base64-encoded for you) */
+  metadata?: Record<string, string>;
+  /** Extra headers sent with every request (e.g. Authorization) */
+  headers?: Record<string, string>;
+  /** Delays before each retry, in milliseconds; its length is the retry limit */
+  retryDelays?: number[];
+  /** Where upload state is persisted (default: localStorage when available) */
+  storage?: UploadStateStorage | null;
+  /** fetch implementation (default: global fetch) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Upload progress snapshot
+ */
+export interface UploadProgress {
+  /** Bytes confirmed by the server */
+  bytesUploaded: number;
+  /** Bytes handed to the uploader so far */
+  bytesReceived: number;
+  /** Total size, once known */
+  bytesTotal: number | null;
+}
+
+/**
+ * Event definitions for TusUploader
+ */
+export interface UploaderEvents {
+  'progress': (progress: UploadProgress) => void;
+  'complete': (uploadUrl: string) => void;
+  'error': (error: Error) => void;
+}
+
+/**
+ * Base64-encode a UTF-8 string (for Upload-Metadata values)
+ */
+function encodeBase64(value: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(value)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * A request the server may succeed on if repeated
+ */
+class RetryableUploadError extends Error {}
+
+/**
+ * Resumable upload client that streams a recording to a TUS server
+ *
+ * @example
+ * ```typescript
+ * const uploader = new TusUploader({ endpoint: '/files/', fingerprint: 'session-42' });
+ * recorder.on('data', (data, position) => uploader.write(data, position));
+ *
+ * await recorder.start(stream);
+ * // ...
+ * await recorder.stop();
+ * await uploader.finish();
+ * ```
+ */
+export class TusUploader {
+  #options: Required<Omit<TusUploaderOptions, 'metadata' | 'storage'>> & Pick<TusUploaderOptions, 'metadata'>;
+  #storage: UploadStateStorage | null;
+  #listeners: Map<keyof UploaderEvents, Set<Function>> = new Map();
+
+  #uploadUrl: string | null = null;
+
+  /** Bytes not yet confirmed by the server, starting at #bufferStart */
+  #buffer = new Uint8Array(0);
+  #bufferStart = 0;
+  #bufferEnd = 0;
+  /** End of the part currently being sent; those bytes can no longer change */
+  #inFlightEnd = 0;
+
+  #totalSize: number | null = null;
+  /** Whether the server already knows the final length */
+  #isLengthDeclared = false;
+  #uploadLoop: Promise<void> | null = null;
+  #error: Error | null = null;
+  #isComplete = false;
+
+  constructor(options: TusUploaderOptions) {
+    const partSize = options.partSize ?? DEFAULT_UPLOAD_PART_SIZE;
+    if (partSize < MIN_UPLOAD_PART_SIZE || partSize > MAX_UPLOAD_PART_SIZE) {
+      throw new Error(`partSize must be between ${MIN_UPLOAD_PART_SIZE} and ${MAX_UPLOAD_PART_SIZE} bytes, got ${partSize}`);
+    }
+
+    this.#options = {
+      endpoint: options.endpoint,
+      fingerprint: options.fingerprint,
+      partSize,
+      metadata: options.metadata,
+      headers: options.headers ?? {},
+      retryDelays: options.retryDelays ?? DEFAULT_UPLOAD_RETRY_DELAYS,
+      fetch: options.fetch ?? ((input, init) => fetch(input, init))
+    };
+    this.#storage = options.storage !== undefined
+      ? options.storage
+      : (typeof localStorage !== 'undefined' ? localStorage : null);
+  }
+
+  /**
+   * Read the persisted state of an upload, if one is in progress
+   */
+  static getPersistedState(fingerprint: string, storage: UploadStateStorage | null = typeof localStorage !== 'undefined' ? localStorage : null): PersistedUploadState | null {
+    const value = storage?.getItem(STORAGE_KEY_PREFIX + fingerprint);
+    return value ? JSON.parse(value) as PersistedUploadState : null;
+  }
+
+  /**
+   * Register an event listener
+   */
+  on<T extends keyof UploaderEvents>(event: T, callback: UploaderEvents[T]): void {
+    if (!this.#listeners.has(event)) {
+      this.#listeners.set(event, new Set());
+    }
+    this.#listeners.get(event)!.add(callback);
+  }
+
+  /**
+   * Remove an event listener
+   */
+  off<T extends keyof UploaderEvents>(event: T, callback: UploaderEvents[T]): void {
+    this.#listeners.get(event)?.delete(callback);
+  }
+
+  /** Upload URL, once the upload has been created */
+  get uploadUrl(): string | null {
+    return this.#uploadUrl;
+  }
+
+  /** Current progress */
+  get progress(): UploadProgress {
+    return {
+      bytesUploaded: this.#bufferStart,
+      bytesReceived: this.#bufferEnd,
+      bytesTotal: this.#totalSize
+    };
+  }
+
+  /**
+   * Hand muxed output to the uploader
+   *
+   * Writes may patch bytes that have not been sent yet, but must not leave
+   * gaps or touch bytes already uploaded.
+   *
+   * @param data - Output bytes (copied)
+   * @param position - Byte offset of `data` in the file
+   */
+  write(data: Uint8Array, position: number): void {
+    if (this.#error || this.#isComplete) {
+      return;
+    }
+    if (this.#totalSize !== null) {
+      this.#fail(new Error('Cannot write after finish()'));
+      return;
+    }
+    if (position < Math.max(this.#bufferStart, this.#inFlightEnd)) {
+      this.#fail(new Error(`Cannot rewrite bytes at ${position}: already uploaded up to ${Math.max(this.#bufferStart, this.#inFlightEnd)}`));
+      return;
+    }
+    if (position > this.#bufferEnd) {
+      this.#fail(new Error(`Non-contiguous write at ${position}: only ${this.#bufferEnd} bytes received`));
+      return;
+    }
+
+    const end = position + data.byteLength;
+    this.#ensureCapacity(end - this.#bufferStart);
+    this.#buffer.set(data, position - this.#bufferStart);
+    this.#bufferEnd = Math.max(this.#bufferEnd, end);
+
+    if (this.#bufferEnd - this.#bufferStart >= this.#options.partSize) {
+      this.#scheduleUpload();
+    }
+  }
+
+  /**
+   * Declare the final length and upload everything that remains
+   *
+   * @returns The upload URL
+   */
+  async finish(): Promise<string> {
+    if (this.#error) {
+      throw this.#error;
+    }
+    if (this.#totalSize === null) {
+      this.#totalSize = this.#bufferEnd;
+    }
+
+    while (!this.#isComplete && !this.#error) {
+      await this.#scheduleUpload();
+    }
+
+    if (this.#error) {
+      throw this.#error;
+    }
+    return this.#uploadUrl!;
+  }
+
+  /**
+   * Upload a complete file, resuming a persisted upload for this fingerprint
+   *
+   * Use after a reload with the recording's stored file to finish an upload
+   * that was started while recording.
+   *
+   * @returns The upload URL
+   */
+  async uploadBlob(blob: Blob): Promise<string> {
+    if (this.#bufferEnd > 0 || this.#uploadLoop) {
+      throw new Error('uploadBlob() cannot be combined with write()');
+    }
+
+    this.#totalSize = blob.size;
+    await this.#resumeOrCreate();
+
+    // Feed the blob from the confirmed offset, one part at a time
+    while (!this.#error && this.#bufferStart < blob.size) {
+      const end = Math.min(this.#bufferStart + this.#options.partSize, blob.size);
+      const part = new Uint8Array(await blob.slice(this.#bufferStart, end).arrayBuffer());
+      this.#ensureCapacity(part.byteLength);
+      this.#buffer.set(part, 0);
+      this.#bufferEnd = end;
+      await this.#scheduleUpload();
+    }
+
+    return this.finish();
+  }
+
+  /**
+   * Start the upload loop if it is not already running
+   */
+  #scheduleUpload(): Promise<void> {
+    if (!this.#uploadLoop) {
+      this.#uploadLoop = this.#runUploadLoop()
+        .catch((error) => this.#fail(error instanceof Error ? error : new Error(String(error))))
+        .finally(() => {
+          this.#uploadLoop = null;
+        });
+    }
+    return this.#uploadLoop;
+  }
+
+  /**
+   * Send parts while there is a full part buffered (or anything at all once finishing)
+   */
+  async #runUploadLoop(): Promise<void> {
+    // Live uploads always start fresh; only uploadBlob() can resume
+    if (!this.#uploadUrl) {
+      await this.#withRetries(() => this.#createUpload());
+    }
+
+    while (!this.#error && !this.#isComplete) {
+      const buffered = this.#bufferEnd - this.#bufferStart;
+      const isFinishing = this.#totalSize !== null;
+
+      if (buffered < this.#options.partSize && !isFinishing) {
+        return;
+      }
+      if (isFinishing && buffered === 0 && this.#bufferStart < this.#totalSize!) {
+        return;
+      }
+
+      const partLength = Math.min(buffered, this.#options.partSize);
+      const isLastPart = isFinishing && this.#bufferStart + partLength === this.#totalSize;
+      await this.#withRetries(() => this.#sendPart(partLength, isLastPart));
+
+      if (isFinishing && this.#bufferStart === this.#totalSize) {
+        this.#complete();
+      }
+    }
+  }
+
+  /**
+   * Continue the persisted upload for this fingerprint, or create a new one
+   */
+  async #resumeOrCreate(): Promise<void> {
+    const persisted = TusUploader.getPersistedState(this.#options.fingerprint, this.#storage);
+
+    if (persisted) {
+      const offset = await this.#withRetries(() => this.#fetchServerOffset(persisted.uploadUrl));
+      if (offset !== null) {
+        this.#uploadUrl = persisted.uploadUrl;
+        this.#dropConfirmedBytes(offset);
+        log.info(`Resuming upload ${persisted.uploadUrl} at offset ${offset}`);
+        return;
+      }
+      log.warn(`Persisted upload ${persisted.uploadUrl} no longer exists, starting over`);
+    }
+
+    await this.#withRetries(() => this.#createUpload());
+  }
+
+  /**
+   * POST to the creation endpoint
+   */
+  async #createUpload(): Promise<void> {
+    const headers: Record<string, string> = { ...this.#requestHeaders() };
+    if (this.#totalSize !== null) {
+      headers['Upload-Length'] = String(this.#totalSize);
+      this.#isLengthDeclared = true;
+    } else {
+      headers['Upload-Defer-Length'] = '1';
+    }
+    if (this.#options.metadata) {
+      headers['Upload-Metadata'] = Object.entries(this.#options.metadata)
+        .map(([key, value]) => `${key} ${encodeBase64(value)}`)
+        .join(',');
+    }
+
+    const response = await this.#request(this.#options.endpoint, { method: 'POST', headers });
+    const location = response.headers.get('Location');
+    if (response.status !== 201 || !location) {
+      throw this.#responseError('Upload creation failed', response);
+    }
+
+    this.#uploadUrl = new URL(location, this.#options.endpoint).toString();
+    this.#persistState();
+    log.info(`Created upload ${this.#uploadUrl}`);
+  }
+
+  /**
+   * HEAD the upload for its confirmed offset (null if the upload is gone)
+   */
+  async #fetchServerOffset(uploadUrl: string): Promise<number | null> {
+    const response = await this.#request(uploadUrl, { method: 'HEAD', headers: this.#requestHeaders() });
+    if (response.status === 404 || response.status === 410) {
+      return null;
+    }
+
+    const offset = Number(response.headers.get('Upload-Offset'));
+    if (!response.ok || !Number.isFinite(offset)) {
+      throw this.#responseError('Offset request failed', response);
+    }
+    this.#isLengthDeclared = response.headers.has('Upload-Length');
+    return offset;
+  }
+
+  /**
+   * PATCH one part starting at the confirmed offset
+   */
+  async #sendPart(partLength: number, isLastPart: boolean): Promise<void> {
+    const headers: Record<string, string> = {
+      ...this.#requestHeaders(),
+      'Upload-Offset': String(this.#bufferStart),
+      'Content-Type': 'application/offset+octet-stream'
+    };
+    if (isLastPart && !this.#isLengthDeclared) {
+      headers['Upload-Length'] = String(this.#totalSize);
+    }
+
+    // Copy out the part: the buffer keeps being written to while the request is in flight
+    const body = this.#buffer.slice(0, partLength);
+    this.#inFlightEnd = this.#bufferStart + partLength;
+    const response = await this.#request(this.#uploadUrl!, { method: 'PATCH', headers, body });
+
+    if (response.status === 409) {
+      // Offset mismatch (e.g. a previous attempt landed); resync and resend from there
+      const offset = await this.#fetchServerOffset(this.#uploadUrl!);
+      if (offset === null) {
+        throw new Error(`Upload ${this.#uploadUrl} no longer exists`);
+      }
+      this.#dropConfirmedBytes(offset);
+      return;
+    }
+
+    const offset = Number(response.headers.get('Upload-Offset'));
+    if (response.status !== 204 || !Number.isFinite(offset)) {
+      throw this.#responseError('Part upload failed', response);
+    }
+
+    if (headers['Upload-Length']) {
+      this.#isLengthDeclared = true;
+    }
+    this.#dropConfirmedBytes(offset);
+  }
+
+  /**
+   * Run a request, retrying with backoff on network errors and retryable statuses
+   */
+  async #withRetries<T>(attempt: () => Promise<T>): Promise<T> {
+    for (let retry = 0; ; retry++) {
+      try {
+        return await attempt();
+      } catch (error) {
+        const delay = this.#options.retryDelays[retry];
+        if (!(error instanceof RetryableUploadError) || delay === undefined) {
+          throw error;
+        }
+        log.warn(`${error.message}, retrying in ${delay}ms (attempt ${retry + 1}/${this.#options.retryDelays.length})`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * fetch() wrapper that turns network failures into retryable errors
+   */
+  async #request(url: string, init: RequestInit): Promise<Response> {
+    try {
+      return await this.#options.fetch(url, init);
+    } catch (error) {
+      throw new RetryableUploadError(`Network error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  #requestHeaders(): Record<string, string> {
+    return { ...this.#options.headers, 'Tus-Resumable': TUS_VERSION };
+  }
+
+  #responseError(message: string, response: Response): Error {
+    const text = `${message}: HTTP ${response.status}`;
+    const isRetryable = response.status >= 500 || response.status === 423 || response.status === 429;
+    return isRetryable ? new RetryableUploadError(text) : new Error(text);
+  }
+
+  /**
+   * Discard bytes the server has confirmed and persist the new offset
+   */
+  #dropConfirmedBytes(offset: number): void {
+    if (offset < this.#bufferStart) {
+      throw new Error(`Server offset ${offset} is behind data already discarded (${this.#bufferStart})`);
+    }
+
+    const confirmed = Math.min(offset, this.#bufferEnd) - this.#bufferStart;
+    this.#buffer.copyWithin(0, confirmed, this.#bufferEnd - this.#bufferStart);
+    this.#bufferStart = offset;
+    this.#bufferEnd = Math.max(this.#bufferEnd, offset);
+
+    this.#persistState();
+    this.#emit('progress', this.progress);
+  }
+
+  #ensureCapacity(length: number): void {
+    if (this.#buffer.byteLength >= length) {
+      return;
+    }
+    const grown = new Uint8Array(Math.max(length, this.#buffer.byteLength * 2, this.#options.partSize * 2));
+    grown.set(this.#buffer.subarray(0, this.#bufferEnd - this.#bufferStart));
+    this.#buffer = grown;
+  }
+
+  #persistState(): void {
+    if (!this.#storage || !this.#uploadUrl) {
+      return;
+    }
+    const state: PersistedUploadState = {
+      uploadUrl: this.#uploadUrl,
+      offset: this.#bufferStart,
+      updatedAt: Date.now()
+    };
+    this.#storage.setItem(STORAGE_KEY_PREFIX + this.#options.fingerprint, JSON.stringify(state));
+  }
+
+  #complete(): void {
+    this.#isComplete = true;
+    this.#buffer = new Uint8Array(0);
+    this.#storage?.removeItem(STORAGE_KEY_PREFIX + this.#options.fingerprint);
+    log.info(`✅ Upload complete (${this.#totalSize} bytes)`);
+    this.#emit('complete', this.#uploadUrl!);
+  }
+
+  #fail(error: Error): void {
+    if (this.#error) {
+      return;
+    }
+    this.#error = error;
+    log.error('Upload failed:', error);
+    this.#emit('error', error);
+  }
+
+  #emit<T extends keyof UploaderEvents>(event: T, ...args: Parameters<UploaderEvents[T]>): void {
+    const listeners = this.#listeners.get(event);
+    if (listeners) {
+      listeners.forEach(callback => {
+        try {
+          (callback as Function)(...args);
+        } catch (error) {
+          log.error(`Error in ${event} event listener:`, error);
+        }
+      });
+    }
+  }
+}
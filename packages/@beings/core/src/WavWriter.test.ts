@@ -0,0 +1,117 @@
+// @vitest-environment node
+import { describe, test, expect, vi, afterEach } from 'vitest';
+import { WavWriter, createWavHeader, WAV_MIME_TYPE } from './WavWriter';
+
+const text = (view: DataView, offset: number) => String.fromCharCode(...new Uint8Array(view.buffer, view.byteOffset + offset, 4));
+
+const readWav = async (blob: Blob) => {
+  const view = new DataView(await blob.arrayBuffer());
+  return {
+    view,
+    samples: Array.from(new Int16Array(view.buffer.slice(44)))
+  };
+};
+
+describe('WavWriter', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test('should write a 16-bit PCM RIFF file', async () => {
+    const writer = new WavWriter(48000, 2);
+    writer.write(0, new Int16Array([1, -1, 2, -2]));
+
+    const blob = await writer.finish();
+    expect(blob.type).toBe(WAV_MIME_TYPE);
+    const { view, samples } = await readWav(blob);
+
+    expect(text(view, 0)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(36 + 8);
+    expect(text(view, 8)).toBe('WAVE');
+    expect(text(view, 12)).toBe('fmt ');
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(48000);
+    expect(view.getUint32(28, true)).toBe(48000 * 4);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(text(view, 36)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(8);
+    expect(samples).toEqual([1, -1, 2, -2]);
+  });
+
+  test('should fill gaps with silence and drop overlaps by timestamp', async () => {
+    // 1 kHz mono: 1 frame = 1ms, tolerance 20 frames
+    const writer = new WavWriter(1000, 1);
+    writer.write(0, new Int16Array(10).fill(1));
+    writer.write(50_000, new Int16Array(10).fill(2));
+    writer.write(20_000, new Int16Array(50).fill(3));
+
+    const { samples } = await readWav(await writer.finish());
+    expect(samples).toHaveLength(70);
+    expect(samples.slice(8, 12)).toEqual([1, 1, 0, 0]);
+    expect(samples.slice(48, 52)).toEqual([0, 0, 2, 2]);
+    expect(samples.slice(58, 62)).toEqual([2, 2, 3, 3]);
+  });
+
+  test('should start at the muxed file\'s time zero', async () => {
+    const writer = new WavWriter(1000, 1);
+    writer.write(100_000, new Int16Array([5, 6, 7]));
+    expect(writer.frameCount).toBe(103);
+
+    const { view, samples } = await readWav(await writer.finish(101_000));
+    expect(view.getUint32(40, true)).toBe(4);
+    expect(samples).toEqual([6, 7]);
+  });
+
+  test('should stream samples to an OPFS file once it is open', async () => {
+    const files = new Map<string, Uint8Array>();
+    const written: Array<{ data: Uint8Array; position: number }> = [];
+    const directory = {
+      getFileHandle: vi.fn(async (name: string) => ({
+        createWritable: vi.fn(async () => ({
+          write: vi.fn(async ({ data, position }: { data: Uint8Array; position: number }) => {
+            written.push({ data: data.slice(), position });
+          }),
+          close: vi.fn(async () => {
+            const bytes = new Uint8Array(Math.max(0, ...written.map(({ data, position }) => position + data.byteLength)));
+            written.forEach(({ data, position }) => bytes.set(data, position));
+            files.set(name, bytes);
+          }),
+          abort: vi.fn(async () => {}),
+        })),
+        getFile: vi.fn(async () => new File([files.get(name) as BlobPart], name)),
+      })),
+      removeEntry: vi.fn(async () => {}),
+    };
+    vi.stubGlobal('navigator', { storage: { getDirectory: vi.fn(async () => ({ getDirectoryHandle: async () => directory })) } });
+
+    const writer = new WavWriter(1000, 1);
+    const opening = writer.openFile('recording-1.wav.pcm');
+    writer.write(0, new Int16Array([1, 2]));
+    await opening;
+    writer.write(2_000, new Int16Array([3, 4]));
+
+    const { view, samples } = await readWav(await writer.finish(1_000));
+    expect(writer.fileName).toBe('recording-1.wav.pcm');
+    expect(written.map(({ position }) => position)).toEqual([0, 4]);
+    expect(view.getUint32(40, true)).toBe(6);
+    expect(samples).toEqual([2, 3, 4]);
+  });
+
+  test('createWavHeader() should switch to RF64 past 4 GiB', () => {
+    const dataSize = 5 * 1024 ** 3;
+    const view = new DataView(createWavHeader(48000, 1, dataSize, dataSize / 2));
+
+    expect(view.byteLength).toBe(80);
+    expect(text(view, 0)).toBe('RF64');
+    expect(view.getUint32(4, true)).toBe(0xFFFFFFFF);
+    expect(text(view, 12)).toBe('ds64');
+    // 64-bit RIFF size, data size and sample count
+    expect(view.getUint32(20, true) + view.getUint32(24, true) * 2 ** 32).toBe(72 + dataSize);
+    expect(view.getUint32(28, true) + view.getUint32(32, true) * 2 ** 32).toBe(dataSize);
+    expect(view.getUint32(36, true) + view.getUint32(40, true) * 2 ** 32).toBe(dataSize / 2);
+    expect(text(view, 48)).toBe('fmt ');
+    expect(text(view, 72)).toBe('data');
+    expect(view.getUint32(76, true)).toBe(0xFFFFFFFF);
+  });
+});
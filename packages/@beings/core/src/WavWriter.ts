@@ -0,0 +1,221 @@
+/**
+ * WAV Writer
+ *
+ * Collects 16-bit PCM for the lossless side-track (`audio.wav`). Samples are
+ * placed by their media timestamps, so the file shares the recording's
+ * timeline: gaps are filled with silence and overlaps dropped, and the file is
+ * cut to start at the muxed file's time zero when it is built.
+ *
+ * Once `openFile()` has been called, samples are written to an OPFS file as
+ * they arrive and the finished WAV reads from that file, so long sessions stay
+ * out of memory. Otherwise they are gathered into Blobs. Files whose data would
+ * exceed the 4 GiB limit of RIFF are written as RF64 (EBU Tech 3306).
+ */
+
+import { OpfsFileWriter } from './OpfsFileWriter';
+
+export const WAV_MIME_TYPE = 'audio/wav';
+
+/** Timestamp jitter absorbed without inserting silence or dropping samples */
+const JITTER_TOLERANCE_MS = 20;
+
+/** Pending samples are moved into the file or Blob once they reach this size */
+const FLUSH_THRESHOLD_BYTES = 1024 * 1024;
+
+const RIFF_HEADER_SIZE = 44;
+const RF64_HEADER_SIZE = 80;
+const MAX_RIFF_SIZE = 0xFFFFFFFF;
+
+/**
+ * Header for 16-bit PCM: RIFF, or RF64 with a ds64 chunk when the sizes do not fit in 32 bits
+ *
+ * @param sampleRate - Sample rate
+ * @param numberOfChannels - Channel count
+ * @param dataSize - Bytes of sample data that follow the header
+ * @param frames - Frames of sample data
+ */
+export function createWavHeader(sampleRate: number, numberOfChannels: number, dataSize: number, frames: number): ArrayBuffer {
+  const isRf64 = RIFF_HEADER_SIZE - 8 + dataSize > MAX_RIFF_SIZE;
+  const headerSize = isRf64 ? RF64_HEADER_SIZE : RIFF_HEADER_SIZE;
+  const header = new ArrayBuffer(headerSize);
+  const view = new DataView(header);
+  let offset = 0;
+
+  const writeId = (id: string) => {
+    for (let i = 0; i < 4; i++) {
+      view.setUint8(offset++, id.charCodeAt(i));
+    }
+  };
+  const writeUint32 = (value: number) => {
+    view.setUint32(offset, value, true);
+    offset += 4;
+  };
+  const writeUint64 = (value: number) => {
+    view.setUint32(offset, value % 0x100000000, true);
+    view.setUint32(offset + 4, Math.floor(value / 0x100000000), true);
+    offset += 8;
+  };
+
+  writeId(isRf64 ? 'RF64' : 'RIFF');
+  writeUint32(isRf64 ? MAX_RIFF_SIZE : headerSize - 8 + dataSize);
+  writeId('WAVE');
+
+  if (isRf64) {
+    writeId('ds64');
+    writeUint32(28);
+    writeUint64(headerSize - 8 + dataSize);
+    writeUint64(dataSize);
+    writeUint64(frames);
+    writeUint32(0);
+  }
+
+  writeId('fmt ');
+  writeUint32(16);
+  view.setUint16(offset, 1, true); // PCM
+  view.setUint16(offset + 2, numberOfChannels, true);
+  offset += 4;
+  writeUint32(sampleRate);
+  writeUint32(sampleRate * numberOfChannels * 2);
+  view.setUint16(offset, numberOfChannels * 2, true);
+  view.setUint16(offset + 2, 16, true);
+  offset += 4;
+
+  writeId('data');
+  writeUint32(isRf64 ? MAX_RIFF_SIZE : dataSize);
+  return header;
+}
+
+/**
+ * Streaming 16-bit PCM WAV writer
+ */
+export class WavWriter {
+  #sampleRate: number;
+  #numberOfChannels: number;
+  #data: Blob = new Blob([]);
+  #pending: Int16Array<ArrayBuffer>[] = [];
+  #pendingBytes = 0;
+  /** OPFS file taking the sample data, without the header */
+  #file: OpfsFileWriter | null = null;
+  /** Bytes written to `#file` */
+  #fileSize = 0;
+  /** Pending open of `#file`; samples stay pending until it settles */
+  #opening: Promise<void> | null = null;
+  /** Frames written, counted from media time zero */
+  #frameCount = 0;
+
+  /**
+   * @param sampleRate - Sample rate of the PCM written
+   * @param numberOfChannels - Channel count of the PCM written
+   */
+  constructor(sampleRate: number, numberOfChannels: number) {
+    this.#sampleRate = sampleRate;
+    this.#numberOfChannels = numberOfChannels;
+  }
+
+  /** Frames written, counted from media time zero */
+  get frameCount(): number {
+    return this.#frameCount;
+  }
+
+  /** Name of the OPFS file holding the sample data, once opened */
+  get fileName(): string | undefined {
+    return this.#file?.fileName;
+  }
+
+  /**
+   * Write the sample data to an OPFS file from now on
+   *
+   * Samples written before the file is open are moved into it once it is. If it
+   * cannot be opened the writer keeps them in memory and the error is rethrown.
+   *
+   * @param fileName - Name of the file in the recordings directory
+   */
+  async openFile(fileName: string): Promise<void> {
+    this.#opening = OpfsFileWriter.create(fileName).then((file) => {
+      this.#file = file;
+    });
+    try {
+      await this.#opening;
+    } finally {
+      this.#opening = null;
+      this.#flush();
+    }
+  }
+
+  /**
+   * Add interleaved samples starting at a media timestamp
+   *
+   * @param timestamp - Media timestamp of the first frame, in µs
+   * @param samples - Interleaved 16-bit samples, `numberOfChannels` per frame
+   */
+  write(timestamp: number, samples: Int16Array<ArrayBuffer>): void {
+    const position = Math.round(timestamp * this.#sampleRate / 1_000_000);
+    const tolerance = Math.round(JITTER_TOLERANCE_MS * this.#sampleRate / 1000);
+    let data = samples;
+
+    if (position > this.#frameCount + tolerance) {
+      this.#append(new Int16Array((position - this.#frameCount) * this.#numberOfChannels));
+    } else if (position < this.#frameCount - tolerance) {
+      data = samples.subarray(Math.min(samples.length, (this.#frameCount - position) * this.#numberOfChannels));
+    }
+    this.#append(data);
+  }
+
+  /**
+   * Build the WAV file
+   *
+   * With an OPFS file the result reads its samples from that file, so it is
+   * only valid until the file is deleted.
+   *
+   * @param startTimestamp - Media timestamp (µs) of the file's first frame, to line it up with the muxed file
+   */
+  async finish(startTimestamp = 0): Promise<Blob> {
+    await this.#opening?.catch(() => {});
+    this.#flush();
+
+    const blockAlign = this.#numberOfChannels * 2;
+    const startFrame = Math.min(this.#frameCount, Math.max(0, Math.round(startTimestamp * this.#sampleRate / 1_000_000)));
+    const frames = this.#frameCount - startFrame;
+    const source = this.#file ? await this.#file.close() : this.#data;
+    const data = source.slice(startFrame * blockAlign);
+    const dataSize = frames * blockAlign;
+
+    return new Blob([createWavHeader(this.#sampleRate, this.#numberOfChannels, dataSize, frames), data], { type: WAV_MIME_TYPE });
+  }
+
+  /**
+   * Drop the OPFS file, for recordings that will not be finished
+   */
+  async discard(): Promise<void> {
+    await this.#opening?.catch(() => {});
+    await this.#file?.discard();
+    this.#file = null;
+  }
+
+  #append(samples: Int16Array<ArrayBuffer>): void {
+    if (samples.length === 0) {
+      return;
+    }
+    this.#pending.push(samples);
+    this.#pendingBytes += samples.byteLength;
+    this.#frameCount += samples.length / this.#numberOfChannels;
+
+    if (this.#pendingBytes >= FLUSH_THRESHOLD_BYTES && !this.#opening) {
+      this.#flush();
+    }
+  }
+
+  /** Move pending samples into the file, or the Blob without one */
+  #flush(): void {
+    if (this.#file) {
+      for (const samples of this.#pending) {
+        this.#file.write(new Uint8Array(samples.buffer, samples.byteOffset, samples.byteLength), this.#fileSize);
+        this.#fileSize += samples.byteLength;
+      }
+    } else {
+      this.#data = new Blob([this.#data, ...this.#pending]);
+    }
+    this.#pending = [];
+    this.#pendingBytes = 0;
+  }
+}
@@ -8,7 +8,18 @@
  * high-frequency audio data (48kHz = 1000+ frames/second).
  */
 
-import type { AudioWorkerRequest, AudioWorkerResponse, AudioConfig } from './types';
+import type { AudioWorkerRequest, AudioWorkerResponse, AudioConfig, AudioMixInput, AudioOnlyContainer, TelemetryContext, TelemetryRecord } from './types';
+import { resolveAudioCodecForContainer } from './CodecNegotiation';
+import { resolveTimelineZero } from './SessionClock';
+import type { SessionEpoch } from './SessionClock';
+import { AudioMixer } from './AudioMixer';
+import type { MixedAudioBlock } from './AudioMixer';
+import { AudioLevelMeter } from './AudioLevelMeter';
+import { EncoderStats } from './EncoderStats';
+import { ForwardingTelemetryExporter, Telemetry } from './Telemetry';
+import { Logger } from './Logger';
+import type { LogEntry } from './Logger';
+import { CodecUnsupportedError, RecorderError } from './RecorderError';
 
 // Audio processing state
 let audioEncoder: AudioEncoder | null = null;
@@ -23,11 +34,47 @@ let finalEncoderChannels = 0;
 
 // Performance tracking
 let audioFramesProcessed = 0;
-let firstAudioTimestamp: number | null = null;
+
+// Stats for the 'stats' event, posted every statsIntervalMs while recording
+let encoderStats = new EncoderStats();
+let statsIntervalMs = 1000;
+let statsTimer: number | null = null;
+
+// Telemetry goes to the main thread's exporter, under the span it last sent
+let telemetry = new Telemetry();
+let telemetryParent: TelemetryContext | null = null;
+
+// Log entries go to the main thread's sink; the level comes with 'start'
+const log = new Logger('audio-worker', { sink: postLog });
+
+// Session time base - timestamps count from the epoch shared by both workers
+let sessionEpoch: SessionEpoch | null = null;
+let timelineZero: number | null = null;
+
+// Mixing state - extra inputs are summed with the primary stream into the one encoded track
+let mixer: AudioMixer | null = null;
+let mixInputSettings: AudioMixInput[] = [];
+let mixReaders: ReadableStreamDefaultReader<AudioData>[] = [];
+
+// Lossless side-track - 16-bit PCM of everything encoded is posted to the main thread
+let writePcm = false;
+
+// Level metering of everything encoded, for 'audio-level' and silence events
+let levelMeter: AudioLevelMeter | null = null;
+
+// Source replacement - a new stream continues on the same encoder and timeline
+let replacementStream: ReadableStream<AudioData> | null = null;
+let wakeSourceWaiter: (() => void) | null = null;
+let isNewSource = false;
 
 // Graceful shutdown control
 let shouldStop = false;
 
+// Pause control - paused time is removed from the timeline so the output has no silent gap
+let isPaused = false;
+let pauseStartTimestamp: number | null = null;
+let totalPausedDuration = 0;
+
 /**
  * Check audio codec support with timeout
  */
@@ -83,13 +130,12 @@ function convertF32toS16(audioData: AudioData): AudioData {
     const bufferSize = numberOfFrames * numberOfChannels;
     const s16Buffer = new Int16Array(bufferSize);
     
-    // Copy f32 data to temporary buffer
-    const f32Buffer = new Float32Array(bufferSize);
-    audioData.copyTo(f32Buffer, { planeIndex: 0 });
+    // Read per channel (planar f32 is the one conversion every browser supports), then interleave
+    const planes = readPlanarSamples(audioData);
     
     // Convert each f32 sample to s16
     for (let i = 0; i < bufferSize; i++) {
-      const sample = Math.max(-1, Math.min(1, f32Buffer[i])); // Clamp to valid range
+      const sample = Math.max(-1, Math.min(1, planes[i % numberOfChannels][Math.floor(i / numberOfChannels)])); // Clamp to valid range
       s16Buffer[i] = Math.round(sample * 32767); // Convert to 16-bit range
     }
     
@@ -106,7 +152,7 @@ function convertF32toS16(audioData: AudioData): AudioData {
     return s16AudioData;
     
   } catch (error) {
-    console.error('AudioWorker: Error in convertF32toS16:', error);
+    log.error('Error in convertF32toS16:', error);
     throw error;
   }
 }
@@ -196,7 +242,7 @@ function upmixMonoToStereo(monoAudioData: AudioData): AudioData {
     }
     
   } catch (error) {
-    console.error('AudioWorker: Error in upmixMonoToStereo:', error);
+    log.error('Error in upmixMonoToStereo:', error);
     throw error;
   }
 }
@@ -204,73 +250,33 @@ function upmixMonoToStereo(monoAudioData: AudioData): AudioData {
 /**
  * Setup and configure the AudioEncoder
  */
-async function setupAudioEncoder(audioConfig: AudioConfig & { codec: 'auto' | 'opus' | 'aac' | 'mp3' | 'flac' }, containerType: 'mp4' | 'webm', originalSampleRate: number): Promise<void> {
+async function setupAudioEncoder(audioConfig: AudioConfig & { codec: 'auto' | 'opus' | 'aac' | 'mp3' | 'flac' }, containerType: 'mp4' | 'webm' | 'ogg' | 'flac', originalSampleRate: number): Promise<void> {
   try {
-    console.log('AudioWorker: Setting up audio encoder with config:', audioConfig, 'container:', containerType);
-    
-    // Handle auto-selection of audio codec based on container type
-    let finalAudioConfig = audioConfig;
-    if (audioConfig.codec === 'auto') {
-      if (containerType === 'mp4') {
-        finalAudioConfig = { ...audioConfig, codec: 'aac' };
-        console.log('AudioWorker: Auto-selected AAC audio codec for MP4 container');
-      } else if (containerType === 'webm') {
-        finalAudioConfig = { ...audioConfig, codec: 'opus' };
-        console.log('AudioWorker: Auto-selected Opus audio codec for WebM container');
-      } else {
-        finalAudioConfig = { ...audioConfig, codec: 'aac' };
-        console.log('AudioWorker: Auto-selected AAC audio codec (fallback)');
-      }
-    }
+    log.debug('Setting up audio encoder with config:', audioConfig, 'container:', containerType);
     
-    // Map audio codec to WebCodecs format
-    let webCodecsCodec: string;
+    // Resolve the audio codec for the container the video codec decided on
+    const resolution = resolveAudioCodecForContainer(audioConfig.codec, containerType);
+    const webCodecsCodec = resolution.webCodecsCodec;
+    finalAudioCodec = resolution.codec;
     
-    switch (finalAudioConfig.codec) {
-      case 'opus':
-        if (containerType !== 'webm') {
-          console.log('AudioWorker: Auto-converting OPUS to AAC for MP4 container compatibility');
-          webCodecsCodec = 'mp4a.40.2'; // AAC-LC profile
-          finalAudioCodec = 'aac';
-        } else {
-          webCodecsCodec = 'opus';
-          finalAudioCodec = 'opus';
-        }
-        break;
-        
-      case 'aac':
-        if (containerType !== 'mp4') {
-          throw new Error('AAC codec is only supported in MP4 containers');
-        }
-        webCodecsCodec = 'mp4a.40.2'; // AAC-LC profile
-        finalAudioCodec = 'aac';
-        break;
-        
-      case 'mp3':
-        if (containerType !== 'mp4') {
-          throw new Error('MP3 codec is only supported in MP4 containers');
-        }
-        webCodecsCodec = 'mp3';
-        finalAudioCodec = 'mp3';
-        break;
-        
-      case 'flac':
-        if (containerType !== 'webm') {
-          throw new Error('FLAC codec is only supported in WebM containers');
-        }
-        webCodecsCodec = 'flac';
-        finalAudioCodec = 'flac';
-        break;
-        
-      default:
-        throw new Error(`Unsupported audio codec: ${finalAudioConfig.codec}`);
+    if (resolution.fellBack) {
+      log.warn(`⚠️ ${audioConfig.codec.toUpperCase()} cannot be muxed into ${containerType.toUpperCase()}, using ${resolution.codec.toUpperCase()} instead`);
+      telemetry.recordEvent('audio.codec_fallback', {
+        'codec.requested': audioConfig.codec,
+        'codec.name': resolution.codec,
+        'container': containerType
+      }, telemetryParent, 'warn');
+    } else {
+      log.info(`Selected ${resolution.codec.toUpperCase()} audio codec for ${containerType.toUpperCase()} container`);
     }
     
+    const finalAudioConfig = { ...audioConfig, codec: resolution.codec };
+    
     // Use original stream sample rate
     let sampleRate = originalSampleRate;
     let numberOfChannels = finalAudioConfig.numberOfChannels;
     
-    console.log(`AudioWorker: Using original stream sample rate: ${sampleRate}Hz`);
+    log.debug(`Using original stream sample rate: ${sampleRate}Hz`);
     
     let audioEncoderConfig: AudioEncoderConfig = {
       codec: webCodecsCodec,
@@ -279,17 +285,17 @@ async function setupAudioEncoder(audioConfig: AudioConfig & { codec: 'auto' | 'o
       bitrate: finalAudioConfig.bitrate
     };
     
-    console.log('AudioWorker: Testing audio encoder configuration:', audioEncoderConfig);
+    log.debug('Testing audio encoder configuration:', audioEncoderConfig);
     
     // Validate configuration with fallbacks
     let configSupport = await checkAudioSupportWithTimeout(audioEncoderConfig, 2000);
-    console.log('AudioWorker: Audio encoder support result:', {
+    log.debug('Audio encoder support result:', {
       supported: configSupport.supported,
       config: configSupport.config
     });
     
     if (!configSupport.supported) {
-      console.log('AudioWorker: Initial config not supported, trying fallbacks...');
+      log.debug('Initial config not supported, trying fallbacks...');
       
       // Fallback configurations
       const fallbackConfigs = [];
@@ -312,24 +318,24 @@ async function setupAudioEncoder(audioConfig: AudioConfig & { codec: 'auto' | 'o
       let fallbackWorked = false;
       for (let i = 0; i < fallbackConfigs.length; i++) {
         const fallbackConfig = fallbackConfigs[i];
-        console.log(`AudioWorker: Trying fallback ${i + 1}:`, fallbackConfig);
+        log.debug(`Trying fallback ${i + 1}:`, fallbackConfig);
         
         try {
           const fallbackSupport = await checkAudioSupportWithTimeout(fallbackConfig, 2000);
           if (fallbackSupport.supported) {
-            console.log(`AudioWorker: ✅ Fallback ${i + 1} succeeded`);
+            log.info(`✅ Fallback ${i + 1} succeeded`);
             audioEncoderConfig = fallbackConfig;
             configSupport = fallbackSupport;
             fallbackWorked = true;
             break;
           }
         } catch (error) {
-          console.log(`AudioWorker: ❌ Fallback ${i + 1} failed:`, error instanceof Error ? error.message : String(error));
+          log.debug(`❌ Fallback ${i + 1} failed:`, error instanceof Error ? error.message : String(error));
         }
       }
       
       if (!fallbackWorked) {
-        throw new Error(`No supported audio encoder configuration found. Browser may not support this sample rate (${originalSampleRate}Hz)`);
+        throw new CodecUnsupportedError(`No supported audio encoder configuration found. Browser may not support this sample rate (${originalSampleRate}Hz)`);
       }
     }
     
@@ -337,6 +343,8 @@ async function setupAudioEncoder(audioConfig: AudioConfig & { codec: 'auto' | 'o
     audioEncoder = new AudioEncoder({
       output: (chunk: EncodedAudioChunk, metadata?: EncodedAudioChunkMetadata) => {
         try {
+          encoderStats.recordEncoded(chunk.timestamp, performance.now());
+          
           // Send audio chunk to main thread
           self.postMessage({
             type: 'audio-chunk',
@@ -344,7 +352,7 @@ async function setupAudioEncoder(audioConfig: AudioConfig & { codec: 'auto' | 'o
             metadata: metadata || {}
           });
         } catch (error) {
-          console.error('AudioWorker: Error sending audio chunk:', error);
+          log.error('Error sending audio chunk:', error);
           self.postMessage({ 
             type: 'error', 
             error: error instanceof Error ? error.message : String(error) 
@@ -352,7 +360,8 @@ async function setupAudioEncoder(audioConfig: AudioConfig & { codec: 'auto' | 'o
         }
       },
       error: (error: Error) => {
-        console.error('AudioWorker: AudioEncoder error:', error);
+        log.error('AudioEncoder error:', error);
+        telemetry.recordEvent('audio.encoder_error', { 'error.message': error.message }, telemetryParent, 'error');
         self.postMessage({ type: 'error', error: error.message });
       }
     });
@@ -361,9 +370,9 @@ async function setupAudioEncoder(audioConfig: AudioConfig & { codec: 'auto' | 'o
     currentAudioConfig = configSupport.config || audioEncoderConfig;
     
     // Configure encoder
-    console.log(`📊 AudioWorker: Configuring AudioEncoder - Pre-config state: ${audioEncoder.state}`);
+    log.debug(`📊 Configuring AudioEncoder - Pre-config state: ${audioEncoder.state}`);
     audioEncoder.configure(currentAudioConfig);
-    console.log(`📊 AudioWorker: AudioEncoder configured - Post-config state: ${audioEncoder.state}`);
+    log.debug(`📊 AudioEncoder configured - Post-config state: ${audioEncoder.state}`);
     
     // Detect channel mismatch for upmixing
     originalStreamChannels = finalAudioConfig.numberOfChannels;
@@ -371,72 +380,203 @@ async function setupAudioEncoder(audioConfig: AudioConfig & { codec: 'auto' | 'o
     
     if (originalStreamChannels === 1 && finalEncoderChannels === 2) {
       needsUpmixing = true;
-      console.log('AudioWorker: 🎵 Enabling mono-to-stereo upmixing');
+      log.debug('🎵 Enabling mono-to-stereo upmixing');
     } else if (originalStreamChannels !== finalEncoderChannels) {
-      console.warn(`AudioWorker: ⚠️ Unsupported channel mismatch - Stream: ${originalStreamChannels}, Encoder: ${finalEncoderChannels}`);
+      log.warn(`⚠️ Unsupported channel mismatch - Stream: ${originalStreamChannels}, Encoder: ${finalEncoderChannels}`);
     } else {
       needsUpmixing = false;
-      console.log(`AudioWorker: ✅ Channel configuration matches - ${originalStreamChannels} channels`);
+      log.debug(`✅ Channel configuration matches - ${originalStreamChannels} channels`);
     }
     
-    console.log('AudioWorker: Audio encoder successfully configured');
+    log.debug('Audio encoder successfully configured');
     
   } catch (error) {
-    console.error('AudioWorker: Error setting up audio encoder:', error);
+    log.error('Error setting up audio encoder:', error);
     throw error;
   }
 }
 
+/**
+ * Setup the AudioEncoder for an audio-only recording, trying each format in turn
+ *
+ * @returns The format whose codec could be encoded
+ */
+async function setupAudioOnlyEncoder(audioConfig: AudioConfig, containers: AudioOnlyContainer[], originalSampleRate: number): Promise<AudioOnlyContainer> {
+  let lastError: unknown = null;
+
+  for (const container of containers) {
+    try {
+      // .m4a is an MP4 file without a video track
+      await setupAudioEncoder(audioConfig, container === 'm4a' ? 'mp4' : container, originalSampleRate);
+      log.info(`✅ Recording audio only as .${container}`);
+      return container;
+    } catch (error) {
+      log.warn(`⚠️ Cannot record audio only as .${container}:`, error instanceof Error ? error.message : String(error));
+      lastError = error;
+    }
+  }
+
+  throw lastError ?? new Error('No audio-only format to record to');
+}
+
+/**
+ * Wait for a replacement source after the current one ended, and switch to it
+ * 
+ * @returns false when recording stopped instead
+ */
+async function switchToReplacementSource(): Promise<boolean> {
+  if (!replacementStream && !shouldStop) {
+    log.warn('⚠️ Audio source ended, waiting for a replacement');
+    await new Promise<void>(resolve => {
+      wakeSourceWaiter = resolve;
+    });
+    wakeSourceWaiter = null;
+  }
+  if (shouldStop || !replacementStream) {
+    return false;
+  }
+
+  streamReader?.releaseLock();
+  streamReader = replacementStream.getReader();
+  replacementStream = null;
+  isNewSource = true;
+  log.info('🔁 Switched to replacement audio source');
+  return true;
+}
+
+/**
+ * Check the first frame of a replacement source against the encoder
+ * 
+ * The track's sample rate and channel count are fixed, so a source that
+ * differs in either is converted by a single-input mixer from here on.
+ */
+function adaptToNewSource(audioFrame: AudioData): void {
+  isNewSource = false;
+  if (mixer || !currentAudioConfig) {
+    return;
+  }
+  if (audioFrame.sampleRate === currentAudioConfig.sampleRate && audioFrame.numberOfChannels === currentAudioConfig.numberOfChannels) {
+    return;
+  }
+
+  mixer = new AudioMixer({
+    sampleRate: currentAudioConfig.sampleRate,
+    numberOfChannels: currentAudioConfig.numberOfChannels,
+    inputs: [mixInputSettings[0] ?? {}]
+  });
+  log.info(`🔁 Converting replacement source ${audioFrame.sampleRate}Hz/${audioFrame.numberOfChannels}ch to ${currentAudioConfig.sampleRate}Hz/${currentAudioConfig.numberOfChannels}ch`);
+}
+
+/**
+ * Pick the timeline zero from the track's first frame
+ * 
+ * Tells the main thread when the frame clock is not the session's, since the
+ * track's start is then only estimated.
+ */
+function startTimeline(firstTimestamp: number): number {
+  const { zero, isEstimated } = resolveTimelineZero(sessionEpoch, firstTimestamp, performance.timeOrigin + performance.now());
+  const offsetMs = (firstTimestamp - zero) / 1000;
+  if (isEstimated) {
+    log.warn(`⚠️ Frame timestamps are not on the session clock, placing the first frame by its arrival (${offsetMs.toFixed(0)}ms after session start)`);
+    const message: AudioWorkerResponse = { type: 'timeline-estimated', timelineOffset: offsetMs };
+    self.postMessage(message);
+  } else if (sessionEpoch) {
+    log.debug(`First frame ${offsetMs.toFixed(1)}ms after session start`);
+  }
+  return zero;
+}
+
 /**
  * Start audio processing from ReadableStream
  */
 async function startAudioProcessing(audioStream: ReadableStream<AudioData>): Promise<void> {
   try {
-    console.log('AudioWorker: 🚀 Starting dedicated audio processing');
+    log.info('🚀 Starting dedicated audio processing');
     
     // Use the stream provided by main thread
     streamReader = audioStream.getReader();
     
     // Reset state
     audioFramesProcessed = 0;
-    firstAudioTimestamp = null;
+    statsTimer = self.setInterval(postStats, statsIntervalMs);
+    timelineZero = null;
+    pauseStartTimestamp = null;
+    totalPausedDuration = 0;
     
-    console.log('AudioWorker: 🚀 Audio processing loop starting');
+    log.debug('🚀 Audio processing loop starting');
     
     // Main processing loop
     while (true) {
       // 🎯 GRACEFUL SHUTDOWN: Check stop flag at start of each iteration
       if (shouldStop) {
-        console.log('🚀 AudioWorker: Terminating processing loop gracefully');
+        log.debug('🚀 Terminating processing loop gracefully');
         break;
       }
       
       const { done, value: audioFrame } = await streamReader.read();
       
+      // The source ended (device unplugged) or is being replaced: keep the encoder and timeline for the next one
       if (done) {
-        console.log('AudioWorker: 🚀 Audio stream ended');
+        log.info('🚀 Audio stream ended');
+        if (await switchToReplacementSource()) {
+          continue;
+        }
         break;
       }
       
       if (!audioFrame) {
-        console.warn('AudioWorker: Received null audio frame, skipping');
+        log.warn('Received null audio frame, skipping');
+        continue;
+      }
+      
+      if (isNewSource) {
+        adaptToNewSource(audioFrame);
+      }
+      
+      // While paused, keep draining the track so it doesn't stall, but discard frames
+      if (isPaused) {
+        if (pauseStartTimestamp === null) {
+          pauseStartTimestamp = audioFrame.timestamp;
+        }
+        audioFrame.close();
         continue;
       }
       
+      // First frame after resume: fold the paused span into the offset
+      if (pauseStartTimestamp !== null) {
+        totalPausedDuration += audioFrame.timestamp - pauseStartTimestamp;
+        pauseStartTimestamp = null;
+        log.info(`▶️ Resumed, total paused duration ${(totalPausedDuration / 1000).toFixed(0)}ms`);
+      }
+      
       // Monitor encoder backpressure
       if (audioEncoder && audioEncoder.encodeQueueSize > 30) {
-        console.warn(`⚠️ AudioWorker: Encoder queue overloaded (${audioEncoder.encodeQueueSize}), waiting...`);
+        log.warn(`⚠️ Encoder queue overloaded (${audioEncoder.encodeQueueSize}), waiting...`);
         while (audioEncoder && audioEncoder.encodeQueueSize > 15) {
           await new Promise(resolve => setTimeout(resolve, 50));
         }
-        console.log(`✅ AudioWorker: Encoder queue recovered (${audioEncoder?.encodeQueueSize})`);
+        log.debug(`✅ Encoder queue recovered (${audioEncoder?.encodeQueueSize})`);
+      }
+      
+      // Apply timestamp normalization against the shared session time base
+      if (timelineZero === null) {
+        timelineZero = startTimeline(audioFrame.timestamp);
       }
+      const normalizedTimestamp = audioFrame.timestamp - timelineZero - totalPausedDuration;
       
-      // Apply timestamp normalization
-      if (firstAudioTimestamp === null) {
-        firstAudioTimestamp = audioFrame.timestamp;
+      // Captured before the session started
+      if (normalizedTimestamp < 0) {
+        audioFrame.close();
+        continue;
+      }
+      
+      // Mixing: the mixer's output is what gets encoded
+      if (mixer) {
+        mixer.write(0, normalizedTimestamp, audioFrame.sampleRate, readPlanarSamples(audioFrame));
+        audioFrame.close();
+        encodeMixedBlocks(mixer.read());
+        continue;
       }
-      const normalizedTimestamp = audioFrame.timestamp - firstAudioTimestamp;
       
       // Create normalized audio frame
       const normalizedAudioFrame = new AudioData({
@@ -462,14 +602,14 @@ async function startAudioProcessing(audioStream: ReadableStream<AudioData>): Pro
             frameToEncode = upmixMonoToStereo(normalizedAudioFrame);
             needsCleanup = true;
           } else if (currentAudioConfig && normalizedAudioFrame.numberOfChannels !== currentAudioConfig.numberOfChannels) {
-            console.warn(`AudioWorker: ⚠️ Channel mismatch - Frame: ${normalizedAudioFrame.numberOfChannels}, Encoder: ${currentAudioConfig.numberOfChannels}`);
+            log.warn(`⚠️ Channel mismatch - Frame: ${normalizedAudioFrame.numberOfChannels}, Encoder: ${currentAudioConfig.numberOfChannels}`);
             normalizedAudioFrame.close();
             continue;
           }
           
           // Check sample rate mismatch
           if (currentAudioConfig && normalizedAudioFrame.sampleRate !== currentAudioConfig.sampleRate) {
-            console.warn(`AudioWorker: Sample rate mismatch - Frame: ${normalizedAudioFrame.sampleRate}Hz, Encoder: ${currentAudioConfig.sampleRate}Hz`);
+            log.warn(`Sample rate mismatch - Frame: ${normalizedAudioFrame.sampleRate}Hz, Encoder: ${currentAudioConfig.sampleRate}Hz`);
             normalizedAudioFrame.close();
             if (needsCleanup && frameToEncode !== normalizedAudioFrame) {
               frameToEncode.close();
@@ -488,13 +628,18 @@ async function startAudioProcessing(audioStream: ReadableStream<AudioData>): Pro
           }
           
           // Encode the frame
+          encoderStats.recordEncodeStart(finalFrameToEncode.timestamp, performance.now());
           audioEncoder.encode(finalFrameToEncode);
+          postPcm(finalFrameToEncode);
+          if (levelMeter) {
+            postLevels(frameToEncode.timestamp, frameToEncode.sampleRate, readPlanarSamples(frameToEncode));
+          }
           
           audioFramesProcessed++;
           
           // Periodic performance logging
           if (audioFramesProcessed % 1000 === 0) {
-            console.log(`📊 AudioWorker: Processed ${audioFramesProcessed} audio frames`);
+            log.debug(`📊 Processed ${audioFramesProcessed} audio frames`);
           }
           
           // Clean up frames
@@ -503,7 +648,7 @@ async function startAudioProcessing(audioStream: ReadableStream<AudioData>): Pro
           }
           
         } catch (error) {
-          console.error('AudioWorker: Error processing audio frame:', error);
+          log.error('Error processing audio frame:', error);
           if (needsCleanup && frameToEncode !== normalizedAudioFrame) {
             frameToEncode.close();
           }
@@ -519,7 +664,7 @@ async function startAudioProcessing(audioStream: ReadableStream<AudioData>): Pro
     }
     
   } catch (error) {
-    console.error('AudioWorker: Error in audio processing:', error);
+    log.error('Error in audio processing:', error);
     self.postMessage({ 
       type: 'error', 
       error: error instanceof Error ? error.message : String(error) 
@@ -530,30 +675,79 @@ async function startAudioProcessing(audioStream: ReadableStream<AudioData>): Pro
       try {
         streamReader.releaseLock();
         streamReader = null;
-        console.log('AudioWorker: Stream reader released');
+        log.debug('Stream reader released');
       } catch (releaseError) {
-        console.warn('AudioWorker: Reader already released');
+        log.debug('Reader already released');
+      }
+    }
+    
+    // Encode what the primary stream covered, then drop the extra inputs
+    if (mixer) {
+      try {
+        encodeMixedBlocks(mixer.flush());
+      } catch (mixError) {
+        log.warn('Error flushing audio mixer:', mixError);
       }
     }
+    stopMixInputs();
     
     // Flush and close encoder
     if (audioEncoder) {
+      const flushSpan = telemetry.startSpan('audio.encoder_flush', { 'encoder.queue_size': audioEncoder.encodeQueueSize }, telemetryParent);
       try {
-        console.log('AudioWorker: Flushing AudioEncoder...');
+        log.debug('Flushing AudioEncoder...');
         await audioEncoder.flush();
         audioEncoder.close();
         audioEncoder = null;
-        console.log('AudioWorker: AudioEncoder closed');
+        log.debug('AudioEncoder closed');
+        flushSpan.end();
       } catch (encoderError) {
-        console.warn('AudioWorker: Error closing encoder:', encoderError);
+        log.warn('Error closing encoder:', encoderError);
+        flushSpan.end(encoderError);
       }
     }
     
-    console.log('AudioWorker: Processing complete, sending completion signal');
+    // Final counters, with every queued frame encoded
+    if (statsTimer !== null) {
+      clearInterval(statsTimer);
+      statsTimer = null;
+    }
+    postStats();
+    
+    log.info('Processing complete, sending completion signal');
     self.postMessage({ type: 'complete' });
   }
 }
 
+/**
+ * Post the encoder counters for the 'stats' event
+ */
+function postStats(): void {
+  const message: AudioWorkerResponse = { type: 'stats', stats: encoderStats.snapshot(audioEncoder?.encodeQueueSize ?? 0) };
+  self.postMessage(message);
+}
+
+/**
+ * Post a span, metric or event for the main thread's exporter
+ */
+function postTelemetry(record: TelemetryRecord): void {
+  const message: AudioWorkerResponse = { type: 'telemetry', telemetry: record };
+  self.postMessage(message);
+}
+
+/**
+ * Post a log entry for the main thread's sink
+ */
+function postLog(entry: LogEntry): void {
+  const message: AudioWorkerResponse = { type: 'log', log: entry };
+  try {
+    self.postMessage(message);
+  } catch {
+    // Logged values that cannot be cloned are sent as text
+    self.postMessage({ ...message, log: { ...entry, data: entry.data.map(value => String(value)) } });
+  }
+}
+
 /**
  * Helper function to copy AudioData buffer
  */
@@ -577,17 +771,177 @@ async function copyAudioData(audioFrame: AudioData): Promise<ArrayBuffer> {
   return buffer;
 }
 
+/**
+ * Copy an AudioData's samples out as one Float32Array per channel
+ */
+function readPlanarSamples(audioFrame: AudioData): Float32Array[] {
+  return Array.from({ length: audioFrame.numberOfChannels }, (_, planeIndex) => {
+    const plane = new Float32Array(audioFrame.numberOfFrames);
+    audioFrame.copyTo(plane, { planeIndex, format: 'f32-planar' });
+    return plane;
+  });
+}
+
+/**
+ * Post an encoded frame's samples as interleaved 16-bit PCM for the WAV side-track
+ */
+function postPcm(audioFrame: AudioData): void {
+  if (!writePcm) {
+    return;
+  }
+  
+  const s16Frame = audioFrame.format === 's16' ? audioFrame : convertF32toS16(audioFrame);
+  const pcm = new Int16Array(s16Frame.numberOfFrames * s16Frame.numberOfChannels);
+  s16Frame.copyTo(pcm, { planeIndex: 0 });
+  if (s16Frame !== audioFrame) {
+    s16Frame.close();
+  }
+  
+  const message: AudioWorkerResponse = { type: 'pcm', pcm, timestamp: audioFrame.timestamp };
+  self.postMessage(message, [pcm.buffer]);
+}
+
+/**
+ * Meter encoded samples and post the level updates and silence changes they complete
+ */
+function postLevels(timestamp: number, sampleRate: number, planes: Float32Array[]): void {
+  if (!levelMeter) {
+    return;
+  }
+  
+  for (const event of levelMeter.process(timestamp, sampleRate, planes)) {
+    const message: AudioWorkerResponse = event.type === 'audio-level'
+      ? { type: 'audio-level', level: event.level }
+      : { type: event.type, silence: event.silence };
+    self.postMessage(message);
+  }
+}
+
+/**
+ * Encode mixed blocks; they are already at the encoder's sample rate and channel count
+ */
+function encodeMixedBlocks(blocks: MixedAudioBlock[]): void {
+  if (!audioEncoder || !currentAudioConfig) {
+    return;
+  }
+  
+  for (const block of blocks) {
+    const numberOfFrames = block.planes[0].length;
+    const data = new Float32Array(numberOfFrames * block.planes.length);
+    block.planes.forEach((plane, channel) => data.set(plane, channel * numberOfFrames));
+    
+    const mixedFrame = new AudioData({
+      format: 'f32-planar',
+      sampleRate: currentAudioConfig.sampleRate,
+      numberOfFrames,
+      numberOfChannels: block.planes.length,
+      timestamp: block.timestamp,
+      data
+    });
+    
+    // Handle format conversion for AAC
+    const frameToEncode = currentAudioConfig.codec.includes('aac') ? convertF32toS16(mixedFrame) : mixedFrame;
+    encoderStats.recordEncodeStart(frameToEncode.timestamp, performance.now());
+    audioEncoder.encode(frameToEncode);
+    postPcm(frameToEncode);
+    postLevels(block.timestamp, currentAudioConfig.sampleRate, block.planes);
+    if (frameToEncode !== mixedFrame) {
+      frameToEncode.close();
+    }
+    mixedFrame.close();
+    
+    audioFramesProcessed++;
+    if (audioFramesProcessed % 1000 === 0) {
+      log.debug(`📊 Processed ${audioFramesProcessed} mixed audio frames`);
+    }
+  }
+}
+
+/**
+ * Feed one extra input into the mixer until it ends or recording stops
+ *
+ * Pausing is tracked per input from the input's own timestamps, so its samples
+ * land on the same paused-out timeline as the primary stream's.
+ */
+async function readMixInput(index: number, reader: ReadableStreamDefaultReader<AudioData>): Promise<void> {
+  let inputPauseStart: number | null = null;
+  let inputPausedDuration = 0;
+  
+  try {
+    while (!shouldStop) {
+      const { done, value: audioFrame } = await reader.read();
+      if (done) {
+        break;
+      }
+      if (!audioFrame) {
+        continue;
+      }
+      
+      if (isPaused) {
+        inputPauseStart ??= audioFrame.timestamp;
+        audioFrame.close();
+        continue;
+      }
+      if (inputPauseStart !== null) {
+        inputPausedDuration += audioFrame.timestamp - inputPauseStart;
+        inputPauseStart = null;
+      }
+      
+      // Nothing can be placed until the primary stream has fixed the timeline
+      const normalizedTimestamp = timelineZero === null ? -1 : audioFrame.timestamp - timelineZero - inputPausedDuration;
+      if (mixer && normalizedTimestamp >= 0) {
+        mixer.write(index, normalizedTimestamp, audioFrame.sampleRate, readPlanarSamples(audioFrame));
+        // Keeps the mix going should the primary stream stop delivering
+        encodeMixedBlocks(mixer.read());
+      }
+      audioFrame.close();
+    }
+  } catch (error) {
+    log.warn(`⚠️ Mix input ${index} failed, mixing it as silence:`, error);
+  } finally {
+    try {
+      reader.releaseLock();
+    } catch {
+      // Already released by stopMixInputs()
+    }
+  }
+}
+
+/**
+ * Start reading the extra inputs
+ */
+function startMixInputs(streams: ReadableStream<AudioData>[]): void {
+  mixReaders = streams.map(stream => stream.getReader());
+  mixReaders.forEach((reader, index) => {
+    readMixInput(index + 1, reader);
+  });
+  log.info(`🎚️ Mixing ${streams.length + 1} audio inputs`);
+}
+
+/**
+ * Stop reading the extra inputs and drop the mixer
+ */
+function stopMixInputs(): void {
+  for (const reader of mixReaders) {
+    reader.cancel().catch(() => {
+      // The stream may already have ended
+    });
+  }
+  mixReaders = [];
+  mixer = null;
+}
+
 /**
  * Handle incoming messages from main thread
  */
 self.onmessage = async (event: MessageEvent<AudioWorkerRequest>) => {
-  console.log('🔔 AudioWorker: Received message:', event.data.type);
+  log.debug('🔔 Received message:', event.data.type);
   try {
     const { data } = event;
     
     switch (data.type) {
       case 'start':
-        console.log('🎬 AudioWorker: Processing start message...');
+        log.debug('🎬 Processing start message...');
         
         if (!data.config || !data.config.audio) {
           throw new Error('No audio configuration provided');
@@ -597,22 +951,68 @@ self.onmessage = async (event: MessageEvent<AudioWorkerRequest>) => {
           throw new Error('No audio stream provided');
         }
         
-        // Reset shutdown flag for new recording
+        // Reset shutdown and pause flags for new recording
         shouldStop = false;
+        isPaused = false;
+        sessionEpoch = data.sessionEpoch ?? null;
+        replacementStream = null;
+        isNewSource = false;
+        writePcm = data.config.audio.wav === true;
+        levelMeter = data.config.audioLevels
+          ? new AudioLevelMeter(typeof data.config.audioLevels === 'object' ? data.config.audioLevels : {})
+          : null;
+        statsIntervalMs = typeof data.config.stats === 'object' ? data.config.stats.intervalMs ?? 1000 : 1000;
+        log.level = data.config.logLevel ?? log.level;
+        encoderStats = new EncoderStats();
+        telemetryParent = data.telemetry ?? null;
+        telemetry = new Telemetry(data.telemetry ? new ForwardingTelemetryExporter(postTelemetry) : undefined);
         
-        // Determine container type from video codec (passed in config)
-        const containerType: 'mp4' | 'webm' = (data.config.codecSelection === 'av1' || data.config.codecSelection === 'vp9') ? 'webm' : 'mp4';
+        // Container is decided by the negotiated video codec; the main thread
+        // passes it once the video worker is ready
+        const containerType: 'mp4' | 'webm' = data.containerType || 'mp4';
         
         // Extract original sample rate
         const originalSampleRate = data.config.audio.sampleRate;
         
-        // Setup audio encoder
-        await setupAudioEncoder(data.config.audio, containerType, originalSampleRate);
+        // Setup audio encoder; audio-only recordings pick their own format
+        const negotiationSpan = telemetry.startSpan('audio.codec_negotiation', {
+          'codec.requested': data.config.audio.codec,
+          'container': data.audioOnlyContainers?.join(',') ?? containerType,
+          'audio.sample_rate': originalSampleRate,
+          'audio.channels': data.config.audio.numberOfChannels
+        }, telemetryParent);
+        let audioOnlyContainer: AudioOnlyContainer | undefined;
+        try {
+          if (data.audioOnlyContainers) {
+            audioOnlyContainer = await setupAudioOnlyEncoder(data.config.audio, data.audioOnlyContainers, originalSampleRate);
+            negotiationSpan.setAttributes({ 'container': audioOnlyContainer });
+          } else {
+            await setupAudioEncoder(data.config.audio, containerType, originalSampleRate);
+          }
+        } catch (error) {
+          negotiationSpan.end(error);
+          throw error;
+        }
+        negotiationSpan.setAttributes({ 'codec.name': finalAudioCodec ?? 'unknown', 'codec.string': currentAudioConfig?.codec ?? 'unknown' });
+        negotiationSpan.end();
+        
+        // Extra inputs are mixed at the encoder's rate and channel count
+        if (data.mixStreams && data.mixStreams.length > 0 && currentAudioConfig) {
+          mixInputSettings = data.mixInputs ?? mixInputSettings;
+          mixer = new AudioMixer({
+            sampleRate: currentAudioConfig.sampleRate,
+            numberOfChannels: currentAudioConfig.numberOfChannels,
+            inputs: Array.from({ length: data.mixStreams.length + 1 }, (_, index) => mixInputSettings[index] ?? {})
+          });
+          startMixInputs(data.mixStreams);
+        }
         
         // Send ready signal
         self.postMessage({
           type: 'ready',
-          finalCodec: finalAudioCodec
+          finalCodec: finalAudioCodec,
+          encoderConfig: currentAudioConfig,
+          container: audioOnlyContainer
         });
         
         // Start audio processing (will handle its own cleanup via finally block)
@@ -623,21 +1023,68 @@ self.onmessage = async (event: MessageEvent<AudioWorkerRequest>) => {
         break;
       
       case 'stop':
-        console.log('🛑 AudioWorker: Stop signal received, setting graceful shutdown flag');
+        log.debug('🛑 Stop signal received, setting graceful shutdown flag');
         shouldStop = true;
+        telemetryParent = data.telemetry ?? telemetryParent;
+        wakeSourceWaiter?.();
         // Note: All cleanup will happen in startAudioProcessing's finally block
         break;
       
+      case 'pause':
+        log.debug('⏸️ Pause signal received, discarding frames until resume');
+        isPaused = true;
+        break;
+      
+      case 'resume':
+        log.debug('▶️ Resume signal received');
+        isPaused = false;
+        break;
+      
+      case 'set-mix-input': {
+        if (!data.mixInput) {
+          break;
+        }
+        const { index, gain, muted } = data.mixInput;
+        // Settings that arrive before the mixer exists are applied when it is created
+        mixInputSettings[index] = { ...mixInputSettings[index], ...(gain !== undefined && { gain }), ...(muted !== undefined && { muted }) };
+        if (mixer) {
+          if (gain !== undefined) {
+            mixer.setGain(index, gain);
+          }
+          if (muted !== undefined) {
+            mixer.setMuted(index, muted);
+          }
+        }
+        log.debug(`🎚️ Mix input ${index} set to`, mixInputSettings[index]);
+        break;
+      }
+      
+      case 'replace-source':
+        if (!data.audioStream) {
+          throw new Error('No audio stream provided');
+        }
+        log.debug('🔁 Replacement source received');
+        replacementStream?.cancel().catch(() => {});
+        replacementStream = data.audioStream;
+        if (wakeSourceWaiter) {
+          wakeSourceWaiter();
+        } else {
+          // Ending the current source hands over to the replacement in the processing loop
+          streamReader?.cancel().catch(() => {});
+        }
+        break;
+      
       default:
-        console.warn('AudioWorker: Unknown message type:', data.type);
+        log.warn('Unknown message type:', data.type);
     }
   } catch (error) {
-    console.error('AudioWorker: Error handling message:', error);
+    log.error('Error handling message:', error);
     self.postMessage({ 
       type: 'error', 
-      error: error instanceof Error ? error.message : String(error) 
+      error: error instanceof Error ? error.message : String(error),
+      errorCode: error instanceof RecorderError ? error.code : undefined
     });
   }
 };
 
-console.log('✅ AudioWorker: Dedicated audio processing worker ready');
+log.debug('✅ Dedicated audio processing worker ready');
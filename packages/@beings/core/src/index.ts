@@ -11,3 +11,19 @@
 export * from './SlowTrackRecorder.js';
 export * from './types.js';
 export * from './SafeCodecTester.js';
+export { decryptRecording, generateEncryptionKey } from './RecordingEncryption.js';
+export * from './TusUploader.js';
+export { verifyRecording } from './RecordingIntegrity.js';
+export type { IntegrityVerification } from './RecordingIntegrity.js';
+export type { JournalSessionInfo } from './SessionJournal.js';
+export type { MuxerTrackOptions } from './ContainerMuxer.js';
+export type { SyncMonitorOptions } from './SyncMonitor.js';
+export type { AudioLevelMeterOptions } from './AudioLevelMeter.js';
+export { NoopTelemetryExporter, InMemoryTelemetryExporter, OtlpJsonExporter } from './Telemetry.js';
+export type { TelemetryExporter, TelemetrySpan, OtlpJsonExporterOptions } from './Telemetry.js';
+export { Logger, configureLogging, consoleLogSink } from './Logger.js';
+export type { LogLevel, LogNamespace, LogEntry, LogSink } from './Logger.js';
+export { RecorderError, CodecUnsupportedError, WorkerInitTimeoutError, MuxError, OptionsUnsupportedError } from './RecorderError.js';
+export type { RecorderErrorCode } from './RecorderError.js';
+export { recommendConfig, DEFAULT_PROBE_TIMEOUT_MS } from './CapabilityProbe.js';
+export type { CapabilityReport, CapabilityProbeOptions, VideoCapability, AudioCapability } from './CapabilityProbe.js';
@@ -139,13 +139,10 @@ function sendSyncUpdate(): void {
   // Calculate time-based drift in milliseconds
   const timeDrift = totalAudioTimeProcessed - totalVideoTimeProcessed;
   
-  // Also calculate frame-based drift for legacy compatibility
-  const frameDrift = audioFramesProcessed - videoFramesProcessed;
-  
   const syncData: SyncData = {
     videoFramesProcessed,
     audioFramesProcessed,
-    drift: Math.round(timeDrift), // Use time-based drift as primary metric
+    drift: Math.round(timeDrift), // Same unit (ms) as the dual-worker SyncMonitor
     timestamp: performance.now()
   };
   
@@ -2307,6 +2304,7 @@ async function handleStopMessage(): Promise<void> {
     
     if (finalVideoConfig && finalContainerType) {
       finalConfig = {
+        kind: 'video',
         video: {
           ...finalVideoConfig,
           hardwareAccelerationUsed: hardwareAccelerationUsed ?? false
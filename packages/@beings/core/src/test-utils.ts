@@ -0,0 +1,56 @@
+/**
+ * Test Utilities
+ *
+ * Stand-ins shared by the unit tests. Not exported from the package.
+ */
+
+/**
+ * Encoded chunk stand-in whose payload is `byteLength` bytes of `fill`
+ *
+ * Typed as both chunk kinds, since the muxers only read the members they share.
+ */
+export const createMockChunk = (
+  type: 'key' | 'delta',
+  timestamp: number,
+  duration: number,
+  { byteLength = 16, fill = 1 }: { byteLength?: number; fill?: number } = {}
+) => ({
+  type,
+  timestamp,
+  duration,
+  byteLength,
+  copyTo: (destination: Uint8Array) => destination.fill(fill),
+}) as unknown as EncodedVideoChunk & EncodedAudioChunk;
+
+/**
+ * A request received by a fetch() stand-in
+ */
+export interface StandInRequest {
+  method: string;
+  /** Request URL relative to the stand-in's origin */
+  path: string;
+  headers: Record<string, string>;
+  /** Body as passed to fetch() */
+  body: RequestInit['body'];
+}
+
+/**
+ * fetch() stand-in that hands every request to an in-process server and records it
+ *
+ * @param origin - Base URL the server answers under
+ * @param handle - The server: answers a request, or throws to drop the connection
+ */
+export const createFetchStandIn = (origin: string, handle: (request: StandInRequest) => Response | Promise<Response>) => {
+  const requests: StandInRequest[] = [];
+  const fetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    const request: StandInRequest = {
+      method: init.method || 'GET',
+      path: String(input).slice(origin.length),
+      headers: (init.headers || {}) as Record<string, string>,
+      body: init.body
+    };
+    requests.push(request);
+    return handle(request);
+  };
+  return { fetch: fetch as typeof globalThis.fetch, requests };
+};
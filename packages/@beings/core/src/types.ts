@@ -3,20 +3,54 @@
  */
 
 import type { SlowTrackRecorderConfig } from './SlowTrackRecorder';
+import type { LogEntry } from './Logger';
+import type { RecorderErrorCode } from './RecorderError';
+import type { SessionEpoch } from './SessionClock';
 
 /**
  * Final encoder configuration data representing what was actually used
  * This is the "ground truth" of the recording, after all fallbacks and negotiations
+ *
+ * Narrow on `kind` to tell recordings with video from audio-only ones.
  */
-export interface FinalEncoderConfig {
+export type FinalEncoderConfig = VideoFinalEncoderConfig | AudioOnlyFinalEncoderConfig;
+
+/**
+ * Final encoder configuration of a recording with a video track
+ */
+export interface VideoFinalEncoderConfig {
+  kind: 'video';
+  /** Video encoder config as confirmed by the browser support check */
   video: VideoEncoderConfig & {
-    /** Whether hardware acceleration was actually used (from browser support check) */
+    /**
+     * Whether a hardware encoder was used. Undefined when it cannot be
+     * determined, which is always the case with WebCodecs; the requested
+     * preference is `hardwareAcceleration`.
+     */
     hardwareAccelerationUsed?: boolean;
   };
+  /** Audio encoder config as confirmed by the browser support check */
+  audio?: AudioEncoderConfig;
+  /** Final container format used for muxing ('mkv' for recordings with separate tracks) */
+  container: 'mp4' | 'webm' | 'mkv';
+  /** Recording duration in milliseconds, from the media timestamps */
+  duration: number;
+  /** Quality changes made by adaptive quality, in order */
+  qualityChanges?: QualityChange[];
+  /** Output size chosen from the source size and the resolution options */
+  resolution?: ResolvedResolution;
+}
+
+/**
+ * Final encoder configuration of an audio-only recording
+ */
+export interface AudioOnlyFinalEncoderConfig {
+  kind: 'audio-only';
+  /** Audio encoder config as confirmed by the browser support check */
   audio?: AudioEncoderConfig;
   /** Final container format used for muxing */
-  container: 'mp4' | 'webm';
-  /** Actual recording duration in milliseconds */
+  container: AudioOnlyContainer;
+  /** Recording duration in milliseconds, from the media timestamps */
   duration: number;
 }
 
@@ -31,6 +65,64 @@ export interface RecordingResult {
   requestedConfig: SlowTrackRecorderConfig;
   /** The final configuration actually used (undefined if worker crashed) */
   finalConfig?: FinalEncoderConfig;
+  /** Name of the backing OPFS file when recorded with storage: 'opfs' */
+  storageFileName?: string;
+  /** IVs and tags needed to decrypt `blob` (present when encryption was enabled) */
+  encryption?: EncryptionManifest;
+  /** Key the recording was encrypted with, when it was generated for this session */
+  encryptionKey?: CryptoKey;
+  /** Checksums of `blob` computed while it was written (present when integrity was enabled) */
+  integrity?: IntegrityManifest;
+  /**
+   * Wall-clock time of media time zero (ms since Unix epoch, UTC), for lining
+   * up recordings of several participants
+   */
+  startTime?: number;
+  /** Every track of the file, for recordings made with `StartOptions.tracks` */
+  tracks?: RecordedTrack[];
+  /** Lossless copy of the audio track, sample-aligned with `blob` (with `audio.wav`) */
+  wav?: Blob;
+  /**
+   * Name of the OPFS file `wav` reads its samples from, when recorded with
+   * storage: 'opfs' (raw PCM; `wav` adds the header)
+   */
+  wavFileName?: string;
+}
+
+/**
+ * One track of a multi-track recording
+ */
+export interface RecordedTrack {
+  /** Track number in the container (1-based) */
+  number: number;
+  kind: 'video' | 'audio';
+  /** Label given in `StartOptions.tracks`, otherwise the source track's label */
+  label: string;
+  /** id of the source MediaStreamTrack */
+  sourceId: string;
+  /** Negotiated codec family */
+  codec: 'av1' | 'hevc' | 'h264' | 'vp9' | 'opus' | 'aac' | 'mp3' | 'flac';
+  /** Encoder config the track's worker confirmed */
+  encoderConfig?: VideoEncoderConfig | AudioEncoderConfig;
+  /** Number of encoded chunks written */
+  chunkCount: number;
+}
+
+/**
+ * Checksums of a recorded file, for `verifyRecording()`
+ * Covers the bytes of `RecordingResult.blob` exactly (the ciphertext, when encrypted)
+ */
+export interface IntegrityManifest {
+  /** Manifest format version */
+  version: 1;
+  /** File size in bytes */
+  size: number;
+  /** Bytes per CRC32C part; every part but the last is exactly this size */
+  partSize: number;
+  /** SHA-256 of the whole file, lowercase hex */
+  sha256: string;
+  /** CRC32C (Castagnoli) of each part, lowercase hex, in file order */
+  parts: Array<{ offset: number; size: number; crc32c: string }>;
 }
 
 /**
@@ -48,26 +140,400 @@ export interface AudioConfig {
   numberOfChannels: 1 | 2;
   /** Audio bitrate in bits per second */
   bitrate: number;
+  /**
+   * Also keep the audio as lossless 16-bit PCM, returned as a WAV file in
+   * `RecordingResult.wav` (RF64 past 4 GiB). It holds exactly what was encoded,
+   * at the encoder's sample rate and channel count, and starts at the recorded
+   * file's time zero. With storage: 'opfs' the samples are written to an OPFS
+   * file as they arrive (`RecordingResult.wavFileName`). Not written for
+   * encrypted recordings.
+   */
+  wav?: boolean;
+  /**
+   * File format for audio-only recordings (streams without a video track).
+   * 'auto' picks the format that fits the negotiated codec: .m4a for AAC,
+   * .flac for FLAC, otherwise .webm. 'auto' never picks .ogg, which has to be
+   * asked for. Ignored when video is recorded.
+   */
+  container?: 'auto' | AudioOnlyContainer;
+}
+
+/**
+ * File formats for audio-only recordings
+ * - 'm4a': AAC (or Opus) in MP4
+ * - 'webm': Opus in WebM
+ * - 'ogg': Opus in Ogg (only when asked for; 'auto' does not pick it)
+ * - 'flac': native FLAC
+ */
+export type AudioOnlyContainer = 'm4a' | 'webm' | 'ogg' | 'flac';
+
+/**
+ * Encryption configuration interface for the SlowTrackRecorder
+ * Enables client-side AES-GCM-256 encryption of the muxed recording
+ */
+export interface EncryptionConfig {
+  /**
+   * AES-GCM 256-bit key to encrypt with. If omitted, a new extractable key is
+   * generated for the session and returned as `RecordingResult.encryptionKey`.
+   */
+  key?: CryptoKey;
+  /** Plaintext bytes per encrypted chunk (default 1 MiB) */
+  chunkSize?: number;
+}
+
+/**
+ * Output resolution presets; 'auto' picks the nearest 16:9 preset at or below 1080p
+ */
+export type ResolutionTarget = 'auto' | '4k' | '1080p' | '720p' | '540p';
+
+/**
+ * How the source picture is fitted to the target size, keeping its aspect ratio
+ * - 'contain': scale the whole picture to fit inside the target size
+ * - 'cover': scale the picture to fill the target size, cropping the overflow equally from both sides
+ * - 'crop': keep the source pixel size and crop the centre to the target size
+ */
+export type ResolutionFit = 'contain' | 'cover' | 'crop';
+
+/**
+ * Output size chosen for a recording
+ */
+export interface ResolvedResolution {
+  /** Encoded size */
+  width: number;
+  height: number;
+  /** Size of the source track */
+  sourceWidth: number;
+  sourceHeight: number;
+  /** Fit mode used, or undefined when the source was scaled to the preset size */
+  fit?: ResolutionFit;
+}
+
+/**
+ * Rectangle of the output picture, in fractions of its width and height (0-1)
+ */
+export interface LayoutRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /**
+   * How the source fills the rectangle, keeping its aspect ratio (default 'cover')
+   * - 'contain': all of the source, with black bars
+   * - 'cover': all of the rectangle, cropping the source
+   */
+  fit?: 'contain' | 'cover';
+}
+
+/**
+ * How several video sources are composited into one picture
+ * - 'pip': the primary source fills the picture; the others are inset in a corner,
+ *   `size` (default 0.25) of the picture width each, `margin` (default 0.02) from its edges
+ * - 'side-by-side': equal columns, primary source first, each shown whole
+ * - 'custom': one rectangle per source, primary first, drawn in that order
+ */
+export type VideoLayout =
+  | { type: 'pip'; corner?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'; size?: number; margin?: number }
+  | { type: 'side-by-side' }
+  | { type: 'custom'; rects: LayoutRect[] };
+
+/**
+ * Mix settings for one audio input
+ */
+export interface AudioMixInput {
+  /** Linear gain, 0 or more (default 1) */
+  gain?: number;
+  /** Leave the input out of the mix (default false) */
+  muted?: boolean;
+}
+
+/**
+ * Adaptive quality configuration for the SlowTrackRecorder
+ * Steps the video encoder down under sustained backpressure and back up when it clears
+ */
+export interface AdaptiveQualityConfig {
+  /** Also step resolution down once bitrate is at its lowest step (default true; VP9/AV1 only) */
+  resolution?: boolean;
+  /** How long backpressure must last before stepping down, in ms (default 3000) */
+  stepDownAfterMs?: number;
+  /** How long the encoder must keep up before stepping back up, in ms (default 15000) */
+  stepUpAfterMs?: number;
+}
+
+/**
+ * A change of video encoder settings made by adaptive quality
+ */
+export interface QualityChange {
+  /** Media timestamp (µs) from which the new settings apply, starting on a keyframe */
+  timestamp: number;
+  /** 'down' under sustained backpressure, 'up' once it has cleared */
+  direction: 'down' | 'up';
+  /** Quality level (0 = as configured, higher = more reduced) */
+  level: number;
+  /** Settings from `timestamp` onwards */
+  bitrate: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A change of the recorded video or audio source
+ */
+export interface SourceChange {
+  kind: 'video' | 'audio';
+  /**
+   * - 'ended': the source stopped (e.g. the device was unplugged); the track
+   *   records nothing until `replaceTrack()` is called
+   * - 'replaced': `replaceTrack()` switched to a new source
+   */
+  reason: 'ended' | 'replaced';
+  /** Approximate media timestamp (µs) of the change */
+  timestamp: number;
+  /** Source before the change */
+  previous: { label: string; id: string } | null;
+  /** Source after the change; null when it ended without a replacement */
+  current: { label: string; id: string } | null;
+}
+
+/**
+ * Machine-readable cause of a 'warning'
+ *
+ * - 'SUSTAINED_BACKPRESSURE': the encoder has not kept up for a while; quality may be reduced
+ * - 'AUDIO_DISABLED': audio was asked for but could not be recorded; the recording continues without it
+ * - 'CODEC_FALLBACK': the requested codec could not be used and another was chosen
+ * - 'FRAME_LEAK': video frames are not being released, which will exhaust memory
+ * - 'TIMELINE_ESTIMATED': a track's frames are not on the session clock, so its start was placed by when its first frame arrived
+ */
+export type RecorderWarningCode = 'SUSTAINED_BACKPRESSURE' | 'AUDIO_DISABLED' | 'CODEC_FALLBACK' | 'FRAME_LEAK' | 'TIMELINE_ESTIMATED';
+
+/**
+ * A problem that does not stop the recording ('warning')
+ */
+export interface RecorderWarning {
+  code: RecorderWarningCode;
+  /** 'info' for hints, 'warning' when the output is affected, 'critical' when the recording is at risk */
+  severity: 'info' | 'warning' | 'critical';
+  /** Human-readable description */
+  message: string;
+  /** Code-specific values, e.g. the requested and selected codec */
+  details: Record<string, string | number | boolean | null>;
+  /** Approximate media timestamp (µs) of the warning */
+  timestamp: number;
+}
+
+/**
+ * Level of the audio being encoded over one metering window
+ */
+export interface AudioLevel {
+  /** Media timestamp (µs) of the start of the window */
+  timestamp: number;
+  /** RMS level per channel, linear (0 to 1 for full scale) */
+  rms: number[];
+  /** Peak absolute sample per channel, linear */
+  peak: number[];
+}
+
+/**
+ * Encode latency percentiles in ms
+ */
+export interface LatencyPercentiles {
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+/**
+ * A worker's encoder counters ('stats' from the video and audio workers)
+ */
+export interface EncoderStatsSnapshot {
+  /** Frames offered to the encoder, dropped ones included (paused time excluded) */
+  framesCaptured: number;
+  /** Chunks the encoder produced */
+  framesEncoded: number;
+  /** Frames dropped under encoder backpressure */
+  framesDropped: number;
+  /** Frames waiting in the encoder */
+  encodeQueueSize: number;
+  /**
+   * Time from `encode()` to the chunk, over recent frames; null until measured.
+   * Audio encoders that repacketize (Opus, AAC) give no per-frame latency.
+   */
+  encodeLatencyMs: LatencyPercentiles | null;
+}
+
+/**
+ * Counters for one recorded track ('stats' event, `getStats()`)
+ */
+export interface TrackStats extends EncoderStatsSnapshot {
+  /** framesDropped / framesCaptured (0 before any frame) */
+  dropRate: number;
+  /** Encoded chunks received from the worker */
+  chunksReceived: number;
+  /** Encoded bytes received from the worker */
+  bytes: number;
+  /** Average output bitrate over the media time so far (bits per second), null before any */
+  bitrate: number | null;
+}
+
+/**
+ * Recording telemetry ('stats' event, `getStats()`)
+ */
+export interface RecorderStats {
+  /** performance.now() when the stats were taken */
+  timestamp: number;
+  /** Media time recorded so far, in ms */
+  duration: number;
+  /** Video track counters (null for audio-only recordings) */
+  video: TrackStats | null;
+  /** Audio track counters (null without audio) */
+  audio: TrackStats | null;
+  /** Latest A/V drift in ms (audio media time minus video), null until measured */
+  drift: number | null;
+  /** Encoded bytes held in memory until muxing (0 while streaming to OPFS) */
+  bufferedBytes: number;
+}
+
+/**
+ * Start or end of a silence in the audio being encoded
+ */
+export interface SilenceEvent {
+  /** Media timestamp (µs) of the start of the silence ('silence-start') or of the sound that ended it ('silence-end') */
+  timestamp: number;
+  /** Length of the silence in ms ('silence-end') */
+  duration?: number;
+  /**
+   * Whether the input delivered exact zeros throughout, as a muted or
+   * disconnected microphone does, rather than just quiet sound
+   */
+  isDigitalSilence: boolean;
+}
+
+/**
+ * Attribute values on telemetry spans, metrics and events
+ */
+export type TelemetryAttributes = Record<string, string | number | boolean>;
+
+/**
+ * Trace and span a telemetry span is created under
+ */
+export interface TelemetryContext {
+  /** 32 hex digits, shared by every span of a recording */
+  traceId: string;
+  /** 16 hex digits */
+  spanId: string;
+}
+
+/**
+ * A finished span, as handed to a TelemetryExporter
+ */
+export interface TelemetrySpanData extends TelemetryContext {
+  /** Span this one is nested in; none for the recording's root span */
+  parentSpanId?: string;
+  name: string;
+  /** Wall-clock times in ms since the epoch */
+  startTime: number;
+  endTime: number;
+  attributes: TelemetryAttributes;
+  /** Points in time within the span */
+  events: Array<{ name: string; time: number; attributes: TelemetryAttributes }>;
+  /** 'error' when the operation the span covers failed */
+  status: 'ok' | 'error';
+  /** The error, for an 'error' status */
+  statusMessage?: string;
+}
+
+/**
+ * A measurement, as handed to a TelemetryExporter
+ */
+export interface TelemetryMetricData {
+  name: string;
+  value: number;
+  /** UCUM unit, e.g. 'ms', 'By', 'bit/s' or '1' */
+  unit?: string;
+  /** Wall-clock time in ms since the epoch */
+  time: number;
+  attributes: TelemetryAttributes;
+}
+
+/**
+ * Something that happened, as handed to a TelemetryExporter
+ */
+export interface TelemetryEventData {
+  name: string;
+  severity: 'info' | 'warn' | 'error';
+  /** Wall-clock time in ms since the epoch */
+  time: number;
+  attributes: TelemetryAttributes;
+  /** Span the event happened in */
+  context?: TelemetryContext;
+}
+
+/**
+ * Telemetry forwarded from a worker to the main thread's exporter ('telemetry')
+ */
+export type TelemetryRecord =
+  | { kind: 'span'; span: TelemetrySpanData }
+  | { kind: 'metric'; metric: TelemetryMetricData }
+  | { kind: 'event'; event: TelemetryEventData };
+
+/**
+ * Everything besides the key needed to decrypt an encrypted recording
+ * Safe to store alongside the ciphertext; IVs and tags are base64-encoded
+ */
+export interface EncryptionManifest {
+  /** Manifest format version */
+  version: 1;
+  algorithm: 'AES-GCM';
+  keyLength: 256;
+  /** Plaintext bytes per chunk; every chunk but the last is exactly this size */
+  chunkSize: number;
+  /** Size of the original muxed file in bytes */
+  plaintextSize: number;
+  /** MIME type of the original muxed file */
+  mimeType: string;
+  /** Per-chunk 96-bit IV and 128-bit authentication tag, in file order */
+  chunks: Array<{ iv: string; tag: string }>;
 }
 
 /**
  * Message interface for communication from main thread to video worker
  */
 export interface VideoWorkerRequest {
-  type: 'start' | 'stop';
-  config?: SlowTrackRecorderConfig & { resolutionTarget?: string };
+  type: 'start' | 'stop' | 'pause' | 'resume' | 'replace-source';
+  config?: SlowTrackRecorderConfig;
   videoStream?: ReadableStream<VideoFrame>;
   actualVideoSettings?: MediaTrackSettings;
+  /** Session epoch shared with the audio worker */
+  sessionEpoch?: SessionEpoch;
+  /** Further video sources composited with the primary one, in layout order */
+  overlayStreams?: ReadableStream<VideoFrame>[];
+  /** Layout for compositing `overlayStreams` */
+  layout?: VideoLayout;
+  /** Span to nest the worker's telemetry in ('start', 'stop'); without it the worker sends none */
+  telemetry?: TelemetryContext;
 }
 
 /**
  * Message interface for communication from main thread to audio worker
  */
 export interface AudioWorkerRequest {
-  type: 'start' | 'stop';
-  config?: SlowTrackRecorderConfig & { resolutionTarget?: string };
+  type: 'start' | 'stop' | 'pause' | 'resume' | 'set-mix-input' | 'replace-source';
+  config?: SlowTrackRecorderConfig;
   audioStream?: ReadableStream<AudioData>;
   actualAudioSettings?: MediaTrackSettings;
+  /** Container chosen by video codec negotiation; the audio codec is resolved against it */
+  containerType?: 'mp4' | 'webm';
+  /** Audio-only recordings: formats to try in order, instead of `containerType` */
+  audioOnlyContainers?: AudioOnlyContainer[];
+  /** Session epoch shared with the video worker */
+  sessionEpoch?: SessionEpoch;
+  /** Further audio inputs mixed with `audioStream` into the one encoded track */
+  mixStreams?: ReadableStream<AudioData>[];
+  /** Gain and mute per mix input, `audioStream` first */
+  mixInputs?: AudioMixInput[];
+  /** Change to one mix input ('set-mix-input') */
+  mixInput?: AudioMixInput & { index: number };
+  /** Span to nest the worker's telemetry in ('start', 'stop'); without it the worker sends none */
+  telemetry?: TelemetryContext;
 }
 
 /**
@@ -76,7 +542,7 @@ export interface AudioWorkerRequest {
  */
 export interface RecorderWorkerRequest {
   type: 'start' | 'stop';
-  config?: SlowTrackRecorderConfig & { resolutionTarget?: string };
+  config?: SlowTrackRecorderConfig;
   /** 🎯 ARCHITECTURAL REFACTOR: Direct MediaStreamTrack transfer for worker-only processing */
   videoTrack?: MediaStreamTrack;
   audioTrack?: MediaStreamTrack;
@@ -96,8 +562,20 @@ export interface RecorderWorkerRequest {
 export interface SyncData {
   videoFramesProcessed: number;
   audioFramesProcessed: number;
-  drift: number;  // Calculated as audioFrames - videoFrames (positive = audio ahead)
+  /**
+   * Audio media time minus video media time in ms (positive = audio ahead).
+   * The deprecated recorder.worker reports the same unit, from the frame
+   * durations it has encoded; frame counts are in the fields above.
+   */
+  drift: number;
   timestamp: number;  // Performance.now() when message was sent
+  /** Media time covered by each track so far, in ms */
+  videoTime?: number;
+  audioTime?: number;
+  /** Drift trend in ms per hour of media; null until enough media has been observed */
+  driftRate?: number | null;
+  /** Whether the drift trend exceeds the configured drift budget */
+  isOverBudget?: boolean;
 }
 
 /**
@@ -113,9 +591,27 @@ export interface BackpressureStatus {
  * Message interface for communication from video worker to main thread
  */
 export interface VideoWorkerResponse {
-  type: 'ready' | 'error' | 'video-chunk' | 'pressure' | 'complete';
+  type: 'ready' | 'error' | 'video-chunk' | 'pressure' | 'quality-change' | 'timeline-estimated' | 'stats' | 'telemetry' | 'log' | 'complete';
   error?: string;
+  /** Code of a typed error ('error'), for the main thread to recreate it */
+  errorCode?: RecorderErrorCode;
   finalCodec?: 'av1' | 'hevc' | 'h264' | 'vp9';
+  /** Encoder config confirmed by VideoEncoder.isConfigSupported() ('ready') */
+  encoderConfig?: VideoEncoderConfig;
+  /** Output size chosen for the source ('ready') */
+  resolution?: ResolvedResolution;
+  /** Clockwise rotation of the source frames, for the container to apply ('ready') */
+  rotation?: 0 | 90 | 180 | 270;
+  /** Applied encoder change (adaptive quality) */
+  qualityChange?: QualityChange;
+  /** Estimated start of the track after session start, in ms ('timeline-estimated') */
+  timelineOffset?: number;
+  /** Encoder counters ('stats') */
+  stats?: EncoderStatsSnapshot;
+  /** Span, metric or event for the recorder's exporter ('telemetry') */
+  telemetry?: TelemetryRecord;
+  /** Worker log entry for the recorder's sink ('log') */
+  log?: LogEntry;
   chunk?: EncodedVideoChunk;
   metadata?: EncodedVideoChunkMetadata;
   /** Backpressure status for video encoder */
@@ -129,11 +625,33 @@ export interface VideoWorkerResponse {
  * Message interface for communication from audio worker to main thread
  */
 export interface AudioWorkerResponse {
-  type: 'ready' | 'error' | 'audio-chunk' | 'complete';
+  type: 'ready' | 'error' | 'audio-chunk' | 'pcm' | 'audio-level' | 'silence-start' | 'silence-end' | 'timeline-estimated' | 'stats' | 'telemetry' | 'log' | 'complete';
   error?: string;
+  /** Code of a typed error ('error'), for the main thread to recreate it */
+  errorCode?: RecorderErrorCode;
   finalCodec?: 'opus' | 'aac' | 'mp3' | 'flac';
+  /** Encoder config confirmed by AudioEncoder.isConfigSupported() ('ready') */
+  encoderConfig?: AudioEncoderConfig;
+  /** Format chosen from `audioOnlyContainers` ('ready', audio-only recordings) */
+  container?: AudioOnlyContainer;
   chunk?: EncodedAudioChunk;
   metadata?: EncodedAudioChunkMetadata;
+  /** Interleaved 16-bit samples of an encoded frame ('pcm', with `audio.wav`) */
+  pcm?: Int16Array<ArrayBuffer>;
+  /** Media timestamp (µs) of the first sample of `pcm` */
+  timestamp?: number;
+  /** Measured level ('audio-level') */
+  level?: AudioLevel;
+  /** Silence change ('silence-start', 'silence-end') */
+  silence?: SilenceEvent;
+  /** Estimated start of the track after session start, in ms ('timeline-estimated') */
+  timelineOffset?: number;
+  /** Encoder counters ('stats') */
+  stats?: EncoderStatsSnapshot;
+  /** Span, metric or event for the recorder's exporter ('telemetry') */
+  telemetry?: TelemetryRecord;
+  /** Worker log entry for the recorder's sink ('log') */
+  log?: LogEntry;
 }
 
 /**
@@ -8,12 +8,26 @@
  * Part of the dual-worker architecture for maximum performance.
  */
 
-import type { VideoWorkerRequest, VideoWorkerResponse } from './types';
+import type { ResolvedResolution, TelemetryContext, TelemetryRecord, VideoLayout, VideoWorkerRequest, VideoWorkerResponse } from './types';
+import { getVideoCodecStrategies } from './CodecNegotiation';
+import { resolveTimelineZero } from './SessionClock';
+import type { SessionEpoch } from './SessionClock';
+import { AdaptiveQualityController, getQualityLevelSettings } from './AdaptiveQuality';
+import { resolveOutputResolution } from './Resolution';
+import type { ResolutionOptions, SourceRect } from './Resolution';
+import { computeLayerPlacements, fitInto } from './Compositor';
+import { EncoderStats } from './EncoderStats';
+import { ForwardingTelemetryExporter, Telemetry } from './Telemetry';
+import { Logger } from './Logger';
+import type { LogEntry } from './Logger';
+import { CodecUnsupportedError, RecorderError } from './RecorderError';
 
 // Video processing state
 let videoEncoder: VideoEncoder | null = null;
 let streamReader: ReadableStreamDefaultReader<VideoFrame> | null = null;
 let currentConfig: any = null;
+/** Encoder config as confirmed by VideoEncoder.isConfigSupported(), reported in 'ready' */
+let supportedEncoderConfig: VideoEncoderConfig | null = null;
 let finalCodec: 'av1' | 'hevc' | 'h264' | 'vp9' | null = null;
 let needsKeyFrame = false;
 
@@ -21,17 +35,61 @@ let needsKeyFrame = false;
 let needsScaling = false;
 let scaledWidth = 0;
 let scaledHeight = 0;
+/** Part of the source frame drawn into the canvas (null = all of it) */
+let sourceRect: SourceRect | null = null;
+/** Output size reported in 'ready' */
+let outputResolution: ResolvedResolution | null = null;
 let offscreenCanvas: OffscreenCanvas | null = null;
 let canvasContext: OffscreenCanvasRenderingContext2D | null = null;
 
+// Compositing - further sources are drawn with each primary frame, at their latest frame
+let compositionLayout: VideoLayout | null = null;
+let overlayReaders: ReadableStreamDefaultReader<VideoFrame>[] = [];
+let overlayFrames: Array<VideoFrame | null> = [];
+
+// Source format - read from the first frame before the encoder is configured
+let pendingFirstFrame: VideoFrame | null = null;
+let sourceDisplayAspectRatio: number | null = null;
+let sourceRotation: 0 | 90 | 180 | 270 = 0;
+/** Display size of the source the output is sized for */
+let outputSourceSize: { width: number; height: number } | null = null;
+
+// Source replacement - a new stream continues on the same encoder and timeline
+let replacementStream: ReadableStream<VideoFrame> | null = null;
+let replacementSettings: MediaTrackSettings | null = null;
+let wakeSourceWaiter: (() => void) | null = null;
+let isNewSource = false;
+// Set while the source differs in size from the one the output was sized for; it is letterboxed
+let letterboxSource = false;
+
 // Performance tracking
 let videoFramesProcessed = 0;
 let videoFramesDropped = 0;
-let firstVideoTimestamp: number | null = null;
+
+// Stats for the 'stats' event, posted every statsIntervalMs while recording
+let encoderStats = new EncoderStats();
+let statsIntervalMs = 1000;
+let statsTimer: number | null = null;
+
+// Telemetry goes to the main thread's exporter, under the span it last sent
+let telemetry = new Telemetry();
+let telemetryParent: TelemetryContext | null = null;
+
+// Log entries go to the main thread's sink; the level comes with 'start'
+const log = new Logger('video-worker', { sink: postLog });
+
+// Session time base - timestamps count from the epoch shared by both workers
+let sessionEpoch: SessionEpoch | null = null;
+let timelineZero: number | null = null;
 
 // Graceful shutdown control
 let shouldStop = false;
 
+// Pause control - paused time is removed from the timeline so the output has no frozen gap
+let isPaused = false;
+let pauseStartTimestamp: number | null = null;
+let totalPausedDuration = 0;
+
 // Backpressure management 
 const HIGH_WATER_MARK = 8;
 const LOW_WATER_MARK = 3;
@@ -40,100 +98,54 @@ let lastLowPressureTimestamp = 0;
 let consecutiveHighPressureCount = 0;
 const HYSTERESIS_COOLDOWN_MS = 500;
 
-/**
- * Calculate scaled dimensions that fit within hardware limits while preserving aspect ratio
- */
-function calculateScaledDimensions(
-  originalWidth: number, 
-  originalHeight: number, 
-  maxWidth = 1920, 
-  maxHeight = 1080
-) {
-  if (originalWidth <= maxWidth && originalHeight <= maxHeight) {
-    return { width: originalWidth, height: originalHeight, needsScaling: false };
-  }
-  
-  const widthRatio = maxWidth / originalWidth;
-  const heightRatio = maxHeight / originalHeight;
-  const scalingFactor = Math.min(widthRatio, heightRatio);
-  
-  const scaledWidth = Math.floor(originalWidth * scalingFactor / 2) * 2;
-  const scaledHeight = Math.floor(originalHeight * scalingFactor / 2) * 2;
-  
-  let finalWidth = Math.floor(scaledWidth / 16) * 16;
-  let finalHeight = Math.floor(scaledHeight / 16) * 16;
-  
-  if (finalWidth < 640) finalWidth = 640;
-  if (finalHeight < 360) finalHeight = 360;
-  if (finalWidth > 1920) finalWidth = 1920;
-  if (finalHeight > 1080) finalHeight = 1080;
-  
-  return { width: finalWidth, height: finalHeight, needsScaling: true };
-}
+// How long the source may take to deliver its first frame (well within the main thread's 15 s init timeout)
+const FIRST_FRAME_TIMEOUT_MS = 5000;
+
+// Adaptive quality - sustained backpressure steps the encoder down, and back up once it clears
+let qualityController: AdaptiveQualityController | null = null;
+let baseEncoderSettings: { width: number; height: number; bitrate: number } | null = null;
+let baseNeedsScaling = false;
 
 /**
- * Determine target resolution based on user selection
+ * Read the source's first frame, which gives its format, with a timeout
+ *
+ * A track that never delivers a frame (e.g. a camera held by another app)
+ * fails here with a clear error instead of as a worker-init timeout.
  */
-function determineTargetResolution(
-  originalWidth: number,
-  originalHeight: number,
-  resolutionTarget: string
-) {
-  switch (resolutionTarget) {
-    case 'auto':
-      const scaled = calculateScaledDimensions(originalWidth, originalHeight, 1920, 1080);
-      
-      if (scaled.width >= 1600) {
-        const targetWidth = 1920;
-        const targetHeight = 1080;
-        
-        const widthDifference = Math.abs(originalWidth - targetWidth) / originalWidth;
-        const heightDifference = Math.abs(originalHeight - targetHeight) / originalHeight;
-        
-        if (widthDifference > 0.02 || heightDifference > 0.02 || targetWidth < originalWidth || targetHeight < originalHeight) {
-          return { width: targetWidth, height: targetHeight, needsScaling: true };
-        } else {
-          return { width: originalWidth, height: originalHeight, needsScaling: false };
-        }
-      } else if (scaled.width >= 1200) {
-        return { width: 1280, height: 720, needsScaling: true };
-      } else if (scaled.width >= 800) {
-        return { width: 960, height: 540, needsScaling: true };
-      } else {
-        return { width: 640, height: 360, needsScaling: true };
-      }
-    
-    case '4k':
-      return { width: 3840, height: 2160, needsScaling: true };
-    
-    case '1080p':
-      const width1080Diff = Math.abs(originalWidth - 1920) / originalWidth;
-      const height1080Diff = Math.abs(originalHeight - 1080) / originalHeight;
-      if (width1080Diff <= 0.02 && height1080Diff <= 0.02 && originalWidth <= 1920 && originalHeight <= 1080) {
-        return { width: originalWidth, height: originalHeight, needsScaling: false };
-      }
-      return { width: 1920, height: 1080, needsScaling: true };
-    
-    case '720p':
-      const width720Diff = Math.abs(originalWidth - 1280) / originalWidth;
-      const height720Diff = Math.abs(originalHeight - 720) / originalHeight;
-      if (width720Diff <= 0.02 && height720Diff <= 0.02 && originalWidth <= 1280 && originalHeight <= 720) {
-        return { width: originalWidth, height: originalHeight, needsScaling: false };
-      }
-      return { width: 1280, height: 720, needsScaling: true };
-    
-    case '540p':
-      const width540Diff = Math.abs(originalWidth - 960) / originalWidth;
-      const height540Diff = Math.abs(originalHeight - 540) / originalHeight;
-      if (width540Diff <= 0.02 && height540Diff <= 0.02 && originalWidth <= 960 && originalHeight <= 540) {
-        return { width: originalWidth, height: originalHeight, needsScaling: false };
+async function readFirstFrameWithTimeout(
+  reader: ReadableStreamDefaultReader<VideoFrame>,
+  timeout = FIRST_FRAME_TIMEOUT_MS
+): Promise<ReadableStreamReadResult<VideoFrame>> {
+  return new Promise((resolve, reject) => {
+    let isResolved = false;
+
+    const timeoutId = self.setTimeout(() => {
+      if (!isResolved) {
+        isResolved = true;
+        // Cancelling settles the pending read, so a late frame is never left open
+        reader.cancel().catch(() => {});
+        reject(new Error(`Video track delivered no frame within ${timeout}ms`));
       }
-      return { width: 960, height: 540, needsScaling: true };
-    
-    default:
-      console.warn('VideoWorker: Unknown resolution target, falling back to 720p:', resolutionTarget);
-      return { width: 1280, height: 720, needsScaling: true };
-  }
+    }, timeout);
+
+    reader.read()
+      .then((result) => {
+        if (isResolved) {
+          result.value?.close();
+          return;
+        }
+        isResolved = true;
+        clearTimeout(timeoutId);
+        resolve(result);
+      })
+      .catch((error) => {
+        if (!isResolved) {
+          isResolved = true;
+          clearTimeout(timeoutId);
+          reject(error);
+        }
+      });
+  });
 }
 
 /**
@@ -143,7 +155,7 @@ async function checkVideoSupportWithTimeout(
   config: VideoEncoderConfig, 
   timeout = 2000
 ): Promise<VideoEncoderSupport> {
-  console.log(`VideoWorker: 🔍 Starting codec support check with ${timeout}ms timeout for:`, config.codec);
+  log.debug(`🔍 Starting codec support check with ${timeout}ms timeout for:`, config.codec);
   return new Promise((resolve, reject) => {
     let timeoutId: number | null = null;
     let isResolved = false;
@@ -151,7 +163,7 @@ async function checkVideoSupportWithTimeout(
     timeoutId = self.setTimeout(() => {
       if (!isResolved) {
         isResolved = true;
-        console.log(`VideoWorker: ⏱️ TIMEOUT TRIGGERED for codec ${config.codec} after ${timeout}ms`);
+        log.debug(`⏱️ TIMEOUT TRIGGERED for codec ${config.codec} after ${timeout}ms`);
         reject(new Error(`Codec support check timeout after ${timeout}ms`));
       }
     }, timeout);
@@ -163,7 +175,7 @@ async function checkVideoSupportWithTimeout(
           if (timeoutId !== null) {
             clearTimeout(timeoutId);
           }
-          console.log(`VideoWorker: ✅ Codec support check completed for ${config.codec}:`, result);
+          log.debug(`✅ Codec support check completed for ${config.codec}:`, result);
           resolve(result);
         }
       })
@@ -173,7 +185,7 @@ async function checkVideoSupportWithTimeout(
           if (timeoutId !== null) {
             clearTimeout(timeoutId);
           }
-          console.log(`VideoWorker: ❌ Codec support check failed for ${config.codec}:`, error.message);
+          log.debug(`❌ Codec support check failed for ${config.codec}:`, error.message);
           reject(error);
         }
       });
@@ -198,7 +210,18 @@ async function processFrameWithDownscaling(originalFrame: VideoFrame): Promise<v
     const bitmapTime = performance.now() - startTime;
 
     const drawStart = performance.now();
-    canvasContext.drawImage(bitmap, 0, 0, scaledWidth, scaledHeight);
+    if (compositionLayout) {
+      drawComposite(canvasContext, bitmap, compositionLayout);
+    } else if (letterboxSource) {
+      const { source, dest } = fitInto(bitmap.width, bitmap.height, { x: 0, y: 0, width: scaledWidth, height: scaledHeight }, 'contain');
+      canvasContext.fillStyle = '#000';
+      canvasContext.fillRect(0, 0, scaledWidth, scaledHeight);
+      canvasContext.drawImage(bitmap, source.x, source.y, source.width, source.height, dest.x, dest.y, dest.width, dest.height);
+    } else if (sourceRect) {
+      canvasContext.drawImage(bitmap, sourceRect.x, sourceRect.y, sourceRect.width, sourceRect.height, 0, 0, scaledWidth, scaledHeight);
+    } else {
+      canvasContext.drawImage(bitmap, 0, 0, scaledWidth, scaledHeight);
+    }
     const drawTime = performance.now() - drawStart;
 
     const frameCreateStart = performance.now();
@@ -212,9 +235,10 @@ async function processFrameWithDownscaling(originalFrame: VideoFrame): Promise<v
     const currentQueueSize = videoEncoder.encodeQueueSize;
     
     if (currentQueueSize > HIGH_WATER_MARK) {
-      console.warn(`VideoWorker: Frame dropped due to encoder backpressure (queue: ${currentQueueSize})`);
+      log.debug(`Frame dropped due to encoder backpressure (queue: ${currentQueueSize})`);
       needsKeyFrame = true;
       videoFramesDropped++;
+      encoderStats.recordDropped();
       
       if (!isThrottled) {
         isThrottled = true;
@@ -248,11 +272,12 @@ async function processFrameWithDownscaling(originalFrame: VideoFrame): Promise<v
 
     // Encode the scaled frame
     const encodeStart = performance.now();
+    encoderStats.recordEncodeStart(scaledFrame.timestamp, encodeStart);
     
     if (needsKeyFrame) {
       videoEncoder.encode(scaledFrame, { keyFrame: true });
       needsKeyFrame = false;
-      console.log('VideoWorker: Forced keyframe in downscaling path');
+      log.debug('Forced keyframe in downscaling path');
     } else {
       videoEncoder.encode(scaledFrame);
     }
@@ -264,13 +289,13 @@ async function processFrameWithDownscaling(originalFrame: VideoFrame): Promise<v
     // Performance logging every 150 frames
     if (videoFramesProcessed % 150 === 0) {
       const totalTime = bitmapTime + drawTime + frameCreateTime + encodeTime;
-      console.log(`📊 VideoWorker downscaling performance - Total: ${totalTime.toFixed(1)}ms`);
+      log.debug(`📊 Downscaling performance - Total: ${totalTime.toFixed(1)}ms`);
     }
 
     videoFramesProcessed++;
 
   } catch (error) {
-    console.error('VideoWorker: Error in processFrameWithDownscaling:', error);
+    log.error('Error in processFrameWithDownscaling:', error);
     if (bitmap) bitmap.close();
     if (scaledFrame) scaledFrame.close();
     originalFrame.close();
@@ -280,47 +305,275 @@ async function processFrameWithDownscaling(originalFrame: VideoFrame): Promise<v
   }
 }
 
+/**
+ * Draw the primary frame and the latest frame of each overlay source
+ */
+function drawComposite(context: OffscreenCanvasRenderingContext2D, primary: ImageBitmap, layout: VideoLayout): void {
+  const placements = computeLayerPlacements(layout, scaledWidth, scaledHeight, [
+    { width: primary.width, height: primary.height },
+    ...overlayFrames.map(frame => frame && { width: frame.displayWidth, height: frame.displayHeight })
+  ]);
+
+  context.fillStyle = '#000';
+  context.fillRect(0, 0, scaledWidth, scaledHeight);
+  placements.forEach((placement, index) => {
+    const image = index === 0 ? primary : overlayFrames[index - 1];
+    if (!placement || !image) {
+      return;
+    }
+    const { source, dest } = placement;
+    context.drawImage(image, source.x, source.y, source.width, source.height, dest.x, dest.y, dest.width, dest.height);
+  });
+}
+
+/**
+ * Keep the latest frame of each overlay source until the worker stops
+ * 
+ * Overlays never pace the output: a frame is drawn as often as primary frames
+ * arrive, and replaced whenever its source delivers a new one.
+ */
+function startOverlayReaders(streams: ReadableStream<VideoFrame>[]): void {
+  overlayReaders = streams.map(stream => stream.getReader());
+  overlayFrames = streams.map(() => null);
+
+  overlayReaders.forEach(async (reader, index) => {
+    try {
+      while (!shouldStop) {
+        const { done, value: frame } = await reader.read();
+        if (done || !frame) {
+          break;
+        }
+        overlayFrames[index]?.close();
+        overlayFrames[index] = frame;
+      }
+    } catch (error) {
+      log.warn(`Overlay source ${index + 1} failed, no longer updating it:`, error);
+    }
+  });
+  log.info(`🖼️ Compositing ${streams.length} overlay source(s)`);
+}
+
+/**
+ * Stop reading overlay sources and release their frames
+ */
+function stopOverlayReaders(): void {
+  for (const reader of overlayReaders) {
+    reader.cancel().catch(() => {});
+  }
+  for (const frame of overlayFrames) {
+    frame?.close();
+  }
+  overlayReaders = [];
+  overlayFrames = [];
+}
+
+/**
+ * Read the display aspect ratio and rotation of the source from its first frame
+ * 
+ * Track settings only give the pixel size, so a camera with non-square pixels
+ * or a rotated sensor is only recognisable from its frames. `rotation` is a
+ * recent VideoFrame addition and is read defensively.
+ */
+function readSourceFormat(frame: VideoFrame, config: ResolutionOptions & { width: number; height: number }): void {
+  sourceDisplayAspectRatio = frame.displayWidth > 0 && frame.displayHeight > 0
+    ? frame.displayWidth / frame.displayHeight
+    : config.width / config.height;
+
+  outputSourceSize = { width: frame.displayWidth, height: frame.displayHeight };
+  const rotation = (frame as VideoFrame & { rotation?: number }).rotation ?? 0;
+  const normalized = ((Math.round(rotation / 90) * 90) % 360 + 360) % 360;
+  sourceRotation = normalized as 0 | 90 | 180 | 270;
+
+  log.debug('Source format:', {
+    coded: { width: frame.codedWidth, height: frame.codedHeight },
+    display: { width: frame.displayWidth, height: frame.displayHeight },
+    rotation: sourceRotation
+  });
+}
+
+/**
+ * Display size to encode with at the given coded size
+ * 
+ * Empty while the coded size already has the source's display aspect ratio
+ * (square pixels); otherwise the display width keeps that aspect ratio so
+ * players stretch the picture back to shape.
+ */
+function getDisplaySize(width: number, height: number): { displayWidth?: number; displayHeight?: number } {
+  if (sourceDisplayAspectRatio === null || Math.abs(sourceDisplayAspectRatio / (width / height) - 1) < 0.01) {
+    return {};
+  }
+  return { displayWidth: Math.round(height * sourceDisplayAspectRatio), displayHeight: height };
+}
+
+/**
+ * Create the OffscreenCanvas frames are downscaled into, at the given size
+ */
+function setupScalingCanvas(width: number, height: number): void {
+  offscreenCanvas = new OffscreenCanvas(width, height);
+  canvasContext = offscreenCanvas.getContext('2d', { 
+    alpha: false,
+    desynchronized: true,
+    willReadFrequently: false
+  });
+  if (!canvasContext) {
+    throw new Error('Failed to create optimized 2D context for downscaling canvas');
+  }
+  
+  canvasContext.imageSmoothingEnabled = false;
+  canvasContext.imageSmoothingQuality = 'low';
+}
+
+/**
+ * Reconfigure the encoder for an adaptive quality level
+ * 
+ * The new settings start on a forced keyframe. Frames already queued are
+ * encoded with the previous settings.
+ * 
+ * @param level - Quality level to apply
+ * @param previousLevel - Level being replaced
+ * @param timestamp - Media timestamp (µs) of the next frame to encode
+ */
+function applyQualityLevel(level: number, previousLevel: number, timestamp: number): void {
+  if (!videoEncoder || !currentConfig || !baseEncoderSettings) {
+    return;
+  }
+
+  const settings = getQualityLevelSettings(level, baseEncoderSettings);
+  if (settings.width !== scaledWidth || settings.height !== scaledHeight) {
+    scaledWidth = settings.width;
+    scaledHeight = settings.height;
+    needsScaling = baseNeedsScaling || settings.width !== baseEncoderSettings.width || settings.height !== baseEncoderSettings.height;
+    if (needsScaling) {
+      setupScalingCanvas(scaledWidth, scaledHeight);
+    }
+  }
+
+  currentConfig = { ...currentConfig, ...settings, ...getDisplaySize(settings.width, settings.height) };
+  videoEncoder.configure(currentConfig);
+  needsKeyFrame = true;
+
+  const direction = level > previousLevel ? 'down' : 'up';
+  log.info(`${direction === 'down' ? '📉' : '📈'} Quality level ${previousLevel} → ${level}: ${settings.width}x${settings.height} @ ${settings.bitrate}bps`);
+  self.postMessage({
+    type: 'quality-change',
+    qualityChange: { timestamp, direction, level, ...settings }
+  });
+}
+
+/**
+ * Wait for a replacement source after the current one ended, and switch to it
+ * 
+ * @returns false when recording stopped instead
+ */
+async function switchToReplacementSource(): Promise<boolean> {
+  if (!replacementStream && !shouldStop) {
+    log.warn('⚠️ Video source ended, waiting for a replacement');
+    await new Promise<void>(resolve => {
+      wakeSourceWaiter = resolve;
+    });
+    wakeSourceWaiter = null;
+  }
+  if (shouldStop || !replacementStream) {
+    return false;
+  }
+
+  streamReader?.releaseLock();
+  streamReader = replacementStream.getReader();
+  replacementStream = null;
+  isNewSource = true;
+  needsKeyFrame = true;
+
+  // The track's coded size is fixed, but the encoder can follow the new frame rate
+  const frameRate = replacementSettings?.frameRate;
+  if (videoEncoder && currentConfig && frameRate && Math.round(frameRate) !== Math.round(currentConfig.framerate ?? 0)) {
+    currentConfig = { ...currentConfig, framerate: Math.round(frameRate) };
+    videoEncoder.configure(currentConfig);
+    log.debug(`🔁 Encoder reconfigured for ${currentConfig.framerate}fps`);
+  }
+  replacementSettings = null;
+  log.info('🔁 Switched to replacement video source');
+  return true;
+}
+
+/**
+ * Fit the first frame of a replacement source into the output
+ * 
+ * A source the size of the original goes through the original path; any other
+ * size is letterboxed into the output. Every container keeps one frame size per
+ * track (the MP4 sample entry, the WebM/Matroska track header, which the OPFS
+ * muxer writes as recording starts), so the output cannot follow the source.
+ * Compositing already places every frame by its own size.
+ */
+function adaptToNewSource(frame: VideoFrame): void {
+  isNewSource = false;
+  if (compositionLayout) {
+    return;
+  }
+
+  const matchesOutput = outputSourceSize !== null
+    && frame.displayWidth === outputSourceSize.width
+    && frame.displayHeight === outputSourceSize.height;
+  letterboxSource = !matchesOutput;
+  if (letterboxSource && !needsScaling) {
+    setupScalingCanvas(scaledWidth, scaledHeight);
+  }
+  if (letterboxSource) {
+    needsScaling = true;
+    baseNeedsScaling = true;
+  }
+  log.info(`🔁 Replacement source is ${frame.displayWidth}x${frame.displayHeight}${letterboxSource ? `, letterboxed into ${scaledWidth}x${scaledHeight}` : ''}`);
+}
+
 /**
  * Setup video encoder with codec negotiation
  */
 async function setupVideoEncoder(config: any): Promise<void> {
-  console.log('VideoWorker: Setting up video encoder with config:', config);
+  log.debug('Setting up video encoder with config:', config);
 
   // Determine target resolution
   const originalWidth = config.width;
   const originalHeight = config.height;
-  const resolutionTarget = config.resolutionTarget || 'auto';
-  const targetDimensions = determineTargetResolution(originalWidth, originalHeight, resolutionTarget);
+  const targetDimensions = resolveOutputResolution(originalWidth, originalHeight, config);
   
   needsScaling = targetDimensions.needsScaling;
   scaledWidth = targetDimensions.width;
   scaledHeight = targetDimensions.height;
+  sourceRect = targetDimensions.sourceRect;
+  outputResolution = {
+    width: scaledWidth,
+    height: scaledHeight,
+    sourceWidth: originalWidth,
+    sourceHeight: originalHeight,
+    fit: targetDimensions.fit
+  };
   
-  console.log('VideoWorker: Resolution determination:', {
+  // Cropping changes the aspect ratio the picture is displayed at
+  if (sourceRect && sourceDisplayAspectRatio !== null) {
+    sourceDisplayAspectRatio *= (sourceRect.width / sourceRect.height) / (originalWidth / originalHeight);
+  }
+  
+  // A composite is always drawn, each source keeping its aspect ratio, so its pixels are square
+  if (compositionLayout) {
+    needsScaling = true;
+    sourceRect = null;
+    sourceDisplayAspectRatio = null;
+  }
+  
+  log.debug('Resolution determination:', {
     original: { width: originalWidth, height: originalHeight },
-    target: resolutionTarget,
+    target: config.resolutionTarget ?? 'auto',
+    fit: targetDimensions.fit,
     final: { width: scaledWidth, height: scaledHeight },
+    sourceRect,
     needsScaling
   });
   
   // Create OffscreenCanvas if scaling needed
   if (needsScaling) {
-    offscreenCanvas = new OffscreenCanvas(scaledWidth, scaledHeight);
-    canvasContext = offscreenCanvas.getContext('2d', { 
-      alpha: false,
-      desynchronized: true,
-      willReadFrequently: false
-    });
-    if (!canvasContext) {
-      throw new Error('Failed to create optimized 2D context for downscaling canvas');
-    }
-    
-    canvasContext.imageSmoothingEnabled = false;
-    canvasContext.imageSmoothingQuality = 'low';
-    
-    console.log('VideoWorker: 🎨 OffscreenCanvas scaling enabled');
+    setupScalingCanvas(scaledWidth, scaledHeight);
+    log.debug('🎨 OffscreenCanvas scaling enabled');
   } else {
-    console.log('VideoWorker: 🚀 Direct encoding path enabled - maximum performance');
+    log.debug('🚀 Direct encoding path enabled - maximum performance');
   }
 
   // Codec selection logic
@@ -332,6 +585,7 @@ async function setupVideoEncoder(config: any): Promise<void> {
   const baseEncoderConfig = {
     width: scaledWidth,
     height: scaledHeight,  
+    ...getDisplaySize(scaledWidth, scaledHeight),
     bitrate: config.bitrate,
     framerate: validatedFrameRate,
     keyframeInterval: keyframeIntervalFrames,
@@ -341,43 +595,19 @@ async function setupVideoEncoder(config: any): Promise<void> {
 
   let encoderConfig: any = null;
 
-  // Codec strategies in priority order
-  const codecStrategies = [
-    {
-      name: 'av1',
-      codecs: ['av01.0.04M.08'],
-      muxerType: 'webm'
-    },
-    {
-      name: 'hevc',
-      codecs: [
-        'hvc1.1.6.L93.B0',
-        'hev1.1.6.L93.B0',
-        'hvc1.1.6.L120.B0',
-        'hev1.1.6.L120.B0'
-      ],
-      muxerType: 'mp4'
-    },
-    {
-      name: 'h264',
-      codecs: [
-        'avc1.42001f',
-        'avc1.42E01E', 
-        'avc1.4D401E',
-        'avc1.640028'
-      ],
-      muxerType: 'mp4'
-    },
-    {
-      name: 'vp9',
-      codecs: ['vp09.00.10.08'],
-      muxerType: 'webm'
-    }
-  ];
+  // Codec strategies in priority order, with an explicit codecSelection first
+  const codecStrategies = getVideoCodecStrategies(config.codecSelection);
+  const negotiationSpan = telemetry.startSpan('video.codec_negotiation', {
+    'codec.selection': config.codecSelection ?? 'auto',
+    'video.width': scaledWidth,
+    'video.height': scaledHeight,
+    'video.frame_rate': validatedFrameRate,
+    'video.hardware_acceleration': baseEncoderConfig.hardwareAcceleration
+  }, telemetryParent);
 
   // Try each strategy
   for (const strategy of codecStrategies) {
-    console.log(`VideoWorker: Attempting ${strategy.name.toUpperCase()} codec configuration...`);
+    log.debug(`Attempting ${strategy.name.toUpperCase()} codec configuration...`);
     
     for (const codec of strategy.codecs) {
       try {
@@ -386,12 +616,15 @@ async function setupVideoEncoder(config: any): Promise<void> {
         
         if (configSupport.supported) {
           encoderConfig = testConfig;
-          finalCodec = strategy.name as 'av1' | 'hevc' | 'h264' | 'vp9';
-          console.log(`VideoWorker: ✅ Selected codec: ${finalCodec} (${codec})`);
+          supportedEncoderConfig = configSupport.config ?? testConfig;
+          finalCodec = strategy.name;
+          log.info(`✅ Selected codec: ${finalCodec} (${codec})`);
           break;
         }
+        negotiationSpan.addEvent('codec.unsupported', { 'codec.string': codec });
       } catch (error) {
-        console.warn(`VideoWorker: ${strategy.name.toUpperCase()} codec ${codec} failed:`, error instanceof Error ? error.message : String(error));
+        log.warn(`${strategy.name.toUpperCase()} codec ${codec} failed:`, error instanceof Error ? error.message : String(error));
+        negotiationSpan.addEvent('codec.unsupported', { 'codec.string': codec, 'error.message': error instanceof Error ? error.message : String(error) });
       }
     }
     
@@ -399,15 +632,31 @@ async function setupVideoEncoder(config: any): Promise<void> {
   }
 
   if (!encoderConfig || !finalCodec) {
-    throw new Error('No supported video codec found');
+    const error = new CodecUnsupportedError('No supported video codec found');
+    negotiationSpan.end(error);
+    throw error;
   }
+  negotiationSpan.setAttributes({ 'codec.name': finalCodec, 'codec.string': encoderConfig.codec });
+  negotiationSpan.end();
 
   currentConfig = encoderConfig;
+
+  // Resolution steps are limited to VP9/AV1: MP4 keeps one avcC/hvcC for the whole track
+  baseEncoderSettings = { width: scaledWidth, height: scaledHeight, bitrate: config.bitrate };
+  baseNeedsScaling = needsScaling;
+  qualityController = config.adaptiveQuality
+    ? new AdaptiveQualityController(
+        typeof config.adaptiveQuality === 'object' ? config.adaptiveQuality : {},
+        finalCodec === 'vp9' || finalCodec === 'av1'
+      )
+    : null;
   
   // Create VideoEncoder
   videoEncoder = new VideoEncoder({
     output: (chunk: EncodedVideoChunk, metadata?: EncodedVideoChunkMetadata) => {
       try {
+        encoderStats.recordEncoded(chunk.timestamp, performance.now());
+        
         // Send video chunk to main thread
         self.postMessage({
           type: 'video-chunk',
@@ -415,7 +664,7 @@ async function setupVideoEncoder(config: any): Promise<void> {
           metadata: metadata || {}
         });
       } catch (error) {
-        console.error('VideoWorker: Error sending video chunk:', error);
+        log.error('Error sending video chunk:', error);
         self.postMessage({ 
           type: 'error', 
           error: error instanceof Error ? error.message : String(error) 
@@ -423,59 +672,129 @@ async function setupVideoEncoder(config: any): Promise<void> {
       }
     },
     error: (error: Error) => {
-      console.error('VideoWorker: VideoEncoder error:', error);
+      log.error('VideoEncoder error:', error);
+      telemetry.recordEvent('video.encoder_error', { 'error.message': error.message }, telemetryParent, 'error');
       self.postMessage({ type: 'error', error: error.message });
     }
   });
 
   // Configure encoder
-  console.log(`📊 VideoWorker: Configuring VideoEncoder - Pre-config state: ${videoEncoder.state}`);
+  log.debug(`📊 Configuring VideoEncoder - Pre-config state: ${videoEncoder.state}`);
   videoEncoder.configure(encoderConfig);
-  console.log(`📊 VideoWorker: VideoEncoder configured - Post-config state: ${videoEncoder.state}`);
+  log.debug(`📊 VideoEncoder configured - Post-config state: ${videoEncoder.state}`);
+}
+
+/**
+ * Pick the timeline zero from the track's first frame
+ * 
+ * Tells the main thread when the frame clock is not the session's, since the
+ * track's start is then only estimated.
+ */
+function startTimeline(firstTimestamp: number): number {
+  const { zero, isEstimated } = resolveTimelineZero(sessionEpoch, firstTimestamp, performance.timeOrigin + performance.now());
+  const offsetMs = (firstTimestamp - zero) / 1000;
+  if (isEstimated) {
+    log.warn(`⚠️ Frame timestamps are not on the session clock, placing the first frame by its arrival (${offsetMs.toFixed(0)}ms after session start)`);
+    const message: VideoWorkerResponse = { type: 'timeline-estimated', timelineOffset: offsetMs };
+    self.postMessage(message);
+  } else if (sessionEpoch) {
+    log.debug(`First frame ${offsetMs.toFixed(1)}ms after session start`);
+  }
+  return zero;
 }
 
 /**
  * Start video processing from ReadableStream
  */
-async function startVideoProcessing(videoStream: ReadableStream<VideoFrame>): Promise<void> {
+async function startVideoProcessing(): Promise<void> {
   try {
-    console.log('VideoWorker: 🚀 Starting dedicated video processing');
+    log.info('🚀 Starting dedicated video processing');
     
-    // Use the stream provided by main thread
-    streamReader = videoStream.getReader();
+    if (!streamReader) {
+      throw new Error('Video stream reader not initialized');
+    }
     
     // Reset state
     videoFramesProcessed = 0;
     videoFramesDropped = 0;
-    firstVideoTimestamp = null;
+    encoderStats = new EncoderStats();
+    statsTimer = self.setInterval(postStats, statsIntervalMs);
+    timelineZero = null;
+    pauseStartTimestamp = null;
+    totalPausedDuration = 0;
     
-    console.log('VideoWorker: 🚀 Video processing loop starting');
+    log.debug('🚀 Video processing loop starting');
     
     // Main processing loop
     while (true) {
       // 🎯 GRACEFUL SHUTDOWN: Check stop flag at start of each iteration
       if (shouldStop) {
-        console.log('🚀 VideoWorker: Terminating processing loop gracefully');
+        log.debug('🚀 Terminating processing loop gracefully');
         break;
       }
       
-      const { done, value: frame } = await streamReader.read();
+      // The frame read to determine the source format comes first
+      const { done, value: frame } = pendingFirstFrame
+        ? { done: false, value: pendingFirstFrame }
+        : await streamReader.read();
+      pendingFirstFrame = null;
       
+      // The source ended (device unplugged) or is being replaced: keep the encoder and timeline for the next one
       if (done) {
-        console.log('VideoWorker: 🚀 Video stream ended');
+        log.info('🚀 Video stream ended');
+        if (await switchToReplacementSource()) {
+          continue;
+        }
         break;
       }
       
       if (!frame) {
-        console.warn('VideoWorker: Received null frame, skipping');
+        log.warn('Received null frame, skipping');
         continue;
       }
       
-      // Apply timestamp normalization
-      if (firstVideoTimestamp === null) {
-        firstVideoTimestamp = frame.timestamp;
+      if (isNewSource) {
+        adaptToNewSource(frame);
+      }
+      
+      // While paused, keep draining the track so it doesn't stall, but discard frames
+      if (isPaused) {
+        if (pauseStartTimestamp === null) {
+          pauseStartTimestamp = frame.timestamp;
+        }
+        frame.close();
+        continue;
+      }
+      
+      // First frame after resume: fold the paused span into the offset and restart on a keyframe
+      if (pauseStartTimestamp !== null) {
+        totalPausedDuration += frame.timestamp - pauseStartTimestamp;
+        pauseStartTimestamp = null;
+        needsKeyFrame = true;
+        log.info(`▶️ Resumed, total paused duration ${(totalPausedDuration / 1000).toFixed(0)}ms`);
+      }
+      
+      // Apply timestamp normalization against the shared session time base
+      if (timelineZero === null) {
+        timelineZero = startTimeline(frame.timestamp);
+      }
+      const normalizedTimestamp = frame.timestamp - timelineZero - totalPausedDuration;
+      
+      // Captured before the session started
+      if (normalizedTimestamp < 0) {
+        frame.close();
+        continue;
+      }
+      
+      // Adaptive quality reacts to sustained pressure; short spikes are handled by dropping frames below
+      if (qualityController && videoEncoder) {
+        const queueSize = videoEncoder.encodeQueueSize;
+        const previousLevel = qualityController.level;
+        const level = qualityController.update(queueSize > HIGH_WATER_MARK, queueSize <= LOW_WATER_MARK, performance.now());
+        if (level !== null) {
+          applyQualityLevel(level, previousLevel, normalizedTimestamp);
+        }
       }
-      const normalizedTimestamp = frame.timestamp - firstVideoTimestamp;
       
       // Create normalized frame for encoding
       const normalizedFrame = new VideoFrame(frame, {
@@ -496,8 +815,9 @@ async function startVideoProcessing(videoStream: ReadableStream<VideoFrame>): Pr
           
           // Backpressure check
           if (currentQueueSize > HIGH_WATER_MARK) {
-            console.warn(`VideoWorker: Dropping frame due to backpressure (queue: ${currentQueueSize})`);
+            log.debug(`Dropping frame due to backpressure (queue: ${currentQueueSize})`);
             videoFramesDropped++;
+            encoderStats.recordDropped();
             needsKeyFrame = true;
             
             if (!isThrottled) {
@@ -528,10 +848,11 @@ async function startVideoProcessing(videoStream: ReadableStream<VideoFrame>): Pr
           }
           
           // Encode frame
+          encoderStats.recordEncodeStart(normalizedFrame.timestamp, performance.now());
           if (needsKeyFrame) {
             videoEncoder.encode(normalizedFrame, { keyFrame: true });
             needsKeyFrame = false;
-            console.log('VideoWorker: 🚀 Forced keyframe in direct encoding path');
+            log.debug('🚀 Forced keyframe in direct encoding path');
           } else {
             videoEncoder.encode(normalizedFrame);
           }
@@ -541,59 +862,102 @@ async function startVideoProcessing(videoStream: ReadableStream<VideoFrame>): Pr
           
           // Periodic performance logging
           if (videoFramesProcessed % 150 === 0) {
-            console.log(`📊 VideoWorker: Processed ${videoFramesProcessed} frames (direct encoding)`);
+            log.debug(`📊 Processed ${videoFramesProcessed} frames (direct encoding)`);
           }
         }
       }
     }
     
   } catch (error) {
-    console.error('VideoWorker: Error in video processing:', error);
+    log.error('Error in video processing:', error);
     self.postMessage({ 
       type: 'error', 
       error: error instanceof Error ? error.message : String(error) 
     });
   } finally {
     // 🎯 GRACEFUL SHUTDOWN: Cleanup happens here after loop exits
+    pendingFirstFrame?.close();
+    pendingFirstFrame = null;
+    stopOverlayReaders();
+    
     if (streamReader) {
       try {
         streamReader.releaseLock();
         streamReader = null;
-        console.log('VideoWorker: Stream reader released');
+        log.debug('Stream reader released');
       } catch (releaseError) {
-        console.warn('VideoWorker: Reader already released');
+        log.debug('Reader already released');
       }
     }
     
     // Flush and close encoder
     if (videoEncoder) {
+      const flushSpan = telemetry.startSpan('video.encoder_flush', { 'encoder.queue_size': videoEncoder.encodeQueueSize }, telemetryParent);
       try {
-        console.log('VideoWorker: Flushing VideoEncoder...');
+        log.debug('Flushing VideoEncoder...');
         await videoEncoder.flush();
         videoEncoder.close();
         videoEncoder = null;
-        console.log('VideoWorker: VideoEncoder closed');
+        log.debug('VideoEncoder closed');
+        flushSpan.end();
       } catch (encoderError) {
-        console.warn('VideoWorker: Error closing encoder:', encoderError);
+        log.warn('Error closing encoder:', encoderError);
+        flushSpan.end(encoderError);
       }
     }
     
-    console.log('VideoWorker: Processing complete, sending completion signal');
+    // Final counters, with every queued frame encoded
+    if (statsTimer !== null) {
+      clearInterval(statsTimer);
+      statsTimer = null;
+    }
+    postStats();
+    
+    log.info('Processing complete, sending completion signal');
     self.postMessage({ type: 'complete' });
   }
 }
 
+/**
+ * Post the encoder counters for the 'stats' event
+ */
+function postStats(): void {
+  const message: VideoWorkerResponse = { type: 'stats', stats: encoderStats.snapshot(videoEncoder?.encodeQueueSize ?? 0) };
+  self.postMessage(message);
+}
+
+/**
+ * Post a span, metric or event for the main thread's exporter
+ */
+function postTelemetry(record: TelemetryRecord): void {
+  const message: VideoWorkerResponse = { type: 'telemetry', telemetry: record };
+  self.postMessage(message);
+}
+
+/**
+ * Post a log entry for the main thread's sink
+ */
+function postLog(entry: LogEntry): void {
+  const message: VideoWorkerResponse = { type: 'log', log: entry };
+  try {
+    self.postMessage(message);
+  } catch {
+    // Logged values that cannot be cloned are sent as text
+    self.postMessage({ ...message, log: { ...entry, data: entry.data.map(value => String(value)) } });
+  }
+}
+
 /**
  * Handle incoming messages from main thread
  */
 self.onmessage = async (event: MessageEvent<VideoWorkerRequest>) => {
-  console.log('🔔 VideoWorker: Received message:', event.data.type);
+  log.debug('🔔 Received message:', event.data.type);
   try {
     const { data } = event;
     
     switch (data.type) {
       case 'start':
-        console.log('🎬 VideoWorker: Processing start message...');
+        log.debug('🎬 Processing start message...');
         
         if (!data.config) {
           throw new Error('No configuration provided');
@@ -603,8 +967,32 @@ self.onmessage = async (event: MessageEvent<VideoWorkerRequest>) => {
           throw new Error('No video stream provided');
         }
         
-        // Reset shutdown flag for new recording
+        // Reset shutdown and pause flags for new recording
         shouldStop = false;
+        isPaused = false;
+        sessionEpoch = data.sessionEpoch ?? null;
+        replacementStream = null;
+        isNewSource = false;
+        letterboxSource = false;
+        statsIntervalMs = typeof data.config.stats === 'object' ? data.config.stats.intervalMs ?? 1000 : 1000;
+        log.level = data.config.logLevel ?? log.level;
+        telemetryParent = data.telemetry ?? null;
+        telemetry = new Telemetry(data.telemetry ? new ForwardingTelemetryExporter(postTelemetry) : undefined);
+        
+        // Use the stream provided by main thread; its first frame gives the source format
+        streamReader = data.videoStream.getReader();
+        sourceDisplayAspectRatio = null;
+        sourceRotation = 0;
+        outputSourceSize = null;
+        compositionLayout = data.overlayStreams?.length ? data.layout ?? { type: 'pip' } : null;
+        if (compositionLayout) {
+          startOverlayReaders(data.overlayStreams!);
+        }
+        const first = await readFirstFrameWithTimeout(streamReader);
+        if (!first.done && first.value) {
+          pendingFirstFrame = first.value;
+          readSourceFormat(first.value, data.config);
+        }
         
         // Setup video encoder
         await setupVideoEncoder(data.config);
@@ -612,32 +1000,67 @@ self.onmessage = async (event: MessageEvent<VideoWorkerRequest>) => {
         // Send ready signal with codec info
         self.postMessage({
           type: 'ready',
-          finalCodec: finalCodec
+          finalCodec: finalCodec,
+          encoderConfig: supportedEncoderConfig,
+          resolution: outputResolution,
+          rotation: sourceRotation
         });
         
         // Start video processing (will handle its own cleanup via finally block)
-        await startVideoProcessing(data.videoStream);
+        await startVideoProcessing();
         
         // After processing completes, terminate worker
         self.close();
         break;
       
       case 'stop':
-        console.log('🛑 VideoWorker: Stop signal received, setting graceful shutdown flag');
+        log.debug('🛑 Stop signal received, setting graceful shutdown flag');
         shouldStop = true;
+        telemetryParent = data.telemetry ?? telemetryParent;
+        wakeSourceWaiter?.();
         // Note: All cleanup will happen in startVideoProcessing's finally block
         break;
       
+      case 'pause':
+        log.debug('⏸️ Pause signal received, discarding frames until resume');
+        isPaused = true;
+        break;
+      
+      case 'resume':
+        log.debug('▶️ Resume signal received');
+        isPaused = false;
+        break;
+      
+      case 'replace-source':
+        if (!data.videoStream) {
+          throw new Error('No video stream provided');
+        }
+        log.debug('🔁 Replacement source received');
+        replacementStream?.cancel().catch(() => {});
+        replacementStream = data.videoStream;
+        replacementSettings = data.actualVideoSettings ?? null;
+        if (wakeSourceWaiter) {
+          wakeSourceWaiter();
+        } else {
+          // Ending the current source hands over to the replacement in the processing loop
+          streamReader?.cancel().catch(() => {});
+        }
+        break;
+      
       default:
-        console.warn('VideoWorker: Unknown message type:', data.type);
+        log.warn('Unknown message type:', data.type);
     }
   } catch (error) {
-    console.error('VideoWorker: Error handling message:', error);
+    log.error('Error handling message:', error);
+    pendingFirstFrame?.close();
+    pendingFirstFrame = null;
+    stopOverlayReaders();
     self.postMessage({ 
       type: 'error', 
-      error: error instanceof Error ? error.message : String(error) 
+      error: error instanceof Error ? error.message : String(error),
+      errorCode: error instanceof RecorderError ? error.code : undefined
     });
   }
 };
 
-console.log('✅ VideoWorker: Dedicated video processing worker ready');
+log.debug('✅ Dedicated video processing worker ready');